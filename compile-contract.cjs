@@ -2,16 +2,39 @@ const solc = require('solc');
 const fs = require('fs');
 const path = require('path');
 
-const contractPath = path.join(__dirname, 'src/contracts/FreelanceEscrow.sol');
-const source = fs.readFileSync(contractPath, 'utf8');
+// Each entry compiles one contract into its own ABI/bytecode module under src/contracts
+const contracts = [
+  {
+    source: 'FreelanceEscrow.sol',
+    name: 'FreelanceEscrow',
+    output: 'escrow-abi.ts',
+    exportPrefix: 'ESCROW',
+  },
+  {
+    source: 'EscrowFactory.sol',
+    name: 'EscrowFactory',
+    output: 'escrow-factory-abi.ts',
+    exportPrefix: 'ESCROW_FACTORY',
+  },
+  {
+    source: 'ProjectToken.sol',
+    name: 'ProjectToken',
+    output: 'project-token-abi.ts',
+    exportPrefix: 'PROJECT_TOKEN',
+  },
+];
+
+const sources = {};
+contracts.forEach(({ source }) => {
+  const contractPath = path.join(__dirname, 'src/contracts', source);
+  sources[source] = {
+    content: fs.readFileSync(contractPath, 'utf8')
+  };
+});
 
 const input = {
   language: 'Solidity',
-  sources: {
-    'FreelanceEscrow.sol': {
-      content: source
-    }
-  },
+  sources,
   settings: {
     outputSelection: {
       '*': {
@@ -25,7 +48,7 @@ const input = {
   }
 };
 
-console.log('Compiling contract...');
+console.log('Compiling contracts...');
 const output = JSON.parse(solc.compile(JSON.stringify(input)));
 
 if (output.errors) {
@@ -37,18 +60,20 @@ if (output.errors) {
   }
 }
 
-const contract = output.contracts['FreelanceEscrow.sol']['FreelanceEscrow'];
-const abi = contract.abi;
-const bytecode = '0x' + contract.evm.bytecode.object;
+contracts.forEach(({ source, name, output: outputFile, exportPrefix }) => {
+  const contract = output.contracts[source][name];
+  const abi = contract.abi;
+  const bytecode = '0x' + contract.evm.bytecode.object;
 
-const outputContent = `export const ESCROW_ABI = ${JSON.stringify(abi, null, 2)} as const;
+  const outputContent = `export const ${exportPrefix}_ABI = ${JSON.stringify(abi, null, 2)} as const;
 
-export const ESCROW_BYTECODE = "${bytecode}";
+export const ${exportPrefix}_BYTECODE = "${bytecode}";
 `;
 
-const outputPath = path.join(__dirname, 'src/contracts/escrow-abi.ts');
-fs.writeFileSync(outputPath, outputContent);
+  const outputPath = path.join(__dirname, 'src/contracts', outputFile);
+  fs.writeFileSync(outputPath, outputContent);
 
-console.log('Contract compiled successfully!');
-console.log('ABI and bytecode written to:', outputPath);
-console.log('Bytecode length:', bytecode.length, 'characters');
+  console.log(`${name} compiled successfully!`);
+  console.log('ABI and bytecode written to:', outputPath);
+  console.log('Bytecode length:', bytecode.length, 'characters');
+});
@@ -0,0 +1,9 @@
+// Hardhat only provides the in-process chain the contract tests run on. Contracts are compiled by
+// compile-contract.cjs, and the tests deploy the bytecode it generates.
+module.exports = {
+  networks: {
+    hardhat: {
+      hardfork: 'prague',
+    },
+  },
+};
@@ -1,10 +1,18 @@
+import { useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AuthForm } from './components/AuthForm';
 import { Dashboard } from './components/Dashboard';
+import { startPendingTransactionWatcher } from './lib/pending-transactions';
 
 function AppContent() {
   const { user, loading } = useAuth();
 
+  // Finishes deployments and payments that were still pending when the page was last closed
+  useEffect(() => {
+    if (!user) return;
+    return startPendingTransactionWatcher();
+  }, [user]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -1,18 +1,53 @@
-import { useState } from 'react';
-import { X, Plus, Trash2, GitBranch, Figma } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, GitBranch, Figma, Gitlab, Activity, Globe, LucideIcon } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { createProjectToken } from '../lib/tokenization';
-import { deployEscrowContract, depositToEscrow, switchToQIENetwork } from '../lib/web3';
+import { deployEscrowContract, depositToEscrow, switchToNetwork } from '../lib/web3';
+import { NETWORKS, NetworkConfig, getDefaultNetwork } from '../lib/networks';
+import { NATIVE_TOKEN, PaymentToken, fetchTokenMetadata, getKnownTokens, rememberToken } from '../lib/tokens';
+import { TransactionError } from '../lib/transactions';
+import { syncProjectWithChain } from '../lib/indexer';
+import { formatTokenTotal } from '../lib/amounts';
+import { requestGitHubVerification } from '../lib/github';
+import { ORACLE_PLUGINS, getOraclePlugin } from '../lib/oracles';
+import { OracleConfigFields } from './OracleConfigFields';
+import { attachProjectEscrow, createDraftProject, discardDraftProject } from '../lib/projects';
+import { calculatePlatformFee, formatFeePercent } from '../lib/fees';
+import { FactoryTerms, getFactoryTerms } from '../lib/escrow-factory';
+
+interface MilestoneAssignee {
+  email: string;
+  sharePercent: string;
+}
 
 interface Milestone {
   title: string;
   description: string;
   amount: string;
-  verificationType: 'github' | 'figma' | 'manual';
+  reviewPeriodDays: string;
+  // A registered oracle plugin type, see src/lib/oracles.ts
+  verificationType: string;
   verificationConfig: any;
+  // Team members the milestone's payments are split between; none pays the lead freelancer
+  payees: MilestoneAssignee[];
+}
+
+// Even shares in percent that add up to exactly 100; the first assignees take the leftover basis points
+function splitEvenly(count: number): string[] {
+  const base = Math.floor(10000 / count);
+  const leftover = 10000 - base * count;
+  return Array.from({ length: count }, (_, i) => ((base + (i < leftover ? 1 : 0)) / 100).toString());
 }
 
+const VERIFICATION_ICONS: Record<string, LucideIcon> = {
+  github: GitBranch,
+  figma: Figma,
+  gitlab: Gitlab,
+  http_check: Activity,
+  smoke_check: Globe,
+};
+
 interface CreateProjectProps {
   onClose: () => void;
   onSuccess: () => void;
@@ -23,23 +58,70 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [freelancerEmail, setFreelancerEmail] = useState('');
+  const [teamEmails, setTeamEmails] = useState<string[]>([]);
   const [githubRepoUrl, setGithubRepoUrl] = useState('');
+  const [network, setNetwork] = useState<NetworkConfig>(() => getDefaultNetwork());
+  const [knownTokens, setKnownTokens] = useState<PaymentToken[]>(() => getKnownTokens());
+  const [paymentToken, setPaymentToken] = useState<PaymentToken>(NATIVE_TOKEN);
+  const [customTokenAddress, setCustomTokenAddress] = useState('');
+  const [tokenLookupError, setTokenLookupError] = useState('');
+  const [loadingToken, setLoadingToken] = useState(false);
   const [useProjectToken, setUseProjectToken] = useState(false);
+  const [stagedFunding, setStagedFunding] = useState(false);
+  const [initialFundedCount, setInitialFundedCount] = useState('1');
+  // The arbiter and fee the network's escrow factory gives every escrow; the client cannot change them
+  const [factoryTerms, setFactoryTerms] = useState<FactoryTerms | null>(null);
   const [tokenName, setTokenName] = useState('');
   const [tokenSymbol, setTokenSymbol] = useState('');
+  const [tokenSupply, setTokenSupply] = useState('1000000');
   const [milestones, setMilestones] = useState<Milestone[]>([
     {
       title: '',
       description: '',
       amount: '',
+      reviewPeriodDays: '7',
       verificationType: 'manual',
       verificationConfig: {},
+      payees: [],
     },
   ]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [deploymentStatus, setDeploymentStatus] = useState('');
   const [deployedContractAddress, setDeployedContractAddress] = useState('');
+  const [pendingDeploymentHash, setPendingDeploymentHash] = useState('');
+  const [deployedTokenAddress, setDeployedTokenAddress] = useState('');
+  const [projectTokenError, setProjectTokenError] = useState('');
+  const [verificationPlugins, setVerificationPlugins] = useState(ORACLE_PLUGINS);
+
+  useEffect(() => {
+    loadVerificationTypes();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFactoryTerms(null);
+    getFactoryTerms(network)
+      .then(terms => {
+        if (!cancelled) setFactoryTerms(terms);
+      })
+      .catch(err => console.warn(`Could not read the escrow factory on ${network.name}:`, err));
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+
+  // Types disabled in verification_types stay valid on old milestones but are not offered for new ones
+  const loadVerificationTypes = async () => {
+    const { data, error } = await supabase
+      .from('verification_types')
+      .select('type')
+      .eq('enabled', true);
+
+    if (error || !data?.length) return;
+    const enabled = data.map((row) => row.type);
+    setVerificationPlugins(ORACLE_PLUGINS.filter((p) => enabled.includes(p.type)));
+  };
 
   const addMilestone = () => {
     setMilestones([
@@ -48,8 +130,10 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
         title: '',
         description: '',
         amount: '',
+        reviewPeriodDays: '7',
         verificationType: 'manual',
         verificationConfig: {},
+        payees: [],
       },
     ]);
   };
@@ -64,6 +148,64 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
     setMilestones(updated);
   };
 
+  const addTeamMember = () => {
+    setTeamEmails([...teamEmails, '']);
+  };
+
+  // Assignments follow a member's email as it is edited
+  const updateTeamMember = (index: number, email: string) => {
+    const previous = teamEmails[index].trim();
+    const updated = [...teamEmails];
+    updated[index] = email;
+    setTeamEmails(updated);
+    setMilestones(milestones.map(m => ({
+      ...m,
+      payees: m.payees.map(p => (p.email === previous ? { ...p, email: email.trim() } : p)),
+    })));
+  };
+
+  const removeTeamMember = (index: number) => {
+    const email = teamEmails[index].trim();
+    setTeamEmails(teamEmails.filter((_, i) => i !== index));
+    setMilestones(milestones.map(m => ({ ...m, payees: m.payees.filter(p => p.email !== email) })));
+  };
+
+  // Assigning or unassigning someone splits the milestone evenly again; the shares can be edited after
+  const toggleAssignee = (index: number, email: string) => {
+    const current = milestones[index].payees.map(p => p.email);
+    const emails = current.includes(email) ? current.filter(e => e !== email) : [...current, email];
+    const shares = splitEvenly(emails.length);
+    updateMilestone(index, 'payees', emails.map((e, i) => ({ email: e, sharePercent: shares[i] })));
+  };
+
+  const updateAssigneeShare = (index: number, email: string, sharePercent: string) => {
+    updateMilestone(index, 'payees', milestones[index].payees.map(p => (p.email === email ? { ...p, sharePercent } : p)));
+  };
+
+  // Another type's config would be meaningless to the new oracle, so switching starts it empty
+  const selectVerificationType = (index: number, verificationType: string) => {
+    if (milestones[index].verificationType === verificationType) return;
+    const updated = [...milestones];
+    updated[index] = { ...updated[index], verificationType, verificationConfig: {} };
+    setMilestones(updated);
+  };
+
+  const handleLoadCustomToken = async () => {
+    setTokenLookupError('');
+    setLoadingToken(true);
+    try {
+      const token = await fetchTokenMetadata(customTokenAddress.trim());
+      rememberToken(token);
+      setKnownTokens(getKnownTokens());
+      setPaymentToken(token);
+      setCustomTokenAddress('');
+    } catch (err) {
+      setTokenLookupError(err instanceof Error ? err.message : 'Failed to load token');
+    } finally {
+      setLoadingToken(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -73,6 +215,17 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
       if (!user) throw new Error('Not authenticated');
       if (!freelancerEmail) throw new Error('Freelancer email is required');
       if (!githubRepoUrl) throw new Error('GitHub repository URL is required');
+      if (useProjectToken && (!tokenName.trim() || !tokenSymbol.trim() || !tokenSupply)) {
+        throw new Error('Token name, symbol and supply are required for a project token');
+      }
+      const fundedCount = stagedFunding ? parseInt(initialFundedCount) : milestones.length;
+      if (!(fundedCount >= 1 && fundedCount <= milestones.length)) {
+        throw new Error(`Fund between 1 and ${milestones.length} milestones up front`);
+      }
+      milestones.forEach((m, index) => {
+        const configError = getOraclePlugin(m.verificationType)?.validateConfig(m.verificationConfig);
+        if (configError) throw new Error(`Milestone ${index + 1}: ${configError}`);
+      });
 
       const { data: freelancerProfile } = await supabase
         .from('profiles')
@@ -89,6 +242,41 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
         throw new Error('Freelancer has not connected their wallet. Please ask them to connect their wallet first.');
       }
 
+      // Team members are looked up like the lead; the escrow pays each of them at their wallet
+      const teamProfiles = new Map<string, { id: string; wallet_address: string }>();
+      teamProfiles.set(freelancerEmail.trim(), { id: freelancerProfile.id, wallet_address: freelancerProfile.wallet_address });
+      for (const email of teamEmails.map(e => e.trim()).filter(Boolean)) {
+        if (teamProfiles.has(email)) continue;
+
+        const { data: memberProfile } = await supabase
+          .from('profiles')
+          .select('id, wallet_address')
+          .eq('email', email)
+          .eq('role', 'freelancer')
+          .maybeSingle();
+
+        if (!memberProfile) {
+          throw new Error(`Team member with email ${email} not found. Please ensure they have registered as a freelancer.`);
+        }
+        if (!memberProfile.wallet_address) {
+          throw new Error(`Team member ${email} has not connected their wallet. Please ask them to connect their wallet first.`);
+        }
+        teamProfiles.set(email, { id: memberProfile.id, wallet_address: memberProfile.wallet_address });
+      }
+
+      const milestonePayees = milestones.map((m, index) => {
+        const payees = m.payees.map(p => {
+          const profile = teamProfiles.get(p.email);
+          if (!profile) throw new Error(`Milestone ${index + 1} is assigned to ${p.email}, who is not on the team`);
+          return { profile, shareBps: Math.round(parseFloat(p.sharePercent || '0') * 100) };
+        });
+        const totalShares = payees.reduce((sum, p) => sum + p.shareBps, 0);
+        if (payees.length > 0 && totalShares !== 10000) {
+          throw new Error(`Milestone ${index + 1}: assignee shares add up to ${totalShares / 100}%, not 100%`);
+        }
+        return payees;
+      });
+
       const { data: clientProfile } = await supabase
         .from('profiles')
         .select('wallet_address')
@@ -101,153 +289,188 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
 
       const freelancerId = freelancerProfile.id;
 
-      const totalAmount = milestones.reduce(
-        (sum, m) => sum + parseFloat(m.amount || '0'),
-        0
-      );
-
-      // Always use zero address for native QIE payments
-      const tokenAddress = '0x0000000000000000000000000000000000000000';
-      const tokenSymbolToUse = 'QIE';
+      const tokenAddress = paymentToken.address;
+      const tokenSymbolToUse = paymentToken.symbol;
+      const tokenDecimals = paymentToken.decimals;
       const milestoneAmounts = milestones.map(m => m.amount);
+      const reviewPeriods = milestones.map(m => Math.round(parseFloat(m.reviewPeriodDays || '0') * 86400));
 
-      // STEP 0: Switch to QIE testnet
-      setDeploymentStatus('Switching to QIE testnet...');
+      // STEP 0: Switch to the selected network
+      setDeploymentStatus(`Switching to ${network.name}...`);
       try {
-        await switchToQIENetwork();
+        await switchToNetwork(network);
       } catch (switchError: any) {
-        throw new Error(`Failed to switch network: ${switchError.message}. Please add QIE testnet to your wallet or switch manually.`);
+        throw new Error(`Failed to switch network: ${switchError.message}. Please add ${network.name} to your wallet or switch manually.`);
       }
 
-      // STEP 1: Deploy contract FIRST
-      setDeploymentStatus('Deploying escrow contract to blockchain...');
+      // Read again so the draft records the terms the factory applies now, not when the form opened
+      const terms = await getFactoryTerms(network);
+      if (!terms) {
+        throw new Error(`No escrow factory is configured for ${network.name}. Set VITE_ESCROW_FACTORY_${network.chainId} to its address.`);
+      }
+      setFactoryTerms(terms);
+
+      // STEP 1: Save the project and its milestones as a draft, so the escrow always has a row to link to
+      setDeploymentStatus('Saving project draft...');
 
-      const escrowAddress = await deployEscrowContract(
-        clientProfile.wallet_address,
-        freelancerProfile.wallet_address,
-        tokenAddress,
-        milestoneAmounts
+      const project = await createDraftProject(
+        {
+          title,
+          description,
+          freelancerId,
+          memberIds: [...teamProfiles.values()].map(p => p.id).filter(id => id !== freelancerId),
+          tokenAddress,
+          tokenSymbol: tokenSymbolToUse,
+          tokenDecimals,
+          chainId: network.chainId,
+          githubRepoUrl,
+          arbiterAddress: terms.arbiter,
+          stagedFunding,
+          platformFee: terms.platformFee,
+        },
+        milestones.map((m, index) => ({
+          title: m.title,
+          description: m.description,
+          amount: m.amount,
+          verificationType: m.verificationType,
+          verificationConfig: m.verificationConfig,
+          reviewPeriodSeconds: reviewPeriods[index],
+          payees: milestonePayees[index].map(p => ({ freelancerId: p.profile.id, shareBps: p.shareBps })),
+        }))
       );
 
-      if (!escrowAddress) {
-        throw new Error('Failed to deploy escrow contract - no address returned');
-      }
+      // STEP 2: Deploy the escrow contract
+      setDeploymentStatus('Deploying escrow contract to blockchain...');
 
-      // STEP 2: Fund the escrow contract
-      setDeploymentStatus('Funding escrow contract with project amount...');
-      
+      // A deployment that outlives the wait stays a draft and is linked by the pending-transaction watcher
+      let escrowAddress: string | null = null;
+      let deploymentTxHash: string | null = null;
       try {
-        // Create a timeout promise
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Funding timeout')), 30000); // 30 second timeout
-        });
-        
-        // Deposit the total project amount to the escrow
-        const depositPromise = depositToEscrow(
-          escrowAddress,
+        escrowAddress = await deployEscrowContract(
+          clientProfile.wallet_address,
+          freelancerProfile.wallet_address,
           tokenAddress,
-          totalAmount.toString()
+          milestoneAmounts,
+          reviewPeriods,
+          stagedFunding,
+          milestonePayees.map(payees => payees.map(p => ({ address: p.profile.wallet_address, shareBps: p.shareBps }))),
+          tokenDecimals,
+          network,
+          { projectId: project.id }
         );
-        
-        // Race between deposit and timeout
-        const depositTxHash = await Promise.race([depositPromise, timeoutPromise]).catch((error) => {
-          console.log('Deposit may still be processing:', error.message);
-          return null;
-        });
-        
-        if (depositTxHash) {
+      } catch (deployError) {
+        if (!(deployError instanceof TransactionError && deployError.code === 'TIMEOUT' && deployError.txHash)) {
+          // Nothing was deployed, so the draft has nothing to wait for
+          await discardDraftProject(project.id).catch(discardError =>
+            console.error('Failed to discard project draft:', discardError)
+          );
+          throw deployError;
+        }
+        deploymentTxHash = deployError.txHash;
+        setDeploymentStatus('Deployment is still confirming. Keeping the project as a draft...');
+      }
+
+      try {
+        await attachProjectEscrow(project.id, escrowAddress, deploymentTxHash);
+      } catch (attachError) {
+        if (!escrowAddress) throw attachError;
+        throw new Error(
+          `Escrow deployed at ${escrowAddress} but could not be linked to the project: ${(attachError as Error).message}. ` +
+          'Link it from the project page.'
+        );
+      }
+
+      // STEP 3: Fund the escrow contract, or its first milestones when funding is staged
+      if (escrowAddress) {
+        const fundedAmount = formatTokenTotal(
+          stagedFunding ? milestoneAmounts.slice(0, fundedCount) : milestoneAmounts,
+          tokenDecimals
+        );
+        setDeploymentStatus(stagedFunding
+          ? `Funding the first ${fundedCount} milestone${fundedCount === 1 ? '' : 's'}...`
+          : 'Funding escrow contract with project amount...');
+
+        let depositTxHash: string | null = null;
+        let depositConfirmed = false;
+        try {
+          depositTxHash = await depositToEscrow(
+            escrowAddress,
+            tokenAddress,
+            fundedAmount,
+            tokenDecimals,
+            { projectId: project.id },
+            stagedFunding ? { start: 0, count: fundedCount } : null
+          );
+          depositConfirmed = true;
           console.log('Escrow funded successfully. Transaction hash:', depositTxHash);
           setDeploymentStatus('Escrow contract funded successfully!');
-        } else {
-          // Check if funds arrived anyway
-          const provider = await import('../lib/web3').then(m => m.getProvider());
-          const balance = await provider.getBalance(escrowAddress);
-          if (balance > 0n) {
-            console.log('Escrow funded (confirmed via balance check)');
-            setDeploymentStatus('Escrow contract funded successfully!');
+        } catch (depositError: any) {
+          console.error('Error funding escrow:', depositError);
+
+          if (depositError instanceof TransactionError && depositError.code === 'TIMEOUT' && depositError.txHash) {
+            depositTxHash = depositError.txHash;
+            setDeploymentStatus('Contract deployed. Funding transaction is still confirming...');
           } else {
-            console.log('Funding may still be processing. Contract deployed successfully.');
-            setDeploymentStatus('Contract deployed. Funding in progress...');
+            // Don't fail the entire project creation if funding fails
+            // The client can fund it from the project page later
+            setDeploymentStatus('Contract deployed. Funding may require manual completion.');
           }
         }
-      } catch (depositError: any) {
-        console.error('Error funding escrow:', depositError);
-        // Don't fail the entire project creation if funding fails
-        // The client can fund it manually later
-        setDeploymentStatus('Contract deployed. Funding may require manual completion.');
-      }
 
-      // STEP 3: Create database records
-      setDeploymentStatus('Saving project to database...');
+        if (depositTxHash) {
+          // Recorded as pending; the escrow-indexer confirms it and fills in block_number
+          await supabase.from('transactions').insert({
+            project_id: project.id,
+            milestone_id: null,
+            transaction_hash: depositTxHash,
+            transaction_type: 'escrow_deposit',
+            amount: parseFloat(fundedAmount),
+            from_address: clientProfile.wallet_address,
+            to_address: escrowAddress,
+            status: 'pending',
+          });
+        }
 
-      const { data: project, error: projectError } = await supabase
-        .from('projects')
-        .insert({
-          title,
-          description,
-          client_id: user.id,
-          freelancer_id: freelancerId,
-          total_amount: totalAmount,
-          token_address: tokenAddress,
-          token_symbol: tokenSymbolToUse,
-          github_repo_url: githubRepoUrl,
-          escrow_contract_address: escrowAddress,
-          status: 'active',
-        })
-        .select()
-        .single();
+        // The project stays a draft until the escrow-indexer sees FundsDeposited
+        if (depositConfirmed) {
+          await syncProjectWithChain(project.id);
+        }
+      }
 
-      if (projectError) throw projectError;
-
-      const milestoneInserts = milestones.map((m, index) => ({
-        project_id: project.id,
-        title: m.title,
-        description: m.description,
-        amount: parseFloat(m.amount),
-        verification_type: m.verificationType,
-        verification_config: m.verificationConfig,
-        order_index: index,
-        status: 'pending',
-      }));
-
-      const { data: insertedMilestones, error: milestonesError } = await supabase
-        .from('milestones')
-        .insert(milestoneInserts)
-        .select();
-
-      if (milestonesError) throw milestonesError;
-
-      if (insertedMilestones && insertedMilestones.length > 0) {
-        await supabase
-          .from('milestones')
-          .update({ status: 'in_progress' })
-          .eq('id', insertedMilestones[0].id);
+      if (useProjectToken) {
+        setDeploymentStatus('Deploying project token...');
+        try {
+          const { tokenAddress: projectTokenAddress } = await createProjectToken(project.id, {
+            name: tokenName,
+            symbol: tokenSymbol,
+            totalSupply: tokenSupply,
+            decimals: 18,
+          }, network);
+          setDeployedTokenAddress(projectTokenAddress);
+        } catch (tokenError) {
+          // The escrow and project already exist, so report the token failure without rolling back
+          console.error('Error deploying project token:', tokenError);
+          setProjectTokenError(tokenError instanceof Error ? tokenError.message : 'Project token deployment failed');
+        }
       }
 
-      setDeploymentStatus('Contract deployed successfully!');
-      setDeployedContractAddress(escrowAddress);
+      if (escrowAddress) {
+        setDeploymentStatus('Contract deployed successfully!');
+        setDeployedContractAddress(escrowAddress);
+      } else if (deploymentTxHash) {
+        setPendingDeploymentHash(deploymentTxHash);
+      }
 
       const firstMilestone = milestones[0];
-      if (firstMilestone.verificationType === 'github' && firstMilestone.verificationConfig.githubToken) {
+      if (firstMilestone.verificationType === 'github' && firstMilestone.verificationConfig.owner) {
         try {
-          const response = await fetch(
-            `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oracle`,
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                owner: firstMilestone.verificationConfig.owner,
-                repo: firstMilestone.verificationConfig.repo,
-                githubToken: firstMilestone.verificationConfig.githubToken,
-                minCommits: firstMilestone.verificationConfig.minCommits || 1,
-                projectId: project.id,
-              }),
-            }
-          );
-          await response.json();
+          await requestGitHubVerification({
+            owner: firstMilestone.verificationConfig.owner,
+            repo: firstMilestone.verificationConfig.repo,
+            branch: firstMilestone.verificationConfig.branch,
+            minCommits: firstMilestone.verificationConfig.minCommits ?? 1,
+            projectId: project.id,
+          });
         } catch (oracleError) {
           console.error('Failed to fetch initial commits:', oracleError);
         }
@@ -262,8 +485,8 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
     }
   };
 
-  // Show success modal if contract is deployed
-  if (deployedContractAddress) {
+  // Show success modal if contract is deployed or its deployment is being tracked
+  if (deployedContractAddress || pendingDeploymentHash) {
     return (
       <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8 text-center">
         <div className="mb-6">
@@ -273,31 +496,73 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
             </svg>
           </div>
           <h2 className="text-2xl font-bold text-white mb-2">Project Created Successfully!</h2>
-          <p className="text-slate-400">Your escrow contract has been deployed to the QIE blockchain</p>
+          <p className="text-slate-400">
+            {deployedContractAddress
+              ? `Your escrow contract has been deployed to ${network.name}`
+              : `Your escrow contract deployment on ${network.name} is still confirming`}
+          </p>
         </div>
 
-        <div className="bg-slate-900/50 rounded-xl p-6 mb-6">
-          <label className="block text-sm font-medium text-slate-300 mb-3">
-            Escrow Contract Address
-          </label>
-          <div className="flex items-center gap-3">
-            <code className="flex-1 px-4 py-3 bg-slate-800 rounded-lg text-emerald-400 font-mono text-sm break-all">
-              {deployedContractAddress}
+        {pendingDeploymentHash && (
+          <div className="bg-slate-900/50 rounded-xl p-6 mb-6">
+            <label className="block text-sm font-medium text-slate-300 mb-3">
+              Deployment Transaction
+            </label>
+            <code className="block px-4 py-3 bg-slate-800 rounded-lg text-yellow-400 font-mono text-sm break-all">
+              {pendingDeploymentHash}
             </code>
-            <button
-              onClick={() => {
-                navigator.clipboard.writeText(deployedContractAddress);
-                alert('Contract address copied to clipboard!');
-              }}
-              className="px-4 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
-            >
-              Copy
-            </button>
+            <p className="text-slate-500 text-sm mt-3">
+              The project is saved as a draft and will be linked to its escrow automatically once this
+              transaction confirms. You can close this page; it resumes on your next visit. Fund the
+              escrow from the project page afterwards.
+            </p>
           </div>
-          <p className="text-slate-500 text-sm mt-3">
-            All milestone payments will be processed through this smart contract
-          </p>
-        </div>
+        )}
+
+        {deployedContractAddress && (
+          <div className="bg-slate-900/50 rounded-xl p-6 mb-6">
+            <label className="block text-sm font-medium text-slate-300 mb-3">
+              Escrow Contract Address
+            </label>
+            <div className="flex items-center gap-3">
+              <code className="flex-1 px-4 py-3 bg-slate-800 rounded-lg text-emerald-400 font-mono text-sm break-all">
+                {deployedContractAddress}
+              </code>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(deployedContractAddress);
+                  alert('Contract address copied to clipboard!');
+                }}
+                className="px-4 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <p className="text-slate-500 text-sm mt-3">
+              All milestone payments will be processed through this smart contract
+            </p>
+          </div>
+        )}
+
+        {deployedTokenAddress && (
+          <div className="bg-slate-900/50 rounded-xl p-6 mb-6">
+            <label className="block text-sm font-medium text-slate-300 mb-3">
+              {tokenSymbol} Project Token Address
+            </label>
+            <code className="block px-4 py-3 bg-slate-800 rounded-lg text-emerald-400 font-mono text-sm break-all">
+              {deployedTokenAddress}
+            </code>
+            <p className="text-slate-500 text-sm mt-3">
+              The full supply of {tokenSupply} {tokenSymbol} was minted to your wallet
+            </p>
+          </div>
+        )}
+
+        {projectTokenError && (
+          <div className="p-4 mb-6 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+            Project token was not deployed: {projectTokenError}
+          </div>
+        )}
 
         <button
           onClick={() => {
@@ -312,6 +577,16 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
     );
   }
 
+  // Everyone a milestone can be assigned to: the lead, then the team members
+  const teamOptions = [freelancerEmail, ...teamEmails]
+    .map(email => email.trim())
+    .filter((email, index, all) => email && all.indexOf(email) === index);
+
+  // The escrow takes its fee from each milestone payment, so the freelancer receives the rest
+  const platformFee = factoryTerms?.platformFee ?? { bps: 0, recipient: '' };
+  const projectTotal = milestones.reduce((sum, m) => sum + (parseFloat(m.amount) || 0), 0);
+  const projectFee = calculatePlatformFee(projectTotal, platformFee.bps);
+
   return (
     <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8">
       <div className="flex items-center justify-between mb-6">
@@ -355,6 +630,44 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
           </div>
         </div>
 
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-slate-300">
+              Team Members
+            </label>
+            <button
+              type="button"
+              onClick={addTeamMember}
+              className="flex items-center gap-2 px-3 py-1 bg-slate-700/50 hover:bg-slate-700 text-white text-sm rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Member
+            </button>
+          </div>
+          {teamEmails.map((email, index) => (
+            <div key={index} className="flex gap-2 mb-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => updateTeamMember(index, e.target.value)}
+                className="flex-1 px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 focus:ring-2 focus:ring-emerald-500/20"
+                placeholder="teammate@example.com"
+                required
+              />
+              <button
+                type="button"
+                onClick={() => removeTeamMember(index)}
+                className="p-2 text-red-400 hover:text-red-300 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500 mt-1">
+            Optional. The freelancer above leads the project; milestones can be assigned to any member of the team.
+          </p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
             GitHub Repository URL
@@ -370,6 +683,90 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
           <p className="text-xs text-slate-500 mt-1">Commits will be tracked automatically from this repository</p>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Network
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {NETWORKS.map((n) => (
+              <button
+                key={n.key}
+                type="button"
+                onClick={() => setNetwork(n)}
+                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                  network.chainId === n.chainId
+                    ? 'bg-emerald-500 text-white'
+                    : 'bg-slate-800/50 text-slate-400 border border-slate-600'
+                }`}
+              >
+                {n.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            Chain ID {network.chainId} · fees paid in {network.nativeCurrency.symbol}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Payment Token
+          </label>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {knownTokens.map((token) => (
+              <button
+                key={token.address}
+                type="button"
+                onClick={() => setPaymentToken(token)}
+                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                  paymentToken.address.toLowerCase() === token.address.toLowerCase()
+                    ? 'bg-emerald-500 text-white'
+                    : 'bg-slate-800/50 text-slate-400 border border-slate-600'
+                }`}
+                title={token.address}
+              >
+                {token.symbol}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={customTokenAddress}
+              onChange={(e) => setCustomTokenAddress(e.target.value)}
+              className="flex-1 px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 font-mono text-sm"
+              placeholder="ERC20 token address (0x...)"
+            />
+            <button
+              type="button"
+              onClick={handleLoadCustomToken}
+              disabled={loadingToken || !customTokenAddress.trim()}
+              className="px-4 py-2 bg-slate-700/50 hover:bg-slate-700 text-white rounded-xl transition-colors disabled:opacity-50"
+            >
+              {loadingToken ? 'Loading...' : 'Add Token'}
+            </button>
+          </div>
+          {tokenLookupError && (
+            <p className="text-xs text-red-400 mt-1">{tokenLookupError}</p>
+          )}
+          <p className="text-xs text-slate-500 mt-1">
+            Paying in {paymentToken.name} ({paymentToken.symbol}, {paymentToken.decimals} decimals)
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Arbiter Wallet Address
+          </label>
+          <input
+            type="text"
+            value={factoryTerms?.arbiter || 'Not configured'}
+            readOnly
+            className="w-full px-4 py-3 bg-slate-900/30 border border-slate-700 rounded-xl text-slate-400 font-mono text-sm cursor-not-allowed"
+          />
+          <p className="text-xs text-slate-500 mt-1">The platform's neutral arbiter rules on disputed milestones. Neither you nor the freelancer chooses it.</p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
             Project Description
@@ -384,7 +781,6 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
           />
         </div>
 
-        {/* Project tokens disabled - requires actual ERC20 deployment
         <div className="border border-slate-700 rounded-xl p-4 bg-slate-900/30">
           <label className="flex items-center gap-3 cursor-pointer">
             <input
@@ -396,13 +792,13 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
             <div>
               <div className="text-white font-medium">Create Project-Specific Token</div>
               <div className="text-sm text-slate-400">
-                Issue a custom token for this project via QIEDEX
+                Issue a custom ERC20 token for this project, deployed from your wallet
               </div>
             </div>
           </label>
 
           {useProjectToken && (
-            <div className="grid grid-cols-2 gap-4 mt-4">
+            <div className="grid grid-cols-3 gap-4 mt-4">
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
                   Token Name
@@ -430,10 +826,60 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
                   required={useProjectToken}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Total Supply
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={tokenSupply}
+                  onChange={(e) => setTokenSupply(e.target.value)}
+                  className="w-full px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+                  placeholder="1000000"
+                  required={useProjectToken}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="border border-slate-700 rounded-xl p-4 bg-slate-900/30">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={stagedFunding}
+              onChange={(e) => setStagedFunding(e.target.checked)}
+              className="w-5 h-5 rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 focus:ring-offset-0"
+            />
+            <div>
+              <div className="text-white font-medium">Staged Funding</div>
+              <div className="text-sm text-slate-400">
+                Fund the escrow a few milestones at a time; work only starts on funded milestones
+              </div>
+            </div>
+          </label>
+
+          {stagedFunding && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Milestones to Fund Now
+              </label>
+              <input
+                type="number"
+                min="1"
+                max={milestones.length}
+                value={initialFundedCount}
+                onChange={(e) => setInitialFundedCount(e.target.value)}
+                className="w-32 px-4 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+                required={stagedFunding}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                The rest can be funded from the project page as work progresses
+              </p>
             </div>
           )}
         </div>
-        */}
 
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -484,11 +930,79 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
                     value={milestone.amount}
                     onChange={(e) => updateMilestone(index, 'amount', e.target.value)}
                     className="px-4 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
-                    placeholder="Amount (QIE)"
+                    placeholder={`Amount (${paymentToken.symbol})`}
+                    required
+                  />
+                </div>
+
+                <div className="mb-4">
+                  <label className="block text-xs text-slate-400 mb-1">
+                    Client review window (days)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={milestone.reviewPeriodDays}
+                    onChange={(e) => updateMilestone(index, 'reviewPeriodDays', e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+                    placeholder="7"
                     required
                   />
+                  <p className="text-xs text-slate-500 mt-1">
+                    The freelancer can claim payment if a submission goes unreviewed this long. Use 0 to disable.
+                  </p>
                 </div>
 
+                {teamOptions.length > 1 && (
+                  <div className="mb-4">
+                    <label className="block text-xs text-slate-400 mb-1">
+                      Assigned to
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {teamOptions.map((email) => (
+                        <button
+                          key={email}
+                          type="button"
+                          onClick={() => toggleAssignee(index, email)}
+                          className={`py-1 px-3 rounded-lg text-sm font-medium transition-all ${
+                            milestone.payees.some(p => p.email === email)
+                              ? 'bg-emerald-500 text-white'
+                              : 'bg-slate-800/50 text-slate-400 border border-slate-600'
+                          }`}
+                        >
+                          {email}
+                        </button>
+                      ))}
+                    </div>
+                    {milestone.payees.length > 1 && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                        {milestone.payees.map((payee) => (
+                          <label key={payee.email} className="flex items-center gap-2 text-xs text-slate-400">
+                            <span className="flex-1 truncate">{payee.email}</span>
+                            <input
+                              type="number"
+                              min="0.01"
+                              max="100"
+                              step="0.01"
+                              value={payee.sharePercent}
+                              onChange={(e) => updateAssigneeShare(index, payee.email, e.target.value)}
+                              className="w-24 px-3 py-1 bg-slate-800/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-emerald-500"
+                              required
+                            />
+                            %
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-slate-500 mt-1">
+                      {milestone.payees.length === 0
+                        ? 'Unassigned milestones are paid to the lead freelancer'
+                        : 'Payments for this milestone are split between its assignees by share'}
+                    </p>
+                  </div>
+                )}
+
                 <textarea
                   value={milestone.description}
                   onChange={(e) => updateMilestone(index, 'description', e.target.value)}
@@ -498,111 +1012,33 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
                   required
                 />
 
-                <div className="flex gap-2">
-                  <button
-                    type="button"
-                    onClick={() => updateMilestone(index, 'verificationType', 'manual')}
-                    className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${
-                      milestone.verificationType === 'manual'
-                        ? 'bg-emerald-500 text-white'
-                        : 'bg-slate-800/50 text-slate-400 border border-slate-600'
-                    }`}
-                  >
-                    Manual
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => updateMilestone(index, 'verificationType', 'github')}
-                    className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2 ${
-                      milestone.verificationType === 'github'
-                        ? 'bg-emerald-500 text-white'
-                        : 'bg-slate-800/50 text-slate-400 border border-slate-600'
-                    }`}
-                  >
-                    <GitBranch className="w-4 h-4" />
-                    GitHub
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => updateMilestone(index, 'verificationType', 'figma')}
-                    className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2 ${
-                      milestone.verificationType === 'figma'
-                        ? 'bg-emerald-500 text-white'
-                        : 'bg-slate-800/50 text-slate-400 border border-slate-600'
-                    }`}
-                  >
-                    <Figma className="w-4 h-4" />
-                    Figma
-                  </button>
+                <div className="flex flex-wrap gap-2">
+                  {verificationPlugins.map((plugin) => {
+                    const Icon = VERIFICATION_ICONS[plugin.type];
+                    return (
+                      <button
+                        key={plugin.type}
+                        type="button"
+                        onClick={() => selectVerificationType(index, plugin.type)}
+                        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all flex items-center justify-center gap-2 whitespace-nowrap ${
+                          milestone.verificationType === plugin.type
+                            ? 'bg-emerald-500 text-white'
+                            : 'bg-slate-800/50 text-slate-400 border border-slate-600'
+                        }`}
+                      >
+                        {Icon && <Icon className="w-4 h-4" />}
+                        {plugin.label}
+                      </button>
+                    );
+                  })}
                 </div>
 
-                {milestone.verificationType === 'github' && (
-                  <div className="space-y-3 mt-4">
-                    <input
-                      type="text"
-                      placeholder="GitHub Personal Access Token"
-                      className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500"
-                      onChange={(e) =>
-                        updateMilestone(index, 'verificationConfig', {
-                          ...milestone.verificationConfig,
-                          githubToken: e.target.value,
-                        })
-                      }
-                      required
-                    />
-                    <div className="grid grid-cols-2 gap-3">
-                      <input
-                        type="text"
-                        placeholder="Repository owner"
-                        className="px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500"
-                        onChange={(e) =>
-                          updateMilestone(index, 'verificationConfig', {
-                            ...milestone.verificationConfig,
-                            owner: e.target.value,
-                          })
-                        }
-                        required
-                      />
-                      <input
-                        type="text"
-                        placeholder="Repository name"
-                        className="px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500"
-                        onChange={(e) =>
-                          updateMilestone(index, 'verificationConfig', {
-                            ...milestone.verificationConfig,
-                            repo: e.target.value,
-                          })
-                        }
-                        required
-                      />
-                    </div>
-                    <input
-                      type="number"
-                      min="1"
-                      placeholder="Required commits (minimum)"
-                      className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500"
-                      onChange={(e) =>
-                        updateMilestone(index, 'verificationConfig', {
-                          ...milestone.verificationConfig,
-                          minCommits: parseInt(e.target.value) || 1,
-                        })
-                      }
-                      required
-                    />
-                  </div>
-                )}
-
-                {milestone.verificationType === 'figma' && (
-                  <input
-                    type="text"
-                    placeholder="Figma file key"
-                    className="w-full px-3 py-2 mt-4 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500"
-                    onChange={(e) =>
-                      updateMilestone(index, 'verificationConfig', {
-                        ...milestone.verificationConfig,
-                        fileKey: e.target.value,
-                      })
-                    }
+                {getOraclePlugin(milestone.verificationType) && (
+                  <OracleConfigFields
+                    key={milestone.verificationType}
+                    plugin={getOraclePlugin(milestone.verificationType)!}
+                    config={milestone.verificationConfig}
+                    onChange={(config) => updateMilestone(index, 'verificationConfig', config)}
                   />
                 )}
               </div>
@@ -610,6 +1046,21 @@ export function CreateProject({ onClose, onSuccess }: CreateProjectProps) {
           </div>
         </div>
 
+        <div className="border border-slate-700 rounded-xl p-4 bg-slate-900/30 space-y-2 text-sm">
+          <div className="flex justify-between text-white font-medium">
+            <span>Project Total</span>
+            <span>{projectTotal.toFixed(2)} {paymentToken.symbol}</span>
+          </div>
+          <div className="flex justify-between text-slate-400">
+            <span>Platform Fee ({formatFeePercent(platformFee.bps)} of each payment)</span>
+            <span>{projectFee.toFixed(2)} {paymentToken.symbol}</span>
+          </div>
+          <div className="flex justify-between text-slate-300">
+            <span>Freelancer Receives</span>
+            <span>{(projectTotal - projectFee).toFixed(2)} {paymentToken.symbol}</span>
+          </div>
+        </div>
+
         {deploymentStatus && (
           <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-xl text-blue-400 text-sm flex items-center gap-3">
             <div className="animate-spin w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full"></div>
@@ -1,36 +1,53 @@
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { calculatePlatformFee } from '../lib/fees';
+import { getMemberShareBps, getTeamProjectIds } from '../lib/project-members';
 import { ProjectList } from './ProjectList';
 import { WalletConnect } from './WalletConnect';
-import { LogOut, Plus, Briefcase, DollarSign, CheckCircle } from 'lucide-react';
+import { GitHubConnect } from './GitHubConnect';
+import { LogOut, Plus, Briefcase, DollarSign, CheckCircle, LifeBuoy } from 'lucide-react';
 
 const CreateProject = lazy(() => import('./CreateProject').then(module => ({ default: module.CreateProject })));
+const EscrowRecovery = lazy(() => import('./EscrowRecovery').then(module => ({ default: module.EscrowRecovery })));
 
 export function Dashboard() {
   const { user, profile, signOut } = useAuth();
   const [showCreateProject, setShowCreateProject] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
   const [projects, setProjects] = useState<any[]>([]);
   const [stats, setStats] = useState({
     total: 0,
     active: 0,
     completed: 0,
     totalEarnings: 0,
+    platformFees: 0,
   });
 
   useEffect(() => {
     if (user) {
       loadProjects();
     }
-  }, [user]);
+  }, [user, profile?.verified_wallet_address]);
 
   const loadProjects = async () => {
     if (!user) return;
 
+    // Team members see the projects they are assigned to alongside their own
+    const teamProjectIds = await getTeamProjectIds(user.id).catch(() => [] as string[]);
+    const filters = [`client_id.eq.${user.id}`, `freelancer_id.eq.${user.id}`];
+    if (teamProjectIds.length > 0) {
+      filters.push(`id.in.(${teamProjectIds.join(',')})`);
+    }
+    // Arbiters see the projects their verified wallet arbitrates, to rule on disputes
+    if (profile?.verified_wallet_address) {
+      filters.push(`arbiter_address.ilike.${profile.verified_wallet_address}`);
+    }
+
     const query = supabase
       .from('projects')
-      .select('*')
-      .or(`client_id.eq.${user.id},freelancer_id.eq.${user.id}`)
+      .select('*, milestones(amount, status, kill_fee_amount, payees)')
+      .or(filters.join(','))
       .order('created_at', { ascending: false });
 
     const { data, error } = await query;
@@ -45,11 +62,21 @@ export function Dashboard() {
     const total = data?.length || 0;
     const active = data?.filter(p => p.status === 'active').length || 0;
     const completed = data?.filter(p => p.status === 'completed').length || 0;
-    const totalEarnings = data
-      ?.filter(p => p.status === 'completed' && p.freelancer_id === user.id)
-      ?.reduce((sum, p) => sum + parseFloat(p.total_amount), 0) || 0;
-
-    setStats({ total, active, completed, totalEarnings });
+    // Each escrow paid out its milestones less the platform fee it was deployed with. The user earned
+    // their share of each milestone: all of it as the lead of a milestone with no assignees.
+    const earnedProjects = data?.filter(p => p.status === 'completed' && p.client_id !== user.id) || [];
+    const earnedAmounts = earnedProjects.map((p) => ({
+      bps: p.platform_fee_bps ?? 0,
+      amount: (p.milestones || []).reduce(
+        (sum: number, m) =>
+          sum + (Number(m.status === 'cancelled' ? m.kill_fee_amount ?? 0 : m.amount) * getMemberShareBps(p, m, user.id)) / 10000,
+        0
+      ),
+    }));
+    const platformFees = earnedAmounts.reduce((sum, e) => sum + calculatePlatformFee(e.amount, e.bps), 0);
+    const totalEarnings = earnedAmounts.reduce((sum, e) => sum + e.amount, 0) - platformFees;
+
+    setStats({ total, active, completed, totalEarnings, platformFees });
   };
 
   const handleProjectCreated = () => {
@@ -73,6 +100,7 @@ export function Dashboard() {
             </div>
 
             <div className="flex items-center gap-4">
+              <GitHubConnect />
               <WalletConnect />
               <button
                 onClick={() => signOut()}
@@ -99,13 +127,28 @@ export function Dashboard() {
             </div>
 
             {profile?.role === 'client' && (
-              <button
-                onClick={() => setShowCreateProject(true)}
-                className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-xl hover:shadow-lg hover:shadow-emerald-500/50 transition-all"
-              >
-                <Plus className="w-5 h-5" />
-                New Project
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => {
+                    setShowCreateProject(false);
+                    setShowRecovery(true);
+                  }}
+                  className="flex items-center gap-2 px-4 py-3 text-slate-400 hover:text-white border border-slate-700 rounded-xl transition-colors"
+                >
+                  <LifeBuoy className="w-5 h-5" />
+                  Recover Escrows
+                </button>
+                <button
+                  onClick={() => {
+                    setShowRecovery(false);
+                    setShowCreateProject(true);
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-semibold rounded-xl hover:shadow-lg hover:shadow-emerald-500/50 transition-all"
+                >
+                  <Plus className="w-5 h-5" />
+                  New Project
+                </button>
+              </div>
             )}
           </div>
 
@@ -143,6 +186,11 @@ export function Dashboard() {
                 <div className="text-3xl font-bold text-white">
                   {stats.totalEarnings.toFixed(2)} QIE
                 </div>
+                {stats.platformFees > 0 && (
+                  <div className="text-xs text-slate-400 mt-1">
+                    After {stats.platformFees.toFixed(2)} QIE in platform fees
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -155,6 +203,13 @@ export function Dashboard() {
               onSuccess={handleProjectCreated}
             />
           </Suspense>
+        ) : showRecovery ? (
+          <Suspense fallback={<div className="text-center py-8 text-slate-400">Loading...</div>}>
+            <EscrowRecovery
+              onClose={() => setShowRecovery(false)}
+              onUpdate={loadProjects}
+            />
+          </Suspense>
         ) : (
           <ProjectList projects={projects} onUpdate={loadProjects} />
         )}
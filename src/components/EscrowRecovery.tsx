@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { X, Search, Link2, Play, Ban, Trash2, AlertTriangle, CheckCircle, ExternalLink, RefreshCw } from 'lucide-react';
+import { formatUnits } from 'ethers';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { syncProjectWithChain } from '../lib/indexer';
+import { NETWORKS, NetworkConfig, getDefaultNetwork, getExplorerAddressUrl } from '../lib/networks';
+import { TransactionError } from '../lib/transactions';
+import { cancelEscrowOnChain, depositToEscrow, switchToNetwork } from '../lib/web3';
+import { attachProjectEscrow, discardDraftProject } from '../lib/projects';
+import { RecoveredEscrow, RecoveryProject, RecoveryScan, scanClientEscrows } from '../lib/recovery';
+
+interface EscrowRecoveryProps {
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+const CONDITION_LABELS: Record<RecoveredEscrow['condition'], string> = {
+  active: 'Funded',
+  unfunded: 'Not funded',
+  stuck: 'Funds stuck',
+};
+
+// Linked, funded escrows on live projects are fine; everything else is listed for recovery
+function needsAttention(entry: RecoveredEscrow) {
+  if (!entry.linkedProject) return true;
+  if (entry.condition === 'stuck') return true;
+  return entry.linkedProject.status === 'draft';
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 8)}...${address.slice(-6)}`;
+}
+
+export function EscrowRecovery({ onClose, onUpdate }: EscrowRecoveryProps) {
+  const { user, profile } = useAuth();
+  const [network, setNetwork] = useState<NetworkConfig>(getDefaultNetwork());
+  const [scan, setScan] = useState<RecoveryScan | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const runScan = async () => {
+    if (!user || !profile?.wallet_address) return;
+
+    setScanning(true);
+    setError('');
+    try {
+      setScan(await scanClientEscrows(user.id, profile.wallet_address, network));
+    } catch (err) {
+      console.error('Error scanning escrows:', err);
+      setError(err instanceof Error ? err.message : 'Failed to scan escrows');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // Runs one recovery action, then rescans so the list reflects the new state
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    try {
+      await action();
+      onUpdate();
+      await runScan();
+    } catch (err) {
+      console.error('Recovery action failed:', err);
+      if (!(err instanceof TransactionError && err.code === 'USER_REJECTED')) {
+        alert(err instanceof Error ? err.message : 'Recovery action failed');
+      }
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRelink = (entry: RecoveredEscrow, project: RecoveryProject) =>
+    runAction(entry.escrow.address, async () => {
+      await attachProjectEscrow(project.id, entry.escrow.address);
+      await syncProjectWithChain(project.id);
+    });
+
+  const handleFund = (entry: RecoveredEscrow) =>
+    runAction(entry.escrow.address, async () => {
+      const project = entry.linkedProject!;
+      const decimals = project.token_decimals ?? 18;
+      const amount = formatUnits(entry.escrow.totalAmount, decimals);
+
+      await switchToNetwork(network);
+
+      let txHash: string;
+      try {
+        txHash = await depositToEscrow(
+          entry.escrow.address,
+          entry.escrow.paymentToken,
+          amount,
+          decimals,
+          { projectId: project.id }
+        );
+      } catch (depositError) {
+        if (!(depositError instanceof TransactionError && depositError.code === 'TIMEOUT' && depositError.txHash)) {
+          throw depositError;
+        }
+        txHash = depositError.txHash;
+        alert('The deposit is still confirming. It is being tracked and the project activates once it is mined.');
+      }
+
+      // Recorded as pending; the escrow-indexer confirms it and fills in block_number
+      await supabase.from('transactions').insert({
+        project_id: project.id,
+        milestone_id: null,
+        transaction_hash: txHash,
+        transaction_type: 'escrow_deposit',
+        amount: parseFloat(amount),
+        from_address: scan!.walletAddress,
+        to_address: entry.escrow.address,
+        status: 'pending',
+      });
+
+      await syncProjectWithChain(project.id);
+    });
+
+  const handleCancel = (entry: RecoveredEscrow) => {
+    const project = entry.linkedProject;
+
+    if (entry.condition === 'active') {
+      if (!confirm('Cancel this escrow? Unpaid, undisputed milestones are refunded to your wallet.')) return;
+      return runAction(entry.escrow.address, async () => {
+        await switchToNetwork(network);
+        await cancelEscrowOnChain(entry.escrow.address, { projectId: project?.id });
+        // The indexer marks the project cancelled from EscrowCancelled
+        if (project) await syncProjectWithChain(project.id);
+      });
+    }
+
+    // An unfunded escrow holds nothing, so only its draft project needs closing
+    if (!project || !confirm(`Cancel the draft project "${project.title}"? The escrow was never funded.`)) return;
+    return runAction(entry.escrow.address, async () => {
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({ status: 'cancelled' })
+        .eq('id', project.id)
+        .eq('status', 'draft');
+      if (updateError) throw new Error(updateError.message);
+    });
+  };
+
+  const handleDiscard = (project: RecoveryProject) => {
+    if (!confirm(`Delete the draft project "${project.title}"? Its escrow was never deployed.`)) return;
+    return runAction(project.id, () => discardDraftProject(project.id));
+  };
+
+  const flagged = scan?.escrows.filter(needsAttention) ?? [];
+  const healthyCount = (scan?.escrows.length ?? 0) - flagged.length;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Escrow Recovery</h2>
+          <p className="text-slate-400 text-sm mt-1">
+            Finds escrows deployed from your wallet and reconnects them to their projects
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {!profile?.wallet_address ? (
+        <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-yellow-400 text-sm">
+          Connect your wallet first; recovery scans the escrows it deployed.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {NETWORKS.map((n) => (
+              <button
+                key={n.key}
+                type="button"
+                onClick={() => {
+                  setNetwork(n);
+                  setScan(null);
+                }}
+                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                  network.chainId === n.chainId
+                    ? 'bg-emerald-500 text-white'
+                    : 'bg-slate-800/50 text-slate-400 border border-slate-600'
+                }`}
+              >
+                {n.name}
+              </button>
+            ))}
+            <button
+              onClick={runScan}
+              disabled={scanning}
+              className="ml-auto flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {scanning ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              {scanning ? 'Scanning...' : 'Scan'}
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-4 mb-6 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {scan && (
+            <div className="space-y-4">
+              {flagged.length === 0 && scan.abandonedDrafts.length === 0 && (
+                <div className="flex items-center gap-2 p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-xl text-emerald-400 text-sm">
+                  <CheckCircle className="w-5 h-5" />
+                  Nothing to recover on {scan.network.name}.
+                </div>
+              )}
+
+              {flagged.map((entry) => {
+                const { escrow, linkedProject } = entry;
+                const busy = busyKey === escrow.address;
+                const explorerUrl = getExplorerAddressUrl(escrow.chainId, escrow.address);
+                const decimals = (linkedProject ?? entry.matches[0])?.token_decimals ?? 18;
+
+                return (
+                  <div key={escrow.address} className="p-4 bg-slate-900/50 border border-slate-700 rounded-xl">
+                    <div className="flex items-center gap-2 mb-2">
+                      <code className="text-emerald-400 font-mono text-sm">{shortAddress(escrow.address)}</code>
+                      {explorerUrl && (
+                        <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-emerald-400 hover:text-emerald-300">
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      )}
+                      <span className={`ml-auto px-2 py-1 rounded-lg text-xs font-medium border ${
+                        entry.condition === 'active' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' :
+                        entry.condition === 'stuck' ? 'bg-red-500/10 text-red-400 border-red-500/30' :
+                        'bg-yellow-500/10 text-yellow-400 border-yellow-500/30'
+                      }`}>
+                        {CONDITION_LABELS[entry.condition]}
+                      </span>
+                    </div>
+
+                    <p className="text-sm text-slate-400 mb-3">
+                      {escrow.milestoneAmounts.length} milestone{escrow.milestoneAmounts.length === 1 ? '' : 's'} ·
+                      total {formatUnits(escrow.totalAmount, decimals)} · freelancer {shortAddress(escrow.freelancer)}
+                    </p>
+
+                    {linkedProject ? (
+                      <p className="text-sm text-slate-300 mb-3">
+                        Linked to <span className="font-medium text-white">{linkedProject.title}</span> ({linkedProject.status})
+                      </p>
+                    ) : entry.matches.length > 0 ? (
+                      <div className="space-y-2 mb-3">
+                        {entry.matches.map((project) => (
+                          <div key={project.id} className="flex items-center gap-2 text-sm text-slate-300">
+                            <span>Matches draft <span className="font-medium text-white">{project.title}</span></span>
+                            <button
+                              onClick={() => handleRelink(entry, project)}
+                              disabled={busy}
+                              className="ml-auto flex items-center gap-1 px-3 py-1 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                            >
+                              <Link2 className="w-3 h-3" />
+                              Link
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-500 mb-3">
+                        No project matches this escrow's parties and milestone amounts.
+                      </p>
+                    )}
+
+                    {entry.condition === 'stuck' && (
+                      <div className="flex items-start gap-2 p-3 mb-3 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        This escrow holds funds that were sent directly instead of through depositFunds, so it
+                        cannot be activated or refunded by the contract. Escrows created now refuse direct
+                        transfers of the native token, but older escrows and tokens sent to an ERC20 escrow can
+                        still end up here. Create a new project for this work.
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      {linkedProject && entry.condition === 'unfunded' && linkedProject.status === 'draft' && (
+                        <button
+                          onClick={() => handleFund(entry)}
+                          disabled={busy}
+                          className="flex items-center gap-2 px-3 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                        >
+                          <Play className="w-4 h-4" />
+                          Fund Escrow
+                        </button>
+                      )}
+                      {(entry.condition === 'active' ||
+                        (entry.condition === 'unfunded' && linkedProject?.status === 'draft')) && (
+                        <button
+                          onClick={() => handleCancel(entry)}
+                          disabled={busy}
+                          className="flex items-center gap-2 px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/30 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                        >
+                          <Ban className="w-4 h-4" />
+                          {entry.condition === 'active' ? 'Cancel & Refund' : 'Cancel Project'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {scan.abandonedDrafts.map((project) => (
+                <div key={project.id} className="flex items-center gap-3 p-4 bg-slate-900/50 border border-slate-700 rounded-xl">
+                  <div>
+                    <p className="text-sm font-medium text-white">{project.title}</p>
+                    <p className="text-xs text-slate-500">Draft with no escrow deployment</p>
+                  </div>
+                  <button
+                    onClick={() => handleDiscard(project)}
+                    disabled={busyKey === project.id}
+                    className="ml-auto flex items-center gap-2 px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/30 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Discard
+                  </button>
+                </div>
+              ))}
+
+              {healthyCount > 0 && (
+                <p className="text-xs text-slate-500">
+                  {healthyCount} escrow{healthyCount === 1 ? '' : 's'} on {scan.network.name} {healthyCount === 1 ? 'is' : 'are'} linked and funded.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Github } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { connectGitHub, consumeGitHubRedirectResult, disconnectGitHub } from '../lib/github';
+
+export function GitHubConnect() {
+  const [githubLogin, setGithubLogin] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const redirectResult = consumeGitHubRedirectResult();
+    if (redirectResult && !redirectResult.connected) {
+      alert('Failed to connect GitHub: ' + (redirectResult.error || 'unknown error'));
+    }
+
+    if (user) {
+      loadGitHubLogin();
+    }
+  }, [user]);
+
+  const loadGitHubLogin = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('github_login')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    setGithubLogin(data?.github_login ?? null);
+  };
+
+  const handleConnect = async () => {
+    setLoading(true);
+    try {
+      await connectGitHub();
+    } catch (error) {
+      console.error('Failed to connect GitHub:', error);
+      alert('Failed to connect GitHub: ' + (error as Error).message);
+      setLoading(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm(`Disconnect GitHub account ${githubLogin}? GitHub milestones will need another connected account to verify.`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await disconnectGitHub();
+      setGithubLogin(null);
+    } catch (error) {
+      console.error('Failed to disconnect GitHub:', error);
+      alert('Failed to disconnect GitHub: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return githubLogin ? (
+    <button
+      onClick={handleDisconnect}
+      disabled={loading}
+      title="Disconnect GitHub"
+      className="flex items-center gap-2 px-3 py-2 rounded-xl bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 hover:border-emerald-400 transition-all disabled:opacity-50"
+    >
+      <Github className="w-4 h-4" />
+      <span className="text-xs font-mono">{githubLogin}</span>
+    </button>
+  ) : (
+    <button
+      onClick={handleConnect}
+      disabled={loading}
+      className="flex items-center gap-2 px-4 py-2 bg-slate-800/50 border border-slate-700 rounded-xl text-slate-300 hover:text-white hover:border-slate-600 transition-all disabled:opacity-50"
+    >
+      <Github className="w-4 h-4" />
+      <span className="text-sm font-medium">
+        {loading ? 'Redirecting...' : 'Connect GitHub'}
+      </span>
+    </button>
+  );
+}
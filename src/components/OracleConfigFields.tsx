@@ -0,0 +1,82 @@
+import { OracleConfig, OraclePlugin, toNameList } from '../lib/oracles';
+
+interface OracleConfigFieldsProps {
+  plugin: OraclePlugin;
+  config: OracleConfig;
+  onChange: (config: OracleConfig) => void;
+}
+
+const inputClass = 'px-3 py-2 bg-slate-800/50 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-500';
+
+// Renders a verification type's config form from the plugin's configFields
+export function OracleConfigFields({ plugin, config, onChange }: OracleConfigFieldsProps) {
+  const inputs = plugin.configFields.filter((f) => f.type !== 'boolean');
+  const checkboxes = plugin.configFields.filter((f) => f.type === 'boolean');
+
+  if (plugin.configFields.length === 0) {
+    return null;
+  }
+
+  const setValue = (key: string, value: unknown) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  return (
+    <div className="space-y-3 mt-4">
+      <p className="text-xs text-slate-500">{plugin.description}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {inputs.map((field) =>
+          field.type === 'select' ? (
+            <select
+              key={field.key}
+              value={String(config[field.key] ?? field.options?.[0] ?? '')}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              className={inputClass}
+            >
+              {(field.options || []).map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              key={field.key}
+              type={field.type === 'number' ? 'number' : 'text'}
+              min={field.min}
+              placeholder={field.placeholder || field.label}
+              title={field.label}
+              className={inputClass}
+              onChange={(e) => {
+                const raw = e.target.value;
+                if (field.type === 'number') {
+                  setValue(field.key, isNaN(parseInt(raw)) ? undefined : parseInt(raw));
+                } else if (field.type === 'list') {
+                  setValue(field.key, toNameList(raw));
+                } else {
+                  setValue(field.key, raw.trim() || undefined);
+                }
+              }}
+              required={field.required}
+            />
+          )
+        )}
+      </div>
+      {checkboxes.length > 0 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-300">
+          {checkboxes.map((field) => (
+            <label key={field.key} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 focus:ring-offset-0"
+                checked={!!config[field.key]}
+                onChange={(e) => setValue(field.key, e.target.checked)}
+              />
+              {field.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,41 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, CheckCircle, Clock, Play, ExternalLink, RefreshCw, GitBranch } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Clock, Play, ExternalLink, RefreshCw, AlertTriangle, Scale, ShieldCheck, FilePen, Plus, XCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { verifyAndPayMilestone } from '../lib/web3';
+import type { Database } from '../lib/database.types';
+import { syncProjectWithChain } from '../lib/indexer';
+import { getExplorerAddressUrl, getExplorerTxUrl, getProjectNetwork } from '../lib/networks';
+import { TransactionError } from '../lib/transactions';
+import { EvidenceCheck, checkMilestoneEvidence, getOrCreateEvidenceHash, recordVerificationEvidence } from '../lib/evidence';
+import { PendingTransaction, getPendingTransactions, onPendingTransactionUpdate } from '../lib/pending-transactions';
+import { GitHubRepoLink, getGitHubRepoLinks, isRepoLinkedBy, linkGitHubRepo, requestGitHubVerification } from '../lib/github';
+import { OracleResponse, getOraclePlugin, requestOracleVerification } from '../lib/oracles';
+import { markMilestoneDisputed, submitMilestone, verifyMilestone } from '../lib/milestones';
+import { attachProjectEscrow } from '../lib/projects';
+import { EscrowMismatch, validateEscrowForProject } from '../lib/recovery';
+import { ChangeOrderInput, ChangeOrderRow, getChangeOrders, recordChangeOrder } from '../lib/change-orders';
+import { calculatePlatformFee } from '../lib/fees';
+import { formatTokenTotal } from '../lib/amounts';
+import { ProjectMemberRow, getMilestonePayees, getProjectMembers, isMilestoneFreelancer } from '../lib/project-members';
+import { isSameWallet } from '../lib/wallet-verification';
+import {
+  depositToEscrow,
+  proposeChangeOrderOnChain,
+  acceptChangeOrderOnChain,
+  closeChangeOrderOnChain,
+  cancelMilestoneOnChain,
+  approveMilestoneCancellationOnChain,
+  verifyAndPayMilestone,
+  raiseMilestoneDispute,
+  resolveMilestoneDispute,
+  getMilestoneDispute,
+  submitMilestoneOnChain,
+  claimTimedOutPayment,
+  claimWithAttestation,
+  getMilestoneReviewWindow,
+} from '../lib/web3';
+
+type MilestoneRow = Database['public']['Tables']['milestones']['Row'];
 
 interface ProjectDetailsProps {
   project: any;
@@ -11,20 +44,69 @@ interface ProjectDetailsProps {
 }
 
 export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsProps) {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [milestones, setMilestones] = useState<any[]>([]);
   const [transactions, setTransactions] = useState<any[]>([]);
+  const [changeOrders, setChangeOrders] = useState<ChangeOrderRow[]>([]);
+  const [members, setMembers] = useState<ProjectMemberRow[]>([]);
+  const [repoLinks, setRepoLinks] = useState<GitHubRepoLink[]>([]);
   const [loading, setLoading] = useState(false);
   const [checkingCommits, setCheckingCommits] = useState(false);
   const [showContractInput, setShowContractInput] = useState(false);
   const [contractAddress, setContractAddress] = useState('');
+  const [disputes, setDisputes] = useState<Record<string, Awaited<ReturnType<typeof getMilestoneDispute>>>>({});
+  const [evidenceChecks, setEvidenceChecks] = useState<Record<string, EvidenceCheck>>({});
+  const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>(() => getPendingTransactions(project.id));
 
   useEffect(() => {
     loadMilestones();
     loadTransactions();
+    loadChangeOrders();
+    loadMembers();
+    loadRepoLinks();
     checkGitHubCommits();
+    syncWithChain();
   }, [project.id]);
 
+  // The app-wide watcher reports transactions that confirmed after a timeout or reload
+  useEffect(() => {
+    setPendingTransactions(getPendingTransactions(project.id));
+
+    return onPendingTransactionUpdate(async (update) => {
+      if (update.transaction.projectId !== project.id) return;
+
+      setPendingTransactions(getPendingTransactions(project.id));
+      await reloadProject();
+      await loadMilestones();
+      await loadTransactions();
+    });
+  }, [project.id]);
+
+  const reloadProject = async () => {
+    const { data: updatedProject } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', project.id)
+      .single();
+
+    if (updatedProject) {
+      Object.assign(project, updatedProject);
+    }
+  };
+
+  const syncWithChain = async () => {
+    if (!project.escrow_contract_address) return;
+
+    const summary = await syncProjectWithChain(project.id);
+    if (!summary || summary.error) return;
+
+    if (summary.transactionsInserted || summary.transactionsUpdated || summary.milestonesCorrected) {
+      await reloadProject();
+      await loadMilestones();
+      await loadTransactions();
+    }
+  };
+
   const loadMilestones = async () => {
     const { data, error } = await supabase
       .from('milestones')
@@ -38,6 +120,41 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
     }
 
     setMilestones(data || []);
+    await syncDisputeRulings(data || []);
+  };
+
+  const syncDisputeRulings = async (milestoneList: MilestoneRow[]) => {
+    if (!project.escrow_contract_address) return;
+
+    const disputedMilestones = milestoneList.filter(m => m.disputed_at);
+    if (disputedMilestones.length === 0) return;
+
+    const rulings: Record<string, Awaited<ReturnType<typeof getMilestoneDispute>>> = {};
+    let changed = false;
+
+    for (const milestone of disputedMilestones) {
+      try {
+        const dispute = await getMilestoneDispute(
+          project.escrow_contract_address,
+          milestone.order_index,
+          project.token_decimals ?? 18
+        );
+        rulings[milestone.id] = dispute;
+
+        if (dispute.isResolved && milestone.status === 'disputed') {
+          changed = true;
+        }
+      } catch (error) {
+        console.error('Error reading dispute from contract:', error);
+      }
+    }
+
+    setDisputes(rulings);
+
+    // A ruling settles the milestone on-chain; the indexer records it from the DisputeResolved event
+    if (changed) {
+      await syncWithChain();
+    }
   };
 
   const loadTransactions = async () => {
@@ -55,29 +172,65 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
     setTransactions(data || []);
   };
 
+  const loadChangeOrders = async () => {
+    try {
+      setChangeOrders(await getChangeOrders(project.id));
+    } catch (error) {
+      console.error('Error loading change orders:', error);
+    }
+  };
+
+  const loadMembers = async () => {
+    try {
+      setMembers(await getProjectMembers(project.id));
+    } catch (error) {
+      console.error('Error loading project members:', error);
+    }
+  };
+
+  const loadRepoLinks = async () => {
+    try {
+      setRepoLinks(await getGitHubRepoLinks(project.id));
+    } catch (error) {
+      console.error('Error loading linked repositories:', error);
+    }
+  };
+
+  // The oracle reads a private repository with a freelancer's GitHub account only once they link it
+  const handleLinkRepo = async (owner: string, repo: string) => {
+    if (!user) return;
+    if (!confirm(`Let the GitHub oracle read ${owner}/${repo} with your connected GitHub account?`)) return;
+
+    setLoading(true);
+    try {
+      await linkGitHubRepo(project.id, user.id, owner, repo);
+      await loadRepoLinks();
+    } catch (error) {
+      console.error('Error linking repository:', error);
+      alert(error instanceof Error ? error.message : 'Failed to link repository');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getMemberName = (freelancerId: string) => {
+    const member = members.find(m => m.freelancer_id === freelancerId);
+    return member?.profiles?.full_name || member?.profiles?.email || `${freelancerId.slice(0, 8)}...`;
+  };
+
   const checkGitHubCommits = async () => {
     setCheckingCommits(true);
     try {
       const inProgressMilestone = milestones.find(m => m.status === 'in_progress' && m.verification_type === 'github');
 
-      if (inProgressMilestone?.verification_config?.githubToken) {
-        await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oracle`,
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              owner: inProgressMilestone.verification_config.owner,
-              repo: inProgressMilestone.verification_config.repo,
-              githubToken: inProgressMilestone.verification_config.githubToken,
-              minCommits: inProgressMilestone.verification_config.minCommits || 1,
-              projectId: project.id,
-            }),
-          }
-        );
+      if (inProgressMilestone?.verification_config?.owner && inProgressMilestone.verification_config.repo) {
+        await requestGitHubVerification({
+          owner: inProgressMilestone.verification_config.owner,
+          repo: inProgressMilestone.verification_config.repo,
+          branch: inProgressMilestone.verification_config.branch,
+          minCommits: inProgressMilestone.verification_config.minCommits ?? 1,
+          projectId: project.id,
+        });
 
         const { data: updatedProject } = await supabase
           .from('projects')
@@ -98,92 +251,44 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
     }
   };
 
+  const describeFailedVerification = (result: OracleResponse) => {
+    const failed = (result.criteria || []).filter(c => !c.passed);
+    if (failed.length === 0) {
+      return result.error || 'The oracle could not verify this milestone yet.';
+    }
+    return `Verification criteria not met:\n${failed.map(c => `- ${c.detail}`).join('\n')}`;
+  };
+
+  // What a milestone payment sends the freelancer, after the platform fee the escrow takes
+  const getPaymentSplit = (milestone: Pick<MilestoneRow, 'amount'>) => {
+    const fee = calculatePlatformFee(Number(milestone.amount), project.platform_fee_bps ?? 0);
+    return {
+      amount: Number(milestone.amount) - fee,
+      fee_amount: fee,
+      fee_recipient: fee > 0 ? project.platform_fee_recipient : null,
+    };
+  };
+
   const handleVerifyMilestone = async (milestoneId: string) => {
     setLoading(true);
     try {
       const milestone = milestones.find((m) => m.id === milestoneId);
       if (!milestone) return;
 
-      if (milestone.verification_type === 'github') {
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oracle`,
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              owner: milestone.verification_config.owner,
-              repo: milestone.verification_config.repo,
-              githubToken: milestone.verification_config.githubToken,
-              minCommits: milestone.verification_config.minCommits || 1,
-              projectId: project.id,
-            }),
-          }
-        );
-
-        const result = await response.json();
-
-        await supabase.from('verification_logs').insert({
-          milestone_id: milestoneId,
-          verification_type: 'github',
-          oracle_response: result,
-          status: result.verified ? 'success' : 'failed',
-        });
-
-        if (result.verified) {
-          await supabase
-            .from('milestones')
-            .update({
-              status: 'verified',
-              verified_at: new Date().toISOString(),
-            })
-            .eq('id', milestoneId);
-        }
-      } else if (milestone.verification_type === 'figma') {
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/figma-oracle`,
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              fileKey: milestone.verification_config.fileKey,
-              figmaToken: milestone.verification_config.figmaToken || '',
-              minVersions: 1,
-            }),
-          }
-        );
-
-        const result = await response.json();
+      // Types with an oracle are checked by its edge function; the rest are approved by the client
+      if (getOraclePlugin(milestone.verification_type)?.endpoint) {
+        const result = await requestOracleVerification(milestone, project.id);
 
-        await supabase.from('verification_logs').insert({
-          milestone_id: milestoneId,
-          verification_type: 'figma',
-          oracle_response: result,
-          status: result.verified ? 'success' : 'failed',
-        });
+        await recordVerificationEvidence(milestoneId, milestone.verification_type, result, !!result.verified);
 
         if (result.verified) {
-          await supabase
-            .from('milestones')
-            .update({
-              status: 'verified',
-              verified_at: new Date().toISOString(),
-            })
-            .eq('id', milestoneId);
+          await verifyMilestone(milestoneId);
+        } else {
+          alert(describeFailedVerification(result));
         }
       } else {
-        await supabase
-          .from('milestones')
-          .update({
-            status: 'verified',
-            verified_at: new Date().toISOString(),
-          })
-          .eq('id', milestoneId);
+        await recordVerificationEvidence(milestoneId, 'manual', { approvedBy: user?.id, approvedAt: new Date().toISOString() }, true);
+        await verifyMilestone(milestoneId);
       }
 
       await loadMilestones();
@@ -199,6 +304,7 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
       }
     } catch (error) {
       console.error('Error verifying milestone:', error);
+      alert(error instanceof Error ? error.message : 'Failed to verify milestone');
     } finally {
       setLoading(false);
     }
@@ -224,74 +330,47 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
         throw new Error('Client wallet address not found');
       }
 
-      // Use a non-zero hash for verification (can be any valid hash for manual verification)
-      // In production, this would come from the actual verification process
-      // Generate a deterministic hash based on milestone ID
-      const defaultHash = '0x' +
-        Array.from(`verified-${milestone.id}`)
-          .map(c => c.charCodeAt(0).toString(16).padStart(2, '0'))
-          .join('')
-          .padEnd(64, '1')
-          .slice(0, 64);
-      
-      const verificationHash = milestone.verification_config?.verificationHash || defaultHash;
+      // keccak256 commitment over the oracle evidence in verification_logs
+      const verificationHash = await getOrCreateEvidenceHash(milestone, user!.id);
 
       const txHash = await verifyAndPayMilestone(
         project.escrow_contract_address,
         milestone.order_index,
-        verificationHash
+        verificationHash,
+        { projectId: project.id, milestoneId }
       );
 
+      // Recorded as pending; the escrow-indexer confirms it and fills in block_number
       await supabase.from('transactions').insert({
         project_id: project.id,
         milestone_id: milestoneId,
         transaction_hash: txHash,
         transaction_type: 'milestone_payment',
-        amount: milestone.amount,
+        ...getPaymentSplit(milestone),
         from_address: project.escrow_contract_address,
         to_address: project.freelancer_id,
-        status: 'confirmed',
+        status: 'pending',
       });
 
-      await supabase
-        .from('milestones')
-        .update({
-          status: 'paid',
-          paid_at: new Date().toISOString(),
-        })
-        .eq('id', milestoneId);
-
+      // The indexer marks the milestone paid, and the project completed, from the MilestonePaid event
+      await syncWithChain();
       await loadMilestones();
       await loadTransactions();
+    } catch (error) {
+      console.error('Error paying milestone:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to release payment';
 
-      const { data: allMilestones } = await supabase
-        .from('milestones')
-        .select('status')
-        .eq('project_id', project.id);
-
-      const allPaid = allMilestones?.every(m => m.status === 'paid');
-
-      if (allPaid) {
-        await supabase
-          .from('projects')
-          .update({ status: 'completed' })
-          .eq('id', project.id);
-
-        const { data: updatedProject } = await supabase
-          .from('projects')
-          .select('*')
-          .eq('id', project.id)
-          .single();
+      if (error instanceof TransactionError && error.code === 'USER_REJECTED') {
+        return;
+      }
 
-        if (updatedProject) {
-          Object.assign(project, updatedProject);
-        }
+      if (error instanceof TransactionError && error.code === 'TIMEOUT') {
+        setPendingTransactions(getPendingTransactions(project.id));
+        alert('The payment transaction is still confirming. It is being tracked and this page will update once it is mined.');
+        return;
       }
-    } catch (error: any) {
-      console.error('Error paying milestone:', error);
-      const errorMessage = error.message || 'Failed to release payment';
 
-      if (errorMessage.includes('Only client can call this')) {
+      if (error instanceof TransactionError && error.reason === 'Only client can call this') {
         const { data: clientProfile } = await supabase
           .from('profiles')
           .select('wallet_address')
@@ -310,17 +389,509 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
   const handleSubmitMilestone = async (milestoneId: string) => {
     setLoading(true);
     try {
-      await supabase
-        .from('milestones')
-        .update({
-          status: 'submitted',
-          submitted_at: new Date().toISOString(),
-        })
-        .eq('id', milestoneId);
-
-      loadMilestones();
+      const milestone = milestones.find(m => m.id === milestoneId);
+      if (!milestone) return;
+
+      if (!project.escrow_contract_address) {
+        throw new Error('No escrow contract found for this project');
+      }
+
+      // The on-chain submission timestamp starts the client's review window
+      const txHash = await submitMilestoneOnChain(
+        project.escrow_contract_address,
+        milestone.order_index
+      );
+
+      const reviewWindow = await getMilestoneReviewWindow(
+        project.escrow_contract_address,
+        milestone.order_index
+      );
+
+      await submitMilestone(milestoneId, {
+        submittedAt: new Date(reviewWindow.submittedAt * 1000).toISOString(),
+        reviewDeadline: reviewWindow.reviewPeriod > 0
+          ? new Date(reviewWindow.reviewDeadline * 1000).toISOString()
+          : null,
+        txHash,
+      });
+
+      await loadMilestones();
     } catch (error) {
       console.error('Error submitting milestone:', error);
+      alert(error instanceof Error ? error.message : 'Failed to submit milestone');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClaimTimedOutPayment = async (milestoneId: string) => {
+    setLoading(true);
+    try {
+      const milestone = milestones.find(m => m.id === milestoneId);
+      if (!milestone) return;
+
+      if (!project.escrow_contract_address) {
+        throw new Error('No escrow contract found for this project');
+      }
+
+      const txHash = await claimTimedOutPayment(
+        project.escrow_contract_address,
+        milestone.order_index
+      );
+
+      await supabase.from('transactions').insert({
+        project_id: project.id,
+        milestone_id: milestoneId,
+        transaction_hash: txHash,
+        transaction_type: 'milestone_payment',
+        ...getPaymentSplit(milestone),
+        from_address: project.escrow_contract_address,
+        to_address: project.freelancer_id,
+        status: 'pending',
+      });
+
+      // The indexer marks the milestone paid, and the project completed, from the MilestonePaid event
+      await syncWithChain();
+      await loadMilestones();
+      await loadTransactions();
+    } catch (error) {
+      console.error('Error claiming milestone payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to claim payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClaimWithAttestation = async (milestoneId: string) => {
+    setLoading(true);
+    try {
+      const milestone = milestones.find(m => m.id === milestoneId);
+      if (!milestone) return;
+
+      if (!project.escrow_contract_address) {
+        throw new Error('No escrow contract found for this project');
+      }
+
+      const result = await requestOracleVerification(milestone, project.id, true);
+
+      if (!result.verified) {
+        await recordVerificationEvidence(milestoneId, milestone.verification_type, result, false);
+        alert(describeFailedVerification(result));
+        return;
+      }
+
+      if (!result.attestation) {
+        alert(`The oracle verified the work but did not sign an attestation: ${result.attestationError || 'unknown reason'}`);
+        return;
+      }
+
+      const evidenceHash = await recordVerificationEvidence(milestoneId, milestone.verification_type, result, true);
+      if (evidenceHash?.toLowerCase() !== result.attestation.evidenceHash.toLowerCase()) {
+        throw new Error('Oracle attestation does not match the recorded evidence');
+      }
+
+      const txHash = await claimWithAttestation(
+        project.escrow_contract_address,
+        result.attestation,
+        { projectId: project.id, milestoneId }
+      );
+
+      await supabase.from('transactions').insert({
+        project_id: project.id,
+        milestone_id: milestoneId,
+        transaction_hash: txHash,
+        transaction_type: 'milestone_payment',
+        ...getPaymentSplit(milestone),
+        from_address: project.escrow_contract_address,
+        to_address: project.freelancer_id,
+        status: 'pending',
+      });
+
+      await syncWithChain();
+      await loadMilestones();
+      await loadTransactions();
+    } catch (error) {
+      console.error('Error claiming milestone with attestation:', error);
+
+      if (error instanceof TransactionError && error.code === 'USER_REJECTED') {
+        return;
+      }
+
+      if (error instanceof TransactionError && error.code === 'TIMEOUT') {
+        setPendingTransactions(getPendingTransactions(project.id));
+        alert('The claim transaction is still confirming. It is being tracked and this page will update once it is mined.');
+        return;
+      }
+
+      alert(error instanceof Error ? error.message : 'Failed to claim payment with oracle attestation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRaiseDispute = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone) return;
+
+    if (!project.escrow_contract_address) {
+      alert('No escrow contract found for this project');
+      return;
+    }
+
+    const reason = prompt('Describe why this milestone is disputed. The arbiter will see this reason on-chain.');
+    if (!reason?.trim()) return;
+
+    setLoading(true);
+    try {
+      await raiseMilestoneDispute(
+        project.escrow_contract_address,
+        milestone.order_index,
+        reason.trim()
+      );
+
+      await markMilestoneDisputed(milestoneId, reason.trim());
+
+      await loadMilestones();
+    } catch (error) {
+      console.error('Error raising dispute:', error);
+      alert(error instanceof Error ? error.message : 'Failed to raise dispute');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The arbiter splits a disputed milestone; whatever the freelancer is not awarded is refunded to the client
+  const handleResolveDispute = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone || !project.escrow_contract_address) return;
+
+    const input = prompt(
+      `How much of the ${milestone.amount} ${project.token_symbol} milestone goes to the freelancer? ` +
+      'The rest is refunded to the client.'
+    );
+    if (input === null) return;
+
+    const freelancerAmount = input.trim();
+    const share = parseFloat(freelancerAmount);
+    if (!freelancerAmount || isNaN(share) || share < 0 || share > Number(milestone.amount)) {
+      alert(`Enter an amount between 0 and ${milestone.amount}`);
+      return;
+    }
+    if (!confirm(`Rule ${freelancerAmount} ${project.token_symbol} to the freelancer and refund the rest to the client? This is final.`)) return;
+
+    setLoading(true);
+    try {
+      await resolveMilestoneDispute(
+        project.escrow_contract_address,
+        milestone.order_index,
+        freelancerAmount,
+        project.token_decimals ?? 18
+      );
+
+      // The indexer marks the milestone paid and records both transfers from the DisputeResolved event
+      await syncWithChain();
+      await loadMilestones();
+      await loadTransactions();
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to resolve dispute');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyEvidence = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone || !project.escrow_contract_address) return;
+
+    try {
+      const check = await checkMilestoneEvidence(project.escrow_contract_address, milestone);
+      setEvidenceChecks(prev => ({ ...prev, [milestoneId]: check }));
+    } catch (error) {
+      console.error('Error checking evidence:', error);
+      alert(error instanceof Error ? error.message : 'Failed to check evidence');
+    }
+  };
+
+  // Staged escrows are funded in order, from the first milestone without funds. A milestone removed
+  // by a change order still takes its place in that order but costs nothing.
+  const unfundedMilestones = milestones.filter(m => !m.funded_at);
+
+  /**
+   * Funds the whole escrow, or for a staged project the next `count` unfunded milestones
+   */
+  const handleFundEscrow = async (count?: number) => {
+    if (!project.escrow_contract_address) return;
+
+    const funded = count ? unfundedMilestones.slice(0, count) : milestones;
+    const amount = formatTokenTotal(
+      count ? funded.filter(m => m.status !== 'cancelled').map(m => m.amount) : [project.total_amount],
+      project.token_decimals ?? 18
+    );
+
+    setLoading(true);
+    try {
+      const { data: clientProfile } = await supabase
+        .from('profiles')
+        .select('wallet_address')
+        .eq('id', project.client_id)
+        .single();
+
+      if (!clientProfile?.wallet_address) {
+        throw new Error('Connect your wallet before funding the escrow');
+      }
+
+      let txHash: string;
+      try {
+        txHash = await depositToEscrow(
+          project.escrow_contract_address,
+          project.token_address,
+          amount,
+          project.token_decimals ?? 18,
+          { projectId: project.id },
+          count ? { start: funded[0].order_index, count } : null
+        );
+      } catch (error) {
+        if (!(error instanceof TransactionError && error.code === 'TIMEOUT' && error.txHash)) {
+          throw error;
+        }
+        txHash = error.txHash;
+        alert('The deposit is still confirming. It is being tracked and the project activates once it is mined.');
+      }
+
+      // Recorded as pending; the escrow-indexer confirms it and fills in block_number
+      await supabase.from('transactions').insert({
+        project_id: project.id,
+        milestone_id: null,
+        transaction_hash: txHash,
+        transaction_type: 'escrow_deposit',
+        amount: parseFloat(amount),
+        from_address: clientProfile.wallet_address,
+        to_address: project.escrow_contract_address,
+        status: 'pending',
+      });
+
+      setPendingTransactions(getPendingTransactions(project.id));
+      await syncWithChain();
+      await loadTransactions();
+      onUpdate();
+    } catch (error) {
+      console.error('Error funding escrow:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to fund escrow');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFundNextMilestones = () => {
+    const input = prompt(
+      `How many of the next ${unfundedMilestones.length} unfunded milestones should be funded?`,
+      '1'
+    );
+    if (input === null) return;
+
+    const count = parseInt(input);
+    if (!(count >= 1 && count <= unfundedMilestones.length)) {
+      alert(`Enter a number between 1 and ${unfundedMilestones.length}`);
+      return;
+    }
+    handleFundEscrow(count);
+  };
+
+  /**
+   * Client: proposes a change order on the escrow, then records it with its off-chain details
+   * @param milestoneIndex - The amended milestone's index in the escrow; ignored when adding
+   */
+  const proposeChangeOrder = async (change: ChangeOrderInput, milestoneIndex: number) => {
+    if (!project.escrow_contract_address) return;
+
+    setLoading(true);
+    try {
+      let txHash: string;
+      let changeOrderId: number | null = null;
+      try {
+        ({ hash: txHash, changeOrderId } = await proposeChangeOrderOnChain(
+          project.escrow_contract_address,
+          project.token_address,
+          {
+            kind: change.kind,
+            milestoneIndex,
+            newAmount: change.newAmount,
+            reviewPeriodSeconds: change.reviewPeriodSeconds ?? 0,
+          },
+          project.token_decimals ?? 18
+        ));
+      } catch (error) {
+        if (!(error instanceof TransactionError && error.code === 'TIMEOUT' && error.txHash)) {
+          throw error;
+        }
+        txHash = error.txHash;
+        alert('The change order is still confirming. The freelancer can respond once the escrow-indexer has seen it.');
+      }
+
+      await recordChangeOrder(project.id, change, { changeOrderId, txHash });
+      await loadChangeOrders();
+    } catch (error) {
+      console.error('Error proposing change order:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to propose change order');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProposeAddMilestone = async () => {
+    const title = prompt('Title of the new milestone');
+    if (!title?.trim()) return;
+    const amount = prompt(`Amount for "${title.trim()}" in ${project.token_symbol}`);
+    if (!amount || !(parseFloat(amount) > 0)) return;
+    const reason = prompt('Why is this milestone being added? The freelancer sees this with the change order.') ?? '';
+
+    await proposeChangeOrder({
+      kind: 'add',
+      milestoneId: null,
+      newAmount: amount.trim(),
+      reason: reason.trim(),
+      title: title.trim(),
+      description: '',
+      verificationType: 'manual',
+      verificationConfig: {},
+      reviewPeriodSeconds: 7 * 24 * 60 * 60,
+    }, milestones.length);
+  };
+
+  const handleProposeReprice = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone) return;
+
+    const amount = prompt(`New amount for "${milestone.title}" in ${project.token_symbol}`, String(milestone.amount));
+    if (!amount || !(parseFloat(amount) > 0) || parseFloat(amount) === parseFloat(milestone.amount)) return;
+    const reason = prompt('Why is the price changing? The freelancer sees this with the change order.') ?? '';
+
+    await proposeChangeOrder({
+      kind: 'reprice',
+      milestoneId,
+      newAmount: amount.trim(),
+      reason: reason.trim(),
+    }, milestone.order_index);
+  };
+
+  const handleProposeRemoval = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone) return;
+
+    const reason = prompt(`Why should "${milestone.title}" be removed? The freelancer sees this with the change order.`);
+    if (reason === null) return;
+
+    await proposeChangeOrder({
+      kind: 'remove',
+      milestoneId,
+      newAmount: '0',
+      reason: reason.trim(),
+    }, milestone.order_index);
+  };
+
+  /**
+   * Freelancer accepts or rejects, or client withdraws, a change order. The escrow-indexer records
+   * the outcome and applies an accepted change to the milestones.
+   */
+  const handleRespondToChangeOrder = async (changeOrder: ChangeOrderRow, accept: boolean) => {
+    if (!project.escrow_contract_address || changeOrder.chain_change_order_id === null) return;
+
+    setLoading(true);
+    try {
+      if (accept) {
+        await acceptChangeOrderOnChain(project.escrow_contract_address, changeOrder.chain_change_order_id);
+      } else {
+        await closeChangeOrderOnChain(project.escrow_contract_address, changeOrder.chain_change_order_id);
+      }
+
+      await syncWithChain();
+      await loadChangeOrders();
+      onUpdate();
+    } catch (error) {
+      console.error('Error responding to change order:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to respond to change order');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Client: cancels a milestone, offering a kill fee for work already started on a funded one.
+   * Submitted or verified work stays as it is until the freelancer approves the cancellation.
+   */
+  const handleCancelMilestone = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone || !project.escrow_contract_address) return;
+
+    const needsConsent = ['submitted', 'verified'].includes(milestone.status);
+    let killFeeBps = 0;
+    if (milestone.status !== 'pending' && milestone.funded_at) {
+      const input = prompt(
+        `Kill fee: the percentage of ${milestone.amount} ${project.token_symbol} paid to the freelancer for the work done on "${milestone.title}"`,
+        '0'
+      );
+      if (input === null) return;
+
+      const percent = parseFloat(input);
+      if (!(percent >= 0 && percent <= 100)) {
+        alert('Enter a percentage between 0 and 100');
+        return;
+      }
+      killFeeBps = Math.round(percent * 100);
+    }
+
+    const confirmation = needsConsent
+      ? `Work on "${milestone.title}" has been submitted, so the freelancer must approve its cancellation. Send the request?`
+      : `Cancel "${milestone.title}"? Its funds, less any kill fee, are refunded to your wallet.`;
+    if (!confirm(confirmation)) return;
+
+    setLoading(true);
+    try {
+      await cancelMilestoneOnChain(project.escrow_contract_address, milestone.order_index, killFeeBps);
+
+      // The indexer records the request or the cancellation, its refund and any kill fee
+      await syncWithChain();
+      onUpdate();
+    } catch (error) {
+      console.error('Error cancelling milestone:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to cancel milestone');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Freelancer: agrees to the client's cancellation of submitted work
+  const handleApproveCancellation = async (milestoneId: string) => {
+    const milestone = milestones.find(m => m.id === milestoneId);
+    if (!milestone || !project.escrow_contract_address) return;
+
+    const killFeeBps = milestone.cancellation_kill_fee_bps ?? 0;
+    if (!confirm(`Approve cancelling "${milestone.title}" with a ${killFeeBps / 100}% kill fee? The rest is refunded to the client.`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await approveMilestoneCancellationOnChain(project.escrow_contract_address, milestone.order_index, killFeeBps);
+
+      await syncWithChain();
+      onUpdate();
+    } catch (error) {
+      console.error('Error approving cancellation:', error);
+      if (!(error instanceof TransactionError && error.code === 'USER_REJECTED')) {
+        alert(error instanceof Error ? error.message : 'Failed to approve cancellation');
+      }
     } finally {
       setLoading(false);
     }
@@ -331,17 +902,42 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
 
     setLoading(true);
     try {
-      await supabase
-        .from('projects')
-        .update({ escrow_contract_address: contractAddress.trim() })
-        .eq('id', project.id);
+      const { data: parties } = await supabase
+        .from('profiles')
+        .select('id, wallet_address')
+        .in('id', [project.client_id, project.freelancer_id].filter(Boolean));
+      const walletOf = (id: string | null) =>
+        (parties as { id: string; wallet_address: string | null }[] | null)?.find(p => p.id === id)?.wallet_address ?? null;
+
+      // Check the address against the chain before it is trusted with this project's payments
+      const { escrow, mismatches } = await validateEscrowForProject(
+        contractAddress.trim(),
+        { ...project, milestones },
+        { client: walletOf(project.client_id), freelancer: walletOf(project.freelancer_id) }
+      );
+      const describe = (list: EscrowMismatch[]) =>
+        list.map(m => `• ${m.field}: expected ${m.expected}, contract has ${m.actual}`).join('\n');
+
+      const blocking = mismatches.filter(m => m.blocking);
+      if (!escrow || blocking.length > 0) {
+        alert(`This address cannot be linked to the project:\n\n${describe(blocking)}`);
+        return;
+      }
+      if (mismatches.length > 0 &&
+        !confirm(`The contract does not match the project:\n\n${describe(mismatches)}\n\nLink it anyway?`)) {
+        return;
+      }
 
-      project.escrow_contract_address = contractAddress.trim();
+      // Also starts the first milestone of a draft that had no escrow yet
+      const updatedProject = await attachProjectEscrow(project.id, escrow.address);
+
+      Object.assign(project, updatedProject);
       setShowContractInput(false);
       setContractAddress('');
+      onUpdate();
     } catch (error) {
       console.error('Error saving contract address:', error);
-      alert('Failed to save contract address');
+      alert(error instanceof Error ? error.message : 'Failed to save contract address');
     } finally {
       setLoading(false);
     }
@@ -349,6 +945,57 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
 
   const isClient = user?.id === project.client_id;
   const isFreelancer = user?.id === project.freelancer_id;
+  // The arbiter is the escrow's arbiter wallet, once the user has proved they hold it
+  const isArbiter = isSameWallet(profile?.verified_wallet_address, project.arbiter_address);
+
+  // Change orders need a deployed escrow and only touch milestones nothing has been submitted for
+  const canProposeChanges = isClient &&
+    !!project.escrow_contract_address &&
+    ['draft', 'active'].includes(project.status);
+  const isAmendable = (milestone: MilestoneRow) => ['pending', 'in_progress'].includes(milestone.status);
+
+  const canCancelMilestone = (milestone: MilestoneRow) =>
+    isClient &&
+    !!project.escrow_contract_address &&
+    ['draft', 'active'].includes(project.status) &&
+    ['pending', 'in_progress', 'submitted', 'verified'].includes(milestone.status) &&
+    !milestone.cancellation_requested_at &&
+    !isPaymentConfirming(milestone.id);
+
+  const describeChangeOrder = (changeOrder: ChangeOrderRow) => {
+    const milestone = milestones.find(m => m.id === changeOrder.milestone_id);
+    const name = milestone ? `"${milestone.title}"` : `milestone ${(changeOrder.order_index ?? 0) + 1}`;
+    switch (changeOrder.kind) {
+      case 'add':
+        return `Add "${changeOrder.title || 'milestone'}" for ${changeOrder.new_amount} ${project.token_symbol}`;
+      case 'reprice':
+        return `Re-price ${name} from ${changeOrder.previous_amount ?? '?'} to ${changeOrder.new_amount} ${project.token_symbol}`;
+      default:
+        return `Remove ${name}${changeOrder.previous_amount !== null ? ` (${changeOrder.previous_amount} ${project.token_symbol})` : ''}`;
+    }
+  };
+
+  const getChangeOrderStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-emerald-500/10 text-emerald-400';
+      case 'proposed':
+        return 'bg-yellow-500/10 text-yellow-400';
+      default:
+        return 'bg-slate-500/10 text-slate-400';
+    }
+  };
+
+  const isReviewWindowOver = (milestone: MilestoneRow) =>
+    !!milestone.review_deadline && new Date(milestone.review_deadline).getTime() <= Date.now();
+
+  // A payment was sent for a milestone not yet marked paid: the indexer has not seen its MilestonePaid event
+  const isPaymentConfirming = (milestoneId: string) =>
+    transactions.some(tx =>
+      tx.milestone_id === milestoneId &&
+      tx.transaction_type === 'milestone_payment' &&
+      tx.status !== 'failed'
+    );
 
   const getMilestoneStatusColor = (status: string) => {
     switch (status) {
@@ -356,10 +1003,14 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
         return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30';
       case 'verified':
         return 'bg-blue-500/10 text-blue-400 border-blue-500/30';
+      case 'disputed':
+        return 'bg-red-500/10 text-red-400 border-red-500/30';
       case 'submitted':
         return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30';
       case 'in_progress':
         return 'bg-orange-500/10 text-orange-400 border-orange-500/30';
+      case 'cancelled':
+        return 'bg-slate-500/10 text-slate-500 border-slate-600/30 line-through';
       default:
         return 'bg-slate-500/10 text-slate-400 border-slate-500/30';
     }
@@ -471,14 +1122,36 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
               Escrow Contract: {project.escrow_contract_address.slice(0, 8)}...
               {project.escrow_contract_address.slice(-6)}
             </span>
-            <a
-              href={`https://testnet.qie.digital/address/${project.escrow_contract_address}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="ml-auto text-emerald-400 hover:text-emerald-300"
-            >
-              <ExternalLink className="w-4 h-4" />
-            </a>
+            <span className="ml-auto text-xs text-emerald-400/70">
+              {getProjectNetwork(project.chain_id).name}
+            </span>
+            {getExplorerAddressUrl(project.chain_id, project.escrow_contract_address) && (
+              <a
+                href={getExplorerAddressUrl(project.chain_id, project.escrow_contract_address)!}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-emerald-400 hover:text-emerald-300"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            )}
+          </div>
+        ) : project.deployment_tx_hash ? (
+          <div className="flex items-center gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl">
+            <Clock className="w-5 h-5 text-yellow-400 animate-pulse" />
+            <span className="text-sm text-yellow-400 font-medium">
+              Escrow deployment pending: {project.deployment_tx_hash.slice(0, 10)}...{project.deployment_tx_hash.slice(-8)}
+            </span>
+            {getExplorerTxUrl(project.chain_id, project.deployment_tx_hash) && (
+              <a
+                href={getExplorerTxUrl(project.chain_id, project.deployment_tx_hash)!}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-auto text-yellow-400 hover:text-yellow-300"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            )}
           </div>
         ) : isClient && !showContractInput ? (
           <button
@@ -519,10 +1192,98 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
             </div>
           </div>
         ) : null}
+
+        {isClient && project.escrow_contract_address && project.status === 'draft' && !project.staged_funding && (
+          <button
+            onClick={() => handleFundEscrow()}
+            disabled={loading || pendingTransactions.some(tx => tx.kind === 'deposit')}
+            className="flex items-center justify-center gap-2 w-full p-3 mt-4 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl font-medium transition-colors disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            Fund Escrow ({project.total_amount} {project.token_symbol})
+          </button>
+        )}
+
+        {isClient && project.escrow_contract_address && project.staged_funding &&
+          ['draft', 'active'].includes(project.status) && unfundedMilestones.length > 0 && (
+          <div className="flex items-center gap-3 p-3 mt-4 bg-slate-900/50 border border-slate-700 rounded-xl">
+            <span className="text-sm text-slate-300">
+              {milestones.length - unfundedMilestones.length} of {milestones.length} milestones funded
+            </span>
+            <button
+              onClick={handleFundNextMilestones}
+              disabled={loading || pendingTransactions.some(tx => tx.kind === 'deposit')}
+              className="ml-auto flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              Fund Next Milestones
+            </button>
+          </div>
+        )}
+
+        {pendingTransactions.length > 0 && (
+          <div className="p-3 mt-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl space-y-2">
+            {pendingTransactions.map((tx) => (
+              <div key={tx.hash} className="flex items-center gap-2 text-sm text-yellow-400">
+                <RefreshCw className="w-4 h-4 animate-spin" />
+                <span className="capitalize">{tx.kind}</span>
+                <span className="font-mono text-xs">
+                  {tx.hash.slice(0, 10)}...{tx.hash.slice(-8)}
+                </span>
+                <span className="text-yellow-400/70">confirming</span>
+                {getExplorerTxUrl(tx.chainId, tx.hash) && (
+                  <a
+                    href={getExplorerTxUrl(tx.chainId, tx.hash)!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-auto hover:text-yellow-300"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {project.arbiter_address && (
+          <div className="flex items-center gap-2 p-3 mt-4 bg-slate-900/50 border border-slate-700 rounded-xl">
+            <Scale className="w-5 h-5 text-slate-400" />
+            <span className="text-sm text-slate-300">
+              Arbiter: <span className="font-mono">{project.arbiter_address.slice(0, 8)}...{project.arbiter_address.slice(-6)}</span>
+            </span>
+          </div>
+        )}
+
+        {members.length > 1 && (
+          <div className="p-3 mt-4 bg-slate-900/50 border border-slate-700 rounded-xl">
+            <div className="text-sm font-medium text-slate-300 mb-2">Team</div>
+            <div className="flex flex-wrap gap-2">
+              {members.map((member) => (
+                <div key={member.id} className="px-3 py-1 rounded-lg bg-slate-700/50 text-slate-300 text-xs font-medium">
+                  {getMemberName(member.freelancer_id)}
+                  {member.role === 'lead' && <span className="text-emerald-400"> · Lead</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8">
-        <h2 className="text-2xl font-bold text-white mb-6">Milestones</h2>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Milestones</h2>
+          {canProposeChanges && (
+            <button
+              onClick={handleProposeAddMilestone}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Propose Milestone
+            </button>
+          )}
+        </div>
 
         {project.status === 'completed' && (
           <div className="mb-6 p-4 bg-blue-500/10 border border-blue-500/30 rounded-xl">
@@ -556,18 +1317,94 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                       {milestone.status}
                     </div>
                     <div className="px-3 py-1 rounded-lg bg-slate-700/50 text-slate-300 text-xs font-medium">
-                      {milestone.verification_type}
+                      {getOraclePlugin(milestone.verification_type)?.label || milestone.verification_type}
                     </div>
+                    {project.staged_funding && (
+                      <div className={`px-3 py-1 rounded-lg border text-xs font-medium ${
+                        milestone.funded_at
+                          ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30'
+                          : 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30'
+                      }`}>
+                        {milestone.funded_at ? 'Funded' : 'Not funded'}
+                      </div>
+                    )}
                   </div>
                   <h3 className="text-lg font-bold text-white mb-2">
                     {milestone.title}
                   </h3>
                   <p className="text-slate-400 text-sm">{milestone.description}</p>
+                  {getMilestonePayees(milestone).length > 0 && (
+                    <div className="mt-2 text-xs text-slate-500">
+                      Assigned to{' '}
+                      {getMilestonePayees(milestone)
+                        .map(payee => `${getMemberName(payee.freelancer_id)} (${payee.share_bps / 100}%)`)
+                        .join(', ')}
+                    </div>
+                  )}
                   {milestone.verification_type === 'github' && milestone.verification_config?.minCommits && (
                     <div className="mt-2 text-xs text-slate-500">
                       Required commits: {milestone.verification_config.minCommits}
                     </div>
                   )}
+                  {milestone.verification_type === 'github' &&
+                    milestone.verification_config?.owner &&
+                    milestone.verification_config.repo &&
+                    isMilestoneFreelancer(project, milestone, user?.id) && (
+                    <div className="mt-2 text-xs text-slate-500">
+                      {isRepoLinkedBy(repoLinks, user?.id, milestone.verification_config.owner, milestone.verification_config.repo) ? (
+                        `${milestone.verification_config.owner}/${milestone.verification_config.repo} is read with your GitHub account`
+                      ) : (
+                        <button
+                          onClick={() => handleLinkRepo(milestone.verification_config.owner, milestone.verification_config.repo)}
+                          disabled={loading}
+                          className="text-emerald-400 hover:text-emerald-300 disabled:opacity-50"
+                        >
+                          Private repository? Let the oracle read {milestone.verification_config.owner}/{milestone.verification_config.repo} with your GitHub
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {milestone.status === 'submitted' && milestone.review_deadline && (
+                    <div className="mt-2 text-xs text-slate-500">
+                      {isReviewWindowOver(milestone)
+                        ? 'Review window closed — freelancer can claim payment'
+                        : `Client review due by ${new Date(milestone.review_deadline).toLocaleString()}`}
+                    </div>
+                  )}
+                  {milestone.disputed_at && (
+                    <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm">
+                      <div className="flex items-center gap-2 text-red-400 font-medium mb-1">
+                        <AlertTriangle className="w-4 h-4" />
+                        {milestone.dispute_resolved_at ? 'Dispute settled by arbiter' : 'Dispute raised'}
+                        {milestone.disputed_by && (
+                          <span className="text-xs text-slate-400 font-normal">
+                            by {milestone.disputed_by === project.client_id ? 'client' : 'freelancer'}
+                          </span>
+                        )}
+                      </div>
+                      {milestone.dispute_reason && (
+                        <p className="text-slate-300">{milestone.dispute_reason}</p>
+                      )}
+                      {disputes[milestone.id]?.isResolved && (
+                        <p className="text-xs text-slate-400 mt-2">
+                          Ruling: {disputes[milestone.id].freelancerAmount} {project.token_symbol} to freelancer, {disputes[milestone.id].clientAmount} {project.token_symbol} refunded to client
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {milestone.cancellation_requested_at && milestone.status !== 'cancelled' && (
+                    <div className="mt-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-400">
+                      The client asked to cancel this milestone with a {(milestone.cancellation_kill_fee_bps ?? 0) / 100}% kill fee.
+                      It is cancelled once the freelancer approves.
+                    </div>
+                  )}
+                  {milestone.status === 'cancelled' && milestone.cancelled_at && (
+                    <div className="mt-2 text-xs text-slate-500">
+                      Cancelled {new Date(milestone.cancelled_at).toLocaleDateString()}
+                      {parseFloat(milestone.kill_fee_amount ?? 0) > 0 &&
+                        ` with a kill fee of ${milestone.kill_fee_amount} ${project.token_symbol} paid to the freelancer`}
+                    </div>
+                  )}
                 </div>
                 <div className="text-right ml-4">
                   <div className="text-2xl font-bold text-white">
@@ -577,8 +1414,31 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                 </div>
               </div>
 
+              {evidenceChecks[milestone.id] && (
+                <div className={`mt-3 p-3 rounded-lg text-xs font-mono break-all border ${
+                  evidenceChecks[milestone.id].status === 'match'
+                    ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+                    : evidenceChecks[milestone.id].status === 'mismatch'
+                    ? 'bg-red-500/10 border-red-500/30 text-red-400'
+                    : 'bg-slate-900/50 border-slate-700 text-slate-400'
+                }`}>
+                  <div className="font-sans font-medium mb-1">
+                    {evidenceChecks[milestone.id].status === 'match' && 'Evidence matches the on-chain verification hash'}
+                    {evidenceChecks[milestone.id].status === 'mismatch' && 'Evidence does NOT match the on-chain verification hash'}
+                    {evidenceChecks[milestone.id].status === 'not_verified' && 'Milestone is not verified on-chain yet'}
+                    {evidenceChecks[milestone.id].status === 'no_evidence' && 'No verification evidence recorded for this milestone'}
+                  </div>
+                  {evidenceChecks[milestone.id].computedHash && (
+                    <div>Evidence: {evidenceChecks[milestone.id].computedHash}</div>
+                  )}
+                  {evidenceChecks[milestone.id].onChainHash && (
+                    <div>On-chain: {evidenceChecks[milestone.id].onChainHash}</div>
+                  )}
+                </div>
+              )}
+
               <div className="flex gap-3 mt-4">
-                {isFreelancer && milestone.status === 'in_progress' && (
+                {isMilestoneFreelancer(project, milestone, user?.id) && milestone.status === 'in_progress' && (
                   <button
                     onClick={() => handleSubmitMilestone(milestone.id)}
                     disabled={loading}
@@ -600,7 +1460,33 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                   </button>
                 )}
 
-                {isClient && milestone.status === 'verified' && (
+                {isMilestoneFreelancer(project, milestone, user?.id) && milestone.status === 'submitted' && isReviewWindowOver(milestone) && !isPaymentConfirming(milestone.id) && (
+                  <button
+                    onClick={() => handleClaimTimedOutPayment(milestone.id)}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    <Play className="w-4 h-4" />
+                    Claim Payment
+                  </button>
+                )}
+
+                {isMilestoneFreelancer(project, milestone, user?.id) &&
+                  project.escrow_contract_address &&
+                  ['submitted', 'verified'].includes(milestone.status) &&
+                  !isPaymentConfirming(milestone.id) &&
+                  getOraclePlugin(milestone.verification_type)?.endpoint && (
+                  <button
+                    onClick={() => handleClaimWithAttestation(milestone.id)}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Claim with Oracle Proof
+                  </button>
+                )}
+
+                {isClient && milestone.status === 'verified' && !isPaymentConfirming(milestone.id) && (
                   <>
                     <button
                       onClick={() => handlePayMilestone(milestone.id)}
@@ -616,6 +1502,49 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                   </>
                 )}
 
+                {(isClient || isFreelancer) &&
+                  project.escrow_contract_address &&
+                  ['in_progress', 'submitted', 'verified'].includes(milestone.status) && (
+                  <button
+                    onClick={() => handleRaiseDispute(milestone.id)}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    <AlertTriangle className="w-4 h-4" />
+                    Raise Dispute
+                  </button>
+                )}
+
+                {milestone.status !== 'paid' && isPaymentConfirming(milestone.id) && (
+                  <div className="flex items-center gap-2 text-blue-400">
+                    <Clock className="w-5 h-5" />
+                    <span className="font-medium">Payment Confirming</span>
+                  </div>
+                )}
+
+                {milestone.status === 'disputed' && !isArbiter && (
+                  <div className="flex items-center gap-2 text-red-400">
+                    <Scale className="w-5 h-5" />
+                    <span className="font-medium">Awaiting Arbiter Ruling</span>
+                  </div>
+                )}
+
+                {milestone.status === 'disputed' && isArbiter && project.escrow_contract_address && (
+                  <>
+                    <button
+                      onClick={() => handleResolveDispute(milestone.id)}
+                      disabled={loading}
+                      className="flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      <Scale className="w-4 h-4" />
+                      Resolve Dispute
+                    </button>
+                    <div className="text-xs text-slate-500 flex items-center">
+                      ⚠️ Ensure MetaMask is connected to the arbiter account
+                    </div>
+                  </>
+                )}
+
                 {milestone.status === 'paid' && (
                   <div className="flex items-center gap-2 text-emerald-400">
                     <CheckCircle className="w-5 h-5" />
@@ -623,18 +1552,134 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                   </div>
                 )}
 
+                {project.escrow_contract_address && ['verified', 'paid'].includes(milestone.status) && (
+                  <button
+                    onClick={() => handleVerifyEvidence(milestone.id)}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Verify Evidence
+                  </button>
+                )}
+
                 {milestone.status === 'pending' && (
                   <div className="flex items-center gap-2 text-slate-400">
                     <Clock className="w-5 h-5" />
                     <span className="font-medium">Waiting to Start</span>
                   </div>
                 )}
+
+                {isFreelancer &&
+                  milestone.cancellation_requested_at &&
+                  ['submitted', 'verified'].includes(milestone.status) && (
+                  <button
+                    onClick={() => handleApproveCancellation(milestone.id)}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Approve Cancellation
+                  </button>
+                )}
+
+                {canCancelMilestone(milestone) && (
+                  <button
+                    onClick={() => handleCancelMilestone(milestone.id)}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg font-medium transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Cancel Milestone
+                  </button>
+                )}
+
+                {canProposeChanges && isAmendable(milestone) && (
+                  <>
+                    <button
+                      onClick={() => handleProposeReprice(milestone.id)}
+                      disabled={loading}
+                      className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      <FilePen className="w-4 h-4" />
+                      Change Price
+                    </button>
+                    <button
+                      onClick={() => handleProposeRemoval(milestone.id)}
+                      disabled={loading}
+                      className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           ))}
         </div>
       </div>
 
+      {changeOrders.length > 0 && (
+        <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8">
+          <h2 className="text-2xl font-bold text-white mb-6">Change Orders</h2>
+
+          <div className="space-y-3">
+            {changeOrders.map((changeOrder) => (
+              <div
+                key={changeOrder.id}
+                className="p-4 bg-slate-900/50 border border-slate-700 rounded-xl"
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <FilePen className="w-4 h-4 text-slate-400" />
+                  <div className="text-sm font-medium text-white">{describeChangeOrder(changeOrder)}</div>
+                  <div className={`px-2 py-1 rounded text-xs font-medium ${getChangeOrderStatusColor(changeOrder.status)}`}>
+                    {changeOrder.status}
+                  </div>
+                  <div className="ml-auto text-xs text-slate-500">
+                    {new Date(changeOrder.responded_at || changeOrder.created_at).toLocaleDateString()}
+                  </div>
+                </div>
+                {changeOrder.reason && (
+                  <p className="text-sm text-slate-400">{changeOrder.reason}</p>
+                )}
+
+                {changeOrder.status === 'proposed' && (
+                  <div className="flex gap-3 mt-3">
+                    {changeOrder.chain_change_order_id === null ? (
+                      <div className="flex items-center gap-2 text-sm text-yellow-400">
+                        <Clock className="w-4 h-4" />
+                        Waiting for the proposal to confirm
+                      </div>
+                    ) : (
+                      <>
+                        {isFreelancer && (
+                          <button
+                            onClick={() => handleRespondToChangeOrder(changeOrder, true)}
+                            disabled={loading}
+                            className="flex items-center gap-2 px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            Accept
+                          </button>
+                        )}
+                        {(isClient || isFreelancer) && (
+                          <button
+                            onClick={() => handleRespondToChangeOrder(changeOrder, false)}
+                            disabled={loading}
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                          >
+                            {isClient ? 'Withdraw' : 'Reject'}
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {transactions.length > 0 && (
         <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl border border-slate-700/50 p-8">
           <h2 className="text-2xl font-bold text-white mb-6">Transactions</h2>
@@ -664,20 +1709,27 @@ export function ProjectDetails({ project, onClose, onUpdate }: ProjectDetailsPro
                     <span className="text-xs text-slate-500 font-mono">
                       {tx.transaction_hash.slice(0, 10)}...{tx.transaction_hash.slice(-8)}
                     </span>
-                    <a
-                      href={`https://testnet.qie.digital/tx/${tx.transaction_hash}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-emerald-400 hover:text-emerald-300"
-                    >
-                      <ExternalLink className="w-3 h-3" />
-                    </a>
+                    {getExplorerTxUrl(project.chain_id, tx.transaction_hash) && (
+                      <a
+                        href={getExplorerTxUrl(project.chain_id, tx.transaction_hash)!}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-emerald-400 hover:text-emerald-300"
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
                   <div className="text-lg font-bold text-white">
                     {parseFloat(tx.amount).toFixed(2)} {project.token_symbol}
                   </div>
+                  {parseFloat(tx.fee_amount ?? 0) > 0 && (
+                    <div className="text-xs text-slate-400">
+                      + {parseFloat(tx.fee_amount).toFixed(2)} {project.token_symbol} platform fee
+                    </div>
+                  )}
                   <div className="text-xs text-slate-500">
                     {new Date(tx.created_at).toLocaleDateString()}
                   </div>
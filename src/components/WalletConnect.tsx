@@ -3,6 +3,7 @@ import { Wallet, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { connectWallet, getCurrentAccount, onAccountsChanged } from '../lib/wallet';
+import { verifyWalletOwnership } from '../lib/wallet-verification';
 
 export function WalletConnect() {
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
@@ -24,18 +25,10 @@ export function WalletConnect() {
     return cleanup;
   }, [user]);
 
-  const handleAccountsChanged = async (accounts: string[]) => {
-    const newAddress = accounts[0] || null;
-    setCurrentWalletAddress(newAddress);
-
-    // Auto-update the database when wallet account changes
-    if (newAddress && user) {
-      await supabase
-        .from('profiles')
-        .update({ wallet_address: newAddress })
-        .eq('id', user.id);
-      setWalletAddress(newAddress);
-    }
+  // Switching accounts in the wallet only flags the mismatch: the saved wallet changes when the new
+  // account signs the verification challenge through Connect
+  const handleAccountsChanged = (accounts: string[]) => {
+    setCurrentWalletAddress(accounts[0] || null);
   };
 
   const checkCurrentWalletAccount = async () => {
@@ -69,25 +62,13 @@ export function WalletConnect() {
       // Show account selector
       const address = await connectWallet();
       console.log('Got address from wallet:', address);
-
-      setWalletAddress(address);
       setCurrentWalletAddress(address);
 
       if (user) {
-        console.log('Updating database for user:', user.id);
-        const { data, error } = await supabase
-          .from('profiles')
-          .update({ wallet_address: address })
-          .eq('id', user.id)
-          .select();
-
-        if (error) {
-          console.error('Database update error:', error);
-          alert('Failed to save wallet address: ' + error.message);
-        } else {
-          console.log('Database updated successfully:', data);
-          alert('Wallet connected successfully!');
-        }
+        // The signed challenge proves the account holds the wallet; the edge function saves it
+        const verifiedAddress = await verifyWalletOwnership(address);
+        setWalletAddress(verifiedAddress);
+        alert('Wallet connected successfully!');
       }
     } catch (error) {
       console.error('Failed to connect wallet:', error);
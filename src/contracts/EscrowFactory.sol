@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./FreelanceEscrow.sol";
+
+// Creates each project's FreelanceEscrow as an EIP-1167 minimal proxy of one implementation, and
+// keeps every client's and freelancer's escrows so they can be listed from this one address.
+// A freelancer's list includes the team projects they are a milestone payee on.
+// The arbiter, oracle signer and platform fee are the factory's, set by its owner; clients cannot
+// choose their own.
+contract EscrowFactory {
+    address public immutable implementation;
+    address public owner;
+
+    // The platform's neutral arbiter and the oracle service's signer, given to every escrow created
+    // from now on. A zero oracle signer disables attestations.
+    address public arbiter;
+    address public oracleSigner;
+
+    // Applied to every escrow created from now on; existing escrows keep the fee they were created with
+    address public feeRecipient;
+    uint256 public feeBps;
+
+    address[] public escrows;
+    mapping(address => bool) public isEscrow;
+    mapping(address => address[]) private clientEscrows;
+    mapping(address => address[]) private freelancerEscrows;
+
+    event EscrowDeployed(address indexed escrow, address indexed client, address indexed freelancer);
+    event ArbiterUpdated(address indexed arbiter);
+    event OracleSignerUpdated(address indexed oracleSigner);
+    event PlatformFeeUpdated(address indexed feeRecipient, uint256 feeBps);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this");
+        _;
+    }
+
+    constructor(address _arbiter, address _oracleSigner, address _feeRecipient, uint256 _feeBps) {
+        implementation = address(new FreelanceEscrow());
+        owner = msg.sender;
+        _setArbiter(_arbiter);
+        _setOracleSigner(_oracleSigner);
+        _setPlatformFee(_feeRecipient, _feeBps);
+    }
+
+    function setArbiter(address _arbiter) external onlyOwner {
+        _setArbiter(_arbiter);
+    }
+
+    function setOracleSigner(address _oracleSigner) external onlyOwner {
+        _setOracleSigner(_oracleSigner);
+    }
+
+    function setPlatformFee(address _feeRecipient, uint256 _feeBps) external onlyOwner {
+        _setPlatformFee(_feeRecipient, _feeBps);
+    }
+
+    function transferOwnership(address _owner) external onlyOwner {
+        require(_owner != address(0), "Invalid owner address");
+        owner = _owner;
+    }
+
+    // Takes the same terms FreelanceEscrow.initialize does, less the arbiter, oracle signer and platform
+    // fee; only the client can open its escrow
+    function createEscrow(
+        address _client,
+        address _freelancer,
+        address _paymentToken,
+        uint256[] memory _milestoneAmounts,
+        uint256[] memory _reviewPeriods,
+        bool _stagedFunding,
+        FreelanceEscrow.PayeeAssignment[] memory _payees
+    ) external returns (address escrow) {
+        require(msg.sender == _client, "Only the client can create its escrow");
+
+        escrow = _clone(implementation);
+        FreelanceEscrow(payable(escrow)).initialize(
+            _client,
+            _freelancer,
+            arbiter,
+            oracleSigner,
+            _paymentToken,
+            _milestoneAmounts,
+            _reviewPeriods,
+            _stagedFunding,
+            feeRecipient,
+            feeBps,
+            _payees
+        );
+
+        isEscrow[escrow] = true;
+        escrows.push(escrow);
+        clientEscrows[_client].push(escrow);
+        freelancerEscrows[_freelancer].push(escrow);
+        _listPayeeEscrows(escrow, _freelancer, _payees);
+
+        emit EscrowDeployed(escrow, _client, _freelancer);
+    }
+
+    function getClientEscrows(address _client) external view returns (address[] memory) {
+        return clientEscrows[_client];
+    }
+
+    function getFreelancerEscrows(address _freelancer) external view returns (address[] memory) {
+        return freelancerEscrows[_freelancer];
+    }
+
+    function getEscrowCount() external view returns (uint256) {
+        return escrows.length;
+    }
+
+    // Whether the arbiter is neutral depends on the escrow's parties, so initialize checks that
+    function _setArbiter(address _arbiter) internal {
+        require(_arbiter != address(0), "Invalid arbiter address");
+        arbiter = _arbiter;
+        emit ArbiterUpdated(_arbiter);
+    }
+
+    function _setOracleSigner(address _oracleSigner) internal {
+        oracleSigner = _oracleSigner;
+        emit OracleSignerUpdated(_oracleSigner);
+    }
+
+    // Checked here as well as in initialize, so a bad fee fails when set rather than on every createEscrow
+    function _setPlatformFee(address _feeRecipient, uint256 _feeBps) internal {
+        FreelanceEscrow escrow = FreelanceEscrow(payable(implementation));
+        require(_feeBps <= escrow.MAX_FEE_BPS(), "Platform fee too high");
+        require(_feeBps == 0 || _feeRecipient != address(0), "Fee recipient required");
+        feeRecipient = _feeRecipient;
+        feeBps = _feeBps;
+        emit PlatformFeeUpdated(_feeRecipient, _feeBps);
+    }
+
+    // Adds the escrow to each team member's list once, however many milestones they are paid on
+    function _listPayeeEscrows(
+        address _escrow,
+        address _freelancer,
+        FreelanceEscrow.PayeeAssignment[] memory _payees
+    ) internal {
+        for (uint256 i = 0; i < _payees.length; i++) {
+            address account = _payees[i].account;
+            if (account == _freelancer) continue;
+
+            bool listed = false;
+            for (uint256 j = 0; j < i && !listed; j++) {
+                listed = _payees[j].account == account;
+            }
+            if (!listed) {
+                freelancerEscrows[account].push(_escrow);
+            }
+        }
+    }
+
+    // EIP-1167: a 45-byte contract that delegates every call to _target
+    function _clone(address _target) internal returns (address instance) {
+        assembly {
+            let ptr := mload(0x40)
+            mstore(ptr, 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000000000000000000000)
+            mstore(add(ptr, 0x14), shl(0x60, _target))
+            mstore(add(ptr, 0x28), 0x5af43d82803e903d91602b57fd5bf30000000000000000000000000000000000)
+            instance := create(0, ptr, 0x37)
+        }
+        require(instance != address(0), "Escrow clone failed");
+    }
+}
@@ -7,27 +7,114 @@ interface IERC20 {
     function balanceOf(address account) external view returns (uint256);
 }
 
+// Deployed once as the implementation EscrowFactory clones; each clone is set up with initialize
 contract FreelanceEscrow {
+    bool private initialized;
+    // Set while a payout is in flight; zero (unlocked) is also a fresh clone's state
+    uint256 private reentrancyLock;
     address public client;
+    // The lead freelancer: paid for milestones with no payees, and answers for the team
     address public freelancer;
+    address public arbiter;
+    // Service key the oracles sign milestone attestations with; zero disables attestations
+    address public oracleSigner;
     address public paymentToken;
     uint256 public totalAmount;
     bool public isActive;
+    // Staged escrows are funded a few milestones at a time with fundMilestones
+    bool public stagedFunding;
+    // Milestones are funded in order; this many from index 0 are funded
+    uint256 public fundedMilestoneCount;
+    bool public isCancelled;
+    // Platform's share of each milestone payment, in basis points, sent to feeRecipient
+    uint256 public feeBps;
+    address public feeRecipient;
+    uint256 public constant MAX_FEE_BPS = 1000;
 
     struct Milestone {
         uint256 amount;
+        bool isFunded;
+        // Taken out of the project by an accepted change order or a cancellation
+        bool isRemoved;
         bool isPaid;
         bool isVerified;
+        bool isDisputed;
         string verificationHash;
+        uint256 reviewPeriod;
+        uint256 submittedAt;
+    }
+
+    struct Dispute {
+        address raisedBy;
+        string reason;
+        bool isResolved;
+        uint256 freelancerAmount;
+        uint256 clientAmount;
+    }
+
+    enum ChangeKind { Add, Reprice, Remove }
+
+    // A milestone amendment the client proposed and the freelancer must accept
+    struct ChangeOrder {
+        ChangeKind kind;
+        uint256 milestoneIndex;
+        uint256 newAmount;
+        uint256 reviewPeriod;
+        // Held from the client for a funded milestone that grows; returned if the order is closed
+        uint256 deposit;
+        bool isOpen;
+    }
+
+    // A client's cancellation of submitted work, waiting for the freelancer's approval
+    struct CancellationRequest {
+        bool isRequested;
+        uint256 killFeeBps;
+    }
+
+    // A team member's share of a milestone's payouts, in basis points
+    struct Payee {
+        address account;
+        uint256 shareBps;
+    }
+
+    // Assigns part of a milestone to a team member when the escrow is initialized
+    struct PayeeAssignment {
+        uint256 milestoneIndex;
+        address account;
+        uint256 shareBps;
     }
 
     Milestone[] public milestones;
+    mapping(uint256 => Dispute) public disputes;
+    ChangeOrder[] public changeOrders;
+    mapping(uint256 => CancellationRequest) public cancellationRequests;
+    // Milestones without payees pay the lead freelancer
+    mapping(uint256 => Payee[]) private milestonePayees;
+
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant ATTESTATION_TYPEHASH =
+        keccak256("MilestoneAttestation(uint256 milestoneIndex,bytes32 evidenceHash,uint256 expiry)");
 
     event EscrowCreated(address indexed client, address indexed freelancer, uint256 totalAmount);
     event FundsDeposited(address indexed from, uint256 amount);
+    event MilestonesFunded(uint256 fromIndex, uint256 count, uint256 amount);
+    event MilestoneSubmitted(uint256 indexed milestoneIndex, uint256 submittedAt, uint256 reviewDeadline);
     event MilestoneVerified(uint256 indexed milestoneIndex, string verificationHash);
-    event MilestonePaid(uint256 indexed milestoneIndex, address indexed freelancer, uint256 amount);
+    // amount is what the milestone's payees received between them; fee went to the fee recipient
+    event MilestonePaid(uint256 indexed milestoneIndex, address indexed freelancer, uint256 amount, uint256 fee);
+    // One per payee of every payout: payments, dispute rulings and kill fees
+    event PayeePaid(uint256 indexed milestoneIndex, address indexed payee, uint256 amount);
     event EscrowCancelled(address indexed by);
+    event DisputeRaised(uint256 indexed milestoneIndex, address indexed raisedBy, string reason);
+    event DisputeResolved(uint256 indexed milestoneIndex, uint256 freelancerAmount, uint256 clientAmount);
+    event ChangeOrderProposed(uint256 indexed changeOrderId, uint8 kind, uint256 milestoneIndex, uint256 newAmount);
+    event ChangeOrderAccepted(uint256 indexed changeOrderId, uint256 milestoneIndex);
+    event ChangeOrderClosed(uint256 indexed changeOrderId, address indexed by);
+    event MilestoneCancellationRequested(uint256 indexed milestoneIndex, uint256 killFeeBps);
+    event MilestoneCancelled(uint256 indexed milestoneIndex, uint256 freelancerAmount, uint256 clientAmount);
+    event FundsRefunded(address indexed to, uint256 amount);
+    event AttestationAccepted(uint256 indexed milestoneIndex, bytes32 evidenceHash, address indexed submittedBy);
 
     modifier onlyClient() {
         require(msg.sender == client, "Only client can call this");
@@ -39,69 +126,158 @@ contract FreelanceEscrow {
         _;
     }
 
+    modifier onlyArbiter() {
+        require(msg.sender == arbiter, "Only arbiter can call this");
+        _;
+    }
+
+    // The lead freelancer or one of the milestone's payees
+    modifier onlyMilestoneFreelancer(uint256 _milestoneIndex) {
+        require(msg.sender == freelancer || isMilestonePayee(_milestoneIndex, msg.sender), "Only the milestone's freelancers can call this");
+        _;
+    }
+
+    modifier onlyParty() {
+        require(msg.sender == client || msg.sender == freelancer, "Only client or freelancer can call this");
+        _;
+    }
+
     modifier onlyActive() {
         require(isActive, "Escrow is not active");
         _;
     }
 
-    constructor(
+    // Payouts call out to the token or, for native payments, the recipient, which must not call back in
+    modifier nonReentrant() {
+        _lock();
+        _;
+        reentrancyLock = 0;
+    }
+
+    modifier onlyFunded(uint256 _milestoneIndex) {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        require(milestones[_milestoneIndex].isFunded, "Milestone not funded");
+        require(!milestones[_milestoneIndex].isRemoved, "Milestone removed");
+        _;
+    }
+
+    // Locks the implementation so only its clones can be initialized
+    constructor() {
+        initialized = true;
+    }
+
+    function initialize(
         address _client,
         address _freelancer,
+        address _arbiter,
+        address _oracleSigner,
         address _paymentToken,
-        uint256[] memory _milestoneAmounts
-    ) {
+        uint256[] memory _milestoneAmounts,
+        uint256[] memory _reviewPeriods,
+        bool _stagedFunding,
+        address _feeRecipient,
+        uint256 _feeBps,
+        PayeeAssignment[] memory _payees
+    ) external {
+        require(!initialized, "Escrow already initialized");
+        initialized = true;
         require(_client != address(0), "Invalid client address");
         require(_freelancer != address(0), "Invalid freelancer address");
+        require(_arbiter != address(0), "Invalid arbiter address");
+        require(_arbiter != _client && _arbiter != _freelancer, "Arbiter must be a neutral party");
         // Allow zero address for native token (ETH/QIE) payments
         // require(_paymentToken != address(0), "Invalid token address");
         require(_milestoneAmounts.length > 0, "At least one milestone required");
+        require(_reviewPeriods.length == _milestoneAmounts.length, "Review period required per milestone");
+        require(_feeBps <= MAX_FEE_BPS, "Platform fee too high");
+        require(_feeBps == 0 || _feeRecipient != address(0), "Fee recipient required");
 
         client = _client;
         freelancer = _freelancer;
+        arbiter = _arbiter;
+        oracleSigner = _oracleSigner;
         paymentToken = _paymentToken;
+        stagedFunding = _stagedFunding;
+        feeBps = _feeBps;
+        feeRecipient = _feeRecipient;
 
         uint256 total = 0;
         for (uint256 i = 0; i < _milestoneAmounts.length; i++) {
             require(_milestoneAmounts[i] > 0, "Milestone amount must be positive");
             milestones.push(Milestone({
                 amount: _milestoneAmounts[i],
+                isFunded: false,
+                isRemoved: false,
                 isPaid: false,
                 isVerified: false,
-                verificationHash: ""
+                isDisputed: false,
+                verificationHash: "",
+                reviewPeriod: _reviewPeriods[i],
+                submittedAt: 0
             }));
             total += _milestoneAmounts[i];
         }
 
         totalAmount = total;
         isActive = false;
+        _assignPayees(_payees);
 
         emit EscrowCreated(_client, _freelancer, total);
     }
 
+    // Funds every milestone not funded yet
     function depositFunds() external payable onlyClient {
-        require(!isActive, "Escrow already funded");
+        require(fundedMilestoneCount < milestones.length, "Escrow already funded");
+        _fundMilestones(milestones.length - fundedMilestoneCount);
+    }
 
-        if (paymentToken == address(0)) {
-            // Native token payment
-            require(msg.value == totalAmount, "Incorrect native token amount");
-        } else {
-            // ERC20 token payment
-            require(msg.value == 0, "Do not send native tokens with ERC20 payment");
-            require(
-                IERC20(paymentToken).transferFrom(msg.sender, address(this), totalAmount),
-                "Token transfer failed"
-            );
+    // Staged escrows only: funds the next _count milestones in order
+    function fundMilestones(uint256 _count) external payable onlyClient {
+        require(stagedFunding, "Staged funding disabled");
+        require(_count > 0, "Fund at least one milestone");
+        require(fundedMilestoneCount + _count <= milestones.length, "Not enough unfunded milestones");
+        _fundMilestones(_count);
+    }
+
+    function _fundMilestones(uint256 _count) internal {
+        require(!isCancelled, "Escrow cancelled");
+
+        uint256 fromIndex = fundedMilestoneCount;
+        uint256 amount = 0;
+        for (uint256 i = fromIndex; i < fromIndex + _count; i++) {
+            milestones[i].isFunded = true;
+            if (!milestones[i].isRemoved) {
+                amount += milestones[i].amount;
+            }
         }
+        fundedMilestoneCount = fromIndex + _count;
+
+        _collect(amount);
 
         isActive = true;
-        emit FundsDeposited(msg.sender, totalAmount);
+        emit FundsDeposited(msg.sender, amount);
+        emit MilestonesFunded(fromIndex, _count, amount);
     }
 
-    function verifyMilestone(uint256 _milestoneIndex, string memory _verificationHash) external onlyClient onlyActive {
+    function submitMilestone(uint256 _milestoneIndex) external onlyMilestoneFreelancer(_milestoneIndex) onlyActive onlyFunded(_milestoneIndex) {
         require(_milestoneIndex < milestones.length, "Invalid milestone index");
         Milestone storage milestone = milestones[_milestoneIndex];
         require(!milestone.isPaid, "Milestone already paid");
         require(!milestone.isVerified, "Milestone already verified");
+        require(!milestone.isDisputed, "Milestone is disputed");
+        require(milestone.submittedAt == 0, "Milestone already submitted");
+
+        milestone.submittedAt = block.timestamp;
+
+        emit MilestoneSubmitted(_milestoneIndex, block.timestamp, block.timestamp + milestone.reviewPeriod);
+    }
+
+    function verifyMilestone(uint256 _milestoneIndex, string memory _verificationHash) external onlyClient onlyActive onlyFunded(_milestoneIndex) {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isVerified, "Milestone already verified");
+        require(!milestone.isDisputed, "Milestone is disputed");
 
         milestone.isVerified = true;
         milestone.verificationHash = _verificationHash;
@@ -109,61 +285,312 @@ contract FreelanceEscrow {
         emit MilestoneVerified(_milestoneIndex, _verificationHash);
     }
 
-    function releaseMilestonePayment(uint256 _milestoneIndex) external onlyClient onlyActive {
+    function releaseMilestonePayment(uint256 _milestoneIndex) external nonReentrant onlyClient onlyActive onlyFunded(_milestoneIndex) {
         require(_milestoneIndex < milestones.length, "Invalid milestone index");
         Milestone storage milestone = milestones[_milestoneIndex];
         require(milestone.isVerified, "Milestone not verified");
         require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isDisputed, "Milestone is disputed");
 
-        milestone.isPaid = true;
+        _payMilestone(_milestoneIndex);
+    }
 
-        if (paymentToken == address(0)) {
-            // Native token payment
-            (bool success, ) = freelancer.call{value: milestone.amount}("");
-            require(success, "Native token transfer failed");
+    // Lets the milestone's freelancers collect a submission the client never reviewed.
+    // A review period of zero disables auto-release for that milestone.
+    function claimTimedOutPayment(uint256 _milestoneIndex) external nonReentrant onlyMilestoneFreelancer(_milestoneIndex) onlyActive onlyFunded(_milestoneIndex) {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isDisputed, "Milestone is disputed");
+        require(milestone.submittedAt > 0, "Milestone not submitted");
+        require(milestone.reviewPeriod > 0, "Auto-release disabled for milestone");
+        require(block.timestamp >= milestone.submittedAt + milestone.reviewPeriod, "Review period not over");
+
+        _payMilestone(_milestoneIndex);
+    }
+
+    // Verifies and pays a milestone on the strength of an EIP-712 attestation signed by the oracle
+    // service, so payment does not depend on the client's UI. Anyone may submit the signature;
+    // funds always go to the milestone's payees. The escrow address (verifyingContract) binds the project.
+    function claimWithAttestation(
+        uint256 _milestoneIndex,
+        bytes32 _evidenceHash,
+        uint256 _expiry,
+        bytes calldata _signature
+    ) external nonReentrant onlyActive onlyFunded(_milestoneIndex) {
+        require(oracleSigner != address(0), "Oracle attestations disabled");
+        require(block.timestamp <= _expiry, "Attestation expired");
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isDisputed, "Milestone is disputed");
+
+        bytes32 structHash = keccak256(abi.encode(ATTESTATION_TYPEHASH, _milestoneIndex, _evidenceHash, _expiry));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(_recoverSigner(digest, _signature) == oracleSigner, "Invalid oracle signature");
+
+        if (!milestone.isVerified) {
+            milestone.isVerified = true;
+            milestone.verificationHash = _toHexString(_evidenceHash);
+            emit MilestoneVerified(_milestoneIndex, milestone.verificationHash);
+        }
+
+        emit AttestationAccepted(_milestoneIndex, _evidenceHash, msg.sender);
+        _payMilestone(_milestoneIndex);
+    }
+
+    // Client proposes adding, re-pricing or removing a milestone. A funded milestone that grows (or
+    // a milestone added to a fully funded escrow) needs its extra funds deposited with the proposal.
+    function proposeChangeOrder(
+        ChangeKind _kind,
+        uint256 _milestoneIndex,
+        uint256 _newAmount,
+        uint256 _reviewPeriod
+    ) external payable onlyClient returns (uint256) {
+        require(!isCancelled, "Escrow cancelled");
+
+        if (_kind == ChangeKind.Add) {
+            require(_newAmount > 0, "Milestone amount must be positive");
+            _milestoneIndex = milestones.length;
         } else {
-            // ERC20 token payment
-            require(
-                IERC20(paymentToken).transfer(freelancer, milestone.amount),
-                "Token transfer failed"
-            );
+            _requireAmendable(_milestoneIndex);
+            if (_kind == ChangeKind.Reprice) {
+                require(_newAmount > 0, "Milestone amount must be positive");
+                require(_newAmount != milestones[_milestoneIndex].amount, "Amount unchanged");
+            } else {
+                _newAmount = 0;
+            }
+        }
+
+        uint256 deposit = requiredTopUp(_kind, _milestoneIndex, _newAmount);
+        _collect(deposit);
+
+        changeOrders.push(ChangeOrder({
+            kind: _kind,
+            milestoneIndex: _milestoneIndex,
+            newAmount: _newAmount,
+            reviewPeriod: _reviewPeriod,
+            deposit: deposit,
+            isOpen: true
+        }));
+
+        uint256 changeOrderId = changeOrders.length - 1;
+        emit ChangeOrderProposed(changeOrderId, uint8(_kind), _milestoneIndex, _newAmount);
+        return changeOrderId;
+    }
+
+    // Freelancer accepts a change order; any funds a milestone no longer needs go back to the client
+    function acceptChangeOrder(uint256 _changeOrderId) external nonReentrant onlyFreelancer {
+        require(_changeOrderId < changeOrders.length, "Invalid change order");
+        ChangeOrder storage order = changeOrders[_changeOrderId];
+        require(order.isOpen, "Change order not open");
+        require(!isCancelled, "Escrow cancelled");
+        order.isOpen = false;
+
+        uint256 index = order.kind == ChangeKind.Add ? milestones.length : order.milestoneIndex;
+        // The escrow may have been funded since the proposal, so the top-up is worked out again
+        uint256 required = requiredTopUp(order.kind, index, order.newAmount);
+        require(order.deposit >= required, "Change order needs a new top-up");
+        uint256 refund = order.deposit - required;
+
+        if (order.kind == ChangeKind.Add) {
+            bool funded = required > 0;
+            milestones.push(Milestone({
+                amount: order.newAmount,
+                isFunded: funded,
+                isRemoved: false,
+                isPaid: false,
+                isVerified: false,
+                isDisputed: false,
+                verificationHash: "",
+                reviewPeriod: order.reviewPeriod,
+                submittedAt: 0
+            }));
+            totalAmount += order.newAmount;
+            emit ChangeOrderAccepted(_changeOrderId, index);
+            if (funded) {
+                fundedMilestoneCount = milestones.length;
+                emit MilestonesFunded(index, 1, order.newAmount);
+            }
+        } else {
+            _requireAmendable(index);
+            Milestone storage milestone = milestones[index];
+
+            if (milestone.isFunded && order.newAmount < milestone.amount) {
+                refund += milestone.amount - order.newAmount;
+            }
+            totalAmount = totalAmount - milestone.amount + order.newAmount;
+
+            if (order.kind == ChangeKind.Remove) {
+                milestone.isRemoved = true;
+            } else {
+                milestone.amount = order.newAmount;
+            }
+            emit ChangeOrderAccepted(_changeOrderId, index);
         }
 
-        emit MilestonePaid(_milestoneIndex, freelancer, milestone.amount);
+        if (refund > 0) {
+            _refundClient(refund);
+        }
     }
 
-    function cancelEscrow() external onlyClient {
+    // Freelancer rejects or client withdraws an open change order; its deposit returns to the client
+    function closeChangeOrder(uint256 _changeOrderId) external nonReentrant onlyParty {
+        require(_changeOrderId < changeOrders.length, "Invalid change order");
+        ChangeOrder storage order = changeOrders[_changeOrderId];
+        require(order.isOpen, "Change order not open");
+        order.isOpen = false;
+
+        if (order.deposit > 0) {
+            _refundClient(order.deposit);
+        }
+
+        emit ChangeOrderClosed(_changeOrderId, msg.sender);
+    }
+
+    // Client cancels a single unpaid milestone, paying the freelancer a kill fee of _killFeeBps
+    // (basis points) of a funded milestone. Submitted or verified work is not cancelled straight
+    // away: the request waits for the freelancer's approval.
+    function cancelMilestone(uint256 _milestoneIndex, uint256 _killFeeBps) external nonReentrant onlyClient {
+        _requireCancellable(_milestoneIndex, _killFeeBps);
+        Milestone storage milestone = milestones[_milestoneIndex];
+
+        if (milestone.submittedAt > 0 || milestone.isVerified) {
+            cancellationRequests[_milestoneIndex] = CancellationRequest({ isRequested: true, killFeeBps: _killFeeBps });
+            emit MilestoneCancellationRequested(_milestoneIndex, _killFeeBps);
+            return;
+        }
+
+        _cancelMilestone(_milestoneIndex, _killFeeBps);
+    }
+
+    // Freelancer approves the client's cancellation of submitted work. The kill fee is repeated so a
+    // request the client changed in the meantime is not approved by accident.
+    function approveMilestoneCancellation(uint256 _milestoneIndex, uint256 _killFeeBps) external nonReentrant onlyFreelancer {
+        CancellationRequest memory request = cancellationRequests[_milestoneIndex];
+        require(request.isRequested, "No cancellation requested");
+        require(request.killFeeBps == _killFeeBps, "Kill fee differs from the request");
+        _requireCancellable(_milestoneIndex, _killFeeBps);
+
+        _cancelMilestone(_milestoneIndex, _killFeeBps);
+    }
+
+    function cancelEscrow() external nonReentrant onlyClient {
         require(isActive, "Escrow not active");
+        isActive = false;
+        isCancelled = true;
 
+        // Disputed milestones stay locked in the contract until the arbiter rules. Refunded
+        // milestones are taken out before the transfer so nothing can claim them twice.
         uint256 refundAmount = 0;
         for (uint256 i = 0; i < milestones.length; i++) {
-            if (!milestones[i].isPaid) {
-                refundAmount += milestones[i].amount;
+            Milestone storage milestone = milestones[i];
+            if (milestone.isFunded && !milestone.isRemoved && !milestone.isPaid && !milestone.isDisputed) {
+                require(milestone.submittedAt == 0 && !milestone.isVerified, "Submitted work needs the freelancer's consent to cancel");
+                milestone.isRemoved = true;
+                refundAmount += milestone.amount;
             }
         }
 
         if (refundAmount > 0) {
-            if (paymentToken == address(0)) {
-                // Native token refund
-                (bool success, ) = client.call{value: refundAmount}("");
-                require(success, "Native token refund failed");
-            } else {
-                // ERC20 token refund
-                require(
-                    IERC20(paymentToken).transfer(client, refundAmount),
-                    "Token refund failed"
-                );
-            }
+            _refundClient(refundAmount);
         }
-
-        isActive = false;
         emit EscrowCancelled(msg.sender);
     }
 
+    function raiseDispute(uint256 _milestoneIndex, string memory _reason) external onlyParty onlyActive onlyFunded(_milestoneIndex) {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isDisputed, "Milestone already disputed");
+
+        milestone.isDisputed = true;
+        disputes[_milestoneIndex] = Dispute({
+            raisedBy: msg.sender,
+            reason: _reason,
+            isResolved: false,
+            freelancerAmount: 0,
+            clientAmount: 0
+        });
+
+        emit DisputeRaised(_milestoneIndex, msg.sender, _reason);
+    }
+
+    function resolveDispute(uint256 _milestoneIndex, uint256 _freelancerAmount) external nonReentrant onlyArbiter {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        Dispute storage dispute = disputes[_milestoneIndex];
+        require(milestone.isDisputed, "Milestone not disputed");
+        require(!dispute.isResolved, "Dispute already resolved");
+        require(_freelancerAmount <= milestone.amount, "Ruling exceeds milestone amount");
+
+        uint256 clientAmount = milestone.amount - _freelancerAmount;
+
+        milestone.isPaid = true;
+        dispute.isResolved = true;
+        dispute.freelancerAmount = _freelancerAmount;
+        dispute.clientAmount = clientAmount;
+
+        if (_freelancerAmount > 0) {
+            _payPayees(_milestoneIndex, _freelancerAmount);
+        }
+        if (clientAmount > 0) {
+            _refundClient(clientAmount);
+        }
+
+        emit DisputeResolved(_milestoneIndex, _freelancerAmount, clientAmount);
+    }
+
+    // Extra funds a change needs: the increase on a funded milestone, or a whole new milestone when
+    // every existing one is funded (which keeps the funded milestones a prefix of the list)
+    function requiredTopUp(ChangeKind _kind, uint256 _milestoneIndex, uint256 _newAmount) public view returns (uint256) {
+        if (_kind == ChangeKind.Add) {
+            bool allFunded = fundedMilestoneCount > 0 && fundedMilestoneCount == milestones.length;
+            return allFunded ? _newAmount : 0;
+        }
+        if (_kind == ChangeKind.Reprice) {
+            Milestone storage milestone = milestones[_milestoneIndex];
+            return milestone.isFunded && _newAmount > milestone.amount ? _newAmount - milestone.amount : 0;
+        }
+        return 0;
+    }
+
+    function getChangeOrderCount() external view returns (uint256) {
+        return changeOrders.length;
+    }
+
     function getMilestoneCount() external view returns (uint256) {
         return milestones.length;
     }
 
+    // Who a milestone's payouts go to; the lead freelancer alone when it has no payees
+    function getMilestonePayees(uint256 _index) external view returns (address[] memory accounts, uint256[] memory sharesBps) {
+        require(_index < milestones.length, "Invalid milestone index");
+        Payee[] storage payees = milestonePayees[_index];
+        if (payees.length == 0) {
+            accounts = new address[](1);
+            sharesBps = new uint256[](1);
+            accounts[0] = freelancer;
+            sharesBps[0] = 10000;
+            return (accounts, sharesBps);
+        }
+
+        accounts = new address[](payees.length);
+        sharesBps = new uint256[](payees.length);
+        for (uint256 i = 0; i < payees.length; i++) {
+            accounts[i] = payees[i].account;
+            sharesBps[i] = payees[i].shareBps;
+        }
+    }
+
+    function isMilestonePayee(uint256 _index, address _account) public view returns (bool) {
+        Payee[] storage payees = milestonePayees[_index];
+        for (uint256 i = 0; i < payees.length; i++) {
+            if (payees[i].account == _account) return true;
+        }
+        return false;
+    }
+
     function getMilestone(uint256 _index) external view returns (
         uint256 amount,
         bool isPaid,
@@ -175,6 +602,45 @@ contract FreelanceEscrow {
         return (m.amount, m.isPaid, m.isVerified, m.verificationHash);
     }
 
+    function isMilestoneFunded(uint256 _index) external view returns (bool) {
+        require(_index < milestones.length, "Invalid milestone index");
+        return milestones[_index].isFunded;
+    }
+
+    function getReviewWindow(uint256 _index) external view returns (
+        uint256 reviewPeriod,
+        uint256 submittedAt,
+        uint256 reviewDeadline
+    ) {
+        require(_index < milestones.length, "Invalid milestone index");
+        Milestone memory m = milestones[_index];
+        uint256 deadline = m.submittedAt > 0 ? m.submittedAt + m.reviewPeriod : 0;
+        return (m.reviewPeriod, m.submittedAt, deadline);
+    }
+
+    function getDispute(uint256 _index) external view returns (
+        bool isDisputed,
+        address raisedBy,
+        string memory reason,
+        bool isResolved,
+        uint256 freelancerAmount,
+        uint256 clientAmount
+    ) {
+        require(_index < milestones.length, "Invalid milestone index");
+        Dispute memory d = disputes[_index];
+        return (milestones[_index].isDisputed, d.raisedBy, d.reason, d.isResolved, d.freelancerAmount, d.clientAmount);
+    }
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256(bytes("FreelanceEscrow")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+
     function getRemainingBalance() external view returns (uint256) {
         if (paymentToken == address(0)) {
             return address(this).balance;
@@ -183,7 +649,174 @@ contract FreelanceEscrow {
         }
     }
 
-    // Required to receive native tokens
-    receive() external payable {}
-    fallback() external payable {}
+    // Only milestones no work has been submitted on can be amended
+    function _requireAmendable(uint256 _milestoneIndex) internal view {
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isRemoved, "Milestone removed");
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isVerified, "Milestone already verified");
+        require(!milestone.isDisputed, "Milestone is disputed");
+        require(milestone.submittedAt == 0, "Milestone already submitted");
+    }
+
+    function _requireCancellable(uint256 _milestoneIndex, uint256 _killFeeBps) internal view {
+        require(!isCancelled, "Escrow cancelled");
+        require(_milestoneIndex < milestones.length, "Invalid milestone index");
+        Milestone storage milestone = milestones[_milestoneIndex];
+        require(!milestone.isRemoved, "Milestone removed");
+        require(!milestone.isPaid, "Milestone already paid");
+        require(!milestone.isDisputed, "Milestone is disputed");
+        require(_killFeeBps <= 10000, "Kill fee above 100%");
+        require(_killFeeBps == 0 || milestone.isFunded, "Kill fee needs a funded milestone");
+    }
+
+    function _cancelMilestone(uint256 _milestoneIndex, uint256 _killFeeBps) internal {
+        Milestone storage milestone = milestones[_milestoneIndex];
+        milestone.isRemoved = true;
+        delete cancellationRequests[_milestoneIndex];
+
+        uint256 freelancerAmount = 0;
+        uint256 clientAmount = 0;
+        if (milestone.isFunded) {
+            freelancerAmount = (milestone.amount * _killFeeBps) / 10000;
+            clientAmount = milestone.amount - freelancerAmount;
+        }
+        // The kill fee stays part of what the project cost the client
+        totalAmount -= milestone.amount - freelancerAmount;
+
+        if (freelancerAmount > 0) {
+            _payPayees(_milestoneIndex, freelancerAmount);
+        }
+        if (clientAmount > 0) {
+            _refundClient(clientAmount);
+        }
+
+        emit MilestoneCancelled(_milestoneIndex, freelancerAmount, clientAmount);
+    }
+
+    // Pays a milestone to its payees less the platform fee. Dispute rulings and kill fees are
+    // settlements rather than payments for delivered work, so they carry no fee.
+    function _payMilestone(uint256 _milestoneIndex) internal {
+        Milestone storage milestone = milestones[_milestoneIndex];
+        milestone.isPaid = true;
+
+        uint256 fee = (milestone.amount * feeBps) / 10000;
+        if (fee > 0) {
+            _transferOut(feeRecipient, fee);
+        }
+        _payPayees(_milestoneIndex, milestone.amount - fee);
+
+        emit MilestonePaid(_milestoneIndex, freelancer, milestone.amount - fee, fee);
+    }
+
+    // Splits a payout among the milestone's payees by share; the last one takes the rounding remainder
+    function _payPayees(uint256 _milestoneIndex, uint256 _amount) internal {
+        Payee[] storage payees = milestonePayees[_milestoneIndex];
+        if (payees.length == 0) {
+            _transferOut(freelancer, _amount);
+            emit PayeePaid(_milestoneIndex, freelancer, _amount);
+            return;
+        }
+
+        uint256 remaining = _amount;
+        for (uint256 i = 0; i < payees.length; i++) {
+            uint256 share = i == payees.length - 1 ? remaining : (_amount * payees[i].shareBps) / 10000;
+            remaining -= share;
+            if (share > 0) {
+                _transferOut(payees[i].account, share);
+            }
+            emit PayeePaid(_milestoneIndex, payees[i].account, share);
+        }
+    }
+
+    function _assignPayees(PayeeAssignment[] memory _payees) internal {
+        for (uint256 i = 0; i < _payees.length; i++) {
+            PayeeAssignment memory assignment = _payees[i];
+            require(assignment.milestoneIndex < milestones.length, "Invalid payee milestone");
+            require(assignment.account != address(0), "Invalid payee address");
+            require(assignment.account != client && assignment.account != arbiter, "Payees must be freelancers");
+            require(assignment.shareBps > 0, "Payee share must be positive");
+            milestonePayees[assignment.milestoneIndex].push(Payee(assignment.account, assignment.shareBps));
+        }
+
+        for (uint256 i = 0; i < milestones.length; i++) {
+            Payee[] storage payees = milestonePayees[i];
+            if (payees.length == 0) continue;
+            uint256 totalShares = 0;
+            for (uint256 j = 0; j < payees.length; j++) {
+                totalShares += payees[j].shareBps;
+            }
+            require(totalShares == 10000, "Payee shares must add up to 100%");
+        }
+    }
+
+    function _lock() internal {
+        require(reentrancyLock == 0, "Reentrant call");
+        reentrancyLock = 1;
+    }
+
+    function _refundClient(uint256 _amount) internal {
+        _transferOut(client, _amount);
+        emit FundsRefunded(client, _amount);
+    }
+
+    function _collect(uint256 _amount) internal {
+        if (paymentToken == address(0)) {
+            // Native token payment
+            require(msg.value == _amount, "Incorrect native token amount");
+        } else {
+            // ERC20 token payment
+            require(msg.value == 0, "Do not send native tokens with ERC20 payment");
+            if (_amount > 0) {
+                require(
+                    IERC20(paymentToken).transferFrom(msg.sender, address(this), _amount),
+                    "Token transfer failed"
+                );
+            }
+        }
+    }
+
+    function _transferOut(address _to, uint256 _amount) internal {
+        if (paymentToken == address(0)) {
+            // Native token transfer
+            (bool success, ) = _to.call{value: _amount}("");
+            require(success, "Native token transfer failed");
+        } else {
+            // ERC20 token transfer
+            require(IERC20(paymentToken).transfer(_to, _amount), "Token transfer failed");
+        }
+    }
+
+    function _recoverSigner(bytes32 _digest, bytes calldata _signature) internal pure returns (address) {
+        require(_signature.length == 65, "Invalid signature length");
+
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        if (v < 27) {
+            v += 27;
+        }
+
+        // Reject malleable signatures (upper-half s values)
+        require(uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0, "Invalid signature");
+        require(v == 27 || v == 28, "Invalid signature");
+
+        address signer = ecrecover(_digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+        return signer;
+    }
+
+    // Lowercase 0x-prefixed hex, matching how the app formats evidence hashes
+    function _toHexString(bytes32 _value) internal pure returns (string memory) {
+        bytes16 symbols = "0123456789abcdef";
+        bytes memory str = new bytes(66);
+        str[0] = "0";
+        str[1] = "x";
+        for (uint256 i = 0; i < 32; i++) {
+            str[2 + i * 2] = symbols[uint8(_value[i] >> 4)];
+            str[3 + i * 2] = symbols[uint8(_value[i] & 0x0f)];
+        }
+        return string(str);
+    }
 }
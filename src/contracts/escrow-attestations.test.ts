@@ -0,0 +1,111 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { BaseWallet, Contract, TypedDataDomain, TypedDataEncoder, Wallet, keccak256, parseEther, toUtf8Bytes } from 'ethers';
+import { Accounts, createEscrow, getAccounts, provider, send, snapshot } from './escrow-fixtures';
+
+const ATTESTATION_TYPES = {
+  MilestoneAttestation: [
+    { name: 'milestoneIndex', type: 'uint256' },
+    { name: 'evidenceHash', type: 'bytes32' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+};
+
+const EVIDENCE_HASH = keccak256(toUtf8Bytes('github:acme/app@abc123'));
+
+describe('FreelanceEscrow oracle attestations', () => {
+  let accounts: Accounts;
+  let oracle: BaseWallet;
+  let escrow: Contract;
+  let domain: TypedDataDomain;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+    oracle = Wallet.createRandom();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    escrow = await createEscrow(accounts, {
+      milestoneAmounts: [parseEther('2'), parseEther('1')],
+      oracleSigner: oracle.address,
+    });
+    await send(escrow, accounts.client, 'depositFunds', { value: parseEther('3') });
+    domain = {
+      name: 'FreelanceEscrow',
+      version: '1',
+      chainId: (await provider.getNetwork()).chainId,
+      verifyingContract: await escrow.getAddress(),
+    };
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  async function expiryIn(seconds: number): Promise<number> {
+    const block = await provider.getBlock('latest');
+    return (block?.timestamp ?? 0) + seconds;
+  }
+
+  function attest(milestoneIndex: number, expiry: number, signer: BaseWallet = oracle, signedDomain = domain) {
+    return signer.signTypedData(signedDomain, ATTESTATION_TYPES, { milestoneIndex, evidenceHash: EVIDENCE_HASH, expiry });
+  }
+
+  it('matches the EIP-712 domain the oracle signs for', async () => {
+    expect(await escrow.domainSeparator()).toBe(TypedDataEncoder.hashDomain(domain));
+  });
+
+  it('verifies and pays a milestone for whoever submits the attestation', async () => {
+    const expiry = await expiryIn(3600);
+    const signature = await attest(0, expiry);
+
+    await send(escrow, accounts.stranger, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, signature);
+
+    const [, isPaid, isVerified, verificationHash] = await escrow.getMilestone(0);
+    expect(isPaid).toBe(true);
+    expect(isVerified).toBe(true);
+    expect(verificationHash).toBe(EVIDENCE_HASH);
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('1'));
+  });
+
+  it('rejects signatures from anyone but the oracle', async () => {
+    const expiry = await expiryIn(3600);
+    const signature = await attest(0, expiry, Wallet.createRandom());
+
+    await expect(send(escrow, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, signature))
+      .rejects.toThrow('Invalid oracle signature');
+  });
+
+  it('binds the attestation to its milestone and escrow', async () => {
+    const expiry = await expiryIn(3600);
+    const signature = await attest(0, expiry);
+    await expect(send(escrow, accounts.freelancer, 'claimWithAttestation', 1, EVIDENCE_HASH, expiry, signature))
+      .rejects.toThrow('Invalid oracle signature');
+
+    const otherEscrow = await attest(0, expiry, oracle, { ...domain, verifyingContract: accounts.stranger.address });
+    await expect(send(escrow, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, otherEscrow))
+      .rejects.toThrow('Invalid oracle signature');
+  });
+
+  it('rejects expired or replayed attestations', async () => {
+    const expired = await expiryIn(-1);
+    await expect(send(escrow, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expired, await attest(0, expired)))
+      .rejects.toThrow('Attestation expired');
+
+    const expiry = await expiryIn(3600);
+    const signature = await attest(0, expiry);
+    await send(escrow, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, signature);
+    await expect(send(escrow, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, signature))
+      .rejects.toThrow('Milestone already paid');
+  });
+
+  it('is disabled without an oracle signer', async () => {
+    const noOracle = await createEscrow(accounts, { milestoneAmounts: [parseEther('1')] });
+    await send(noOracle, accounts.client, 'depositFunds', { value: parseEther('1') });
+    const expiry = await expiryIn(3600);
+
+    await expect(send(noOracle, accounts.freelancer, 'claimWithAttestation', 0, EVIDENCE_HASH, expiry, await attest(0, expiry)))
+      .rejects.toThrow('Oracle attestations disabled');
+  });
+});
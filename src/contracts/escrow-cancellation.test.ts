@@ -0,0 +1,145 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, MaxUint256, parseEther } from 'ethers';
+import { Accounts, EscrowTerms, createEscrow, deployToken, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow cancellation', () => {
+  let accounts: Accounts;
+  let token: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    token = await deployToken(accounts.client);
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  // Paid in the token so the client's refunds can be checked without gas costs in the way
+  async function fundedEscrow(terms: Partial<EscrowTerms> = {}) {
+    const escrow = await createEscrow(accounts, {
+      paymentToken: await token.getAddress(),
+      milestoneAmounts: [parseEther('10'), parseEther('5'), parseEther('2')],
+      ...terms,
+    });
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), MaxUint256);
+    if (terms.stagedFunding) {
+      await send(escrow, accounts.client, 'fundMilestones', 1);
+    } else {
+      await send(escrow, accounts.client, 'depositFunds');
+    }
+    return escrow;
+  }
+
+  function balance(address: string): Promise<bigint> {
+    return token.balanceOf(address);
+  }
+
+  describe('cancelMilestone', () => {
+    it('refunds the client less the kill fee paid to the freelancer', async () => {
+      const escrow = await fundedEscrow();
+      const clientBefore = await balance(accounts.client.address);
+
+      await send(escrow, accounts.client, 'cancelMilestone', 0, 2000);
+
+      expect(await balance(accounts.freelancer.address)).toBe(parseEther('2'));
+      expect(await balance(accounts.client.address)).toBe(clientBefore + parseEther('8'));
+      expect((await escrow.milestones(0)).isRemoved).toBe(true);
+      // The kill fee stays part of the project's cost
+      expect(await escrow.totalAmount()).toBe(parseEther('9'));
+      await expect(send(escrow, accounts.client, 'cancelMilestone', 0, 0)).rejects.toThrow('Milestone removed');
+    });
+
+    it('only charges a kill fee on funded milestones, up to 100%', async () => {
+      const escrow = await fundedEscrow({ stagedFunding: true });
+
+      await expect(send(escrow, accounts.client, 'cancelMilestone', 1, 1000)).rejects.toThrow('Kill fee needs a funded milestone');
+      await expect(send(escrow, accounts.client, 'cancelMilestone', 0, 10001)).rejects.toThrow('Kill fee above 100%');
+
+      await send(escrow, accounts.client, 'cancelMilestone', 1, 0);
+      expect((await escrow.milestones(1)).isRemoved).toBe(true);
+      expect(await escrow.totalAmount()).toBe(parseEther('12'));
+    });
+
+    it("waits for the freelancer's approval to cancel submitted work", async () => {
+      const escrow = await fundedEscrow();
+      await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+
+      await send(escrow, accounts.client, 'cancelMilestone', 0, 5000);
+      expect((await escrow.milestones(0)).isRemoved).toBe(false);
+      expect((await escrow.cancellationRequests(0)).isRequested).toBe(true);
+
+      await expect(send(escrow, accounts.freelancer, 'approveMilestoneCancellation', 0, 1000))
+        .rejects.toThrow('Kill fee differs from the request');
+      await send(escrow, accounts.freelancer, 'approveMilestoneCancellation', 0, 5000);
+
+      expect(await balance(accounts.freelancer.address)).toBe(parseEther('5'));
+      expect((await escrow.milestones(0)).isRemoved).toBe(true);
+      expect((await escrow.cancellationRequests(0)).isRequested).toBe(false);
+    });
+
+    it('refuses approvals nobody asked for', async () => {
+      const escrow = await fundedEscrow();
+
+      await expect(send(escrow, accounts.freelancer, 'approveMilestoneCancellation', 0, 0))
+        .rejects.toThrow('No cancellation requested');
+    });
+  });
+
+  describe('cancelEscrow', () => {
+    it('refunds unpaid milestones and leaves disputed ones to the arbiter', async () => {
+      const escrow = await fundedEscrow();
+      await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+      await send(escrow, accounts.client, 'releaseMilestonePayment', 0);
+      await send(escrow, accounts.freelancer, 'raiseDispute', 2, 'Work was delivered');
+      const clientBefore = await balance(accounts.client.address);
+
+      await send(escrow, accounts.client, 'cancelEscrow');
+
+      expect(await balance(accounts.client.address)).toBe(clientBefore + parseEther('5'));
+      expect(await escrow.getRemainingBalance()).toBe(parseEther('2'));
+      expect(await escrow.isCancelled()).toBe(true);
+      expect(await escrow.isActive()).toBe(false);
+      expect((await escrow.milestones(1)).isRemoved).toBe(true);
+      expect((await escrow.milestones(2)).isRemoved).toBe(false);
+
+      await send(escrow, accounts.arbiter, 'resolveDispute', 2, parseEther('2'));
+      expect(await escrow.getRemainingBalance()).toBe(0n);
+    });
+
+    it('leaves nothing to claim after the refund', async () => {
+      const escrow = await fundedEscrow();
+      await send(escrow, accounts.client, 'cancelEscrow');
+
+      await expect(send(escrow, accounts.client, 'cancelEscrow')).rejects.toThrow('Escrow not active');
+      await expect(send(escrow, accounts.client, 'cancelMilestone', 0, 0)).rejects.toThrow('Escrow cancelled');
+      await expect(send(escrow, accounts.freelancer, 'submitMilestone', 0)).rejects.toThrow('Escrow is not active');
+    });
+
+    it('stops staged escrows from being funded again', async () => {
+      const escrow = await fundedEscrow({ stagedFunding: true });
+      await send(escrow, accounts.client, 'cancelEscrow');
+
+      await expect(send(escrow, accounts.client, 'fundMilestones', 1)).rejects.toThrow('Escrow cancelled');
+    });
+
+    it("needs the freelancer's consent while submitted work is unpaid", async () => {
+      const escrow = await fundedEscrow();
+      await send(escrow, accounts.freelancer, 'submitMilestone', 1);
+
+      await expect(send(escrow, accounts.client, 'cancelEscrow'))
+        .rejects.toThrow("Submitted work needs the freelancer's consent to cancel");
+    });
+
+    it('only lets the client cancel', async () => {
+      const escrow = await fundedEscrow();
+
+      await expect(send(escrow, accounts.freelancer, 'cancelEscrow')).rejects.toThrow('Only client can call this');
+    });
+  });
+});
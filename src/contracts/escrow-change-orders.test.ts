@@ -0,0 +1,140 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, MaxUint256, parseEther } from 'ethers';
+import { Accounts, EscrowTerms, createEscrow, deployToken, getAccounts, send, snapshot } from './escrow-fixtures';
+
+// The escrow's ChangeKind enum
+const ADD = 0;
+const REPRICE = 1;
+const REMOVE = 2;
+
+describe('FreelanceEscrow change orders', () => {
+  let accounts: Accounts;
+  let token: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    token = await deployToken(accounts.client);
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  // Paid in the token so the client's refunds can be checked without gas costs in the way
+  async function tokenEscrow(terms: Partial<EscrowTerms> = {}) {
+    const escrow = await createEscrow(accounts, {
+      paymentToken: await token.getAddress(),
+      milestoneAmounts: [parseEther('10'), parseEther('5')],
+      ...terms,
+    });
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), MaxUint256);
+    return escrow;
+  }
+
+  async function clientBalance(): Promise<bigint> {
+    return token.balanceOf(accounts.client.address);
+  }
+
+  it('adds a milestone to an unfunded escrow without a deposit', async () => {
+    const escrow = await tokenEscrow();
+    expect(await escrow.requiredTopUp(ADD, 0, parseEther('3'))).toBe(0n);
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', ADD, 0, parseEther('3'), 3600);
+    await send(escrow, accounts.freelancer, 'acceptChangeOrder', 0);
+
+    expect(await escrow.getMilestoneCount()).toBe(3n);
+    expect(await escrow.totalAmount()).toBe(parseEther('18'));
+    expect(await escrow.isMilestoneFunded(2)).toBe(false);
+    expect((await escrow.getReviewWindow(2))[0]).toBe(3600n);
+  });
+
+  it('funds a milestone added to a fully funded escrow with the proposal', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'depositFunds');
+    const before = await clientBalance();
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', ADD, 0, parseEther('3'), 0);
+    expect(await clientBalance()).toBe(before - parseEther('3'));
+
+    await send(escrow, accounts.freelancer, 'acceptChangeOrder', 0);
+    expect(await escrow.isMilestoneFunded(2)).toBe(true);
+    expect(await escrow.fundedMilestoneCount()).toBe(3n);
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('18'));
+  });
+
+  it('tops up a funded milestone that grows and refunds one that shrinks', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'depositFunds');
+    const before = await clientBalance();
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', REPRICE, 0, parseEther('12'), 0);
+    await send(escrow, accounts.freelancer, 'acceptChangeOrder', 0);
+    expect(await clientBalance()).toBe(before - parseEther('2'));
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', REPRICE, 1, parseEther('1'), 0);
+    await send(escrow, accounts.freelancer, 'acceptChangeOrder', 1);
+    expect(await clientBalance()).toBe(before + parseEther('2'));
+
+    expect((await escrow.getMilestone(0))[0]).toBe(parseEther('12'));
+    expect((await escrow.getMilestone(1))[0]).toBe(parseEther('1'));
+    expect(await escrow.totalAmount()).toBe(parseEther('13'));
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('13'));
+  });
+
+  it('refunds a removed milestone and takes it out of the project', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'depositFunds');
+    const before = await clientBalance();
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', REMOVE, 1, 0, 0);
+    await send(escrow, accounts.freelancer, 'acceptChangeOrder', 0);
+
+    expect(await clientBalance()).toBe(before + parseEther('5'));
+    expect(await escrow.totalAmount()).toBe(parseEther('10'));
+    await expect(send(escrow, accounts.freelancer, 'submitMilestone', 1)).rejects.toThrow('Milestone removed');
+  });
+
+  it('returns the deposit of a change order either party closes', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'depositFunds');
+    const before = await clientBalance();
+
+    await send(escrow, accounts.client, 'proposeChangeOrder', REPRICE, 0, parseEther('15'), 0);
+    await expect(send(escrow, accounts.stranger, 'closeChangeOrder', 0)).rejects.toThrow('Only client or freelancer can call this');
+    await send(escrow, accounts.freelancer, 'closeChangeOrder', 0);
+
+    expect(await clientBalance()).toBe(before);
+    await expect(send(escrow, accounts.freelancer, 'acceptChangeOrder', 0)).rejects.toThrow('Change order not open');
+  });
+
+  it('only lets the freelancer accept', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'proposeChangeOrder', ADD, 0, parseEther('3'), 0);
+
+    await expect(send(escrow, accounts.client, 'acceptChangeOrder', 0)).rejects.toThrow('Only freelancer can call this');
+  });
+
+  it('refuses to amend milestones with submitted work', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'depositFunds');
+    await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+
+    await expect(send(escrow, accounts.client, 'proposeChangeOrder', REPRICE, 0, parseEther('8'), 0))
+      .rejects.toThrow('Milestone already submitted');
+    await expect(send(escrow, accounts.client, 'proposeChangeOrder', REMOVE, 0, 0, 0))
+      .rejects.toThrow('Milestone already submitted');
+  });
+
+  it('needs a new proposal when the escrow was funded after an unfunded addition', async () => {
+    const escrow = await tokenEscrow();
+    await send(escrow, accounts.client, 'proposeChangeOrder', ADD, 0, parseEther('3'), 0);
+    await send(escrow, accounts.client, 'depositFunds');
+
+    await expect(send(escrow, accounts.freelancer, 'acceptChangeOrder', 0)).rejects.toThrow('Change order needs a new top-up');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, parseEther } from 'ethers';
+import { Accounts, balanceOf, createEscrow, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow disputes', () => {
+  let accounts: Accounts;
+  let escrow: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    escrow = await createEscrow(accounts, { milestoneAmounts: [parseEther('10'), parseEther('5')] });
+    await send(escrow, accounts.client, 'depositFunds', { value: parseEther('15') });
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  it('lets either party raise a dispute and records it', async () => {
+    await send(escrow, accounts.freelancer, 'raiseDispute', 0, 'Client went silent');
+    await send(escrow, accounts.client, 'raiseDispute', 1, 'Work not delivered');
+
+    const [isDisputed, raisedBy, reason, isResolved] = await escrow.getDispute(0);
+    expect(isDisputed).toBe(true);
+    expect(raisedBy).toBe(accounts.freelancer.address);
+    expect(reason).toBe('Client went silent');
+    expect(isResolved).toBe(false);
+    expect((await escrow.getDispute(1))[1]).toBe(accounts.client.address);
+  });
+
+  it('refuses disputes from anyone else or on a disputed milestone', async () => {
+    await expect(send(escrow, accounts.stranger, 'raiseDispute', 0, 'Nosy'))
+      .rejects.toThrow('Only client or freelancer can call this');
+
+    await send(escrow, accounts.client, 'raiseDispute', 0, 'Late');
+    await expect(send(escrow, accounts.freelancer, 'raiseDispute', 0, 'Also late'))
+      .rejects.toThrow('Milestone already disputed');
+  });
+
+  it('locks a disputed milestone until the arbiter rules', async () => {
+    await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+    await send(escrow, accounts.freelancer, 'raiseDispute', 0, 'Payment withheld');
+
+    await expect(send(escrow, accounts.client, 'releaseMilestonePayment', 0)).rejects.toThrow('Milestone is disputed');
+    await expect(send(escrow, accounts.client, 'cancelMilestone', 0, 0)).rejects.toThrow('Milestone is disputed');
+  });
+
+  it('splits the milestone as the arbiter rules', async () => {
+    await send(escrow, accounts.client, 'raiseDispute', 0, 'Half done');
+    const freelancerBefore = await balanceOf(accounts.freelancer.address);
+    const clientBefore = await balanceOf(accounts.client.address);
+
+    await send(escrow, accounts.arbiter, 'resolveDispute', 0, parseEther('4'));
+
+    expect(await balanceOf(accounts.freelancer.address)).toBe(freelancerBefore + parseEther('4'));
+    expect(await balanceOf(accounts.client.address)).toBe(clientBefore + parseEther('6'));
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('5'));
+
+    const [, , , isResolved, freelancerAmount, clientAmount] = await escrow.getDispute(0);
+    expect(isResolved).toBe(true);
+    expect(freelancerAmount).toBe(parseEther('4'));
+    expect(clientAmount).toBe(parseEther('6'));
+    expect((await escrow.getMilestone(0))[1]).toBe(true);
+  });
+
+  it('only lets the arbiter rule once, within the milestone amount', async () => {
+    await send(escrow, accounts.client, 'raiseDispute', 0, 'Half done');
+
+    await expect(send(escrow, accounts.client, 'resolveDispute', 0, 0)).rejects.toThrow('Only arbiter can call this');
+    await expect(send(escrow, accounts.arbiter, 'resolveDispute', 0, parseEther('11')))
+      .rejects.toThrow('Ruling exceeds milestone amount');
+    await expect(send(escrow, accounts.arbiter, 'resolveDispute', 1, 0)).rejects.toThrow('Milestone not disputed');
+
+    await send(escrow, accounts.arbiter, 'resolveDispute', 0, parseEther('10'));
+    await expect(send(escrow, accounts.arbiter, 'resolveDispute', 0, 0)).rejects.toThrow('Dispute already resolved');
+  });
+});
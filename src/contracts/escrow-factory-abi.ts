@@ -0,0 +1,390 @@
+export const ESCROW_FACTORY_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_arbiter",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_oracleSigner",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_feeRecipient",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_feeBps",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "arbiter",
+        "type": "address"
+      }
+    ],
+    "name": "ArbiterUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "escrow",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "client",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "freelancer",
+        "type": "address"
+      }
+    ],
+    "name": "EscrowDeployed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "oracleSigner",
+        "type": "address"
+      }
+    ],
+    "name": "OracleSignerUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "feeRecipient",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "feeBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "PlatformFeeUpdated",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "arbiter",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_client",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_freelancer",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_paymentToken",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "_milestoneAmounts",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "_reviewPeriods",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "bool",
+        "name": "_stagedFunding",
+        "type": "bool"
+      },
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "milestoneIndex",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "account",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "shareBps",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct FreelanceEscrow.PayeeAssignment[]",
+        "name": "_payees",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "createEscrow",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "escrow",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "escrows",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "feeBps",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "feeRecipient",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_client",
+        "type": "address"
+      }
+    ],
+    "name": "getClientEscrows",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getEscrowCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_freelancer",
+        "type": "address"
+      }
+    ],
+    "name": "getFreelancerEscrows",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "implementation",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "isEscrow",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "oracleSigner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_arbiter",
+        "type": "address"
+      }
+    ],
+    "name": "setArbiter",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_oracleSigner",
+        "type": "address"
+      }
+    ],
+    "name": "setOracleSigner",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_feeRecipient",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_feeBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "setPlatformFee",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_owner",
+        "type": "address"
+      }
+    ],
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const ESCROW_FACTORY_BYTECODE = "0x60a060405234801561000f575f5ffd5b50604051616dd7380380616dd783398101604081905261002e9161031c565b60405161003a906102f4565b604051809103905ff080158015610053573d5f5f3e3d5ffd5b506001600160a01b03166080525f80546001600160a01b0319163317905561007a84610096565b6100838361013a565b61008d8282610183565b5050505061037b565b6001600160a01b0381166100f15760405162461bcd60e51b815260206004820152601760248201527f496e76616c69642061726269746572206164647265737300000000000000000060448201526064015b60405180910390fd5b600180546001600160a01b0319166001600160a01b0383169081179091556040517f8596f78fdfc0b2fb82456c68d88ab2190561bc8639434b1d21f09d11a7364149905f90a250565b600280546001600160a01b0319166001600160a01b0383169081179091556040517f9787ad339c4bc9e4b4743a2e50da52ee5b40e7096843872095b8280a50152246905f90a250565b5f6080519050806001600160a01b031663d55be8c66040518163ffffffff1660e01b8152600401602060405180830381865afa1580156101c5573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906101e99190610364565b8211156102385760405162461bcd60e51b815260206004820152601560248201527f506c6174666f726d2066656520746f6f2068696768000000000000000000000060448201526064016100e8565b81158061024d57506001600160a01b03831615155b6102995760405162461bcd60e51b815260206004820152601660248201527f46656520726563697069656e742072657175697265640000000000000000000060448201526064016100e8565b600380546001600160a01b0319166001600160a01b03851690811790915560048390556040518381527fd8149d5d7695ec014cad0238fa3120dfa5fa8330c3d19b451f2bdc7587f37d849060200160405180910390a2505050565b615a17806113c083390190565b80516001600160a01b0381168114610317575f5ffd5b919050565b5f5f5f5f6080858703121561032f575f5ffd5b61033885610301565b935061034660208601610301565b925061035460408601610301565b6060959095015193969295505050565b5f60208284031215610374575f5ffd5b5051919050565b60805161101f6103a15f395f81816101b0015281816103860152610993015261101f5ff3fe608060405234801561000f575f5ffd5b50600436106100fb575f3560e01c80635c60da1b11610093578063c2f1bf0711610063578063c2f1bf0714610229578063d7d3de7b14610249578063f2fde38b1461025c578063fe25e00a1461026f575f5ffd5b80635c60da1b146101ab5780638da5cb5b146101d25780638db1afb1146101e4578063b166a09f146101f7575f5ffd5b806324a9d853116100ce57806324a9d8531461016957806328bff9db146101725780634690484014610185578063474a998014610198575f5ffd5b8063012f52ee146100ff57806316b151351461012f5780631709a61b146101415780631c9c088a14610154575b5f5ffd5b61011261010d366004610b10565b610282565b6040516001600160a01b0390911681526020015b60405180910390f35b6005545b604051908152602001610126565b600254610112906001600160a01b031681565b610167610162366004610b3d565b6102aa565b005b61013360045481565b610167610180366004610b3d565b6102e8565b600354610112906001600160a01b031681565b6101126101a6366004610ced565b61031a565b6101127f000000000000000000000000000000000000000000000000000000000000000081565b5f54610112906001600160a01b031681565b6101676101f2366004610dc2565b610561565b610219610205366004610b3d565b60066020525f908152604090205460ff1681565b6040519015158152602001610126565b61023c610237366004610b3d565b610598565b6040516101269190610dea565b61023c610257366004610b3d565b61060b565b61016761026a366004610b3d565b61067c565b600154610112906001600160a01b031681565b60058181548110610291575f80fd5b5f918252602090912001546001600160a01b0316905081565b5f546001600160a01b031633146102dc5760405162461bcd60e51b81526004016102d390610e35565b60405180910390fd5b6102e581610714565b50565b5f546001600160a01b031633146103115760405162461bcd60e51b81526004016102d390610e35565b6102e5816107b3565b5f336001600160a01b038916146103815760405162461bcd60e51b815260206004820152602560248201527f4f6e6c792074686520636c69656e742063616e206372656174652069747320656044820152647363726f7760d81b60648201526084016102d3565b6103aa7f00000000000000000000000000000000000000000000000000000000000000006107fc565b9050806001600160a01b03166385aabb3b898960015f9054906101000a90046001600160a01b031660025f9054906101000a90046001600160a01b03168b8b8b8b60035f9054906101000a90046001600160a01b03166004548d6040518c63ffffffff1660e01b815260040161042a9b9a99989796959493929190610ef8565b5f604051808303815f87803b158015610441575f5ffd5b505af1158015610453573d5f5f3e3d5ffd5b5050506001600160a01b038083165f818152600660209081526040808320805460ff19166001908117909155600580548083019091557f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db00180546001600160a01b031990811687179091558f871685526007845282852080548084018255908652848620018054821687179055958e1684526008835290832080549182018155835291200180549092161790555061050c818884610894565b866001600160a01b0316886001600160a01b0316826001600160a01b03167f04ad8067d2072c63826dba7c22aa29d981d2dac03be43ba810d465c759529de760405160405180910390a4979650505050505050565b5f546001600160a01b0316331461058a5760405162461bcd60e51b81526004016102d390610e35565b6105948282610990565b5050565b6001600160a01b0381165f908152600760209081526040918290208054835181840281018401909452808452606093928301828280156105ff57602002820191905f5260205f20905b81546001600160a01b031681526001909101906020018083116105e1575b50505050509050919050565b6001600160a01b0381165f908152600860209081526040918290208054835181840281018401909452808452606093928301828280156105ff57602002820191905f5260205f209081546001600160a01b031681526001909101906020018083116105e15750505050509050919050565b5f546001600160a01b031633146106a55760405162461bcd60e51b81526004016102d390610e35565b6001600160a01b0381166106f35760405162461bcd60e51b8152602060048201526015602482015274496e76616c6964206f776e6572206164647265737360581b60448201526064016102d3565b5f80546001600160a01b0319166001600160a01b0392909216919091179055565b6001600160a01b03811661076a5760405162461bcd60e51b815260206004820152601760248201527f496e76616c69642061726269746572206164647265737300000000000000000060448201526064016102d3565b600180546001600160a01b0319166001600160a01b0383169081179091556040517f8596f78fdfc0b2fb82456c68d88ab2190561bc8639434b1d21f09d11a7364149905f90a250565b600280546001600160a01b0319166001600160a01b0383169081179091556040517f9787ad339c4bc9e4b4743a2e50da52ee5b40e7096843872095b8280a50152246905f90a250565b5f604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b81528260601b60148201526e5af43d82803e903d91602b57fd5bf360881b60288201526037815ff09150506001600160a01b03811661088f5760405162461bcd60e51b8152602060048201526013602482015272115cd8dc9bddc818db1bdb994819985a5b1959606a1b60448201526064016102d3565b919050565b5f5b815181101561098a575f8282815181106108b2576108b2610f9a565b6020026020010151602001519050836001600160a01b0316816001600160a01b0316036108df5750610982565b5f805b83811080156108ef575081155b1561093b57826001600160a01b031685828151811061091057610910610f9a565b6020026020010151602001516001600160a01b0316149150808061093390610fae565b9150506108e2565b508061097f576001600160a01b038281165f9081526008602090815260408220805460018101825590835291200180546001600160a01b0319169188169190911790555b50505b600101610896565b50505050565b5f7f00000000000000000000000000000000000000000000000000000000000000009050806001600160a01b031663d55be8c66040518163ffffffff1660e01b8152600401602060405180830381865afa1580156109f0573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a149190610fd2565b821115610a5b5760405162461bcd60e51b81526020600482015260156024820152740a0d8c2e8ccdee4da40cccaca40e8dede40d0d2ced605b1b60448201526064016102d3565b811580610a7057506001600160a01b03831615155b610ab55760405162461bcd60e51b8152602060048201526016602482015275119959481c9958da5c1a595b9d081c995c5d5a5c995960521b60448201526064016102d3565b600380546001600160a01b0319166001600160a01b03851690811790915560048390556040518381527fd8149d5d7695ec014cad0238fa3120dfa5fa8330c3d19b451f2bdc7587f37d849060200160405180910390a2505050565b5f60208284031215610b20575f5ffd5b5035919050565b80356001600160a01b038116811461088f575f5ffd5b5f60208284031215610b4d575f5ffd5b610b5682610b27565b9392505050565b634e487b7160e01b5f52604160045260245ffd5b6040516060810167ffffffffffffffff81118282101715610b9457610b94610b5d565b60405290565b604051601f8201601f1916810167ffffffffffffffff81118282101715610bc357610bc3610b5d565b604052919050565b5f67ffffffffffffffff821115610be457610be4610b5d565b5060051b60200190565b5f82601f830112610bfd575f5ffd5b8135610c10610c0b82610bcb565b610b9a565b8082825260208201915060208360051b860101925085831115610c31575f5ffd5b602085015b83811015610c4e578035835260209283019201610c36565b5095945050505050565b5f82601f830112610c67575f5ffd5b8135610c75610c0b82610bcb565b80828252602082019150602060608402860101925085831115610c96575f5ffd5b602085015b83811015610c4e5760608188031215610cb2575f5ffd5b610cba610b71565b81358152610cca60208301610b27565b602082810191909152604083810135908301529084529290920191606001610c9b565b5f5f5f5f5f5f5f60e0888a031215610d03575f5ffd5b610d0c88610b27565b9650610d1a60208901610b27565b9550610d2860408901610b27565b9450606088013567ffffffffffffffff811115610d43575f5ffd5b610d4f8a828b01610bee565b945050608088013567ffffffffffffffff811115610d6b575f5ffd5b610d778a828b01610bee565b93505060a08801358015158114610d8c575f5ffd5b915060c088013567ffffffffffffffff811115610da7575f5ffd5b610db38a828b01610c58565b91505092959891949750929550565b5f5f60408385031215610dd3575f5ffd5b610ddc83610b27565b946020939093013593505050565b602080825282518282018190525f918401906040840190835b81811015610e2a5783516001600160a01b0316835260209384019390920191600101610e03565b509095945050505050565b60208082526018908201527f4f6e6c79206f776e65722063616e2063616c6c20746869730000000000000000604082015260600190565b5f8151808452602084019350602083015f5b82811015610e9c578151865260209586019590910190600101610e7e565b5093949350505050565b5f8151808452602084019350602083015f5b82811015610e9c578151805187526020808201516001600160a01b0316818901526040918201519188019190915260609096019590910190600101610eb8565b6001600160a01b038c811682528b811660208301528a81166040830152891660608201526001600160a01b038816608082015261016060a08201525f610f42610160830189610e6c565b82810360c0840152610f548189610e6c565b87151560e085015290506001600160a01b03861661010084015284610120840152828103610140840152610f888185610ea6565b9e9d5050505050505050505050505050565b634e487b7160e01b5f52603260045260245ffd5b5f60018201610fcb57634e487b7160e01b5f52601160045260245ffd5b5060010190565b5f60208284031215610fe2575f5ffd5b505191905056fea26469706673582212208fad00afe777fe6e5f32085d874200f99051f80f542bfa8b31e36535b7d4587164736f6c634300081e00336080604052348015600e575f5ffd5b505f805460ff191660011790556159ef806100285f395ff3fe60806040526004361061025f575f3560e01c80637da05e561161013f578063d45b0007116100b3578063e3cfb66811610078578063e3cfb6681461073a578063e89e4ed614610759578063eabfff261461078d578063f698da25146107ba578063fe25e00a146107ce578063fe822b8c146107ed575f5ffd5b8063d45b000714610689578063d55be8c61461069d578063dcdb6e94146106b2578063e2c41dbc14610701578063e3a96cbd14610709575f5ffd5b80638f4cf247116101045780638f4cf247146105e057806395ee1221146105f4578063a37dda2c1461060d578063bdc84ac31461062c578063cd0c15bf1461064b578063d226eda31461066a575f5ffd5b80637da05e561461055c578063821c5e8a1461057057806382cc72761461058f57806385aabb3b146105a25780638964a2bb146105c1575f5ffd5b80632fba2c85116101d65780634757b3eb1161019b5780634757b3eb14610480578063563c420a1461049e578063564a565d146104cf5780635aef573c146104ff5780636c31da351461051e5780637d64b00b1461053d575f5ffd5b80632fba2c85146103d55780633013ce29146103e95780633056a8b61461040857806342967a62146104425780634690484014610461575f5ffd5b80631a1bb3ea116102275780631a1bb3ea1461032f5780631a39d8ef1461034257806322f3e2d4146103575780632442e1cb146103705780632486f4de1461039f57806324a9d853146103c0575f5ffd5b80630dbc44d214610263578063109e94cf1461028b57806310ef4455146102c257806312c8e039146102f15780631709a61b14610310575b5f5ffd5b34801561026e575f5ffd5b5061027860095481565b6040519081526020015b60405180910390f35b348015610296575f5ffd5b506002546102aa906001600160a01b031681565b6040516001600160a01b039091168152602001610282565b3480156102cd575f5ffd5b506102e16102dc366004614d51565b61080c565b6040519015158152602001610282565b3480156102fc575f5ffd5b5061027861030b366004614d89565b61087d565b34801561031b575f5ffd5b506005546102aa906001600160a01b031681565b61027861033d366004614db9565b610935565b34801561034d575f5ffd5b5061027860075481565b348015610362575f5ffd5b506008546102e19060ff1681565b34801561037b575f5ffd5b5061038f61038a366004614def565b610bcb565b6040516102829493929190614e34565b3480156103aa575f5ffd5b506103be6103b9366004614ed2565b610d4c565b005b3480156103cb575f5ffd5b50610278600b5481565b3480156103e0575f5ffd5b50610278610f79565b3480156103f4575f5ffd5b506006546102aa906001600160a01b031681565b348015610413575f5ffd5b50610427610422366004614def565b610fff565b60408051938452602084019290925290820152606001610282565b34801561044d575f5ffd5b506103be61045c366004614f6e565b61119f565b34801561046c575f5ffd5b50600c546102aa906001600160a01b031681565b34801561048b575f5ffd5b506008546102e190610100900460ff1681565b3480156104a9575f5ffd5b506104bd6104b8366004614def565b6112a3565b60405161028296959493929190614fa2565b3480156104da575f5ffd5b506104ee6104e9366004614def565b6112ee565b604051610282959493929190614fed565b34801561050a575f5ffd5b506103be610519366004614ed2565b6113b2565b348015610529575f5ffd5b506103be61053836600461502d565b611681565b348015610548575f5ffd5b506103be610557366004614def565b611a74565b348015610567575f5ffd5b50600f54610278565b34801561057b575f5ffd5b506103be61058a366004614def565b611cf3565b6103be61059d366004614def565b611fcd565b3480156105ad575f5ffd5b506103be6105bc3660046151eb565b612108565b3480156105cc575f5ffd5b506102e16105db366004614def565b6126ee565b3480156105eb575f5ffd5b50600d54610278565b3480156105ff575f5ffd5b50600a546102e19060ff1681565b348015610618575f5ffd5b506003546102aa906001600160a01b031681565b348015610637575f5ffd5b506103be610646366004614f6e565b612740565b348015610656575f5ffd5b506103be610665366004614def565b61299a565b348015610675575f5ffd5b506103be610684366004614def565b612ba6565b348015610694575f5ffd5b506103be6130ef565b3480156106a8575f5ffd5b506102786103e881565b3480156106bd575f5ffd5b506106ea6106cc366004614def565b60106020525f90815260409020805460019091015460ff9091169082565b604080519215158352602083019190915201610282565b6103be6132ff565b348015610714575f5ffd5b50610728610723366004614def565b61338e565b604051610282969594939291906152f4565b348015610745575f5ffd5b506103be610754366004614f6e565b6134fd565b348015610764575f5ffd5b50610778610773366004614def565b613642565b6040516102829998979695949392919061533d565b348015610798575f5ffd5b506107ac6107a7366004614def565b613734565b604051610282929190615398565b3480156107c5575f5ffd5b5061027861395c565b3480156107d9575f5ffd5b506004546102aa906001600160a01b031681565b3480156107f8575f5ffd5b506103be610807366004614def565b613a32565b5f828152601160205260408120815b815481101561087157836001600160a01b031682828154811061084057610840615421565b5f9182526020909120600290910201546001600160a01b03160361086957600192505050610877565b60010161081b565b505f9150505b92915050565b5f8084600281111561089157610891614f8e565b036108c2575f5f6009541180156108ab5750600d54600954145b9050806108b8575f6108ba565b825b91505061092e565b60018460028111156108d6576108d6614f8e565b0361092b575f600d84815481106108ef576108ef615421565b5f9182526020909120600590910201600181015490915060ff1680156109155750805483115b61091f575f6108ba565b80546108ba9084615449565b505f5b9392505050565b6002545f906001600160a01b0316331461096a5760405162461bcd60e51b81526004016109619061545c565b60405180910390fd5b600a5460ff161561098d5760405162461bcd60e51b815260040161096190615493565b5f8560028111156109a0576109a0614f8e565b036109ce575f83116109c45760405162461bcd60e51b8152600401610961906154bd565b600d549350610a7b565b6109d784613b8a565b60018560028111156109eb576109eb614f8e565b03610a77575f8311610a0f5760405162461bcd60e51b8152600401610961906154bd565b600d8481548110610a2257610a22615421565b905f5260205f2090600502015f01548303610a725760405162461bcd60e51b815260206004820152601060248201526f105b5bdd5b9d081d5b98da185b99d95960821b6044820152606401610961565b610a7b565b5f92505b5f610a8786868661087d565b9050610a9281613cd5565b600f6040518060c00160405280886002811115610ab157610ab1614f8e565b81526020808201899052604082018890526060820187905260808201859052600160a0909201829052835480830185555f948552932082516006909402018054929390929091839160ff191690836002811115610b1057610b10614f8e565b0217905550602082015160018281019190915560408301516002830155606083015160038301556080830151600483015560a0909201516005909101805460ff1916911515919091179055600f545f91610b6991615449565b9050807fca72cdb9176b363aaa17020aeeaf1454392e41a5352e7e39eaea1ac9dac6a56d886002811115610b9f57610b9f614f8e565b6040805160ff9092168252602082018a9052810188905260600160405180910390a29695505050505050565b5f5f5f6060600d805490508510610bf45760405162461bcd60e51b8152600401610961906154fe565b5f600d8681548110610c0857610c08615421565b5f9182526020918290206040805161012081018252600590930290910180548352600181015460ff8082161515958501959095526101008104851615159284019290925262010000820484161515606084015263010000008204841615156080840152600160201b909104909216151560a082015260028201805491929160c084019190610c9590615535565b80601f0160208091040260200160405190810160405280929190818152602001828054610cc190615535565b8015610d0c5780601f10610ce357610100808354040283529160200191610d0c565b820191905f5260205f20905b815481529060010190602001808311610cef57829003601f168201915b50505091835250506003820154602082015260049091015460409091015280516060820151608083015160c0909301519199909850919650945092505050565b6002546001600160a01b03163314610d765760405162461bcd60e51b81526004016109619061545c565b60085460ff16610d985760405162461bcd60e51b81526004016109619061556d565b600d5482908110610dbb5760405162461bcd60e51b8152600401610961906154fe565b600d8181548110610dce57610dce615421565b5f91825260209091206001600590920201015460ff16610e005760405162461bcd60e51b81526004016109619061559b565b600d8181548110610e1357610e13615421565b905f5260205f20906005020160010160019054906101000a900460ff1615610e4d5760405162461bcd60e51b8152600401610961906155c9565b600d548310610e6e5760405162461bcd60e51b8152600401610961906154fe565b5f600d8481548110610e8257610e82615421565b905f5260205f20906005020190508060010160029054906101000a900460ff1615610ebf5760405162461bcd60e51b8152600401610961906155f4565b60018101546301000000900460ff1615610eeb5760405162461bcd60e51b815260040161096190615624565b6001810154600160201b900460ff1615610f175760405162461bcd60e51b81526004016109619061565b565b60018101805463ff0000001916630100000017905560028101610f3a84826156ce565b50837f9cd873c824a4aad34c119da4a554f26a7b3be7b1186429c2e0af76d7019adc3c84604051610f6b9190615788565b60405180910390a250505050565b6006545f906001600160a01b0316610f9057504790565b6006546040516370a0823160e01b81523060048201526001600160a01b03909116906370a0823190602401602060405180830381865afa158015610fd6573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610ffa919061579a565b905090565b5f5f5f600d8054905084106110265760405162461bcd60e51b8152600401610961906154fe565b5f600d858154811061103a5761103a615421565b5f9182526020918290206040805161012081018252600590930290910180548352600181015460ff8082161515958501959095526101008104851615159284019290925262010000820484161515606084015263010000008204841615156080840152600160201b909104909216151560a082015260028201805491929160c0840191906110c790615535565b80601f01602080910402602001604051908101604052809291908181526020018280546110f390615535565b801561113e5780601f106111155761010080835404028352916020019161113e565b820191905f5260205f20905b81548152906001019060200180831161112157829003601f168201915b505050505081526020016003820154815260200160048201548152505090505f5f82610100015111611170575f611185565b8160e0015182610100015161118591906157b1565b60e083015161010090930151929792965094509092505050565b6111a7613e59565b6002546001600160a01b031633146111d15760405162461bcd60e51b81526004016109619061545c565b6111db8282613ea0565b5f600d83815481106111ef576111ef615421565b905f5260205f20906005020190505f8160040154118061121a575060018101546301000000900460ff165b1561128f57604080518082018252600180825260208083018681525f888152601083528590209351845460ff1916901515178455519290910191909155905183815284917fb427eba60ce7173e848aeb55148ebe96447487fa3e1db4d45318786719cc4067910160405180910390a25061129b565b6112998383614040565b505b50505f600155565b600f81815481106112b2575f80fd5b5f91825260209091206006909102018054600182015460028301546003840154600485015460059095015460ff94851696509294919390921686565b600e6020525f9081526040902080546001820180546001600160a01b03909216929161131990615535565b80601f016020809104026020016040519081016040528092919081815260200182805461134590615535565b80156113905780601f1061136757610100808354040283529160200191611390565b820191905f5260205f20905b81548152906001019060200180831161137357829003601f168201915b5050505060028301546003840154600490940154929360ff9091169290915085565b6002546001600160a01b03163314806113d557506003546001600160a01b031633145b6113f15760405162461bcd60e51b8152600401610961906157c4565b60085460ff166114135760405162461bcd60e51b81526004016109619061556d565b600d54829081106114365760405162461bcd60e51b8152600401610961906154fe565b600d818154811061144957611449615421565b5f91825260209091206001600590920201015460ff1661147b5760405162461bcd60e51b81526004016109619061559b565b600d818154811061148e5761148e615421565b905f5260205f20906005020160010160019054906101000a900460ff16156114c85760405162461bcd60e51b8152600401610961906155c9565b600d5483106114e95760405162461bcd60e51b8152600401610961906154fe565b5f600d84815481106114fd576114fd615421565b905f5260205f20906005020190508060010160029054906101000a900460ff161561153a5760405162461bcd60e51b8152600401610961906155f4565b6001810154600160201b900460ff16156115965760405162461bcd60e51b815260206004820152601a60248201527f4d696c6573746f6e6520616c72656164792064697370757465640000000000006044820152606401610961565b60018181018054600160201b64ff00000000199091161790556040805160a08101825233815260208082018781525f8385018190526060840181905260808401819052898152600e909252929020815181546001600160a01b0319166001600160a01b039091161781559151909282019061161190826156ce565b5060408281015160028301805460ff19169115159190911790556060830151600383015560809092015160049091015551339085907f1b84372106d77c6daea0dda35bbc0229d10a83f58ec89909288492519368234190611673908790615788565b60405180910390a350505050565b611689613e59565b60085460ff166116ab5760405162461bcd60e51b81526004016109619061556d565b600d54859081106116ce5760405162461bcd60e51b8152600401610961906154fe565b600d81815481106116e1576116e1615421565b5f91825260209091206001600590920201015460ff166117135760405162461bcd60e51b81526004016109619061559b565b600d818154811061172657611726615421565b905f5260205f20906005020160010160019054906101000a900460ff16156117605760405162461bcd60e51b8152600401610961906155c9565b6005546001600160a01b03166117b85760405162461bcd60e51b815260206004820152601c60248201527f4f7261636c65206174746573746174696f6e732064697361626c6564000000006044820152606401610961565b834211156117fe5760405162461bcd60e51b8152602060048201526013602482015272105d1d195cdd185d1a5bdb88195e1c1a5c9959606a1b6044820152606401610961565b600d54861061181f5760405162461bcd60e51b8152600401610961906154fe565b5f600d878154811061183357611833615421565b905f5260205f20906005020190508060010160029054906101000a900460ff16156118705760405162461bcd60e51b8152600401610961906155f4565b6001810154600160201b900460ff161561189c5760405162461bcd60e51b81526004016109619061565b565b604080517f6a2b2a0226e873c2401bf7ac415ce4812dc75da2afdea9dc912ea047902cc228602082015290810188905260608101879052608081018690525f9060a0016040516020818303038152906040528051906020012090505f61190061395c565b60405161190160f01b602082015260228101919091526042810183905260620160408051601f1981840301815291905280516020909101206005549091506001600160a01b031661195282888861414e565b6001600160a01b0316146119a85760405162461bcd60e51b815260206004820152601860248201527f496e76616c6964206f7261636c65207369676e617475726500000000000000006044820152606401610961565b60018301546301000000900460ff16611a255760018301805463ff000000191663010000001790556119d988614308565b60028401906119e890826156ce565b50887f9cd873c824a4aad34c119da4a554f26a7b3be7b1186429c2e0af76d7019adc3c84600201604051611a1c919061580b565b60405180910390a25b60405188815233908a907f3c9196fc7a363e8f1e74f7fbefa291fe779c336525ce1928bf83d1a78366c7f89060200160405180910390a3611a658961449b565b50505f60015550505050505050565b60035481906001600160a01b0316331480611a945750611a94813361080c565b611ab05760405162461bcd60e51b815260040161096190615892565b60085460ff16611ad25760405162461bcd60e51b81526004016109619061556d565b600d5482908110611af55760405162461bcd60e51b8152600401610961906154fe565b600d8181548110611b0857611b08615421565b5f91825260209091206001600590920201015460ff16611b3a5760405162461bcd60e51b81526004016109619061559b565b600d8181548110611b4d57611b4d615421565b905f5260205f20906005020160010160019054906101000a900460ff1615611b875760405162461bcd60e51b8152600401610961906155c9565b600d548310611ba85760405162461bcd60e51b8152600401610961906154fe565b5f600d8481548110611bbc57611bbc615421565b905f5260205f20906005020190508060010160029054906101000a900460ff1615611bf95760405162461bcd60e51b8152600401610961906155f4565b60018101546301000000900460ff1615611c255760405162461bcd60e51b815260040161096190615624565b6001810154600160201b900460ff1615611c515760405162461bcd60e51b81526004016109619061565b565b600481015415611ca35760405162461bcd60e51b815260206004820152601b60248201527f4d696c6573746f6e6520616c7265616479207375626d697474656400000000006044820152606401610961565b4260048201819055600382015485917f2af1b3fa4101459ceede4d1ce2f7aff9bee140fe34f729b23d9494cd7cb5319291611cde90826157b1565b60408051928352602083019190915201610f6b565b611cfb613e59565b60035481906001600160a01b0316331480611d1b5750611d1b813361080c565b611d375760405162461bcd60e51b815260040161096190615892565b60085460ff16611d595760405162461bcd60e51b81526004016109619061556d565b600d5482908110611d7c5760405162461bcd60e51b8152600401610961906154fe565b600d8181548110611d8f57611d8f615421565b5f91825260209091206001600590920201015460ff16611dc15760405162461bcd60e51b81526004016109619061559b565b600d8181548110611dd457611dd4615421565b905f5260205f20906005020160010160019054906101000a900460ff1615611e0e5760405162461bcd60e51b8152600401610961906155c9565b600d548310611e2f5760405162461bcd60e51b8152600401610961906154fe565b5f600d8481548110611e4357611e43615421565b905f5260205f20906005020190508060010160029054906101000a900460ff1615611e805760405162461bcd60e51b8152600401610961906155f4565b6001810154600160201b900460ff1615611eac5760405162461bcd60e51b81526004016109619061565b565b5f816004015411611eff5760405162461bcd60e51b815260206004820152601760248201527f4d696c6573746f6e65206e6f74207375626d69747465640000000000000000006044820152606401610961565b5f816003015411611f5e5760405162461bcd60e51b815260206004820152602360248201527f4175746f2d72656c656173652064697361626c656420666f72206d696c6573746044820152626f6e6560e81b6064820152608401610961565b80600301548160040154611f7291906157b1565b421015611fba5760405162461bcd60e51b81526020600482015260166024820152752932bb34b2bb903832b934b7b2103737ba1037bb32b960511b6044820152606401610961565b611fc38461449b565b50505f6001555050565b6002546001600160a01b03163314611ff75760405162461bcd60e51b81526004016109619061545c565b600854610100900460ff1661204e5760405162461bcd60e51b815260206004820152601760248201527f5374616765642066756e64696e672064697361626c65640000000000000000006044820152606401610961565b5f811161209d5760405162461bcd60e51b815260206004820152601b60248201527f46756e64206174206c65617374206f6e65206d696c6573746f6e6500000000006044820152606401610961565b600d546009546120ae9083906157b1565b11156120fc5760405162461bcd60e51b815260206004820152601e60248201527f4e6f7420656e6f75676820756e66756e646564206d696c6573746f6e657300006044820152606401610961565b61210581614584565b50565b5f5460ff161561215a5760405162461bcd60e51b815260206004820152601a60248201527f457363726f7720616c726561647920696e697469616c697a65640000000000006044820152606401610961565b5f805460ff191660011790556001600160a01b038b166121b55760405162461bcd60e51b8152602060048201526016602482015275496e76616c696420636c69656e74206164647265737360501b6044820152606401610961565b6001600160a01b038a1661220b5760405162461bcd60e51b815260206004820152601a60248201527f496e76616c696420667265656c616e63657220616464726573730000000000006044820152606401610961565b6001600160a01b0389166122615760405162461bcd60e51b815260206004820152601760248201527f496e76616c6964206172626974657220616464726573730000000000000000006044820152606401610961565b8a6001600160a01b0316896001600160a01b0316141580156122955750896001600160a01b0316896001600160a01b031614155b6122e15760405162461bcd60e51b815260206004820152601f60248201527f41726269746572206d7573742062652061206e65757472616c207061727479006044820152606401610961565b5f8651116123315760405162461bcd60e51b815260206004820152601f60248201527f4174206c65617374206f6e65206d696c6573746f6e65207265717569726564006044820152606401610961565b855185511461238e5760405162461bcd60e51b8152602060048201526024808201527f52657669657720706572696f6420726571756972656420706572206d696c6573604482015263746f6e6560e01b6064820152608401610961565b6103e88211156123d85760405162461bcd60e51b81526020600482015260156024820152740a0d8c2e8ccdee4da40cccaca40e8dede40d0d2ced605b1b6044820152606401610961565b8115806123ed57506001600160a01b03831615155b6124325760405162461bcd60e51b8152602060048201526016602482015275119959481c9958da5c1a595b9d081c995c5d5a5c995960521b6044820152606401610961565b600280546001600160a01b03199081166001600160a01b038e8116919091179092556003805482168d84161790556004805482168c84161790556005805482168b84161790556006805482168a84161790556008805461ff00191661010088151502179055600b849055600c80549091169185169190911790555f805b875181101561267a575f8882815181106124cb576124cb615421565b6020026020010151116124f05760405162461bcd60e51b8152600401610961906154bd565b600d6040518061012001604052808a848151811061251057612510615421565b602002602001015181526020015f151581526020015f151581526020015f151581526020015f151581526020015f1515815260200160405180602001604052805f815250815260200189848151811061256b5761256b615421565b60209081029190910181015182525f918101829052835460018181018655948352918190208351600590930201918255820151928101805460408401516060850151608086015160a08701511515600160201b0264ff000000001991151563010000000263ff0000001993151562010000029390931663ffff0000199415156101000261ff00199a15159a909a1661ffff199096169590951798909817929092169290921791909117169390931790925560c0810151909190600282019061263390826156ce565b5060e082015181600301556101008201518160040155505087818151811061265d5761265d615421565b60200260200101518261267091906157b1565b91506001016124af565b5060078190556008805460ff191690556126938261470a565b8a6001600160a01b03168c6001600160a01b03167f78da7430b15648a5954de6bf3f6dc65a9eb64c292537d89a2a9989fdd3679923836040516126d891815260200190565b60405180910390a3505050505050505050505050565b600d545f9082106127115760405162461bcd60e51b8152600401610961906154fe565b600d828154811061272457612724615421565b5f91825260209091206001600590920201015460ff1692915050565b612748613e59565b6004546001600160a01b031633146127a25760405162461bcd60e51b815260206004820152601a60248201527f4f6e6c7920617262697465722063616e2063616c6c20746869730000000000006044820152606401610961565b600d5482106127c35760405162461bcd60e51b8152600401610961906154fe565b5f600d83815481106127d7576127d7615421565b5f9182526020808320868452600e90915260409092206005919091029091016001810154909250600160201b900460ff1661284d5760405162461bcd60e51b8152602060048201526016602482015275135a5b195cdd1bdb99481b9bdd08191a5cdc1d5d195960521b6044820152606401610961565b600281015460ff16156128a25760405162461bcd60e51b815260206004820152601860248201527f4469737075746520616c7265616479207265736f6c76656400000000000000006044820152606401610961565b81548311156128f35760405162461bcd60e51b815260206004820152601f60248201527f52756c696e672065786365656473206d696c6573746f6e6520616d6f756e74006044820152606401610961565b81545f90612902908590615449565b6001848101805462ff000019166201000017905560028401805460ff191690911790556003830185905560048301819055905083156129455761294585856149ea565b80156129545761295481614b74565b604080518581526020810183905286917f959dc01840aa516bf9407cffa45326c7b6821c48feff7b91eb0c743c8f460fd6910160405180910390a250505f600155505050565b6129a2613e59565b6002546001600160a01b031633146129cc5760405162461bcd60e51b81526004016109619061545c565b60085460ff166129ee5760405162461bcd60e51b81526004016109619061556d565b600d5481908110612a115760405162461bcd60e51b8152600401610961906154fe565b600d8181548110612a2457612a24615421565b5f91825260209091206001600590920201015460ff16612a565760405162461bcd60e51b81526004016109619061559b565b600d8181548110612a6957612a69615421565b905f5260205f20906005020160010160019054906101000a900460ff1615612aa35760405162461bcd60e51b8152600401610961906155c9565b600d548210612ac45760405162461bcd60e51b8152600401610961906154fe565b5f600d8381548110612ad857612ad8615421565b905f5260205f20906005020190508060010160039054906101000a900460ff16612b3d5760405162461bcd60e51b8152602060048201526016602482015275135a5b195cdd1bdb99481b9bdd081d995c9a599a595960521b6044820152606401610961565b600181015462010000900460ff1615612b685760405162461bcd60e51b8152600401610961906155f4565b6001810154600160201b900460ff1615612b945760405162461bcd60e51b81526004016109619061565b565b612b9d8361449b565b50505f60015550565b612bae613e59565b6003546001600160a01b03163314612c085760405162461bcd60e51b815260206004820152601d60248201527f4f6e6c7920667265656c616e6365722063616e2063616c6c20746869730000006044820152606401610961565b600f548110612c505760405162461bcd60e51b815260206004820152601460248201527324b73b30b634b21031b430b733b29037b93232b960611b6044820152606401610961565b5f600f8281548110612c6457612c64615421565b5f9182526020909120600690910201600581015490915060ff16612cc25760405162461bcd60e51b815260206004820152601560248201527421b430b733b29037b93232b9103737ba1037b832b760591b6044820152606401610961565b600a5460ff1615612ce55760405162461bcd60e51b815260040161096190615493565b60058101805460ff191690555f80825460ff166002811115612d0957612d09614f8e565b14612d18578160010154612d1c565b600d545b825460028401549192505f91612d379160ff1690849061087d565b90508083600401541015612d8d5760405162461bcd60e51b815260206004820152601f60248201527f4368616e6765206f72646572206e656564732061206e657720746f702d7570006044820152606401610961565b5f818460040154612d9e9190615449565b90505f845460ff166002811115612db757612db7614f8e565b03612fd35760408051610120810182526002860154815283151560208083018281525f848601818152606086018281526080870183815260a08801848152895196870190995283865260c0880195865260038d015460e0890152610100808901859052600d80546001810182559552885160059095027fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb5810195865595517fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb6870180549551945193519b511515600160201b0264ff00000000199c151563010000000263ff0000001995151562010000029590951663ffff00001996151590940261ff00199315159390931661ffff199097169690961791909117939093161717979097161790955590519193917fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb790910190612f1490826156ce565b5060e0820151816003015561010082015181600401555050846002015460075f828254612f4191906157b1565b909155505060405184815286907f3181abf3ac2de617017674dcbfdf8637789f9d39372c7e7f20424e963e73bca29060200160405180910390a28015612fcd57600d546009556002850154604080518681526001602082015280820192909252517f1734b29497f4538c8a1767b1280c748c27d97b341124b6a57a626dfdd7bcf5249181900360600190a15b506130d5565b612fdc83613b8a565b5f600d8481548110612ff057612ff0615421565b5f9182526020909120600590910201600181015490915060ff16801561301a575080546002860154105b1561303d57600285015481546130309190615449565b61303a90836157b1565b91505b600285015481546007546130519190615449565b61305b91906157b1565b6007556002855460ff16600281111561307657613076614f8e565b036130915760018101805461ff001916610100179055613099565b600285015481555b857f3181abf3ac2de617017674dcbfdf8637789f9d39372c7e7f20424e963e73bca2856040516130cb91815260200190565b60405180910390a2505b80156130e4576130e481614b74565b50505f600155505050565b6130f7613e59565b6002546001600160a01b031633146131215760405162461bcd60e51b81526004016109619061545c565b60085460ff166131675760405162461bcd60e51b8152602060048201526011602482015270457363726f77206e6f742061637469766560781b6044820152606401610961565b6008805460ff19908116909155600a805490911660011790555f805b600d548110156132be575f600d82815481106131a1576131a1615421565b5f9182526020909120600590910201600181015490915060ff1680156131d157506001810154610100900460ff16155b80156131e85750600181015462010000900460ff16155b801561320057506001810154600160201b900460ff16155b156132b5576004810154158015613223575060018101546301000000900460ff16155b6132955760405162461bcd60e51b815260206004820152603760248201527f5375626d697474656420776f726b206e656564732074686520667265656c616e60448201527f636572277320636f6e73656e7420746f2063616e63656c0000000000000000006064820152608401610961565b60018101805461ff00191661010017905580546132b290846157b1565b92505b50600101613183565b5080156132ce576132ce81614b74565b60405133907fac2a38716bf0fa9fa1a52e859663398120e11fa721ea31fe0682199b9fd367e7905f90a2505f600155565b6002546001600160a01b031633146133295760405162461bcd60e51b81526004016109619061545c565b600d54600954106133745760405162461bcd60e51b8152602060048201526015602482015274115cd8dc9bddc8185b1c9958591e48199d5b991959605a1b6044820152606401610961565b600954600d5461338c9161338791615449565b614584565b565b5f5f60605f5f5f600d8054905087106133b95760405162461bcd60e51b8152600401610961906154fe565b5f878152600e60209081526040808320815160a0810190925280546001600160a01b0316825260018101805492939192918401916133f690615535565b80601f016020809104026020016040519081016040528092919081815260200182805461342290615535565b801561346d5780601f106134445761010080835404028352916020019161346d565b820191905f5260205f20905b81548152906001019060200180831161345057829003601f168201915b5050509183525050600282015460ff161515602082015260038201546040820152600490910154606090910152600d805491925090899081106134b2576134b2615421565b905f5260205f20906005020160010160049054906101000a900460ff16815f015182602001518360400151846060015185608001519650965096509650965096505091939550919395565b613505613e59565b6003546001600160a01b0316331461355f5760405162461bcd60e51b815260206004820152601d60248201527f4f6e6c7920667265656c616e6365722063616e2063616c6c20746869730000006044820152606401610961565b5f828152601060209081526040918290208251808401909352805460ff161515808452600190910154918301919091526135db5760405162461bcd60e51b815260206004820152601960248201527f4e6f2063616e63656c6c6174696f6e20726571756573746564000000000000006044820152606401610961565b818160200151146136385760405162461bcd60e51b815260206004820152602160248201527f4b696c6c2066656520646966666572732066726f6d20746865207265717565736044820152601d60fa1b6064820152608401610961565b61128f8383613ea0565b600d8181548110613651575f80fd5b5f91825260209091206005909102018054600182015460028301805492945060ff80831694610100840482169462010000850483169463010000008104841694600160201b90910490931692906136a790615535565b80601f01602080910402602001604051908101604052809291908181526020018280546136d390615535565b801561371e5780601f106136f55761010080835404028352916020019161371e565b820191905f5260205f20905b81548152906001019060200180831161370157829003601f168201915b5050505050908060030154908060040154905089565b600d546060908190831061375a5760405162461bcd60e51b8152600401610961906154fe565b5f83815260116020526040812080549091036138165760408051600180825281830190925290602080830190803683375050604080516001808252818301909252929550905060208083019080368337505060035485519294506001600160a01b0316918591505f906137cf576137cf615421565b60200260200101906001600160a01b031690816001600160a01b031681525050612710825f8151811061380457613804615421565b60200260200101818152505050915091565b80546001600160401b0381111561382f5761382f614e66565b604051908082528060200260200182016040528015613858578160200160208202803683370190505b5081549093506001600160401b0381111561387557613875614e66565b60405190808252806020026020018201604052801561389e578160200160208202803683370190505b5091505f5b8154811015613955578181815481106138be576138be615421565b5f91825260209091206002909102015484516001600160a01b03909116908590839081106138ee576138ee615421565b60200260200101906001600160a01b031690816001600160a01b03168152505081818154811061392057613920615421565b905f5260205f2090600202016001015483828151811061394257613942615421565b60209081029190910101526001016138a3565b5050915091565b604080518082018252600f81526e467265656c616e6365457363726f7760881b6020918201528151808301835260018152603160f81b9082015281517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f818301527fe6c6994df3008e701e9b95216995b663b8b6a1da42e89f7755be2c6b764a6d4e818401527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a0808301919091528351808303909101815260c0909101909252815191012090565b613a3a613e59565b6002546001600160a01b0316331480613a5d57506003546001600160a01b031633145b613a795760405162461bcd60e51b8152600401610961906157c4565b600f548110613ac15760405162461bcd60e51b815260206004820152601460248201527324b73b30b634b21031b430b733b29037b93232b960611b6044820152606401610961565b5f600f8281548110613ad557613ad5615421565b5f9182526020909120600690910201600581015490915060ff16613b335760405162461bcd60e51b815260206004820152601560248201527421b430b733b29037b93232b9103737ba1037b832b760591b6044820152606401610961565b60058101805460ff19169055600481015415613b5657613b568160040154614b74565b604051339083907fe5983e49389cf353defc5b2cd6a329d62540efe887c56fdfcd9dd27d840121f7905f90a350505f600155565b600d548110613bab5760405162461bcd60e51b8152600401610961906154fe565b5f600d8281548110613bbf57613bbf615421565b905f5260205f20906005020190508060010160019054906101000a900460ff1615613bfc5760405162461bcd60e51b8152600401610961906155c9565b600181015462010000900460ff1615613c275760405162461bcd60e51b8152600401610961906155f4565b60018101546301000000900460ff1615613c535760405162461bcd60e51b815260040161096190615624565b6001810154600160201b900460ff1615613c7f5760405162461bcd60e51b81526004016109619061565b565b600481015415613cd15760405162461bcd60e51b815260206004820152601b60248201527f4d696c6573746f6e6520616c7265616479207375626d697474656400000000006044820152606401610961565b5050565b6006546001600160a01b0316613d34578034146121055760405162461bcd60e51b815260206004820152601d60248201527f496e636f7272656374206e617469766520746f6b656e20616d6f756e740000006044820152606401610961565b3415613d975760405162461bcd60e51b815260206004820152602c60248201527f446f206e6f742073656e64206e617469766520746f6b656e732077697468204560448201526b1490cc8c081c185e5b595b9d60a21b6064820152608401610961565b8015612105576006546040516323b872dd60e01b8152336004820152306024820152604481018390526001600160a01b03909116906323b872dd906064016020604051808303815f875af1158015613df1573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190613e1591906158e0565b6121055760405162461bcd60e51b8152602060048201526015602482015274151bdad95b881d1c985b9cd9995c8819985a5b1959605a1b6044820152606401610961565b60015415613e9a5760405162461bcd60e51b815260206004820152600e60248201526d1499595b9d1c985b9d0818d85b1b60921b6044820152606401610961565b60018055565b600a5460ff1615613ec35760405162461bcd60e51b815260040161096190615493565b600d548210613ee45760405162461bcd60e51b8152600401610961906154fe565b5f600d8381548110613ef857613ef8615421565b905f5260205f20906005020190508060010160019054906101000a900460ff1615613f355760405162461bcd60e51b8152600401610961906155c9565b600181015462010000900460ff1615613f605760405162461bcd60e51b8152600401610961906155f4565b6001810154600160201b900460ff1615613f8c5760405162461bcd60e51b81526004016109619061565b565b612710821115613fd45760405162461bcd60e51b81526020600482015260136024820152724b696c6c206665652061626f7665203130302560681b6044820152606401610961565b811580613fe55750600181015460ff165b61403b5760405162461bcd60e51b815260206004820152602160248201527f4b696c6c20666565206e6565647320612066756e646564206d696c6573746f6e6044820152606560f81b6064820152608401610961565b505050565b5f600d838154811061405457614054615421565b5f91825260208083206001600590930201828101805461ff001916610100178155878552601090925260408420805460ff1916815590920183905554909250819060ff16156140cb578254612710906140ae9086906158fb565b6140b89190615912565b83549092506140c8908390615449565b90505b82546140d8908390615449565b60075f8282546140e89190615449565b909155505081156140fd576140fd85836149ea565b801561410c5761410c81614b74565b604080518381526020810183905286917f82387a1588cfd64c01d93171309234725c01565e7e3d92283f854fd1edcd7d8b910160405180910390a25050505050565b5f6041821461419f5760405162461bcd60e51b815260206004820152601860248201527f496e76616c6964207369676e6174757265206c656e67746800000000000000006044820152606401610961565b5f6141ad6020828587615931565b6141b691615958565b90505f6141c7604060208688615931565b6141d091615958565b90505f858560408181106141e6576141e6615421565b919091013560f81c915050601b81101561420857614205601b82615975565b90505b7f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08211156142485760405162461bcd60e51b81526004016109619061598e565b8060ff16601b148061425d57508060ff16601c145b6142795760405162461bcd60e51b81526004016109619061598e565b604080515f808252602082018084528a905260ff841692820192909252606081018590526080810184905260019060a0016020604051602081039080840390855afa1580156142ca573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b0381166142fd5760405162461bcd60e51b81526004016109619061598e565b979650505050505050565b604080516042808252608082019092526060916f181899199a1a9b1b9c1cb0b131b232b360811b915f91602082018180368337019050509050600360fc1b815f8151811061435857614358615421565b60200101906001600160f81b03191690815f1a905350600f60fb1b8160018151811061438657614386615421565b60200101906001600160f81b03191690815f1a9053505f5b6020811015614493578260048683602081106143bc576143bc615421565b1a60f81b6001600160f81b031916901c60f81c60ff16601081106143e2576143e2615421565b1a60f81b826143f28360026158fb565b6143fd9060026157b1565b8151811061440d5761440d615421565b60200101906001600160f81b03191690815f1a9053508285826020811061443657614436615421565b1a600f166010811061444a5761444a615421565b1a60f81b8261445a8360026158fb565b6144659060036157b1565b8151811061447557614475615421565b60200101906001600160f81b03191690815f1a90535060010161439e565b509392505050565b5f600d82815481106144af576144af615421565b5f918252602082206001600590920201908101805462ff0000191662010000179055600b548154919350612710916144e791906158fb565b6144f19190615912565b9050801561450f57600c5461450f906001600160a01b031682614bcf565b6145278382845f01546145229190615449565b6149ea565b60035482546001600160a01b039091169084907fa5c2138f4ee89547657e692c9d954668da150bf271d1e1382addcb9bb4233c3790614567908590615449565b6040805191825260208201869052015b60405180910390a3505050565b600a5460ff16156145a75760405162461bcd60e51b815260040161096190615493565b6009545f815b6145b784846157b1565b811015614664576001600d82815481106145d3576145d3615421565b905f5260205f2090600502016001015f6101000a81548160ff021916908315150217905550600d818154811061460b5761460b615421565b905f5260205f20906005020160010160019054906101000a900460ff1661465c57600d818154811061463f5761463f615421565b905f5260205f2090600502015f01548261465991906157b1565b91505b6001016145ad565b5061466f83836157b1565b60095561467b81613cd5565b6008805460ff1916600117905560405133907f543ba50a5eec5e6178218e364b1d0f396157b3c8fa278522c2cb7fd99407d474906146bc9084815260200190565b60405180910390a260408051838152602081018590529081018290527f1734b29497f4538c8a1767b1280c748c27d97b341124b6a57a626dfdd7bcf5249060600160405180910390a1505050565b5f5b8151811015614921575f82828151811061472857614728615421565b60200260200101519050600d80549050815f0151106147895760405162461bcd60e51b815260206004820152601760248201527f496e76616c6964207061796565206d696c6573746f6e650000000000000000006044820152606401610961565b60208101516001600160a01b03166147db5760405162461bcd60e51b8152602060048201526015602482015274496e76616c6964207061796565206164647265737360581b6044820152606401610961565b60025460208201516001600160a01b03908116911614801590614811575060045460208201516001600160a01b03908116911614155b61485d5760405162461bcd60e51b815260206004820152601a60248201527f506179656573206d75737420626520667265656c616e636572730000000000006044820152606401610961565b5f8160400151116148b05760405162461bcd60e51b815260206004820152601c60248201527f5061796565207368617265206d75737420626520706f736974697665000000006044820152606401610961565b80515f90815260116020908152604080832081518083018352838601516001600160a01b0390811682529290950151858401908152815460018082018455928652939094209451600290930290940180546001600160a01b031916929091169190911781559051908201550161470c565b505f5b600d54811015613cd1575f818152601160205260408120805490910361494a57506149e2565b5f805b825481101561498d5782818154811061496857614968615421565b905f5260205f209060020201600101548261498391906157b1565b915060010161494d565b5080612710146149df5760405162461bcd60e51b815260206004820181905260248201527f506179656520736861726573206d7573742061646420757020746f20313030256044820152606401610961565b50505b600101614924565b5f8281526011602052604081208054909103614a5757600354614a16906001600160a01b031683614bcf565b6003546040518381526001600160a01b039091169084907fb2f6d89d05726a43ae4dff6f78c7aa7bed7db3daa2219c97007e0b7c02b4a97390602001614577565b815f5b8254811015614b6d5782545f90614a7390600190615449565b8214614ab857612710848381548110614a8e57614a8e615421565b905f5260205f2090600202016001015486614aa991906158fb565b614ab39190615912565b614aba565b825b9050614ac68184615449565b92508015614b0257614b02848381548110614ae357614ae3615421565b5f9182526020909120600290910201546001600160a01b031682614bcf565b838281548110614b1457614b14615421565b5f918252602091829020600290910201546040518381526001600160a01b039091169188917fb2f6d89d05726a43ae4dff6f78c7aa7bed7db3daa2219c97007e0b7c02b4a973910160405180910390a350600101614a5a565b5050505050565b600254614b8a906001600160a01b031682614bcf565b6002546040518281526001600160a01b03909116907fbada1a1bf129e41a8af5abe00997bd8a8cb1770cb0cf68314eb4b1d6c42713979060200160405180910390a250565b6006546001600160a01b0316614c7e575f826001600160a01b0316826040515f6040518083038185875af1925050503d805f8114614c28576040519150601f19603f3d011682016040523d82523d5f602084013e614c2d565b606091505b505090508061403b5760405162461bcd60e51b815260206004820152601c60248201527f4e617469766520746f6b656e207472616e73666572206661696c6564000000006044820152606401610961565b60065460405163a9059cbb60e01b81526001600160a01b038481166004830152602482018490529091169063a9059cbb906044016020604051808303815f875af1158015614cce573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190614cf291906158e0565b613cd15760405162461bcd60e51b8152602060048201526015602482015274151bdad95b881d1c985b9cd9995c8819985a5b1959605a1b6044820152606401610961565b80356001600160a01b0381168114614d4c575f5ffd5b919050565b5f5f60408385031215614d62575f5ffd5b82359150614d7260208401614d36565b90509250929050565b803560038110614d4c575f5ffd5b5f5f5f60608486031215614d9b575f5ffd5b614da484614d7b565b95602085013595506040909401359392505050565b5f5f5f5f60808587031215614dcc575f5ffd5b614dd585614d7b565b966020860135965060408601359560600135945092505050565b5f60208284031215614dff575f5ffd5b5035919050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b84815283151560208201528215156040820152608060608201525f614e5c6080830184614e06565b9695505050505050565b634e487b7160e01b5f52604160045260245ffd5b604051606081016001600160401b0381118282101715614e9c57614e9c614e66565b60405290565b604051601f8201601f191681016001600160401b0381118282101715614eca57614eca614e66565b604052919050565b5f5f60408385031215614ee3575f5ffd5b8235915060208301356001600160401b03811115614eff575f5ffd5b8301601f81018513614f0f575f5ffd5b80356001600160401b03811115614f2857614f28614e66565b614f3b601f8201601f1916602001614ea2565b818152866020838501011115614f4f575f5ffd5b816020840160208301375f602083830101528093505050509250929050565b5f5f60408385031215614f7f575f5ffd5b50508035926020909101359150565b634e487b7160e01b5f52602160045260245ffd5b60c0810160038810614fc257634e487b7160e01b5f52602160045260245ffd5b9681526020810195909552604085019390935260608401919091526080830152151560a09091015290565b6001600160a01b038616815260a0602082018190525f9061501090830187614e06565b941515604083015250606081019290925260809091015292915050565b5f5f5f5f5f60808688031215615041575f5ffd5b85359450602086013593506040860135925060608601356001600160401b0381111561506b575f5ffd5b8601601f8101881361507b575f5ffd5b80356001600160401b03811115615090575f5ffd5b8860208284010111156150a1575f5ffd5b959894975092955050506020019190565b5f6001600160401b038211156150ca576150ca614e66565b5060051b60200190565b5f82601f8301126150e3575f5ffd5b81356150f66150f1826150b2565b614ea2565b8082825260208201915060208360051b860101925085831115615117575f5ffd5b602085015b8381101561513457803583526020928301920161511c565b5095945050505050565b8015158114612105575f5ffd5b8035614d4c8161513e565b5f82601f830112615165575f5ffd5b81356151736150f1826150b2565b80828252602082019150602060608402860101925085831115615194575f5ffd5b602085015b8381101561513457606081880312156151b0575f5ffd5b6151b8614e7a565b813581526151c860208301614d36565b602082810191909152604083810135908301529084529290920191606001615199565b5f5f5f5f5f5f5f5f5f5f5f6101608c8e031215615206575f5ffd5b61520f8c614d36565b9a5061521d60208d01614d36565b995061522b60408d01614d36565b985061523960608d01614d36565b975061524760808d01614d36565b965060a08c01356001600160401b03811115615261575f5ffd5b61526d8e828f016150d4565b96505060c08c01356001600160401b03811115615288575f5ffd5b6152948e828f016150d4565b9550506152a360e08d0161514b565b93506152b26101008d01614d36565b92506101208c013591506101408c01356001600160401b038111156152d5575f5ffd5b6152e18e828f01615156565b9150509295989b509295989b9093969950565b86151581526001600160a01b038616602082015260c0604082018190525f9061531f90830187614e06565b941515606083015250608081019290925260a0909101529392505050565b898152881515602082015287151560408201528615156060820152851515608082015284151560a082015261012060c08201525f61537f610120830186614e06565b60e0830194909452506101000152979650505050505050565b604080825283519082018190525f9060208501906060840190835b818110156153da5783516001600160a01b03168352602093840193909201916001016153b3565b5050838103602080860191909152855180835291810192508501905f5b818110156154155782518452602093840193909201916001016153f7565b50919695505050505050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b8181038181111561087757610877615435565b60208082526019908201527f4f6e6c7920636c69656e742063616e2063616c6c207468697300000000000000604082015260600190565b60208082526010908201526f115cd8dc9bddc818d85b98d95b1b195960821b604082015260600190565b60208082526021908201527f4d696c6573746f6e6520616d6f756e74206d75737420626520706f73697469766040820152606560f81b606082015260800190565b60208082526017908201527f496e76616c6964206d696c6573746f6e6520696e646578000000000000000000604082015260600190565b600181811c9082168061554957607f821691505b60208210810361556757634e487b7160e01b5f52602260045260245ffd5b50919050565b602080825260149082015273457363726f77206973206e6f742061637469766560601b604082015260600190565b602080825260149082015273135a5b195cdd1bdb99481b9bdd08199d5b99195960621b604082015260600190565b602080825260119082015270135a5b195cdd1bdb99481c995b5bdd9959607a1b604082015260600190565b602080825260169082015275135a5b195cdd1bdb9948185b1c9958591e481c185a5960521b604082015260600190565b6020808252601a908201527f4d696c6573746f6e6520616c7265616479207665726966696564000000000000604082015260600190565b602080825260159082015274135a5b195cdd1bdb99481a5cc8191a5cdc1d5d1959605a1b604082015260600190565b601f82111561403b57805f5260205f20601f840160051c810160208510156156af5750805b601f840160051c820191505b81811015614b6d575f81556001016156bb565b81516001600160401b038111156156e7576156e7614e66565b6156fb816156f58454615535565b8461568a565b6020601f82116001811461572d575f83156157165750848201515b5f19600385901b1c1916600184901b178455614b6d565b5f84815260208120601f198516915b8281101561575c578785015182556020948501946001909201910161573c565b508482101561577957868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b602081525f61092e6020830184614e06565b5f602082840312156157aa575f5ffd5b5051919050565b8082018082111561087757610877615435565b60208082526027908201527f4f6e6c7920636c69656e74206f7220667265656c616e6365722063616e2063616040820152666c6c207468697360c81b606082015260800190565b602081525f5f835461581c81615535565b806020860152600182165f811461583a576001811461585657615887565b60ff1983166040870152604082151560051b8701019350615887565b865f5260205f205f5b8381101561587e5781548882016040015260019091019060200161585f565b87016040019450505b509195945050505050565b6020808252602e908201527f4f6e6c7920746865206d696c6573746f6e65277320667265656c616e6365727360408201526d2063616e2063616c6c207468697360901b606082015260800190565b5f602082840312156158f0575f5ffd5b815161092e8161513e565b808202811582820484141761087757610877615435565b5f8261592c57634e487b7160e01b5f52601260045260245ffd5b500490565b5f5f8585111561593f575f5ffd5b8386111561594b575f5ffd5b5050820193919092039150565b80356020831015610877575f19602084900360031b1b1692915050565b60ff818116838216019081111561087757610877615435565b602080825260119082015270496e76616c6964207369676e617475726560781b60408201526060019056fea26469706673582212208de3a23c62f0283b7a2cb11fe852060b3e9c46c45f32e1ff5a4d1e417d9c527564736f6c634300081e0033";
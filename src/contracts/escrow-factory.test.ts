@@ -0,0 +1,116 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, ZeroAddress, parseEther } from 'ethers';
+import { getDeployedEscrowAddress } from '../lib/escrow-factory';
+import { ESCROW_ABI } from './escrow-abi';
+import { Accounts, deployFactory, escrowArgs, getAccounts, initializeArgs, provider, send, snapshot } from './escrow-fixtures';
+
+describe('EscrowFactory', () => {
+  let accounts: Accounts;
+  let factory: Contract;
+  let revert: () => Promise<void>;
+
+  const terms = { milestoneAmounts: [parseEther('1'), parseEther('2')] };
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    factory = await deployFactory(accounts.stranger, accounts.arbiter.address);
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  async function createEscrow(): Promise<string> {
+    const receipt = await send(factory, accounts.client, 'createEscrow', ...escrowArgs(accounts, terms));
+    const escrowAddress = getDeployedEscrowAddress(receipt);
+    expect(escrowAddress).not.toBeNull();
+    return escrowAddress as string;
+  }
+
+  it('creates each escrow as a minimal proxy set up with the terms', async () => {
+    const escrowAddress = await createEscrow();
+    const escrow = new Contract(escrowAddress, ESCROW_ABI, provider);
+
+    // EIP-1167 runtime code is 45 bytes
+    expect(await provider.getCode(escrowAddress)).toHaveLength(2 + 45 * 2);
+    expect(await escrow.client()).toBe(accounts.client.address);
+    expect(await escrow.freelancer()).toBe(accounts.freelancer.address);
+    expect(await escrow.arbiter()).toBe(accounts.arbiter.address);
+    expect(await escrow.totalAmount()).toBe(parseEther('3'));
+  });
+
+  it('only lets the client open its escrow', async () => {
+    await expect(send(factory, accounts.freelancer, 'createEscrow', ...escrowArgs(accounts, terms)))
+      .rejects.toThrow('Only the client can create its escrow');
+  });
+
+  it('locks the implementation and each clone after setup', async () => {
+    const implementation = new Contract(await factory.implementation(), ESCROW_ABI, provider);
+    await expect(send(implementation, accounts.stranger, 'initialize', ...initializeArgs(accounts, terms)))
+      .rejects.toThrow('Escrow already initialized');
+
+    const escrow = new Contract(await createEscrow(), ESCROW_ABI, provider);
+    await expect(send(escrow, accounts.stranger, 'initialize', ...initializeArgs(accounts, terms)))
+      .rejects.toThrow('Escrow already initialized');
+  });
+
+  it('applies its arbiter, oracle signer and platform fee to every escrow it creates', async () => {
+    await send(factory, accounts.stranger, 'setArbiter', accounts.member.address);
+    await send(factory, accounts.stranger, 'setOracleSigner', accounts.otherMember.address);
+    await send(factory, accounts.stranger, 'setPlatformFee', accounts.feeRecipient.address, 250);
+    const escrow = new Contract(await createEscrow(), ESCROW_ABI, provider);
+
+    expect(await escrow.arbiter()).toBe(accounts.member.address);
+    expect(await escrow.oracleSigner()).toBe(accounts.otherMember.address);
+    expect(await escrow.feeBps()).toBe(250n);
+    expect(await escrow.feeRecipient()).toBe(accounts.feeRecipient.address);
+  });
+
+  it('refuses an escrow whose client or freelancer is the arbiter', async () => {
+    await send(factory, accounts.stranger, 'setArbiter', accounts.freelancer.address);
+    await expect(send(factory, accounts.client, 'createEscrow', ...escrowArgs(accounts, terms)))
+      .rejects.toThrow('Arbiter must be a neutral party');
+  });
+
+  it('only lets its owner change the platform terms', async () => {
+    await expect(send(factory, accounts.client, 'setArbiter', accounts.client.address))
+      .rejects.toThrow('Only owner can call this');
+    await expect(send(factory, accounts.client, 'setOracleSigner', accounts.client.address))
+      .rejects.toThrow('Only owner can call this');
+    await expect(send(factory, accounts.client, 'setPlatformFee', accounts.client.address, 0))
+      .rejects.toThrow('Only owner can call this');
+    await expect(send(factory, accounts.stranger, 'setArbiter', ZeroAddress))
+      .rejects.toThrow('Invalid arbiter address');
+    await expect(send(factory, accounts.stranger, 'setPlatformFee', accounts.feeRecipient.address, 1001))
+      .rejects.toThrow('Platform fee too high');
+
+    await send(factory, accounts.stranger, 'transferOwnership', accounts.arbiter.address);
+    await expect(send(factory, accounts.stranger, 'setPlatformFee', accounts.feeRecipient.address, 100))
+      .rejects.toThrow('Only owner can call this');
+    await send(factory, accounts.arbiter, 'setPlatformFee', accounts.feeRecipient.address, 100);
+    expect(await factory.feeBps()).toBe(100n);
+  });
+
+  it('refuses native tokens sent to an escrow outside its payable functions', async () => {
+    const escrowAddress = await createEscrow();
+
+    await expect(accounts.client.sendTransaction({ to: escrowAddress, value: parseEther('1') })).rejects.toThrow();
+    expect(await provider.getBalance(escrowAddress)).toBe(0n);
+  });
+
+  it('lists every escrow under its client and freelancer', async () => {
+    const first = await createEscrow();
+    const second = await createEscrow();
+
+    expect(await factory.getEscrowCount()).toBe(2n);
+    expect(await factory.getClientEscrows(accounts.client.address)).toEqual([first, second]);
+    expect(await factory.getFreelancerEscrows(accounts.freelancer.address)).toEqual([first, second]);
+    expect(await factory.getClientEscrows(accounts.freelancer.address)).toEqual([]);
+    expect(await factory.isEscrow(first)).toBe(true);
+    expect(await factory.isEscrow(accounts.stranger.address)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, parseEther } from 'ethers';
+import { MAX_PLATFORM_FEE_BPS } from '../lib/fees';
+import { Accounts, balanceOf, createEscrow, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow platform fee', () => {
+  let accounts: Accounts;
+  let escrow: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    escrow = await createEscrow(accounts, {
+      milestoneAmounts: [parseEther('10'), parseEther('4')],
+      feeRecipient: accounts.feeRecipient.address,
+      feeBps: 250,
+    });
+    await send(escrow, accounts.client, 'depositFunds', { value: parseEther('14') });
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  it('sends the fee from each milestone payment to the fee recipient', async () => {
+    const freelancerBefore = await balanceOf(accounts.freelancer.address);
+    const recipientBefore = await balanceOf(accounts.feeRecipient.address);
+
+    await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+    await send(escrow, accounts.client, 'releaseMilestonePayment', 0);
+
+    expect(await balanceOf(accounts.feeRecipient.address)).toBe(recipientBefore + parseEther('0.25'));
+    expect(await balanceOf(accounts.freelancer.address)).toBe(freelancerBefore + parseEther('9.75'));
+  });
+
+  it('takes no fee from dispute rulings or kill fees', async () => {
+    const recipientBefore = await balanceOf(accounts.feeRecipient.address);
+    const freelancerBefore = await balanceOf(accounts.freelancer.address);
+
+    await send(escrow, accounts.client, 'raiseDispute', 0, 'Half done');
+    await send(escrow, accounts.arbiter, 'resolveDispute', 0, parseEther('5'));
+    await send(escrow, accounts.client, 'cancelMilestone', 1, 5000);
+
+    expect(await balanceOf(accounts.feeRecipient.address)).toBe(recipientBefore);
+    expect(await balanceOf(accounts.freelancer.address)).toBe(freelancerBefore + parseEther('7'));
+  });
+
+  it('caps the fee and requires a recipient', async () => {
+    expect(await escrow.MAX_FEE_BPS()).toBe(BigInt(MAX_PLATFORM_FEE_BPS));
+
+    await expect(createEscrow(accounts, {
+      milestoneAmounts: [parseEther('1')],
+      feeRecipient: accounts.feeRecipient.address,
+      feeBps: MAX_PLATFORM_FEE_BPS + 1,
+    })).rejects.toThrow('Platform fee too high');
+    await expect(createEscrow(accounts, { milestoneAmounts: [parseEther('1')], feeBps: 100 }))
+      .rejects.toThrow('Fee recipient required');
+  });
+});
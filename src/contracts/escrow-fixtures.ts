@@ -0,0 +1,142 @@
+// Contract test fixtures
+// The contract tests run on Hardhat's in-process chain and deploy the bytecode compile-contract.cjs
+// generated, so they exercise exactly what the app deploys. Escrows are created through the
+// EscrowFactory as the app creates them. Only imported by *.test.ts files.
+
+import hre from 'hardhat';
+import {
+  BrowserProvider,
+  Contract,
+  ContractFactory,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  JsonRpcSigner,
+  ZeroAddress,
+  parseEther,
+} from 'ethers';
+import { ESCROW_ABI } from './escrow-abi';
+import { ESCROW_FACTORY_ABI, ESCROW_FACTORY_BYTECODE } from './escrow-factory-abi';
+import { PROJECT_TOKEN_ABI, PROJECT_TOKEN_BYTECODE } from './project-token-abi';
+
+// Without the request cache, a call repeated once the chain changed (say, a deposit retried after the
+// approval) is sent again rather than answered with the earlier result
+export const provider = new BrowserProvider(hre.network.provider, undefined, { cacheTimeout: -1 });
+
+export interface Accounts {
+  client: JsonRpcSigner;
+  freelancer: JsonRpcSigner;
+  arbiter: JsonRpcSigner;
+  // A second and third team member, the fee recipient and anyone else
+  member: JsonRpcSigner;
+  otherMember: JsonRpcSigner;
+  feeRecipient: JsonRpcSigner;
+  stranger: JsonRpcSigner;
+}
+
+export async function getAccounts(): Promise<Accounts> {
+  const [client, freelancer, arbiter, member, otherMember, feeRecipient, stranger] = await Promise.all(
+    [0, 1, 2, 3, 4, 5, 6].map((index) => provider.getSigner(index))
+  );
+  return { client, freelancer, arbiter, member, otherMember, feeRecipient, stranger };
+}
+
+export interface EscrowTerms {
+  milestoneAmounts: bigint[];
+  // Seconds per milestone; defaults to no auto-release
+  reviewPeriods?: number[];
+  stagedFunding?: boolean;
+  paymentToken?: string;
+  oracleSigner?: string;
+  feeRecipient?: string;
+  feeBps?: number;
+  payees?: { milestoneIndex: number; account: string; shareBps: number }[];
+}
+
+// The arbiter, oracle signer and platform fee are the factory's, so they are set when it is deployed
+export async function deployFactory(
+  deployer: JsonRpcSigner,
+  arbiter: string,
+  terms: Pick<EscrowTerms, 'oracleSigner' | 'feeRecipient' | 'feeBps'> = {}
+): Promise<Contract> {
+  const factory = await new ContractFactory(ESCROW_FACTORY_ABI, ESCROW_FACTORY_BYTECODE, deployer)
+    .deploy(arbiter, terms.oracleSigner ?? ZeroAddress, terms.feeRecipient ?? ZeroAddress, terms.feeBps ?? 0);
+  await factory.waitForDeployment();
+  return factory as Contract;
+}
+
+// Creates an escrow for the client through a new factory; the escrow contract is connected as the client
+export async function createEscrow(accounts: Accounts, terms: EscrowTerms): Promise<Contract> {
+  const factory = await deployFactory(accounts.client, accounts.arbiter.address, terms);
+  const escrowAddress = await factory.createEscrow.staticCall(...escrowArgs(accounts, terms));
+  await (await factory.createEscrow(...escrowArgs(accounts, terms))).wait();
+  return new Contract(escrowAddress, ESCROW_ABI, accounts.client);
+}
+
+// Arguments to EscrowFactory.createEscrow; the arbiter, oracle signer and fee come from the factory
+export function escrowArgs(accounts: Accounts, terms: EscrowTerms) {
+  return [
+    accounts.client.address,
+    accounts.freelancer.address,
+    terms.paymentToken ?? ZeroAddress,
+    terms.milestoneAmounts,
+    terms.reviewPeriods ?? terms.milestoneAmounts.map(() => 0),
+    terms.stagedFunding ?? false,
+    terms.payees ?? [],
+  ] as const;
+}
+
+// Arguments to FreelanceEscrow.initialize, which the factory calls with its own arbiter, oracle signer and fee
+export function initializeArgs(accounts: Accounts, terms: EscrowTerms) {
+  return [
+    accounts.client.address,
+    accounts.freelancer.address,
+    accounts.arbiter.address,
+    terms.oracleSigner ?? ZeroAddress,
+    terms.paymentToken ?? ZeroAddress,
+    terms.milestoneAmounts,
+    terms.reviewPeriods ?? terms.milestoneAmounts.map(() => 0),
+    terms.stagedFunding ?? false,
+    terms.feeRecipient ?? ZeroAddress,
+    terms.feeBps ?? 0,
+    terms.payees ?? [],
+  ] as const;
+}
+
+// A ProjectToken minted to the deployer, standing in for any ERC20 payment token
+export async function deployToken(deployer: JsonRpcSigner, supply = parseEther('1000000'), decimals = 18): Promise<Contract> {
+  const token = await new ContractFactory(PROJECT_TOKEN_ABI, PROJECT_TOKEN_BYTECODE, deployer)
+    .deploy('Test Token', 'TEST', decimals, supply);
+  await token.waitForDeployment();
+  return token as Contract;
+}
+
+// Sends a contract call as the signer and waits for it to be mined
+export async function send(
+  contract: Contract,
+  signer: JsonRpcSigner,
+  method: string,
+  ...args: unknown[]
+): Promise<ContractTransactionReceipt> {
+  const connected = contract.connect(signer) as Contract;
+  const tx: ContractTransactionResponse = await connected[method](...args);
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`${method} was not mined`);
+  return receipt;
+}
+
+export async function increaseTime(seconds: number): Promise<void> {
+  await provider.send('evm_increaseTime', [seconds]);
+  await provider.send('evm_mine', []);
+}
+
+// Runs each test on a fresh copy of the chain
+export async function snapshot(): Promise<() => Promise<void>> {
+  const id = await provider.send('evm_snapshot', []);
+  return async () => {
+    await provider.send('evm_revert', [id]);
+  };
+}
+
+export function balanceOf(address: string): Promise<bigint> {
+  return provider.getBalance(address);
+}
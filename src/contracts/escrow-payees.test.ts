@@ -0,0 +1,145 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, EventLog, MaxUint256, parseEther } from 'ethers';
+import { Accounts, EscrowTerms, createEscrow, deployFactory, deployToken, escrowArgs, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow team payees', () => {
+  let accounts: Accounts;
+  let token: Contract;
+  let teamPayees: EscrowTerms['payees'];
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+    // Milestone 0 is split across the team; milestone 1 goes to the lead freelancer alone
+    teamPayees = [
+      { milestoneIndex: 0, account: accounts.freelancer.address, shareBps: 5000 },
+      { milestoneIndex: 0, account: accounts.member.address, shareBps: 3000 },
+      { milestoneIndex: 0, account: accounts.otherMember.address, shareBps: 2000 },
+    ];
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    token = await deployToken(accounts.client);
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  // Paid in the token so every payee's share can be checked without gas costs in the way
+  async function teamEscrow(terms: Partial<EscrowTerms> = {}) {
+    const escrow = await createEscrow(accounts, {
+      paymentToken: await token.getAddress(),
+      milestoneAmounts: [parseEther('10'), parseEther('5')],
+      payees: teamPayees,
+      ...terms,
+    });
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), MaxUint256);
+    await send(escrow, accounts.client, 'depositFunds');
+    return escrow;
+  }
+
+  function balance(address: string): Promise<bigint> {
+    return token.balanceOf(address);
+  }
+
+  it('lists the payees of each milestone', async () => {
+    const escrow = await teamEscrow();
+
+    const [teamAccounts, teamShares] = await escrow.getMilestonePayees(0);
+    expect(teamAccounts).toEqual([accounts.freelancer.address, accounts.member.address, accounts.otherMember.address]);
+    expect(teamShares).toEqual([5000n, 3000n, 2000n]);
+
+    const [leadAccounts, leadShares] = await escrow.getMilestonePayees(1);
+    expect(leadAccounts).toEqual([accounts.freelancer.address]);
+    expect(leadShares).toEqual([10000n]);
+  });
+
+  it('splits a milestone payment by share', async () => {
+    const escrow = await teamEscrow();
+    await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+    const receipt = await send(escrow, accounts.client, 'releaseMilestonePayment', 0);
+
+    expect(await balance(accounts.freelancer.address)).toBe(parseEther('5'));
+    expect(await balance(accounts.member.address)).toBe(parseEther('3'));
+    expect(await balance(accounts.otherMember.address)).toBe(parseEther('2'));
+
+    const payouts = await escrow.queryFilter(escrow.filters.PayeePaid(), receipt.blockNumber);
+    expect(payouts.map((event) => [(event as EventLog).args.payee, (event as EventLog).args.amount])).toEqual([
+      [accounts.freelancer.address, parseEther('5')],
+      [accounts.member.address, parseEther('3')],
+      [accounts.otherMember.address, parseEther('2')],
+    ]);
+  });
+
+  it('gives the rounding remainder to the last payee', async () => {
+    const escrow = await teamEscrow({
+      milestoneAmounts: [10n, 5n],
+      payees: [
+        { milestoneIndex: 0, account: accounts.member.address, shareBps: 3333 },
+        { milestoneIndex: 0, account: accounts.otherMember.address, shareBps: 6667 },
+      ],
+    });
+    await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+    await send(escrow, accounts.client, 'releaseMilestonePayment', 0);
+
+    expect(await balance(accounts.member.address)).toBe(3n);
+    expect(await balance(accounts.otherMember.address)).toBe(7n);
+    expect(await escrow.getRemainingBalance()).toBe(5n);
+  });
+
+  it('splits dispute rulings among the payees', async () => {
+    const escrow = await teamEscrow();
+    await send(escrow, accounts.freelancer, 'raiseDispute', 0, 'Client will not review');
+    await send(escrow, accounts.arbiter, 'resolveDispute', 0, parseEther('5'));
+
+    expect(await balance(accounts.freelancer.address)).toBe(parseEther('2.5'));
+    expect(await balance(accounts.member.address)).toBe(parseEther('1.5'));
+    expect(await balance(accounts.otherMember.address)).toBe(parseEther('1'));
+  });
+
+  it("lets a milestone's payees submit and claim it, and nobody else", async () => {
+    const escrow = await teamEscrow({ reviewPeriods: [60, 60] });
+
+    await send(escrow, accounts.member, 'submitMilestone', 0);
+    await expect(send(escrow, accounts.member, 'submitMilestone', 1))
+      .rejects.toThrow("Only the milestone's freelancers can call this");
+    await expect(send(escrow, accounts.stranger, 'claimTimedOutPayment', 0))
+      .rejects.toThrow("Only the milestone's freelancers can call this");
+  });
+
+  it('rejects payee splits that do not add up', async () => {
+    const payee = (account: string, shareBps: number) => ({ milestoneIndex: 0, account, shareBps });
+
+    await expect(createEscrow(accounts, {
+      milestoneAmounts: [parseEther('1')],
+      payees: [payee(accounts.freelancer.address, 5000), payee(accounts.member.address, 4000)],
+    })).rejects.toThrow('Payee shares must add up to 100%');
+    await expect(createEscrow(accounts, {
+      milestoneAmounts: [parseEther('1')],
+      payees: [payee(accounts.client.address, 10000)],
+    })).rejects.toThrow('Payees must be freelancers');
+    await expect(createEscrow(accounts, {
+      milestoneAmounts: [parseEther('1')],
+      payees: [{ milestoneIndex: 1, account: accounts.member.address, shareBps: 10000 }],
+    })).rejects.toThrow('Invalid payee milestone');
+  });
+
+  it("lists the escrow once in each team member's factory list", async () => {
+    const factory = await deployFactory(accounts.client, accounts.arbiter.address);
+    const payees = [
+      ...teamPayees ?? [],
+      { milestoneIndex: 1, account: accounts.member.address, shareBps: 10000 },
+    ];
+    await send(factory, accounts.client, 'createEscrow', ...escrowArgs(accounts, {
+      milestoneAmounts: [parseEther('10'), parseEther('5')],
+      payees,
+    }));
+    const [escrowAddress] = await factory.getClientEscrows(accounts.client.address);
+
+    expect(await factory.getFreelancerEscrows(accounts.freelancer.address)).toEqual([escrowAddress]);
+    expect(await factory.getFreelancerEscrows(accounts.member.address)).toEqual([escrowAddress]);
+    expect(await factory.getFreelancerEscrows(accounts.otherMember.address)).toEqual([escrowAddress]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, parseEther } from 'ethers';
+import { Accounts, createEscrow, getAccounts, increaseTime, send, snapshot } from './escrow-fixtures';
+
+const REVIEW_PERIOD = 3 * 24 * 60 * 60;
+
+describe('FreelanceEscrow review windows', () => {
+  let accounts: Accounts;
+  let escrow: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    escrow = await createEscrow(accounts, {
+      milestoneAmounts: [parseEther('2'), parseEther('1')],
+      reviewPeriods: [REVIEW_PERIOD, 0],
+    });
+    await send(escrow, accounts.client, 'depositFunds', { value: parseEther('3') });
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  it('opens the review window when work is submitted', async () => {
+    const receipt = await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+    const block = await receipt.getBlock();
+
+    const [reviewPeriod, submittedAt, reviewDeadline] = await escrow.getReviewWindow(0);
+    expect(reviewPeriod).toBe(BigInt(REVIEW_PERIOD));
+    expect(submittedAt).toBe(BigInt(block.timestamp));
+    expect(reviewDeadline).toBe(BigInt(block.timestamp + REVIEW_PERIOD));
+    await expect(send(escrow, accounts.freelancer, 'submitMilestone', 0)).rejects.toThrow('Milestone already submitted');
+  });
+
+  it('pays the freelancer once the client lets the window run out', async () => {
+    await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+    await expect(send(escrow, accounts.freelancer, 'claimTimedOutPayment', 0)).rejects.toThrow('Review period not over');
+
+    await increaseTime(REVIEW_PERIOD);
+    await send(escrow, accounts.freelancer, 'claimTimedOutPayment', 0);
+
+    expect((await escrow.getMilestone(0))[1]).toBe(true);
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('1'));
+  });
+
+  it('only times out submitted milestones with a review period', async () => {
+    await expect(send(escrow, accounts.freelancer, 'claimTimedOutPayment', 0)).rejects.toThrow('Milestone not submitted');
+
+    await send(escrow, accounts.freelancer, 'submitMilestone', 1);
+    await increaseTime(REVIEW_PERIOD);
+    await expect(send(escrow, accounts.freelancer, 'claimTimedOutPayment', 1))
+      .rejects.toThrow('Auto-release disabled for milestone');
+  });
+
+  it('stops the clock when the client disputes the submission', async () => {
+    await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+    await send(escrow, accounts.client, 'raiseDispute', 0, 'Does not build');
+
+    await increaseTime(REVIEW_PERIOD);
+    await expect(send(escrow, accounts.freelancer, 'claimTimedOutPayment', 0)).rejects.toThrow('Milestone is disputed');
+  });
+
+  it('only lets the freelancer claim', async () => {
+    await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+    await increaseTime(REVIEW_PERIOD);
+
+    await expect(send(escrow, accounts.client, 'claimTimedOutPayment', 0))
+      .rejects.toThrow("Only the milestone's freelancers can call this");
+  });
+});
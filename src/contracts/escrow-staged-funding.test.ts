@@ -0,0 +1,66 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, parseEther } from 'ethers';
+import { Accounts, createEscrow, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow staged funding', () => {
+  let accounts: Accounts;
+  let escrow: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    escrow = await createEscrow(accounts, {
+      milestoneAmounts: [parseEther('1'), parseEther('2'), parseEther('3')],
+      stagedFunding: true,
+    });
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  it('funds the next milestones in order', async () => {
+    await send(escrow, accounts.client, 'fundMilestones', 2, { value: parseEther('3') });
+
+    expect(await escrow.fundedMilestoneCount()).toBe(2n);
+    expect(await escrow.isMilestoneFunded(1)).toBe(true);
+    expect(await escrow.isMilestoneFunded(2)).toBe(false);
+    expect(await escrow.isActive()).toBe(true);
+    expect(await escrow.getRemainingBalance()).toBe(parseEther('3'));
+  });
+
+  it('requires the exact amount of the milestones funded', async () => {
+    await expect(send(escrow, accounts.client, 'fundMilestones', 1, { value: parseEther('2') }))
+      .rejects.toThrow('Incorrect native token amount');
+    await expect(send(escrow, accounts.client, 'fundMilestones', 0)).rejects.toThrow('Fund at least one milestone');
+    await expect(send(escrow, accounts.client, 'fundMilestones', 4, { value: parseEther('6') }))
+      .rejects.toThrow('Not enough unfunded milestones');
+  });
+
+  it('funds the rest with depositFunds', async () => {
+    await send(escrow, accounts.client, 'fundMilestones', 1, { value: parseEther('1') });
+    await send(escrow, accounts.client, 'depositFunds', { value: parseEther('5') });
+
+    expect(await escrow.fundedMilestoneCount()).toBe(3n);
+    await expect(send(escrow, accounts.client, 'depositFunds', { value: 0 })).rejects.toThrow('Escrow already funded');
+  });
+
+  it('keeps work on unfunded milestones locked', async () => {
+    await send(escrow, accounts.client, 'fundMilestones', 1, { value: parseEther('1') });
+
+    await expect(send(escrow, accounts.freelancer, 'submitMilestone', 1)).rejects.toThrow('Milestone not funded');
+    await expect(send(escrow, accounts.client, 'verifyMilestone', 1, 'ipfs://proof')).rejects.toThrow('Milestone not funded');
+    await send(escrow, accounts.freelancer, 'submitMilestone', 0);
+  });
+
+  it('is refused on escrows funded up front', async () => {
+    const upFront = await createEscrow(accounts, { milestoneAmounts: [parseEther('1'), parseEther('2')] });
+
+    await expect(send(upFront, accounts.client, 'fundMilestones', 1, { value: parseEther('1') }))
+      .rejects.toThrow('Staged funding disabled');
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, parseEther, parseUnits } from 'ethers';
+import { Accounts, createEscrow, deployToken, getAccounts, send, snapshot } from './escrow-fixtures';
+
+describe('FreelanceEscrow with an ERC20 payment token', () => {
+  let accounts: Accounts;
+  let token: Contract;
+  let revert: () => Promise<void>;
+
+  beforeAll(async () => {
+    accounts = await getAccounts();
+  });
+
+  beforeEach(async () => {
+    revert = await snapshot();
+    token = await deployToken(accounts.client, parseUnits('1000', 6), 6);
+  });
+
+  afterEach(async () => {
+    await revert();
+  });
+
+  async function tokenEscrow() {
+    return createEscrow(accounts, {
+      paymentToken: await token.getAddress(),
+      milestoneAmounts: [parseUnits('100', 6), parseUnits('50', 6)],
+    });
+  }
+
+  it('takes the deposit with transferFrom once approved', async () => {
+    const escrow = await tokenEscrow();
+    await expect(send(escrow, accounts.client, 'depositFunds')).rejects.toThrow();
+
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), parseUnits('150', 6));
+    await send(escrow, accounts.client, 'depositFunds');
+
+    expect(await escrow.getRemainingBalance()).toBe(parseUnits('150', 6));
+    expect(await token.balanceOf(accounts.client.address)).toBe(parseUnits('850', 6));
+  });
+
+  it('refuses native tokens sent with the deposit', async () => {
+    const escrow = await tokenEscrow();
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), parseUnits('150', 6));
+
+    await expect(send(escrow, accounts.client, 'depositFunds', { value: parseEther('1') }))
+      .rejects.toThrow('Do not send native tokens with ERC20 payment');
+  });
+
+  it('pays released milestones in the token', async () => {
+    const escrow = await tokenEscrow();
+    await send(token, accounts.client, 'approve', await escrow.getAddress(), parseUnits('150', 6));
+    await send(escrow, accounts.client, 'depositFunds');
+
+    await send(escrow, accounts.client, 'verifyMilestone', 0, 'ipfs://proof');
+    await send(escrow, accounts.client, 'releaseMilestonePayment', 0);
+
+    expect(await token.balanceOf(accounts.freelancer.address)).toBe(parseUnits('100', 6));
+    expect(await escrow.getRemainingBalance()).toBe(parseUnits('50', 6));
+    await expect(send(escrow, accounts.client, 'releaseMilestonePayment', 0)).rejects.toThrow('Milestone already paid');
+  });
+});
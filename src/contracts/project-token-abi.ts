@@ -0,0 +1,265 @@
+export const PROJECT_TOKEN_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_name",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "_symbol",
+        "type": "string"
+      },
+      {
+        "internalType": "uint8",
+        "name": "_decimals",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_initialSupply",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Approval",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "allowance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_spender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_value",
+        "type": "uint256"
+      }
+    ],
+    "name": "approve",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalSupply",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transfer",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_value",
+        "type": "uint256"
+      }
+    ],
+    "name": "transferFrom",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const PROJECT_TOKEN_BYTECODE = "0x608060405234801561000f575f5ffd5b50604051610ae5380380610ae583398101604081905261002e9161022f565b5f8451116100735760405162461bcd60e51b815260206004820152600d60248201526c13985b59481c995c5d5a5c9959609a1b60448201526064015b60405180910390fd5b5f8351116100b55760405162461bcd60e51b815260206004820152600f60248201526e14de5b589bdb081c995c5d5a5c9959608a1b604482015260640161006a565b5f81116101045760405162461bcd60e51b815260206004820152601f60248201527f496e697469616c20737570706c79206d75737420626520706f73697469766500604482015260640161006a565b5f61010f8582610336565b50600161011c8482610336565b506002805460ff191660ff841617905560048054336001600160a01b0319909116811790915560038290555f818152600560209081526040808320859055518481527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef910160405180910390a3505050506103f0565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126101b5575f5ffd5b81516001600160401b038111156101ce576101ce610192565b604051601f8201601f19908116603f011681016001600160401b03811182821017156101fc576101fc610192565b604052818152838201602001851015610213575f5ffd5b8160208501602083015e5f918101602001919091529392505050565b5f5f5f5f60808587031215610242575f5ffd5b84516001600160401b03811115610257575f5ffd5b610263878288016101a6565b602087015190955090506001600160401b03811115610280575f5ffd5b61028c878288016101a6565b935050604085015160ff811681146102a2575f5ffd5b6060959095015193969295505050565b600181811c908216806102c657607f821691505b6020821081036102e457634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561033157805f5260205f20601f840160051c8101602085101561030f5750805b601f840160051c820191505b8181101561032e575f815560010161031b565b50505b505050565b81516001600160401b0381111561034f5761034f610192565b6103638161035d84546102b2565b846102ea565b6020601f821160018114610395575f831561037e5750848201515b5f19600385901b1c1916600184901b17845561032e565b5f84815260208120601f198516915b828110156103c457878501518255602094850194600190920191016103a4565b50848210156103e157868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b6106e8806103fd5f395ff3fe608060405234801561000f575f5ffd5b506004361061009b575f3560e01c806370a082311161006357806370a08231146101295780638da5cb5b1461014857806395d89b4114610173578063a9059cbb1461017b578063dd62ed3e1461018e575f5ffd5b806306fdde031461009f578063095ea7b3146100bd57806318160ddd146100e057806323b872dd146100f7578063313ce5671461010a575b5f5ffd5b6100a76101b8565b6040516100b4919061053d565b60405180910390f35b6100d06100cb36600461058d565b610243565b60405190151581526020016100b4565b6100e960035481565b6040519081526020016100b4565b6100d06101053660046105b5565b610303565b6002546101179060ff1681565b60405160ff90911681526020016100b4565b6100e96101373660046105ef565b60056020525f908152604090205481565b60045461015b906001600160a01b031681565b6040516001600160a01b0390911681526020016100b4565b6100a76103bb565b6100d061018936600461058d565b6103c8565b6100e961019c36600461060f565b600660209081525f928352604080842090915290825290205481565b5f80546101c490610640565b80601f01602080910402602001604051908101604052809291908181526020018280546101f090610640565b801561023b5780601f106102125761010080835404028352916020019161023b565b820191905f5260205f20905b81548152906001019060200180831161021e57829003601f168201915b505050505081565b5f6001600160a01b03831661029f5760405162461bcd60e51b815260206004820152601760248201527f496e76616c6964207370656e646572206164647265737300000000000000000060448201526064015b60405180910390fd5b335f8181526006602090815260408083206001600160a01b03881680855290835292819020869055518581529192917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925910160405180910390a35060015b92915050565b6001600160a01b0383165f9081526006602090815260408083203384529091528120548281101561036f5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152606401610296565b5f1981146103a557610381838261068c565b6001600160a01b0386165f9081526006602090815260408083203384529091529020555b6103b08585856103dd565b506001949350505050565b600180546101c490610640565b5f6103d43384846103dd565b50600192915050565b6001600160a01b0382166104335760405162461bcd60e51b815260206004820152601960248201527f496e76616c696420726563697069656e742061646472657373000000000000006044820152606401610296565b6001600160a01b0383165f908152600560205260409020548111156104915760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606401610296565b6001600160a01b0383165f90815260056020526040812080548392906104b890849061068c565b90915550506001600160a01b0382165f90815260056020526040812080548392906104e490849061069f565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161053091815260200190565b60405180910390a3505050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610588575f5ffd5b919050565b5f5f6040838503121561059e575f5ffd5b6105a783610572565b946020939093013593505050565b5f5f5f606084860312156105c7575f5ffd5b6105d084610572565b92506105de60208501610572565b929592945050506040919091013590565b5f602082840312156105ff575f5ffd5b61060882610572565b9392505050565b5f5f60408385031215610620575f5ffd5b61062983610572565b915061063760208401610572565b90509250929050565b600181811c9082168061065457607f821691505b60208210810361067257634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156102fd576102fd610678565b808201808211156102fd576102fd61067856fea26469706673582212202f38b214876d667253a19fe27c809dcd10c96e9a0316c01bbfae2a96f619b5d164736f6c634300081e0033";
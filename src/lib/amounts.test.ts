@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatTokenTotal, sumTokenAmounts } from './amounts';
+
+describe('sumTokenAmounts', () => {
+  it('sums in base units without float drift', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumTokenAmounts([0.1, 0.2], 18)).toBe(300000000000000000n);
+  });
+
+  it('respects the token decimals', () => {
+    expect(sumTokenAmounts(['1.5', '2.25'], 6)).toBe(3750000n);
+  });
+
+  it('treats empty amounts as zero', () => {
+    expect(sumTokenAmounts(['', 0, '1'], 18)).toBe(10n ** 18n);
+    expect(sumTokenAmounts([], 18)).toBe(0n);
+  });
+
+  it('rejects amounts with more decimals than the token', () => {
+    expect(() => sumTokenAmounts(['0.0000001'], 6)).toThrow();
+  });
+});
+
+describe('formatTokenTotal', () => {
+  it('formats the total as a decimal string', () => {
+    expect(formatTokenTotal([0.1, 0.2], 18)).toBe('0.3');
+    expect(formatTokenTotal(['100', '50.5'], 6)).toBe('150.5');
+    expect(formatTokenTotal([], 18)).toBe('0.0');
+  });
+});
@@ -0,0 +1,16 @@
+// Token amounts
+// Milestone amounts are entered and stored as decimal numbers of the payment token. Anything sent
+// on chain is summed in the token's base units: float sums can land a few units off the escrow's
+// own total, which makes the deposit revert.
+
+import { formatUnits, parseUnits } from 'ethers';
+
+// Sum of the amounts in the token's base units
+export function sumTokenAmounts(amounts: Array<string | number>, decimals: number): bigint {
+  return amounts.reduce<bigint>((sum, amount) => sum + parseUnits(String(amount || '0'), decimals), 0n);
+}
+
+// The same sum as a decimal string, the form depositToEscrow takes
+export function formatTokenTotal(amounts: Array<string | number>, decimals: number): string {
+  return formatUnits(sumTokenAmounts(amounts, decimals), decimals);
+}
@@ -0,0 +1,62 @@
+// Milestone change orders
+// The client proposes a change on the escrow, then records it here with the details the chain does
+// not hold. The freelancer accepts or rejects it on the escrow; the escrow-indexer picks up the
+// outcome and applies accepted changes to the milestones.
+
+import { callRpc, supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import type { ChangeOrderKind } from './web3';
+
+export type ChangeOrderRow = Database['public']['Tables']['milestone_change_orders']['Row'];
+
+export interface ChangeOrderInput {
+  kind: ChangeOrderKind;
+  // The amended milestone; null for 'add'
+  milestoneId: string | null;
+  newAmount: string;
+  reason: string;
+  // Terms of an added milestone
+  title?: string;
+  description?: string;
+  verificationType?: string;
+  verificationConfig?: Record<string, unknown>;
+  reviewPeriodSeconds?: number;
+}
+
+/**
+ * Client: records a change order already proposed on the escrow
+ * @param chain - The escrow's change order id, null when the proposal is still confirming
+ */
+export function recordChangeOrder(
+  projectId: string,
+  change: ChangeOrderInput,
+  chain: { changeOrderId: number | null; txHash: string | null }
+): Promise<ChangeOrderRow> {
+  return callRpc('propose_change_order', {
+    p_project_id: projectId,
+    p_change: {
+      kind: change.kind,
+      milestone_id: change.milestoneId,
+      new_amount: change.newAmount,
+      reason: change.reason,
+      title: change.title,
+      description: change.description,
+      verification_type: change.verificationType,
+      verification_config: change.verificationConfig as Json | undefined,
+      review_period_seconds: change.reviewPeriodSeconds,
+      chain_change_order_id: chain.changeOrderId,
+      proposal_tx_hash: chain.txHash,
+    },
+  });
+}
+
+// A project's change orders, newest first
+export async function getChangeOrders(projectId: string): Promise<ChangeOrderRow[]> {
+  const { data, error } = await supabase
+    .from('milestone_change_orders')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data || []) as ChangeOrderRow[];
+}
@@ -2,7 +2,8 @@
 // Fixes contracts that have funds but aren't active
 
 import { getEscrowContract, getSigner, formatTokenAmount, parseTokenAmount, getProvider } from './web3';
-import { formatUnits, parseUnits } from 'ethers';
+import { formatUnits } from 'ethers';
+import { sendContractTransaction } from './transactions';
 
 /**
  * Activates a contract that has funds but isn't active
@@ -47,16 +48,8 @@ export async function activateEscrowContract(escrowAddress: string) {
     const remaining = totalAmount - balance;
     console.log('Depositing remaining amount:', formatUnits(remaining, 18), 'QIE');
     
-    const tx = await contract.depositFunds({
-      value: totalAmount, // Must send exact total amount
-      gasLimit: 300000,
-      type: 0,
-      gasPrice: parseUnits('0.000000007', 'gwei')
-    });
-    
-    console.log('Transaction sent:', tx.hash);
-    console.log('Waiting for confirmation...');
-    await tx.wait();
+    // Must send exact total amount
+    await sendContractTransaction(contract, 'depositFunds', [], { value: totalAmount });
     
     // Verify activation
     const newIsActive = await contract.isActive();
@@ -116,13 +109,7 @@ export async function fixInactiveContract(escrowAddress: string) {
     
     if (balance === 0n) {
       console.log('Contract has no funds, depositing...');
-      const tx = await contract.depositFunds({
-        value: totalAmount,
-        gasLimit: 300000,
-        type: 0,
-        gasPrice: parseUnits('0.000000007', 'gwei')
-      });
-      await tx.wait();
+      await sendContractTransaction(contract, 'depositFunds', [], { value: totalAmount });
       console.log('✅ Contract funded and activated!');
       return true;
     }
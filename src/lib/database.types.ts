@@ -6,13 +6,16 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
       profiles: {
         Row: {
           id: string
           wallet_address: string | null
+          verified_wallet_address: string | null
+          github_login: string | null
+          figma_token: string | null
           role: 'freelancer' | 'client'
           full_name: string
           email: string
@@ -22,6 +25,9 @@ export interface Database {
         Insert: {
           id: string
           wallet_address?: string | null
+          verified_wallet_address?: string | null
+          github_login?: string | null
+          figma_token?: string | null
           role: 'freelancer' | 'client'
           full_name: string
           email: string
@@ -31,12 +37,16 @@ export interface Database {
         Update: {
           id?: string
           wallet_address?: string | null
+          verified_wallet_address?: string | null
+          github_login?: string | null
+          figma_token?: string | null
           role?: 'freelancer' | 'client'
           full_name?: string
           email?: string
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       projects: {
         Row: {
@@ -48,7 +58,19 @@ export interface Database {
           total_amount: number
           token_address: string | null
           token_symbol: string
+          token_decimals: number
+          chain_id: number
+          deployment_tx_hash: string | null
           escrow_contract_address: string | null
+          github_repo_url: string | null
+          commit_count: number | null
+          latest_commit_sha: string | null
+          latest_commit_url: string | null
+          arbiter_address: string | null
+          staged_funding: boolean
+          platform_fee_bps: number
+          platform_fee_recipient: string | null
+          last_indexed_block: number | null
           status: 'draft' | 'active' | 'completed' | 'cancelled'
           created_at: string
           updated_at: string
@@ -62,7 +84,19 @@ export interface Database {
           total_amount?: number
           token_address?: string | null
           token_symbol?: string
+          token_decimals?: number
+          chain_id?: number
+          deployment_tx_hash?: string | null
           escrow_contract_address?: string | null
+          github_repo_url?: string | null
+          commit_count?: number | null
+          latest_commit_sha?: string | null
+          latest_commit_url?: string | null
+          arbiter_address?: string | null
+          staged_funding?: boolean
+          platform_fee_bps?: number
+          platform_fee_recipient?: string | null
+          last_indexed_block?: number | null
           status?: 'draft' | 'active' | 'completed' | 'cancelled'
           created_at?: string
           updated_at?: string
@@ -76,11 +110,39 @@ export interface Database {
           total_amount?: number
           token_address?: string | null
           token_symbol?: string
+          token_decimals?: number
+          chain_id?: number
+          deployment_tx_hash?: string | null
           escrow_contract_address?: string | null
+          github_repo_url?: string | null
+          commit_count?: number | null
+          latest_commit_sha?: string | null
+          latest_commit_url?: string | null
+          arbiter_address?: string | null
+          staged_funding?: boolean
+          platform_fee_bps?: number
+          platform_fee_recipient?: string | null
+          last_indexed_block?: number | null
           status?: 'draft' | 'active' | 'completed' | 'cancelled'
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       milestones: {
         Row: {
@@ -89,12 +151,27 @@ export interface Database {
           title: string
           description: string
           amount: number
-          verification_type: 'github' | 'figma' | 'manual'
+          verification_type: string
           verification_config: Json
-          status: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'paid'
+          status: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'disputed' | 'paid' | 'cancelled'
           submitted_at: string | null
           verified_at: string | null
           paid_at: string | null
+          dispute_reason: string | null
+          disputed_by: string | null
+          disputed_at: string | null
+          dispute_resolved_at: string | null
+          review_period_seconds: number
+          review_deadline: string | null
+          submission_tx_hash: string | null
+          verification_hash: string | null
+          last_oracle_check_at: string | null
+          funded_at: string | null
+          cancellation_requested_at: string | null
+          cancellation_kill_fee_bps: number | null
+          cancelled_at: string | null
+          kill_fee_amount: number | null
+          payees: Json
           order_index: number
           created_at: string
           updated_at: string
@@ -105,12 +182,27 @@ export interface Database {
           title: string
           description: string
           amount?: number
-          verification_type: 'github' | 'figma' | 'manual'
+          verification_type: string
           verification_config?: Json
-          status?: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'paid'
+          status?: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'disputed' | 'paid' | 'cancelled'
           submitted_at?: string | null
           verified_at?: string | null
           paid_at?: string | null
+          dispute_reason?: string | null
+          disputed_by?: string | null
+          disputed_at?: string | null
+          dispute_resolved_at?: string | null
+          review_period_seconds?: number
+          review_deadline?: string | null
+          submission_tx_hash?: string | null
+          verification_hash?: string | null
+          last_oracle_check_at?: string | null
+          funded_at?: string | null
+          cancellation_requested_at?: string | null
+          cancellation_kill_fee_bps?: number | null
+          cancelled_at?: string | null
+          kill_fee_amount?: number | null
+          payees?: Json
           order_index?: number
           created_at?: string
           updated_at?: string
@@ -121,16 +213,47 @@ export interface Database {
           title?: string
           description?: string
           amount?: number
-          verification_type?: 'github' | 'figma' | 'manual'
+          verification_type?: string
           verification_config?: Json
-          status?: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'paid'
+          status?: 'pending' | 'in_progress' | 'submitted' | 'verified' | 'disputed' | 'paid' | 'cancelled'
           submitted_at?: string | null
           verified_at?: string | null
           paid_at?: string | null
+          dispute_reason?: string | null
+          disputed_by?: string | null
+          disputed_at?: string | null
+          dispute_resolved_at?: string | null
+          review_period_seconds?: number
+          review_deadline?: string | null
+          submission_tx_hash?: string | null
+          verification_hash?: string | null
+          last_oracle_check_at?: string | null
+          funded_at?: string | null
+          cancellation_requested_at?: string | null
+          cancellation_kill_fee_bps?: number | null
+          cancelled_at?: string | null
+          kill_fee_amount?: number | null
+          payees?: Json
           order_index?: number
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "milestones_disputed_by_fkey"
+            columns: ["disputed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       verification_logs: {
         Row: {
@@ -140,6 +263,7 @@ export interface Database {
           oracle_response: Json
           status: 'pending' | 'success' | 'failed'
           error_message: string | null
+          evidence_hash: string | null
           created_at: string
         }
         Insert: {
@@ -149,6 +273,7 @@ export interface Database {
           oracle_response?: Json
           status?: 'pending' | 'success' | 'failed'
           error_message?: string | null
+          evidence_hash?: string | null
           created_at?: string
         }
         Update: {
@@ -158,8 +283,42 @@ export interface Database {
           oracle_response?: Json
           status?: 'pending' | 'success' | 'failed'
           error_message?: string | null
+          evidence_hash?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "verification_logs_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_types: {
+        Row: {
+          type: string
+          label: string
+          endpoint: string | null
+          enabled: boolean
+          created_at: string
+        }
+        Insert: {
+          type: string
+          label: string
+          endpoint?: string | null
+          enabled?: boolean
+          created_at?: string
+        }
+        Update: {
+          type?: string
+          label?: string
+          endpoint?: string | null
+          enabled?: boolean
+          created_at?: string
+        }
+        Relationships: []
       }
       transactions: {
         Row: {
@@ -169,6 +328,8 @@ export interface Database {
           transaction_hash: string
           transaction_type: 'escrow_deposit' | 'milestone_payment' | 'refund'
           amount: number
+          fee_amount: number
+          fee_recipient: string | null
           from_address: string
           to_address: string
           status: 'pending' | 'confirmed' | 'failed'
@@ -182,6 +343,8 @@ export interface Database {
           transaction_hash: string
           transaction_type: 'escrow_deposit' | 'milestone_payment' | 'refund'
           amount?: number
+          fee_amount?: number
+          fee_recipient?: string | null
           from_address: string
           to_address: string
           status?: 'pending' | 'confirmed' | 'failed'
@@ -195,12 +358,301 @@ export interface Database {
           transaction_hash?: string
           transaction_type?: 'escrow_deposit' | 'milestone_payment' | 'refund'
           amount?: number
+          fee_amount?: number
+          fee_recipient?: string | null
           from_address?: string
           to_address?: string
           status?: 'pending' | 'confirmed' | 'failed'
           block_number?: number | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestone_change_orders: {
+        Row: {
+          id: string
+          project_id: string
+          kind: 'add' | 'reprice' | 'remove'
+          milestone_id: string | null
+          order_index: number | null
+          previous_amount: number | null
+          new_amount: number
+          title: string | null
+          description: string | null
+          verification_type: string | null
+          verification_config: Json | null
+          review_period_seconds: number | null
+          reason: string | null
+          status: 'proposed' | 'accepted' | 'rejected' | 'withdrawn'
+          chain_change_order_id: number | null
+          proposed_by: string | null
+          proposal_tx_hash: string | null
+          response_tx_hash: string | null
+          responded_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          kind: 'add' | 'reprice' | 'remove'
+          milestone_id?: string | null
+          order_index?: number | null
+          previous_amount?: number | null
+          new_amount?: number
+          title?: string | null
+          description?: string | null
+          verification_type?: string | null
+          verification_config?: Json | null
+          review_period_seconds?: number | null
+          reason?: string | null
+          status?: 'proposed' | 'accepted' | 'rejected' | 'withdrawn'
+          chain_change_order_id?: number | null
+          proposed_by?: string | null
+          proposal_tx_hash?: string | null
+          response_tx_hash?: string | null
+          responded_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          kind?: 'add' | 'reprice' | 'remove'
+          milestone_id?: string | null
+          order_index?: number | null
+          previous_amount?: number | null
+          new_amount?: number
+          title?: string | null
+          description?: string | null
+          verification_type?: string | null
+          verification_config?: Json | null
+          review_period_seconds?: number | null
+          reason?: string | null
+          status?: 'proposed' | 'accepted' | 'rejected' | 'withdrawn'
+          chain_change_order_id?: number | null
+          proposed_by?: string | null
+          proposal_tx_hash?: string | null
+          response_tx_hash?: string | null
+          responded_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_change_orders_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_change_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_change_orders_proposed_by_fkey"
+            columns: ["proposed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_members: {
+        Row: {
+          id: string
+          project_id: string
+          freelancer_id: string
+          wallet_address: string | null
+          role: 'lead' | 'member'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          freelancer_id: string
+          wallet_address?: string | null
+          role?: 'lead' | 'member'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          freelancer_id?: string
+          wallet_address?: string | null
+          role?: 'lead' | 'member'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_freelancer_id_fkey"
+            columns: ["freelancer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_connections: {
+        Row: {
+          user_id: string
+          github_login: string | null
+          access_token: string
+          scope: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          github_login?: string | null
+          access_token: string
+          scope?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          github_login?: string | null
+          access_token?: string
+          scope?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "github_connections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_oauth_states: {
+        Row: {
+          state: string
+          user_id: string
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          state: string
+          user_id: string
+          expires_at?: string
+          created_at?: string
+        }
+        Update: {
+          state?: string
+          user_id?: string
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "github_oauth_states_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_repo_links: {
+        Row: {
+          id: string
+          project_id: string
+          linked_by: string
+          owner: string
+          repo: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          linked_by: string
+          owner: string
+          repo: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          linked_by?: string
+          owner?: string
+          repo?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "github_repo_links_linked_by_fkey"
+            columns: ["linked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "github_repo_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_challenges: {
+        Row: {
+          nonce: string
+          user_id: string
+          wallet_address: string
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          nonce: string
+          user_id: string
+          wallet_address: string
+          expires_at?: string
+          created_at?: string
+        }
+        Update: {
+          nonce?: string
+          user_id?: string
+          wallet_address?: string
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_challenges_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       project_tokens: {
         Row: {
@@ -211,6 +663,8 @@ export interface Database {
           token_symbol: string
           total_supply: number
           decimals: number
+          transaction_hash: string | null
+          owner_address: string | null
           created_at: string
         }
         Insert: {
@@ -221,6 +675,8 @@ export interface Database {
           token_symbol: string
           total_supply?: number
           decimals?: number
+          transaction_hash?: string | null
+          owner_address?: string | null
           created_at?: string
         }
         Update: {
@@ -231,9 +687,84 @@ export interface Database {
           token_symbol?: string
           total_supply?: number
           decimals?: number
+          transaction_hash?: string | null
+          owner_address?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "project_tokens_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      advance_project_milestones: {
+        Args: { p_project_id: string }
+        Returns: undefined
       }
+      is_project_arbiter: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      start_milestone: {
+        Args: { p_milestone_id: string }
+        Returns: Database['public']['Tables']['milestones']['Row']
+      }
+      submit_milestone: {
+        Args: {
+          p_milestone_id: string
+          p_submitted_at: string | null
+          p_review_deadline: string | null
+          p_submission_tx_hash: string | null
+        }
+        Returns: Database['public']['Tables']['milestones']['Row']
+      }
+      verify_milestone: {
+        Args: { p_milestone_id: string }
+        Returns: Database['public']['Tables']['milestones']['Row']
+      }
+      raise_milestone_dispute: {
+        Args: { p_milestone_id: string; p_reason: string }
+        Returns: Database['public']['Tables']['milestones']['Row']
+      }
+      create_project: {
+        Args: { p_project: Json; p_milestones: Json }
+        Returns: Database['public']['Tables']['projects']['Row']
+      }
+      attach_project_escrow: {
+        Args: {
+          p_project_id: string
+          p_escrow_address: string | null
+          p_deployment_tx_hash: string | null
+        }
+        Returns: Database['public']['Tables']['projects']['Row']
+      }
+      discard_draft_project: {
+        Args: { p_project_id: string }
+        Returns: undefined
+      }
+      propose_change_order: {
+        Args: { p_project_id: string; p_change: Json }
+        Returns: Database['public']['Tables']['milestone_change_orders']['Row']
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -0,0 +1,112 @@
+// Escrow factory
+// Escrows are created as minimal-proxy clones by one EscrowFactory per network, configured with
+// VITE_ESCROW_FACTORY_<chainId>. The factory also lists every escrow a wallet is a party to, so the
+// app can find them on-chain instead of trusting the projects table. Its owner sets the arbiter,
+// oracle signer and platform fee every new escrow takes.
+
+import { Contract, Interface, JsonRpcProvider, Provider, TransactionReceipt, ZeroAddress, getAddress, isAddress } from 'ethers';
+import { ESCROW_FACTORY_ABI } from '../contracts/escrow-factory-abi';
+import { NetworkConfig } from './networks';
+import { PlatformFee, getPlatformFee } from './fees';
+
+const factoryInterface = new Interface(ESCROW_FACTORY_ABI);
+
+export function getEscrowFactoryAddress(network: NetworkConfig): string | null {
+  const configured = import.meta.env[`VITE_ESCROW_FACTORY_${network.chainId}`];
+  return configured && isAddress(configured) ? getAddress(configured) : null;
+}
+
+/**
+ * The escrow a deployment created: the EscrowDeployed log of a factory deployment, or the
+ * contract address of an escrow deployed directly before the factory existed
+ */
+export function getDeployedEscrowAddress(receipt: TransactionReceipt): string | null {
+  if (receipt.contractAddress) return receipt.contractAddress;
+
+  for (const log of receipt.logs) {
+    try {
+      const event = factoryInterface.parseLog(log);
+      if (event?.name === 'EscrowDeployed') {
+        return getAddress(event.args.escrow);
+      }
+    } catch {
+      // Logs from the escrow itself are not factory events
+    }
+  }
+  return null;
+}
+
+/**
+ * Every escrow the factory created with this wallet as client or freelancer
+ * @returns Empty when the network has no factory configured
+ */
+export async function getFactoryEscrows(
+  provider: Provider,
+  network: NetworkConfig,
+  walletAddress: string,
+  role: 'client' | 'freelancer'
+): Promise<string[]> {
+  const factoryAddress = getEscrowFactoryAddress(network);
+  if (!factoryAddress) return [];
+
+  const factory = new Contract(factoryAddress, ESCROW_FACTORY_ABI, provider);
+  const escrows: string[] = role === 'client'
+    ? await factory.getClientEscrows(walletAddress)
+    : await factory.getFreelancerEscrows(walletAddress);
+  return escrows.map(address => getAddress(address));
+}
+
+// Whether the factory created this escrow; null when the network has no factory configured
+export async function isFactoryEscrow(
+  provider: Provider,
+  network: NetworkConfig,
+  escrowAddress: string
+): Promise<boolean | null> {
+  const factoryAddress = getEscrowFactoryAddress(network);
+  if (!factoryAddress) return null;
+
+  const factory = new Contract(factoryAddress, ESCROW_FACTORY_ABI, provider);
+  return factory.isEscrow(escrowAddress);
+}
+
+// The platform's terms a factory gives every escrow it creates
+export interface FactoryTerms {
+  arbiter: string;
+  // Empty when oracle attestations are disabled
+  oracleSigner: string;
+  platformFee: PlatformFee;
+}
+
+// The terms a new factory is deployed with, from VITE_ARBITER_ADDRESS, VITE_ORACLE_SIGNER_ADDRESS and the platform fee
+export function getConfiguredFactoryTerms(): FactoryTerms {
+  return {
+    arbiter: import.meta.env.VITE_ARBITER_ADDRESS || '',
+    oracleSigner: import.meta.env.VITE_ORACLE_SIGNER_ADDRESS || '',
+    platformFee: getPlatformFee(),
+  };
+}
+
+/**
+ * The arbiter, oracle signer and platform fee the factory applies to the escrows it creates now
+ * @returns null when the network has no factory configured
+ */
+export async function getFactoryTerms(
+  network: NetworkConfig,
+  provider: Provider = new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true })
+): Promise<FactoryTerms | null> {
+  const factoryAddress = getEscrowFactoryAddress(network);
+  if (!factoryAddress) return null;
+
+  const factory = new Contract(factoryAddress, ESCROW_FACTORY_ABI, provider);
+  const [arbiter, oracleSigner, feeRecipient, feeBps]: [string, string, string, bigint] = await Promise.all([
+    factory.arbiter(),
+    factory.oracleSigner(),
+    factory.feeRecipient(),
+    factory.feeBps(),
+  ]);
+  return {
+    arbiter: getAddress(arbiter),
+    oracleSigner: oracleSigner === ZeroAddress ? '' : getAddress(oracleSigner),
+    platformFee: { bps: Number(feeBps), recipient: feeRecipient === ZeroAddress ? '' : getAddress(feeRecipient) },
+  };
+}
@@ -1,5 +1,6 @@
 // Escrow Helper Functions
-import { depositToEscrow, checkEscrowStatus, formatTokenAmount } from './web3';
+import { depositToEscrow, checkEscrowStatus, formatTokenAmount, deployEscrowFactory, switchToNetwork } from './web3';
+import { NETWORKS, getDefaultNetwork } from './networks';
 
 /**
  * Helper to deposit funds to escrow contract
@@ -48,6 +49,26 @@ if (typeof window !== 'undefined') {
   (window as any).fundEscrow = fundEscrow;
 }
 
+/**
+ * One-time setup: deploys a network's escrow factory from the connected wallet
+ * @param networkKey - A key from src/lib/networks.ts; defaults to VITE_DEFAULT_NETWORK
+ */
+export async function setupEscrowFactory(networkKey?: string) {
+  const network = NETWORKS.find(n => n.key === networkKey) || getDefaultNetwork();
+  await switchToNetwork(network);
+  return deployEscrowFactory(network);
+}
+
+declare global {
+  interface Window {
+    setupEscrowFactory?: typeof setupEscrowFactory;
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.setupEscrowFactory = setupEscrowFactory;
+}
+
 // Instructions for the user
 export function showFundingInstructions() {
   console.log(`
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import { EVIDENCE_VERSION, buildMilestoneEvidence, canonicalJson, hashEvidence } from './evidence';
+
+// The hashing is pure; only recording and checking evidence query the database
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const MILESTONE_ID = '6f1c2a4e-0b7d-4c1e-9a55-3f0d8e2b7c11';
+
+const githubResponse = {
+  verified: true,
+  commitCount: 2,
+  latestCommit: { sha: 'abc1234', fullSha: 'abc1234def5678abc1234def5678abc1234def56' },
+  commits: [
+    { sha: 'abc1234', fullSha: 'abc1234def5678abc1234def5678abc1234def56', date: '2026-01-02T10:00:00Z', message: 'Ship it' },
+    { sha: '9876fed', fullSha: '9876fed5432109876fed5432109876fed5432109', date: '2026-01-01T09:00:00Z', message: 'Start' },
+  ],
+  criteria: [
+    {
+      name: 'Commit mentions the milestone',
+      passed: true,
+      detail: '1 of 2 commits matched',
+      matched: [{ id: 'abc1234def5678abc1234def5678abc1234def56', name: 'Ship it' }],
+    },
+  ],
+  timestamp: '2026-01-02T10:05:00Z',
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every depth and leaves out whitespace', () => {
+    expect(canonicalJson({ b: 1, a: { d: [3, { f: true, e: null }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[3,{"e":null,"f":true}]},"b":1}');
+  });
+
+  it('serialises the same value the same way whatever the key order', () => {
+    expect(canonicalJson({ x: 1, y: [1, 2], z: { q: 'a', p: 'b' } }))
+      .toBe(canonicalJson({ z: { p: 'b', q: 'a' }, y: [1, 2], x: 1 }));
+  });
+
+  it('drops undefined fields, as a jsonb round trip does', () => {
+    expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+
+  it('keeps array order', () => {
+    expect(canonicalJson([2, 1])).not.toBe(canonicalJson([1, 2]));
+  });
+});
+
+describe('buildMilestoneEvidence', () => {
+  it("keeps only the fields that prove the work, bound to the milestone and the layout's version", () => {
+    expect(buildMilestoneEvidence(MILESTONE_ID, 'github', githubResponse)).toEqual({
+      version: EVIDENCE_VERSION,
+      milestoneId: MILESTONE_ID,
+      verificationType: 'github',
+      artifacts: [
+        { id: 'abc1234def5678abc1234def5678abc1234def56', date: '2026-01-02T10:00:00Z' },
+        { id: '9876fed5432109876fed5432109876fed5432109', date: '2026-01-01T09:00:00Z' },
+      ],
+      source: { latestCommit: 'abc1234def5678abc1234def5678abc1234def56', commitCount: 2 },
+      criteria: [{ name: 'Commit mentions the milestone', passed: true, matched: ['abc1234def5678abc1234def5678abc1234def56'] }],
+      observedAt: '2026-01-02T10:05:00Z',
+    });
+  });
+
+  it('treats unknown verification types as manual approvals', () => {
+    const evidence = buildMilestoneEvidence(MILESTONE_ID, 'retired_type', { approvedBy: 'client-1', approvedAt: '2026-01-03T00:00:00Z' });
+    expect(evidence).toMatchObject({
+      verificationType: 'retired_type',
+      artifacts: [],
+      source: { approvedBy: 'client-1' },
+      observedAt: '2026-01-03T00:00:00Z',
+    });
+  });
+});
+
+describe('hashEvidence', () => {
+  const evidence = buildMilestoneEvidence(MILESTONE_ID, 'github', githubResponse);
+
+  it('is the keccak256 of the canonical JSON', () => {
+    expect(hashEvidence(evidence)).toBe(keccak256(toUtf8Bytes(canonicalJson(evidence))));
+  });
+
+  it('ignores details the evidence leaves out, such as commit messages', () => {
+    const reworded = {
+      ...githubResponse,
+      commits: githubResponse.commits.map((c) => ({ ...c, message: 'Reworded' })),
+    };
+    expect(hashEvidence(buildMilestoneEvidence(MILESTONE_ID, 'github', reworded))).toBe(hashEvidence(evidence));
+  });
+
+  it('differs per milestone, so evidence cannot be replayed on another', () => {
+    const other = buildMilestoneEvidence('0c9d6b1a-2f3e-4a5b-8c7d-9e0f1a2b3c4d', 'github', githubResponse);
+    expect(hashEvidence(other)).not.toBe(hashEvidence(evidence));
+  });
+
+  // Hashes already committed on-chain are recomputed from their logs; a change here breaks them all
+  it('hashes a stored log the same way it always has', () => {
+    expect(hashEvidence(evidence)).toBe('0xd2cd165047dc0bc5d1e148255339680837a26a4179990a6c86370bb91f761a25');
+  });
+});
@@ -0,0 +1,131 @@
+// Verification evidence
+// The hash passed to verifyMilestone is a keccak256 commitment over the oracle evidence saved in
+// verification_logs, so anyone can recompute it from the log and compare it with the contract
+
+import { keccak256, toUtf8Bytes } from 'ethers';
+import { supabase } from './supabase';
+import type { Database, Json } from './database.types';
+import { getMilestoneVerificationHash } from './web3';
+import { MilestoneEvidence, buildMilestoneEvidence, canonicalJson } from './oracles';
+
+// The evidence layout lives with the oracle plugins so the edge functions hash exactly what the app does
+export type { EvidenceArtifact, EvidenceCriterion, MilestoneEvidence } from './oracles';
+export { EVIDENCE_VERSION, buildMilestoneEvidence, canonicalJson } from './oracles';
+
+type MilestoneRow = Database['public']['Tables']['milestones']['Row'];
+
+export type EvidenceCheckStatus = 'match' | 'mismatch' | 'not_verified' | 'no_evidence';
+
+export interface EvidenceCheck {
+  status: EvidenceCheckStatus;
+  computedHash: string | null;
+  onChainHash: string | null;
+  logId: string | null;
+}
+
+export function hashEvidence(evidence: MilestoneEvidence): string {
+  return keccak256(toUtf8Bytes(canonicalJson(evidence)));
+}
+
+/**
+ * Saves an oracle result to verification_logs along with its evidence hash
+ * @returns The evidence hash, or null when the oracle did not verify the milestone
+ */
+export async function recordVerificationEvidence(
+  milestoneId: string,
+  verificationType: string,
+  oracleResponse: Record<string, unknown>,
+  verified: boolean
+): Promise<string | null> {
+  const evidenceHash = verified
+    ? hashEvidence(buildMilestoneEvidence(milestoneId, verificationType, oracleResponse))
+    : null;
+
+  const { error } = await supabase.from('verification_logs').insert({
+    milestone_id: milestoneId,
+    verification_type: verificationType,
+    oracle_response: oracleResponse as Json,
+    status: verified ? 'success' : 'failed',
+    evidence_hash: evidenceHash,
+  });
+
+  if (error) throw error;
+
+  if (evidenceHash) {
+    await supabase
+      .from('milestones')
+      .update({ verification_hash: evidenceHash })
+      .eq('id', milestoneId);
+  }
+
+  return evidenceHash;
+}
+
+async function getLatestEvidenceLog(milestoneId: string) {
+  const { data, error } = await supabase
+    .from('verification_logs')
+    .select('*')
+    .eq('milestone_id', milestoneId)
+    .eq('status', 'success')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Returns the hash to commit on-chain for a milestone, recomputed from its latest successful
+ * verification log. Milestones without oracle evidence get a manual approval by the client.
+ */
+export async function getOrCreateEvidenceHash(milestone: Pick<MilestoneRow, 'id'>, approvedBy: string): Promise<string> {
+  const log = await getLatestEvidenceLog(milestone.id);
+  if (log) {
+    return hashEvidence(buildMilestoneEvidence(milestone.id, log.verification_type, log.oracle_response));
+  }
+
+  const evidenceHash = await recordVerificationEvidence(
+    milestone.id,
+    'manual',
+    { approvedBy, approvedAt: new Date().toISOString() },
+    true
+  );
+
+  return evidenceHash!;
+}
+
+/**
+ * Recomputes a milestone's evidence hash from verification_logs and compares it with the
+ * verificationHash stored in the escrow contract
+ */
+export async function checkMilestoneEvidence(
+  escrowAddress: string,
+  milestone: Pick<MilestoneRow, 'id' | 'order_index'>
+): Promise<EvidenceCheck> {
+  const [log, onChain] = await Promise.all([
+    getLatestEvidenceLog(milestone.id),
+    getMilestoneVerificationHash(escrowAddress, milestone.order_index),
+  ]);
+
+  const computedHash = log
+    ? hashEvidence(buildMilestoneEvidence(milestone.id, log.verification_type, log.oracle_response))
+    : null;
+  const onChainHash = onChain.isVerified ? onChain.verificationHash : null;
+
+  let status: EvidenceCheckStatus;
+  if (!onChainHash) {
+    status = 'not_verified';
+  } else if (!computedHash) {
+    status = 'no_evidence';
+  } else {
+    status = computedHash.toLowerCase() === onChainHash.toLowerCase() ? 'match' : 'mismatch';
+  }
+
+  return {
+    status,
+    computedHash,
+    onChainHash,
+    logId: log?.id ?? null,
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePlatformFee, formatFeePercent } from './fees';
+
+describe('calculatePlatformFee', () => {
+  it('takes the basis points of the amount', () => {
+    expect(calculatePlatformFee(10, 250)).toBe(0.25);
+    expect(calculatePlatformFee(10, 0)).toBe(0);
+  });
+});
+
+describe('formatFeePercent', () => {
+  it('formats basis points as a percentage', () => {
+    expect(formatFeePercent(250)).toBe('2.5%');
+    expect(formatFeePercent(1000)).toBe('10%');
+  });
+});
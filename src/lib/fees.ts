@@ -0,0 +1,33 @@
+// Platform fee
+// Escrows take the platform's share from each milestone payment and send it to the fee recipient.
+// The EscrowFactory applies its own rate to every escrow it creates, so clients cannot pick theirs;
+// the rate configured here is only what a new factory is deployed with. A project keeps the rate
+// its escrow was created with, stored as projects.platform_fee_bps.
+
+export interface PlatformFee {
+  // Basis points of each milestone payment; 0 takes no fee
+  bps: number;
+  recipient: string;
+}
+
+// Matches MAX_FEE_BPS in FreelanceEscrow.sol
+export const MAX_PLATFORM_FEE_BPS = 1000;
+
+// The fee a new escrow factory is deployed with, from VITE_PLATFORM_FEE_BPS and VITE_PLATFORM_FEE_RECIPIENT
+export function getPlatformFee(): PlatformFee {
+  const bps = parseInt(import.meta.env.VITE_PLATFORM_FEE_BPS || '0');
+  const recipient = import.meta.env.VITE_PLATFORM_FEE_RECIPIENT || '';
+  if (!(bps > 0) || !recipient) {
+    return { bps: 0, recipient: '' };
+  }
+  return { bps, recipient };
+}
+
+// The fee taken from a payment of `amount`
+export function calculatePlatformFee(amount: number, bps: number): number {
+  return (amount * bps) / 10000;
+}
+
+export function formatFeePercent(bps: number): string {
+  return `${bps / 100}%`;
+}
@@ -0,0 +1,107 @@
+// GitHub integration
+// Tokens never reach the browser: the github-oauth edge function stores them server-side and
+// github-oracle looks them up by project. Calls carry the user's session so the functions know who is asking.
+// A freelancer's token only reads the repositories they linked to the project in github_repo_links.
+
+import { getFunctionHeaders, supabase } from './supabase';
+import type { Database } from './database.types';
+import type { OracleResponse } from './oracles';
+
+export type GitHubRepoLink = Database['public']['Tables']['github_repo_links']['Row'];
+
+/**
+ * Runs the GitHub oracle for a project. owner, repo and projectId are required; the remaining
+ * fields are the milestone's verification criteria.
+ */
+export async function requestGitHubVerification(body: Record<string, unknown>): Promise<OracleResponse> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oracle`,
+    {
+      method: 'POST',
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify(body),
+    }
+  );
+
+  return response.json();
+}
+
+// Sends the browser to GitHub's consent screen; GitHub redirects back to the app with ?github=connected
+export async function connectGitHub(): Promise<void> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oauth`,
+    {
+      method: 'POST',
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify({ action: 'start' }),
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok || !result.url) {
+    throw new Error(result.error || 'Could not start GitHub sign-in');
+  }
+
+  window.location.assign(result.url);
+}
+
+export async function getGitHubRepoLinks(projectId: string): Promise<GitHubRepoLink[]> {
+  const { data, error } = await supabase
+    .from('github_repo_links')
+    .select('*')
+    .eq('project_id', projectId);
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Lets github-oracle read the repository with the freelancer's connected account
+export async function linkGitHubRepo(projectId: string, userId: string, owner: string, repo: string): Promise<void> {
+  const { error } = await supabase.from('github_repo_links').insert({
+    project_id: projectId,
+    linked_by: userId,
+    owner: owner.toLowerCase(),
+    repo: repo.toLowerCase(),
+  });
+  if (error) throw new Error(error.message);
+}
+
+export function isRepoLinkedBy(links: GitHubRepoLink[], userId: string | undefined, owner: string, repo: string): boolean {
+  return links.some(link =>
+    link.linked_by === userId &&
+    link.owner === owner.toLowerCase() &&
+    link.repo === repo.toLowerCase()
+  );
+}
+
+export async function disconnectGitHub(): Promise<void> {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-oauth`,
+    {
+      method: 'POST',
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify({ action: 'disconnect' }),
+    }
+  );
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Could not disconnect GitHub');
+  }
+}
+
+/**
+ * Reads and clears the ?github= result GitHub's redirect leaves on the URL
+ * @returns null when the page was not opened from the OAuth redirect
+ */
+export function consumeGitHubRedirectResult(): { connected: boolean; error: string | null } | null {
+  const url = new URL(window.location.href);
+  const result = url.searchParams.get('github');
+  if (!result) return null;
+
+  const error = url.searchParams.get('github_error');
+  url.searchParams.delete('github');
+  url.searchParams.delete('github_error');
+  window.history.replaceState({}, '', url.toString());
+
+  return { connected: result === 'connected', error };
+}
@@ -0,0 +1,42 @@
+// Client for the escrow-indexer edge function
+// The indexer reads escrow events from the chain and corrects the project's Supabase rows. Users can
+// only sync projects they are a party to, so it is called with the signed-in user's session.
+
+import { getFunctionHeaders } from './supabase';
+
+export interface IndexerProjectSummary {
+  projectId: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  transactionsInserted: number;
+  transactionsUpdated: number;
+  milestonesCorrected: number;
+  projectStatus: string;
+  error?: string;
+}
+
+export async function syncProjectWithChain(projectId: string): Promise<IndexerProjectSummary | null> {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/escrow-indexer`,
+      {
+        method: 'POST',
+        headers: await getFunctionHeaders(),
+        body: JSON.stringify({ projectId }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      console.error('Escrow indexer error:', result.error);
+      return null;
+    }
+
+    return result.projects?.[0] ?? null;
+  } catch (error) {
+    console.error('Error calling escrow indexer:', error);
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+// Milestone status transitions
+// Statuses only change through these database functions, which check the caller's role and the
+// current status. Nothing here marks a milestone paid: the escrow-indexer does that from the
+// escrow's payment events once they are on-chain.
+
+import { callRpc } from './supabase';
+
+// Client: pending → in_progress
+export function startMilestone(milestoneId: string) {
+  return callRpc('start_milestone', { p_milestone_id: milestoneId });
+}
+
+/**
+ * Freelancer: in_progress → submitted
+ * @param submission - The review window read back from the escrow after submitMilestone
+ */
+export function submitMilestone(
+  milestoneId: string,
+  submission: { submittedAt: string | null; reviewDeadline: string | null; txHash: string | null }
+) {
+  return callRpc('submit_milestone', {
+    p_milestone_id: milestoneId,
+    p_submitted_at: submission.submittedAt,
+    p_review_deadline: submission.reviewDeadline,
+    p_submission_tx_hash: submission.txHash,
+  });
+}
+
+// Client: submitted → verified; the next pending milestone starts
+export function verifyMilestone(milestoneId: string) {
+  return callRpc('verify_milestone', { p_milestone_id: milestoneId });
+}
+
+// Client or freelancer: in_progress, submitted or verified → disputed
+export function markMilestoneDisputed(milestoneId: string, reason: string) {
+  return callRpc('raise_milestone_dispute', { p_milestone_id: milestoneId, p_reason: reason });
+}
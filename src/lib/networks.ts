@@ -0,0 +1,102 @@
+// Network registry
+// Every chain the app can run escrows on, with the settings wallets and transactions need
+
+export type GasStrategy =
+  | { type: 'legacy'; gasPriceGwei: string }
+  | { type: 'eip1559' };
+
+export interface NetworkConfig {
+  key: string;
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  gasStrategy: GasStrategy;
+  isTestnet: boolean;
+}
+
+export const NETWORKS: NetworkConfig[] = [
+  {
+    key: 'qie-mainnet',
+    chainId: 1990,
+    name: 'QIE Mainnet',
+    rpcUrl: 'https://rpc1mainnet.qie.digital',
+    explorerUrl: 'https://mainnet.qie.digital',
+    nativeCurrency: { name: 'QIE', symbol: 'QIE', decimals: 18 },
+    gasStrategy: { type: 'legacy', gasPriceGwei: '7' },
+    isTestnet: false,
+  },
+  {
+    key: 'qie-testnet',
+    chainId: 1983,
+    name: 'QIE Testnet',
+    rpcUrl: 'https://rpc1testnet.qie.digital',
+    explorerUrl: 'https://testnet.qie.digital',
+    nativeCurrency: { name: 'QIE', symbol: 'QIE', decimals: 18 },
+    // QIE RPCs do not implement eth_maxPriorityFeePerGas, so fees are set explicitly
+    gasStrategy: { type: 'legacy', gasPriceGwei: '7' },
+    isTestnet: true,
+  },
+  {
+    key: 'local',
+    chainId: 31337,
+    name: 'Local (Anvil/Hardhat)',
+    rpcUrl: 'http://127.0.0.1:8545',
+    explorerUrl: null,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    gasStrategy: { type: 'eip1559' },
+    isTestnet: true,
+  },
+];
+
+export const DEFAULT_CHAIN_ID = 1983;
+
+export function getNetworkByChainId(chainId: number | bigint | null | undefined): NetworkConfig | undefined {
+  if (chainId === null || chainId === undefined) return undefined;
+  return NETWORKS.find(n => n.chainId === Number(chainId));
+}
+
+export function getDefaultNetwork(): NetworkConfig {
+  const configured = import.meta.env.VITE_DEFAULT_NETWORK;
+  return (
+    NETWORKS.find(n => n.key === configured) ||
+    getNetworkByChainId(DEFAULT_CHAIN_ID)!
+  );
+}
+
+/**
+ * Looks up a project's network, treating rows created before chain_id existed as QIE testnet
+ */
+export function getProjectNetwork(chainId: number | null | undefined): NetworkConfig {
+  return getNetworkByChainId(chainId ?? DEFAULT_CHAIN_ID) || getDefaultNetwork();
+}
+
+export function toChainIdHex(chainId: number): string {
+  return '0x' + chainId.toString(16).toUpperCase();
+}
+
+// Shape expected by wallet_addEthereumChain
+export function toWalletChainConfig(network: NetworkConfig) {
+  return {
+    chainId: toChainIdHex(network.chainId),
+    chainName: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: [network.rpcUrl],
+    blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+  };
+}
+
+export function getExplorerTxUrl(chainId: number | null | undefined, txHash: string): string | null {
+  const network = getProjectNetwork(chainId);
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+}
+
+export function getExplorerAddressUrl(chainId: number | null | undefined, address: string): string | null {
+  const network = getProjectNetwork(chainId);
+  return network.explorerUrl ? `${network.explorerUrl}/address/${address}` : null;
+}
@@ -0,0 +1,38 @@
+// Oracle plugins
+// The registry itself lives in supabase/functions/_shared/oracles so the edge functions and the app
+// share one definition of each verification type's config, request and evidence.
+
+import { getFunctionHeaders } from './supabase';
+import type { OracleAttestation } from './web3';
+import { OracleConfig, OracleResponse, buildOracleRequest, getOraclePlugin } from '../../supabase/functions/_shared/oracles/index.ts';
+
+export * from '../../supabase/functions/_shared/oracles/index.ts';
+
+// An oracle's verdict; the attestation fields are only set when one was asked for
+export interface OracleVerificationResult extends OracleResponse {
+  attestation?: OracleAttestation;
+  attestationError?: string;
+}
+
+// Asks a milestone's oracle for a verdict as the signed-in user
+export async function requestOracleVerification(
+  milestone: { id: string; verification_type: string; verification_config: OracleConfig | null },
+  projectId: string,
+  attest = false
+): Promise<OracleVerificationResult> {
+  const plugin = getOraclePlugin(milestone.verification_type);
+  if (!plugin?.endpoint) {
+    throw new Error(`${milestone.verification_type} milestones are not checked by an oracle`);
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${plugin.endpoint}`,
+    {
+      method: 'POST',
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify(buildOracleRequest(milestone, projectId, attest)),
+    }
+  );
+
+  return response.json();
+}
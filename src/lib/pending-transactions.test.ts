@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Interface, JsonRpcProvider, TransactionReceipt, TransactionResponse } from 'ethers';
+import { ESCROW_FACTORY_ABI } from '../contracts/escrow-factory-abi';
+import {
+  PendingTransaction,
+  PendingTransactionUpdate,
+  attachPendingTransaction,
+  getPendingTransactions,
+  onPendingTransactionUpdate,
+  releasePendingTransaction,
+  removePendingTransaction,
+  startPendingTransactionWatcher,
+  trackPendingTransaction,
+} from './pending-transactions';
+
+const mocks = vi.hoisted(() => {
+  const eq = vi.fn(async () => ({ error: null }));
+  const update = vi.fn(() => ({ eq }));
+  return {
+    eq,
+    update,
+    from: vi.fn(() => ({ update })),
+    attachProjectEscrow: vi.fn(async () => undefined),
+    syncProjectWithChain: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock('./supabase', () => ({ supabase: { from: mocks.from } }));
+vi.mock('./projects', () => ({ attachProjectEscrow: mocks.attachProjectEscrow }));
+vi.mock('./indexer', () => ({ syncProjectWithChain: mocks.syncProjectWithChain }));
+
+const ESCROW = '0x3333333333333333333333333333333333333333';
+const CLIENT = '0x1111111111111111111111111111111111111111';
+const FREELANCER = '0x2222222222222222222222222222222222222222';
+
+function pending(hash: string, overrides: Partial<PendingTransaction> = {}): PendingTransaction {
+  return { kind: 'release', hash, chainId: 1983, projectId: 'project-1', createdAt: Date.now(), ...overrides };
+}
+
+function receipt(fields: Partial<TransactionReceipt>): TransactionReceipt {
+  return { status: 1, blockNumber: 42, contractAddress: null, logs: [], ...fields } as unknown as TransactionReceipt;
+}
+
+describe('pending transaction tracker', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('keeps tracked hashes across reads until they are removed', () => {
+    trackPendingTransaction(pending('0xAAA1'));
+    trackPendingTransaction(pending('0xaaa2', { kind: 'deploy', projectId: undefined }));
+
+    expect(getPendingTransactions().map(tx => tx.hash)).toEqual(['0xAAA1', '0xaaa2']);
+    expect(getPendingTransactions('project-1').map(tx => tx.hash)).toEqual(['0xAAA1']);
+
+    // The draft a deployment belongs to is saved after the hash comes back
+    attachPendingTransaction('0xAAA2', { projectId: 'project-2' });
+    expect(getPendingTransactions('project-2').map(tx => tx.hash)).toEqual(['0xaaa2']);
+
+    removePendingTransaction('0xaaa1');
+    expect(getPendingTransactions().map(tx => tx.hash)).toEqual(['0xaaa2']);
+  });
+
+  it('tracks a hash once however often it is recorded', () => {
+    trackPendingTransaction(pending('0xbbb1'));
+    trackPendingTransaction(pending('0xBBB1', { kind: 'verify' }));
+
+    expect(getPendingTransactions()).toEqual([expect.objectContaining({ hash: '0xBBB1', kind: 'verify' })]);
+  });
+
+  it('survives storage it cannot read', () => {
+    storage.set('freelance-pay:pending-transactions', 'not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getPendingTransactions()).toEqual([]);
+  });
+
+  describe('watcher', () => {
+    let stop: () => void = () => {};
+    const updates: PendingTransactionUpdate[] = [];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      updates.length = 0;
+      unsubscribe = onPendingTransactionUpdate(update => updates.push(update));
+    });
+
+    afterEach(() => {
+      stop();
+      unsubscribe();
+    });
+
+    it('leaves a transaction alone while its sender is still waiting on it', async () => {
+      const getReceipt = vi.spyOn(JsonRpcProvider.prototype, 'getTransactionReceipt').mockResolvedValue(receipt({}));
+      trackPendingTransaction(pending('0xccc1'));
+
+      stop = startPendingTransactionWatcher();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(getReceipt).not.toHaveBeenCalled();
+      expect(getPendingTransactions()).toHaveLength(1);
+      removePendingTransaction('0xccc1');
+    });
+
+    it('confirms a released transaction once it is mined and syncs its project', async () => {
+      vi.spyOn(JsonRpcProvider.prototype, 'getTransactionReceipt').mockResolvedValue(receipt({ blockNumber: 42 }));
+      trackPendingTransaction(pending('0xddd1'));
+      releasePendingTransaction('0xddd1');
+
+      stop = startPendingTransactionWatcher();
+      await vi.waitFor(() => expect(updates).toHaveLength(1));
+
+      expect(updates[0]).toMatchObject({ status: 'confirmed', transaction: { hash: '0xddd1' } });
+      expect(mocks.from).toHaveBeenCalledWith('transactions');
+      expect(mocks.update).toHaveBeenCalledWith({ status: 'confirmed', block_number: 42 });
+      expect(mocks.eq).toHaveBeenCalledWith('transaction_hash', '0xddd1');
+      expect(mocks.syncProjectWithChain).toHaveBeenCalledWith('project-1');
+      expect(getPendingTransactions()).toEqual([]);
+    });
+
+    it('links the escrow a finished deployment created to its draft', async () => {
+      const factoryInterface = new Interface(ESCROW_FACTORY_ABI);
+      const log = factoryInterface.encodeEventLog('EscrowDeployed', [ESCROW, CLIENT, FREELANCER]);
+      vi.spyOn(JsonRpcProvider.prototype, 'getTransactionReceipt')
+        .mockResolvedValue(receipt({ logs: [log] as unknown as TransactionReceipt['logs'] }));
+      trackPendingTransaction(pending('0xeee1', { kind: 'deploy' }));
+      releasePendingTransaction('0xeee1');
+
+      stop = startPendingTransactionWatcher();
+      await vi.waitFor(() => expect(updates).toHaveLength(1));
+
+      expect(mocks.attachProjectEscrow).toHaveBeenCalledWith('project-1', ESCROW, '0xeee1');
+      expect(updates[0]).toMatchObject({ status: 'confirmed', contractAddress: ESCROW });
+    });
+
+    it('drops a hash the node has long stopped knowing', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(JsonRpcProvider.prototype, 'getTransactionReceipt').mockResolvedValue(null);
+      vi.spyOn(JsonRpcProvider.prototype, 'getTransaction').mockResolvedValue(null as unknown as TransactionResponse);
+      trackPendingTransaction(pending('0xfff1', { createdAt: Date.now() - 31 * 60 * 1000 }));
+      trackPendingTransaction(pending('0xfff2'));
+      releasePendingTransaction('0xfff1');
+      releasePendingTransaction('0xfff2');
+
+      stop = startPendingTransactionWatcher();
+      await vi.waitFor(() => expect(updates).toHaveLength(1));
+
+      expect(updates[0]).toMatchObject({ status: 'dropped', transaction: { hash: '0xfff1' } });
+      // A recent hash may still be waiting in the mempool
+      expect(getPendingTransactions().map(tx => tx.hash)).toEqual(['0xfff2']);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+// Pending transaction tracker
+// Hashes are saved to localStorage as soon as the wallet returns them, so a reload or a slow
+// RPC never loses a deployment or payment; a background watcher applies the outcome once mined
+
+import { JsonRpcProvider, TransactionReceipt } from 'ethers';
+import { supabase } from './supabase';
+import { syncProjectWithChain } from './indexer';
+import { attachProjectEscrow } from './projects';
+import { getNetworkByChainId } from './networks';
+import { getDeployedEscrowAddress } from './escrow-factory';
+
+export type PendingTransactionKind = 'deploy' | 'deposit' | 'verify' | 'release' | 'cancel';
+
+export interface PendingTransactionContext {
+  kind: PendingTransactionKind;
+  projectId?: string;
+  milestoneId?: string;
+}
+
+export interface PendingTransaction extends PendingTransactionContext {
+  hash: string;
+  chainId: number;
+  createdAt: number;
+}
+
+export interface PendingTransactionUpdate {
+  transaction: PendingTransaction;
+  status: 'confirmed' | 'failed' | 'dropped';
+  contractAddress?: string | null;
+}
+
+const STORAGE_KEY = 'freelance-pay:pending-transactions';
+const POLL_INTERVAL_MS = 10000;
+// A hash the node still does not know after this long was dropped or replaced in the wallet
+const DROP_AFTER_MS = 30 * 60 * 1000;
+
+const listeners = new Set<(update: PendingTransactionUpdate) => void>();
+const providers = new Map<number, JsonRpcProvider>();
+// Hashes a send call in this tab is still waiting on; the watcher leaves those alone
+const awaitedHashes = new Set<string>();
+
+function readPending(): PendingTransaction[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Could not read pending transactions:', error);
+    return [];
+  }
+}
+
+function writePending(transactions: PendingTransaction[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.warn('Could not save pending transactions:', error);
+  }
+}
+
+export function getPendingTransactions(projectId?: string): PendingTransaction[] {
+  const pending = readPending();
+  return projectId ? pending.filter(tx => tx.projectId === projectId) : pending;
+}
+
+/**
+ * Records a transaction the moment it is broadcast. The sender keeps ownership until it
+ * either removes the entry or hands it to the watcher with releasePendingTransaction.
+ */
+export function trackPendingTransaction(transaction: PendingTransaction) {
+  const hash = transaction.hash.toLowerCase();
+  awaitedHashes.add(hash);
+  writePending([
+    ...readPending().filter(tx => tx.hash.toLowerCase() !== hash),
+    transaction,
+  ]);
+}
+
+// Links an already-tracked transaction to records created after it was sent
+export function attachPendingTransaction(hash: string, context: Partial<PendingTransactionContext>) {
+  writePending(
+    readPending().map(tx =>
+      tx.hash.toLowerCase() === hash.toLowerCase() ? { ...tx, ...context } : tx
+    )
+  );
+}
+
+export function releasePendingTransaction(hash: string) {
+  awaitedHashes.delete(hash.toLowerCase());
+}
+
+export function removePendingTransaction(hash: string) {
+  awaitedHashes.delete(hash.toLowerCase());
+  writePending(readPending().filter(tx => tx.hash.toLowerCase() !== hash.toLowerCase()));
+}
+
+export function onPendingTransactionUpdate(listener: (update: PendingTransactionUpdate) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getReadProvider(chainId: number): JsonRpcProvider | null {
+  const network = getNetworkByChainId(chainId);
+  if (!network) return null;
+
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = new JsonRpcProvider(network.rpcUrl, chainId, { staticNetwork: true });
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+async function applyReceipt(transaction: PendingTransaction, receipt: TransactionReceipt) {
+  const succeeded = receipt.status === 1;
+
+  if (transaction.kind === 'deploy') {
+    const escrowAddress = succeeded ? getDeployedEscrowAddress(receipt) : null;
+    if (escrowAddress && transaction.projectId) {
+      try {
+        await attachProjectEscrow(transaction.projectId, escrowAddress, transaction.hash);
+      } catch (error) {
+        // The draft was discarded or linked to another escrow in the meantime
+        console.warn(`Could not link escrow ${escrowAddress} to project ${transaction.projectId}:`, error);
+      }
+    } else if (escrowAddress) {
+      console.warn(`Escrow ${escrowAddress} deployed but no project was saved for it`);
+    }
+  } else {
+    await supabase
+      .from('transactions')
+      .update({
+        status: succeeded ? 'confirmed' : 'failed',
+        block_number: receipt.blockNumber,
+      })
+      .eq('transaction_hash', transaction.hash);
+  }
+
+  // The indexer moves milestone and project statuses forward from the escrow's events
+  if (transaction.projectId) {
+    await syncProjectWithChain(transaction.projectId);
+  }
+
+  return succeeded;
+}
+
+async function checkPendingTransaction(transaction: PendingTransaction) {
+  const provider = getReadProvider(transaction.chainId);
+  if (!provider) return;
+
+  const receipt = await provider.getTransactionReceipt(transaction.hash);
+
+  if (!receipt) {
+    if (Date.now() - transaction.createdAt < DROP_AFTER_MS) return;
+
+    const known = await provider.getTransaction(transaction.hash);
+    if (known) return;
+
+    console.warn(`Pending ${transaction.kind} transaction ${transaction.hash} was dropped`);
+    removePendingTransaction(transaction.hash);
+    listeners.forEach(listener => listener({ transaction, status: 'dropped' }));
+    return;
+  }
+
+  // A deploy that confirmed before its project row existed waits to be attached
+  if (transaction.kind === 'deploy' && !transaction.projectId && Date.now() - transaction.createdAt < DROP_AFTER_MS) {
+    return;
+  }
+
+  const succeeded = await applyReceipt(transaction, receipt);
+  removePendingTransaction(transaction.hash);
+  console.log(`✅ Pending ${transaction.kind} transaction ${transaction.hash} ${succeeded ? 'confirmed' : 'failed'}`);
+  listeners.forEach(listener =>
+    listener({
+      transaction,
+      status: succeeded ? 'confirmed' : 'failed',
+      contractAddress: transaction.kind === 'deploy' ? getDeployedEscrowAddress(receipt) : null,
+    })
+  );
+}
+
+/**
+ * Polls every stored pending transaction until it is mined or dropped
+ * @returns A function that stops the watcher
+ */
+export function startPendingTransactionWatcher(): () => void {
+  let running = false;
+
+  const poll = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      for (const transaction of readPending()) {
+        if (awaitedHashes.has(transaction.hash.toLowerCase())) continue;
+
+        try {
+          await checkPendingTransaction(transaction);
+        } catch (error) {
+          console.warn(`Could not check pending transaction ${transaction.hash}:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  poll();
+  const interval = setInterval(poll, POLL_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,70 @@
+// Project teams
+// A project's freelancers are its lead (projects.freelancer_id) and any team members. Each milestone
+// can be assigned to one or more of them by share; the escrow splits that milestone's payouts between
+// their wallets, and a milestone without assignees pays the lead.
+
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type ProjectMemberRow = Database['public']['Tables']['project_members']['Row'] & {
+  profiles: { full_name: string; email: string } | null;
+};
+
+// An entry of milestones.payees
+export interface MilestonePayee {
+  freelancer_id: string;
+  wallet_address: string;
+  share_bps: number;
+}
+
+export function getMilestonePayees(milestone: { payees?: unknown }): MilestonePayee[] {
+  return Array.isArray(milestone.payees) ? (milestone.payees as MilestonePayee[]) : [];
+}
+
+// The user's share of a milestone's payouts, in basis points
+export function getMemberShareBps(
+  project: { freelancer_id: string | null },
+  milestone: { payees?: unknown },
+  userId: string
+): number {
+  const payees = getMilestonePayees(milestone);
+  if (payees.length === 0) {
+    return project.freelancer_id === userId ? 10000 : 0;
+  }
+  return payees
+    .filter(payee => payee.freelancer_id === userId)
+    .reduce((sum, payee) => sum + payee.share_bps, 0);
+}
+
+// The lead and a milestone's assignees can submit it and claim its payment
+export function isMilestoneFreelancer(
+  project: { freelancer_id: string | null },
+  milestone: { payees?: unknown },
+  userId: string | undefined
+): boolean {
+  if (!userId) return false;
+  return project.freelancer_id === userId || getMilestonePayees(milestone).some(payee => payee.freelancer_id === userId);
+}
+
+// A project's team, lead first
+export async function getProjectMembers(projectId: string): Promise<ProjectMemberRow[]> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*, profiles(full_name, email)')
+    .eq('project_id', projectId)
+    .order('role')
+    .order('created_at');
+  if (error) throw new Error(error.message);
+  return (data || []) as unknown as ProjectMemberRow[];
+}
+
+// Projects the user works on as a team member rather than as lead
+export async function getTeamProjectIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('project_id')
+    .eq('freelancer_id', userId)
+    .eq('role', 'member');
+  if (error) throw new Error(error.message);
+  return ((data || []) as { project_id: string }[]).map(row => row.project_id);
+}
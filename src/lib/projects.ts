@@ -0,0 +1,90 @@
+// Project creation
+// A project and its milestones are written as one draft before the escrow is deployed, so a failed
+// or abandoned deployment never leaves a contract without a project or a project without milestones.
+
+import { callRpc } from './supabase';
+import type { Database, Json } from './database.types';
+import type { PlatformFee } from './fees';
+
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+
+export interface DraftProjectInput {
+  title: string;
+  description: string;
+  // The lead freelancer
+  freelancerId: string;
+  // Other freelancers on the team
+  memberIds: string[];
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  chainId: number;
+  githubRepoUrl: string;
+  arbiterAddress: string;
+  // Fund the escrow a few milestones at a time instead of all at once
+  stagedFunding: boolean;
+  // The fee the escrow is deployed with
+  platformFee: PlatformFee;
+}
+
+export interface DraftMilestoneInput {
+  title: string;
+  description: string;
+  amount: string;
+  verificationType: string;
+  verificationConfig: Record<string, unknown>;
+  reviewPeriodSeconds: number;
+  // Team members the milestone's payouts are split between; empty pays the lead
+  payees: { freelancerId: string; shareBps: number }[];
+}
+
+// Inserts the draft project and its pending milestones in one transaction
+export function createDraftProject(project: DraftProjectInput, milestones: DraftMilestoneInput[]): Promise<ProjectRow> {
+  return callRpc('create_project', {
+    p_project: {
+      title: project.title,
+      description: project.description,
+      freelancer_id: project.freelancerId,
+      members: project.memberIds.map(id => ({ freelancer_id: id })),
+      token_address: project.tokenAddress,
+      token_symbol: project.tokenSymbol,
+      token_decimals: project.tokenDecimals,
+      chain_id: project.chainId,
+      github_repo_url: project.githubRepoUrl,
+      arbiter_address: project.arbiterAddress,
+      staged_funding: project.stagedFunding,
+      platform_fee_bps: project.platformFee.bps,
+      platform_fee_recipient: project.platformFee.recipient || null,
+    },
+    p_milestones: milestones.map(m => ({
+      title: m.title,
+      description: m.description,
+      amount: m.amount,
+      verification_type: m.verificationType,
+      verification_config: m.verificationConfig as Json,
+      review_period_seconds: m.reviewPeriodSeconds,
+      payees: m.payees.map(p => ({ freelancer_id: p.freelancerId, share_bps: p.shareBps })),
+    })),
+  });
+}
+
+/**
+ * Client: links a draft to its escrow and starts the first milestone
+ * @param escrowAddress - Null while the deployment is still confirming; only the hash is recorded
+ */
+export function attachProjectEscrow(
+  projectId: string,
+  escrowAddress: string | null,
+  deploymentTxHash: string | null = null
+): Promise<ProjectRow> {
+  return callRpc('attach_project_escrow', {
+    p_project_id: projectId,
+    p_escrow_address: escrowAddress,
+    p_deployment_tx_hash: deploymentTxHash,
+  });
+}
+
+// Client: deletes a draft whose escrow was never deployed
+export function discardDraftProject(projectId: string) {
+  return callRpc('discard_draft_project', { p_project_id: projectId });
+}
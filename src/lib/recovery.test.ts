@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ZeroAddress, parseUnits } from 'ethers';
+import { EscrowSnapshot, RecoveryProject, compareEscrowToProject, escrowMatchesProject, getEscrowCondition } from './recovery';
+
+// The comparison is pure; only the scans query the database
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const CLIENT = '0x1111111111111111111111111111111111111111';
+const FREELANCER = '0x2222222222222222222222222222222222222222';
+const ARBITER = '0xabababababababababababababababababababab';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+const OTHER = '0x5555555555555555555555555555555555555555';
+
+const wallets = { client: CLIENT, freelancer: FREELANCER };
+
+function makeProject(overrides: Partial<RecoveryProject> = {}): RecoveryProject {
+  return {
+    id: 'project-1',
+    title: 'Landing page',
+    description: '',
+    client_id: 'client-1',
+    freelancer_id: 'freelancer-1',
+    total_amount: 150.5,
+    token_address: TOKEN,
+    token_symbol: 'USDC',
+    token_decimals: 6,
+    chain_id: 1983,
+    deployment_tx_hash: null,
+    escrow_contract_address: null,
+    github_repo_url: null,
+    commit_count: null,
+    latest_commit_sha: null,
+    latest_commit_url: null,
+    arbiter_address: ARBITER,
+    staged_funding: false,
+    platform_fee_bps: 250,
+    platform_fee_recipient: OTHER,
+    last_indexed_block: null,
+    status: 'draft',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    // Out of order, as the rows may come back
+    milestones: [
+      { amount: 50.5, order_index: 1 },
+      { amount: 100, order_index: 0 },
+    ],
+    ...overrides,
+  };
+}
+
+function makeEscrow(overrides: Partial<EscrowSnapshot> = {}): EscrowSnapshot {
+  return {
+    address: OTHER,
+    chainId: 1983,
+    client: CLIENT,
+    freelancer: FREELANCER,
+    // Addresses compare the same whatever their case
+    arbiter: '0xABABABABABABABABABABABABABABABABABABABAB',
+    paymentToken: TOKEN,
+    totalAmount: parseUnits('150.5', 6),
+    balance: 0n,
+    isActive: false,
+    milestoneAmounts: [parseUnits('100', 6), parseUnits('50.5', 6)],
+    feeBps: 250,
+    feeRecipient: OTHER,
+    ...overrides,
+  };
+}
+
+describe('compareEscrowToProject', () => {
+  it('finds nothing when the escrow has the project terms', () => {
+    expect(compareEscrowToProject(makeEscrow(), makeProject(), wallets)).toEqual([]);
+    expect(escrowMatchesProject(makeEscrow(), makeProject(), wallets)).toBe(true);
+  });
+
+  it('blocks an escrow deployed for another client', () => {
+    const mismatches = compareEscrowToProject(makeEscrow({ client: OTHER }), makeProject(), wallets);
+
+    expect(mismatches).toEqual([{ field: 'Client', expected: CLIENT, actual: OTHER, blocking: true }]);
+  });
+
+  it('reports other differing terms without blocking', () => {
+    const escrow = makeEscrow({ freelancer: OTHER, arbiter: OTHER, paymentToken: ZeroAddress, feeBps: 0 });
+    const mismatches = compareEscrowToProject(escrow, makeProject(), wallets);
+
+    expect(mismatches.map((m) => m.field)).toEqual(['Freelancer', 'Payment token', 'Arbiter', 'Platform fee (basis points)']);
+    expect(mismatches.every((m) => !m.blocking)).toBe(true);
+  });
+
+  it('expects the native token when the project has no token address', () => {
+    const project = makeProject({ token_address: null, token_decimals: 18, milestones: [{ amount: 1, order_index: 0 }] });
+    const escrow = makeEscrow({ paymentToken: ZeroAddress, milestoneAmounts: [parseUnits('1', 18)] });
+
+    expect(compareEscrowToProject(escrow, project, wallets)).toEqual([]);
+  });
+
+  it('compares milestone amounts in the token base units', () => {
+    const escrow = makeEscrow({ milestoneAmounts: [parseUnits('100', 6), parseUnits('50.4', 6)] });
+
+    expect(compareEscrowToProject(escrow, makeProject(), wallets)).toEqual([
+      { field: 'Milestone 2 amount', expected: '50.5', actual: '50.4', blocking: false },
+    ]);
+  });
+
+  it('reports a different milestone count instead of comparing amounts', () => {
+    const escrow = makeEscrow({ milestoneAmounts: [parseUnits('150.5', 6)] });
+
+    expect(compareEscrowToProject(escrow, makeProject(), wallets)).toEqual([
+      { field: 'Milestone count', expected: '2', actual: '1', blocking: false },
+    ]);
+  });
+
+  it('never matches amounts with more decimals than the token', () => {
+    const project = makeProject({ milestones: [{ amount: 0.0000001, order_index: 0 }] });
+    const escrow = makeEscrow({ milestoneAmounts: [0n] });
+
+    expect(compareEscrowToProject(escrow, project, wallets).map((m) => m.field)).toEqual(['Milestone 1 amount']);
+  });
+
+  it('blocks an escrow that takes a different fee from the platform', () => {
+    const platformFee = { bps: 250, recipient: OTHER };
+    expect(compareEscrowToProject(makeEscrow(), makeProject(), wallets, platformFee)).toEqual([]);
+
+    const skipped = makeEscrow({ feeBps: 0, feeRecipient: ZeroAddress });
+    expect(compareEscrowToProject(skipped, makeProject({ platform_fee_bps: 0 }), wallets, platformFee)).toEqual([
+      { field: 'Platform fee', expected: `2.5% to ${OTHER}`, actual: 'No fee', blocking: true },
+    ]);
+
+    const redirected = makeEscrow({ feeRecipient: CLIENT });
+    expect(escrowMatchesProject(redirected, makeProject(), wallets, platformFee)).toBe(false);
+    // Without a factory to compare against, only the project's recorded rate is checked
+    expect(escrowMatchesProject(redirected, makeProject(), wallets)).toBe(true);
+  });
+
+  it('reports missing profile wallets as not set', () => {
+    const mismatches = compareEscrowToProject(makeEscrow(), makeProject(), { client: CLIENT, freelancer: null });
+
+    expect(mismatches).toEqual([{ field: 'Freelancer', expected: 'not set', actual: FREELANCER, blocking: false }]);
+  });
+});
+
+describe('getEscrowCondition', () => {
+  it('tells active, unfunded and stuck escrows apart', () => {
+    expect(getEscrowCondition(makeEscrow({ isActive: true, balance: 1n }))).toBe('active');
+    expect(getEscrowCondition(makeEscrow())).toBe('unfunded');
+    expect(getEscrowCondition(makeEscrow({ balance: 1n }))).toBe('stuck');
+  });
+});
@@ -0,0 +1,365 @@
+// Escrow recovery
+// Finds escrows the client deployed that are missing from, or stuck on, their projects. The escrow
+// factory lists every escrow it created for the client; escrows deployed directly before the factory
+// existed are found by replaying the client's recent nonces, since contract addresses follow from
+// the deployer and nonce. Each escrow is read back and matched to projects by its parties, token and
+// milestone amounts.
+
+import { Contract, JsonRpcProvider, ZeroAddress, formatUnits, getAddress, getCreateAddress, isAddress, parseUnits } from 'ethers';
+import { ESCROW_ABI } from '../contracts/escrow-abi';
+import { NetworkConfig, getProjectNetwork } from './networks';
+import { getPendingTransactions } from './pending-transactions';
+import { getFactoryEscrows, getFactoryTerms, isFactoryEscrow } from './escrow-factory';
+import { PlatformFee, formatFeePercent } from './fees';
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+// How far back the client's nonces are replayed for escrows deployed without the factory
+const SCAN_NONCE_LIMIT = 200;
+const SCAN_BATCH_SIZE = 10;
+
+export type RecoveryProject = Database['public']['Tables']['projects']['Row'] & {
+  milestones: { amount: number; order_index: number }[];
+};
+
+export interface EscrowSnapshot {
+  address: string;
+  chainId: number;
+  client: string;
+  freelancer: string;
+  arbiter: string;
+  paymentToken: string;
+  totalAmount: bigint;
+  balance: bigint;
+  isActive: boolean;
+  milestoneAmounts: bigint[];
+  feeBps: number;
+  feeRecipient: string;
+}
+
+/**
+ * - active: funded through depositFunds
+ * - unfunded: deployed but never funded (or cancelled and emptied)
+ * - stuck: holds funds without being active, which happens when funds were sent directly; escrows
+ *   now revert direct native transfers, so only older escrows and stray ERC20 transfers get here
+ */
+export type EscrowCondition = 'active' | 'unfunded' | 'stuck';
+
+export interface RecoveredEscrow {
+  escrow: EscrowSnapshot;
+  condition: EscrowCondition;
+  // The project already pointing at this escrow
+  linkedProject: RecoveryProject | null;
+  // Projects without an escrow whose parties, token and milestone amounts match it
+  matches: RecoveryProject[];
+}
+
+export interface RecoveryScan {
+  network: NetworkConfig;
+  walletAddress: string;
+  escrows: RecoveredEscrow[];
+  // Drafts with no escrow, no matching deployment and no deployment still confirming
+  abandonedDrafts: RecoveryProject[];
+}
+
+export function getEscrowCondition(escrow: EscrowSnapshot): EscrowCondition {
+  if (escrow.isActive) return 'active';
+  return escrow.balance > 0n ? 'stuck' : 'unfunded';
+}
+
+// Reads an escrow's terms; null when the address holds no FreelanceEscrow
+export async function readEscrowSnapshot(
+  provider: JsonRpcProvider,
+  address: string,
+  chainId: number
+): Promise<EscrowSnapshot | null> {
+  const contract = new Contract(address, ESCROW_ABI, provider);
+
+  try {
+    const [client, freelancer, arbiter, paymentToken, totalAmount, isActive, balance, count] = await Promise.all([
+      contract.client(),
+      contract.freelancer(),
+      contract.arbiter(),
+      contract.paymentToken(),
+      contract.totalAmount(),
+      contract.isActive(),
+      contract.getRemainingBalance(),
+      contract.getMilestoneCount(),
+    ]);
+
+    const milestones = await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => contract.getMilestone(index))
+    );
+    // Escrows deployed before the platform fee have no feeBps and take no fee
+    const feeBps: bigint = await contract.feeBps().catch(() => 0n);
+    const feeRecipient: string = await contract.feeRecipient().catch(() => ZeroAddress);
+
+    return {
+      address: getAddress(address),
+      chainId,
+      client: getAddress(client),
+      freelancer: getAddress(freelancer),
+      arbiter: getAddress(arbiter),
+      paymentToken: getAddress(paymentToken),
+      totalAmount,
+      balance,
+      isActive,
+      milestoneAmounts: milestones.map(m => m.amount as bigint),
+      feeBps: Number(feeBps),
+      feeRecipient: getAddress(feeRecipient),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+export interface EscrowMismatch {
+  field: string;
+  expected: string;
+  actual: string;
+  // A blocking mismatch means the escrow cannot serve this project at all
+  blocking: boolean;
+}
+
+export interface EscrowValidation {
+  escrow: EscrowSnapshot | null;
+  mismatches: EscrowMismatch[];
+}
+
+/**
+ * Compares an escrow's on-chain terms with a project's rows
+ * @param wallets - The project's client and freelancer wallets from their profiles
+ * @param platformFee - The fee the network's escrow factory applies, when one is configured
+ */
+export function compareEscrowToProject(
+  escrow: EscrowSnapshot,
+  project: RecoveryProject,
+  wallets: { client: string | null; freelancer: string | null },
+  platformFee: PlatformFee | null = null
+): EscrowMismatch[] {
+  const mismatches: EscrowMismatch[] = [];
+  const decimals = project.token_decimals ?? 18;
+
+  const check = (field: string, expected: string | null, actual: string, blocking: boolean) => {
+    if (!sameAddress(expected, actual)) {
+      mismatches.push({ field, expected: expected || 'not set', actual, blocking });
+    }
+  };
+
+  // Only the client can fund or cancel an escrow, so one deployed for another wallet is useless here
+  check('Client', wallets.client, escrow.client, true);
+  check('Freelancer', wallets.freelancer, escrow.freelancer, false);
+  check('Payment token', project.token_address || ZeroAddress, escrow.paymentToken, false);
+  check('Arbiter', project.arbiter_address, escrow.arbiter, false);
+
+  if ((project.platform_fee_bps ?? 0) !== escrow.feeBps) {
+    mismatches.push({
+      field: 'Platform fee (basis points)',
+      expected: String(project.platform_fee_bps ?? 0),
+      actual: String(escrow.feeBps),
+      blocking: false,
+    });
+  }
+
+  // An escrow that skips or redirects the platform's fee is not linked to a project
+  if (platformFee && (escrow.feeBps !== platformFee.bps || (platformFee.bps > 0 && !sameAddress(escrow.feeRecipient, platformFee.recipient)))) {
+    mismatches.push({
+      field: 'Platform fee',
+      expected: formatFee(platformFee.bps, platformFee.recipient),
+      actual: formatFee(escrow.feeBps, escrow.feeRecipient),
+      blocking: true,
+    });
+  }
+
+  const milestones = [...(project.milestones || [])].sort((a, b) => a.order_index - b.order_index);
+  if (milestones.length !== escrow.milestoneAmounts.length) {
+    mismatches.push({
+      field: 'Milestone count',
+      expected: String(milestones.length),
+      actual: String(escrow.milestoneAmounts.length),
+      blocking: false,
+    });
+  } else {
+    milestones.forEach((m, index) => {
+      let expected: bigint | null = null;
+      try {
+        expected = parseUnits(String(m.amount), decimals);
+      } catch {
+        // An amount with more decimals than the token never matches
+      }
+      if (expected !== escrow.milestoneAmounts[index]) {
+        mismatches.push({
+          field: `Milestone ${index + 1} amount`,
+          expected: String(m.amount),
+          actual: formatUnits(escrow.milestoneAmounts[index], decimals),
+          blocking: false,
+        });
+      }
+    });
+  }
+
+  return mismatches;
+}
+
+function formatFee(bps: number, recipient: string) {
+  return bps > 0 ? `${formatFeePercent(bps)} to ${recipient}` : 'No fee';
+}
+
+// True when the escrow was deployed with this project's parties, token, milestone amounts and platform fee
+export function escrowMatchesProject(
+  escrow: EscrowSnapshot,
+  project: RecoveryProject,
+  wallets: { client: string | null; freelancer: string | null },
+  platformFee: PlatformFee | null = null
+): boolean {
+  return compareEscrowToProject(escrow, project, wallets, platformFee).length === 0;
+}
+
+/**
+ * Reads an address on the project's network and checks it is an escrow with the project's terms.
+ * Throws only for a malformed address; everything else is reported as a mismatch.
+ */
+export async function validateEscrowForProject(
+  address: string,
+  project: RecoveryProject,
+  wallets: { client: string | null; freelancer: string | null }
+): Promise<EscrowValidation> {
+  if (!isAddress(address)) {
+    throw new Error(`${address} is not a valid address`);
+  }
+
+  const network = getProjectNetwork(project.chain_id);
+  const provider = new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+
+  const code = await provider.getCode(address);
+  if (code === '0x') {
+    return {
+      escrow: null,
+      mismatches: [{ field: 'Bytecode', expected: 'A deployed contract', actual: `Nothing deployed on ${network.name}`, blocking: true }],
+    };
+  }
+
+  const escrow = await readEscrowSnapshot(provider, address, network.chainId);
+  if (!escrow) {
+    return {
+      escrow: null,
+      mismatches: [{ field: 'Contract', expected: 'FreelanceEscrow', actual: 'A different contract', blocking: true }],
+    };
+  }
+
+  const mismatches = compareEscrowToProject(
+    escrow,
+    project,
+    wallets,
+    (await getFactoryTerms(network, provider))?.platformFee ?? null
+  );
+  // Escrows deployed before the factory existed are still accepted
+  if ((await isFactoryEscrow(provider, network, address)) === false) {
+    mismatches.push({ field: 'Escrow factory', expected: 'Created by the escrow factory', actual: 'Deployed directly', blocking: false });
+  }
+
+  return { escrow, mismatches };
+}
+
+// Addresses of every contract the wallet created within its last SCAN_NONCE_LIMIT transactions
+async function findDeployedContracts(provider: JsonRpcProvider, walletAddress: string): Promise<string[]> {
+  const nonce = await provider.getTransactionCount(walletAddress, 'latest');
+  const candidates: string[] = [];
+  for (let n = Math.max(0, nonce - SCAN_NONCE_LIMIT); n < nonce; n++) {
+    candidates.push(getCreateAddress({ from: walletAddress, nonce: n }));
+  }
+
+  const deployed: string[] = [];
+  for (let i = 0; i < candidates.length; i += SCAN_BATCH_SIZE) {
+    const batch = candidates.slice(i, i + SCAN_BATCH_SIZE);
+    const codes = await Promise.all(batch.map(address => provider.getCode(address)));
+    batch.forEach((address, index) => {
+      if (codes[index] !== '0x') deployed.push(address);
+    });
+  }
+  return deployed;
+}
+
+/**
+ * Scans one network for the client's escrows and matches them to the client's projects
+ * @param clientId - The signed-in client's profile id
+ * @param walletAddress - The wallet the client deploys escrows from
+ */
+export async function scanClientEscrows(
+  clientId: string,
+  walletAddress: string,
+  network: NetworkConfig
+): Promise<RecoveryScan> {
+  const provider = new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*, milestones(amount, order_index)')
+    .eq('client_id', clientId)
+    .eq('chain_id', network.chainId);
+  if (error) throw new Error(error.message);
+  const projects = (data || []) as unknown as RecoveryProject[];
+
+  const freelancerIds = [...new Set(projects.map(p => p.freelancer_id).filter((id): id is string => !!id))];
+  const { data: freelancers } = freelancerIds.length
+    ? await supabase.from('profiles').select('id, wallet_address').in('id', freelancerIds)
+    : { data: [] };
+  const freelancerWallets = new Map<string, string | null>(
+    ((freelancers || []) as { id: string; wallet_address: string | null }[]).map(f => [f.id, f.wallet_address])
+  );
+
+  // Linked escrows are checked too, in case another wallet deployed them
+  const addresses = new Map<string, string>();
+  for (const address of await getFactoryEscrows(provider, network, walletAddress, 'client')) {
+    addresses.set(address.toLowerCase(), address);
+  }
+  for (const address of await findDeployedContracts(provider, walletAddress)) {
+    addresses.set(address.toLowerCase(), address);
+  }
+  for (const project of projects) {
+    if (project.escrow_contract_address) {
+      addresses.set(project.escrow_contract_address.toLowerCase(), project.escrow_contract_address);
+    }
+  }
+
+  const platformFee = (await getFactoryTerms(network, provider))?.platformFee ?? null;
+  const escrows: RecoveredEscrow[] = [];
+  for (const address of addresses.values()) {
+    const escrow = await readEscrowSnapshot(provider, address, network.chainId);
+    if (!escrow || !sameAddress(escrow.client, walletAddress)) continue;
+
+    const linkedProject = projects.find(p => sameAddress(p.escrow_contract_address, escrow.address)) ?? null;
+    const matches = linkedProject
+      ? []
+      : projects.filter(p =>
+          !p.escrow_contract_address &&
+          p.status === 'draft' &&
+          escrowMatchesProject(escrow, p, {
+            client: walletAddress,
+            freelancer: freelancerWallets.get(p.freelancer_id ?? '') ?? null,
+          }, platformFee)
+        );
+
+    escrows.push({ escrow, condition: getEscrowCondition(escrow), linkedProject, matches });
+  }
+
+  const matchedIds = new Set(escrows.flatMap(e => e.matches.map(p => p.id)));
+  const abandonedDrafts: RecoveryProject[] = [];
+  for (const project of projects) {
+    if (project.status !== 'draft' || project.escrow_contract_address || matchedIds.has(project.id)) continue;
+    if (getPendingTransactions(project.id).some(tx => tx.kind === 'deploy')) continue;
+
+    // A recorded deployment only counts as abandoned once it has failed on-chain
+    if (project.deployment_tx_hash) {
+      const receipt = await provider.getTransactionReceipt(project.deployment_tx_hash);
+      if (!receipt || receipt.status === 1) continue;
+    }
+    abandonedDrafts.push(project);
+  }
+
+  return { network, walletAddress, escrows, abandonedDrafts };
+}
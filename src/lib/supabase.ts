@@ -9,3 +9,31 @@ if (!supabaseUrl || !supabaseAnonKey) {
 }
 
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+
+// Headers for calling an edge function as the signed-in user, so the function knows who is asking
+export async function getFunctionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Sign in to continue');
+  }
+
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: supabaseAnonKey,
+    'Content-Type': 'application/json',
+  };
+}
+
+type DatabaseFunctions = Database['public']['Functions'];
+
+// Calls a database function, turning its error into a thrown Error
+export async function callRpc<Name extends keyof DatabaseFunctions>(
+  name: Name,
+  args: DatabaseFunctions[Name]['Args']
+): Promise<DatabaseFunctions[Name]['Returns']> {
+  const { data, error } = await supabase.rpc(name, args);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+}
@@ -1,4 +1,9 @@
+import { ContractFactory, parseUnits } from 'ethers';
 import { supabase } from './supabase';
+import { getSigner } from './web3';
+import { deployContract } from './transactions';
+import { NetworkConfig } from './networks';
+import { PROJECT_TOKEN_ABI, PROJECT_TOKEN_BYTECODE } from '../contracts/project-token-abi';
 
 export interface TokenConfig {
   name: string;
@@ -7,30 +12,61 @@ export interface TokenConfig {
   decimals: number;
 }
 
+/**
+ * Deploys a project's token and records it
+ * @param targetNetwork - The project's network; the deployment refuses to go out on any other
+ */
 export async function createProjectToken(
   projectId: string,
-  config: TokenConfig
+  config: TokenConfig,
+  targetNetwork: NetworkConfig
 ): Promise<{ tokenAddress: string; transactionHash: string }> {
-  const generateRandomAddress = () => {
-    const bytes = new Uint8Array(20);
-    crypto.getRandomValues(bytes);
-    return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-  };
+  if (!config.name.trim() || !config.symbol.trim()) {
+    throw new Error('Token name and symbol are required');
+  }
+
+  const supplyUnits = parseUnits(config.totalSupply, config.decimals);
+  if (supplyUnits <= 0n) {
+    throw new Error('Token supply must be positive');
+  }
+
+  const signer = await getSigner();
+  const ownerAddress = await signer.getAddress();
 
-  const tokenAddress = generateRandomAddress();
+  console.log('Deploying project token:', {
+    name: config.name,
+    symbol: config.symbol,
+    decimals: config.decimals,
+    totalSupply: config.totalSupply,
+    owner: ownerAddress,
+    network: targetNetwork.name,
+  });
 
-  await supabase.from('project_tokens').insert({
+  const factory = new ContractFactory(PROJECT_TOKEN_ABI, PROJECT_TOKEN_BYTECODE, signer);
+  const { address: tokenAddress, hash } = await deployContract(
+    factory,
+    [config.name.trim(), config.symbol.trim(), config.decimals, supplyUnits],
+    { network: targetNetwork, label: 'project token deployment' }
+  );
+
+  console.log('✅ Project token deployed at:', tokenAddress);
+
+  const { error } = await supabase.from('project_tokens').insert({
     project_id: projectId,
     token_address: tokenAddress,
-    token_name: config.name,
-    token_symbol: config.symbol,
+    token_name: config.name.trim(),
+    token_symbol: config.symbol.trim(),
     total_supply: parseFloat(config.totalSupply),
     decimals: config.decimals,
+    transaction_hash: hash,
+    owner_address: ownerAddress,
   });
 
+  if (error) throw error;
+
   return {
     tokenAddress,
-    transactionHash: `0x${Math.random().toString(16).substring(2)}`,
+    transactionHash: hash,
   };
 }
 
@@ -0,0 +1,100 @@
+// Payment token registry
+// Native QIE is built in; ERC20 tokens are looked up on-chain and remembered locally
+
+import { Contract, getAddress, isAddress } from 'ethers';
+import { getProvider } from './web3';
+
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export const NATIVE_TOKEN: PaymentToken = {
+  address: NATIVE_TOKEN_ADDRESS,
+  symbol: 'QIE',
+  name: 'QIE (native)',
+  decimals: 18,
+};
+
+const STORAGE_KEY = 'freelance-pay:known-tokens';
+
+const ERC20_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+];
+
+export function isNativeToken(tokenAddress: string | null | undefined): boolean {
+  return !tokenAddress || tokenAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS;
+}
+
+export function getKnownTokens(): PaymentToken[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const saved: PaymentToken[] = stored ? JSON.parse(stored) : [];
+    return [NATIVE_TOKEN, ...saved.filter(t => !isNativeToken(t.address))];
+  } catch (error) {
+    console.warn('Could not read saved tokens:', error);
+    return [NATIVE_TOKEN];
+  }
+}
+
+export function rememberToken(token: PaymentToken) {
+  if (isNativeToken(token.address)) return;
+
+  const saved = getKnownTokens().filter(
+    t => !isNativeToken(t.address) && t.address.toLowerCase() !== token.address.toLowerCase()
+  );
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...saved, token]));
+  } catch (error) {
+    console.warn('Could not save token:', error);
+  }
+}
+
+/**
+ * Reads symbol, name and decimals from an ERC20 contract
+ * @param tokenAddress - The token contract address
+ */
+export async function fetchTokenMetadata(tokenAddress: string): Promise<PaymentToken> {
+  if (!isAddress(tokenAddress)) {
+    throw new Error('Invalid token address');
+  }
+
+  if (isNativeToken(tokenAddress)) {
+    return NATIVE_TOKEN;
+  }
+
+  const address = getAddress(tokenAddress);
+  const provider = await getProvider();
+
+  const code = await provider.getCode(address);
+  if (code === '0x' || code === '0x0') {
+    throw new Error(`No contract found at ${address} on the connected network`);
+  }
+
+  const token = new Contract(address, ERC20_METADATA_ABI, provider);
+
+  try {
+    const [symbol, name, decimals] = await Promise.all([
+      token.symbol(),
+      token.name().catch(() => ''),
+      token.decimals(),
+    ]);
+
+    return {
+      address,
+      symbol,
+      name: name || symbol,
+      decimals: Number(decimals),
+    };
+  } catch (error) {
+    console.error('Error reading token metadata:', error);
+    throw new Error(`Contract at ${address} does not look like an ERC20 token`);
+  }
+}
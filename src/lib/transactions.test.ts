@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AbiCoder, Interface, Provider, Signer, parseUnits } from 'ethers';
+import { getNetworkByChainId } from './networks';
+import { TransactionError, decodeRevertReason, getFeeOverrides, sendTransaction, toTransactionError } from './transactions';
+
+// Only the pending-transaction watcher queries the database
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const QIE_TESTNET = getNetworkByChainId(1983)!;
+const LOCAL = getNetworkByChainId(31337)!;
+
+const abi = AbiCoder.defaultAbiCoder();
+const errorData = (reason: string) => '0x08c379a0' + abi.encode(['string'], [reason]).slice(2);
+const panicData = (code: number) => '0x4e487b71' + abi.encode(['uint256'], [code]).slice(2);
+
+describe('decodeRevertReason', () => {
+  it('decodes Error(string) data however deep the wallet nests it', () => {
+    const error = { message: 'Internal JSON-RPC error', info: { error: { data: errorData('Milestone not funded') } } };
+    expect(decodeRevertReason(error)).toBe('Milestone not funded');
+    expect(decodeRevertReason({ error: { cause: { data: errorData('Only client can call this') } } }))
+      .toBe('Only client can call this');
+  });
+
+  it('decodes panics and custom errors from the contract interface', () => {
+    expect(decodeRevertReason({ data: panicData(0x11) })).toBe('Panic(0x11)');
+
+    const iface = new Interface(['error InsufficientShare(uint256 index, uint256 shareBps)']);
+    const data = iface.encodeErrorResult('InsufficientShare', [2, 9999]);
+    expect(decodeRevertReason({ data }, iface)).toBe('InsufficientShare(2, 9999)');
+  });
+
+  it('prefers the reason ethers already decoded', () => {
+    expect(decodeRevertReason({ revert: { args: ['Escrow is not active'] }, data: errorData('other') }))
+      .toBe('Escrow is not active');
+    expect(decodeRevertReason({ reason: 'Milestone already paid' })).toBe('Milestone already paid');
+  });
+
+  it('falls back to the reason in the message text', () => {
+    expect(decodeRevertReason(new Error('execution reverted: Review period not over')))
+      .toBe('Review period not over');
+  });
+
+  it('finds nothing in errors that are not reverts', () => {
+    expect(decodeRevertReason(new Error('could not coalesce error'))).toBeUndefined();
+    expect(decodeRevertReason({ data: '0x1234' })).toBeUndefined();
+    expect(decodeRevertReason(null)).toBeUndefined();
+  });
+});
+
+describe('toTransactionError', () => {
+  it('tells rejections, missing funds and reverts apart', () => {
+    expect(toTransactionError({ code: 4001, message: 'User denied' }).code).toBe('USER_REJECTED');
+
+    const funds = toTransactionError(new Error('insufficient funds for gas * price + value'), { network: QIE_TESTNET });
+    expect(funds.code).toBe('INSUFFICIENT_FUNDS');
+    expect(funds.message).toContain(QIE_TESTNET.nativeCurrency.symbol);
+
+    const reverted = toTransactionError({ data: errorData('Milestone is disputed') }, { txHash: '0xabc' });
+    expect(reverted).toMatchObject({ code: 'REVERTED', reason: 'Milestone is disputed', txHash: '0xabc' });
+  });
+
+  it('passes TransactionErrors through unchanged', () => {
+    const error = new TransactionError('TIMEOUT', 'Still pending', { txHash: '0xabc' });
+    expect(toTransactionError(error)).toBe(error);
+  });
+});
+
+describe('getFeeOverrides', () => {
+  function fakeProvider(overrides: { getFeeData?: () => Promise<unknown>; send?: () => Promise<unknown> }) {
+    return { getFeeData: vi.fn(overrides.getFeeData), send: vi.fn(overrides.send) } as unknown as Provider;
+  }
+
+  it('uses EIP-1559 fees where the network has them', async () => {
+    const provider = fakeProvider({ getFeeData: async () => ({ maxFeePerGas: 30n, maxPriorityFeePerGas: 2n, gasPrice: 20n }) });
+    expect(await getFeeOverrides(provider, LOCAL)).toEqual({ type: 2, maxFeePerGas: 30n, maxPriorityFeePerGas: 2n });
+  });
+
+  it('falls back to a legacy gas price when fee data is missing or fails', async () => {
+    const gasPriceOnly = fakeProvider({ getFeeData: async () => ({ maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: 20n }) });
+    expect(await getFeeOverrides(gasPriceOnly, LOCAL)).toEqual({ type: 0, gasPrice: 20n });
+
+    const failing = fakeProvider({
+      getFeeData: async () => { throw new Error('method not found'); },
+      send: async () => '0x19',
+    });
+    expect(await getFeeOverrides(failing, LOCAL)).toEqual({ type: 0, gasPrice: 25n });
+  });
+
+  it("never goes below a legacy network's configured gas price", async () => {
+    const floor = parseUnits('7', 'gwei');
+
+    const cheap = fakeProvider({ send: async () => '0x1' });
+    expect(await getFeeOverrides(cheap, QIE_TESTNET)).toEqual({ type: 0, gasPrice: floor });
+
+    const dear = fakeProvider({ send: async () => '0x' + (floor * 2n).toString(16) });
+    expect(await getFeeOverrides(dear, QIE_TESTNET)).toEqual({ type: 0, gasPrice: floor * 2n });
+
+    const down = fakeProvider({ send: async () => { throw new Error('rate limited'); } });
+    expect(await getFeeOverrides(down, QIE_TESTNET)).toEqual({ type: 0, gasPrice: floor });
+  });
+
+  it('fails when no gas price is available at all', async () => {
+    const down = fakeProvider({ getFeeData: async () => { throw new Error('down'); }, send: async () => { throw new Error('down'); } });
+    await expect(getFeeOverrides(down, LOCAL)).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+  });
+});
+
+describe('sendTransaction gas limit', () => {
+  function fakeSigner(estimateGas: () => Promise<bigint>) {
+    const provider = {
+      getNetwork: async () => ({ chainId: 31337n }),
+      getFeeData: async () => ({ maxFeePerGas: 30n, maxPriorityFeePerGas: 2n }),
+      getTransactionReceipt: async () => ({ status: 1, blockNumber: 7 }),
+    };
+    const sent: Record<string, unknown>[] = [];
+    const signer = {
+      provider,
+      getAddress: async () => '0x1111111111111111111111111111111111111111',
+      estimateGas: vi.fn(estimateGas),
+      sendTransaction: vi.fn(async (tx: Record<string, unknown>) => {
+        sent.push(tx);
+        return { hash: '0xfeed' };
+      }),
+    };
+    return { signer: signer as unknown as Signer, sent };
+  }
+
+  const request = { to: '0x2222222222222222222222222222222222222222', data: '0x' };
+
+  it('adds a 20% buffer to the estimate', async () => {
+    const { signer, sent } = fakeSigner(async () => 100000n);
+    await sendTransaction(signer, request, { network: LOCAL });
+    expect(sent[0].gasLimit).toBe(120000n);
+  });
+
+  it('uses the fallback limit when the RPC cannot estimate', async () => {
+    const { signer, sent } = fakeSigner(async () => { throw new Error('eth_estimateGas not supported'); });
+    await sendTransaction(signer, request, { network: LOCAL, fallbackGasLimit: 500000 });
+    expect(sent[0].gasLimit).toBe(500000n);
+  });
+
+  it('does not send a call the estimate shows reverting', async () => {
+    const { signer, sent } = fakeSigner(async () => { throw { data: errorData('Milestone not submitted') }; });
+    await expect(sendTransaction(signer, request, { network: LOCAL }))
+      .rejects.toMatchObject({ code: 'REVERTED', reason: 'Milestone not submitted' });
+    expect(sent).toEqual([]);
+  });
+
+  it('refuses to send on another network', async () => {
+    const { signer, sent } = fakeSigner(async () => 100000n);
+    await expect(sendTransaction(signer, request, { network: QIE_TESTNET }))
+      .rejects.toMatchObject({ code: 'WRONG_NETWORK' });
+    expect(sent).toEqual([]);
+  });
+});
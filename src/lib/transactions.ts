@@ -0,0 +1,491 @@
+// Transaction service
+// Every on-chain write in the app goes through here: gas estimation, fee selection,
+// receipt waiting and revert decoding live in one place instead of per call site
+
+import {
+  AbiCoder,
+  Contract,
+  ContractFactory,
+  Interface,
+  JsonRpcApiProvider,
+  Provider,
+  Signer,
+  TransactionReceipt,
+  TransactionRequest,
+  isError,
+  parseUnits,
+} from 'ethers';
+import { NetworkConfig, getNetworkByChainId } from './networks';
+import {
+  PendingTransactionContext,
+  releasePendingTransaction,
+  removePendingTransaction,
+  trackPendingTransaction,
+} from './pending-transactions';
+
+export type TransactionErrorCode =
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'WRONG_NETWORK'
+  | 'REVERTED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UNKNOWN';
+
+export class TransactionError extends Error {
+  code: TransactionErrorCode;
+  reason?: string;
+  txHash?: string;
+  cause?: unknown;
+
+  constructor(
+    code: TransactionErrorCode,
+    message: string,
+    details: { reason?: string; txHash?: string; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+    this.code = code;
+    this.reason = details.reason;
+    this.txHash = details.txHash;
+    this.cause = details.cause;
+  }
+}
+
+// The fields ethers, wallets and RPC nodes put on the errors they throw; none are guaranteed
+interface ProviderErrorLike {
+  code?: unknown;
+  data?: unknown;
+  error?: unknown;
+  cause?: unknown;
+  info?: { error?: unknown };
+  message?: unknown;
+  shortMessage?: unknown;
+  reason?: unknown;
+  revert?: { args?: unknown[] };
+}
+
+function asProviderError(error: unknown): ProviderErrorLike {
+  return typeof error === 'object' && error !== null ? (error as ProviderErrorLike) : {};
+}
+
+export interface SendOptions {
+  // Network the transaction must be sent on; defaults to whatever the wallet is connected to
+  network?: NetworkConfig;
+  value?: bigint;
+  // Skips estimation when set
+  gasLimit?: bigint | number;
+  // Used when the RPC cannot estimate gas but the call does not look like it reverts
+  fallbackGasLimit?: bigint | number;
+  timeoutMs?: number;
+  label?: string;
+  // Persists the hash so the pending-transaction watcher can finish the job after a timeout or reload
+  track?: PendingTransactionContext;
+}
+
+export interface TransactionResult {
+  hash: string;
+  receipt: TransactionReceipt;
+}
+
+export type FeeOverrides =
+  | { type: 0; gasPrice: bigint }
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+const DEFAULT_FALLBACK_GAS_LIMIT = 300000n;
+const GAS_LIMIT_BUFFER_PERCENT = 120n;
+const DEFAULT_TIMEOUT_MS = 120000;
+const RECEIPT_POLL_INTERVAL_MS = 3000;
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Extracts a human-readable revert reason from an ethers or wallet error
+ * @param error - The error thrown by the provider, signer or wallet
+ * @param iface - Contract interface used to decode custom errors
+ */
+export function decodeRevertReason(error: unknown, iface?: Interface): string | undefined {
+  if (!error) return undefined;
+  const err = asProviderError(error);
+
+  if (err.revert?.args?.length) {
+    return String(err.revert.args[0]);
+  }
+
+  if (typeof err.reason === 'string' && err.reason) {
+    return err.reason;
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    const decoded = decodeRevertData(data, iface);
+    if (decoded) return decoded;
+  }
+
+  // Some wallets only surface the reason inside the message text
+  const messages = [asProviderError(err.info?.error).message, asProviderError(err.error).message, err.message];
+  for (const message of messages) {
+    const match = typeof message === 'string' && /execution reverted:?\s*([^"\n]+)/i.exec(message);
+    if (match && match[1].trim()) {
+      return match[1].trim();
+    }
+  }
+
+  return undefined;
+}
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || depth > 4) return undefined;
+
+  if (typeof error === 'string') {
+    return /^0x[0-9a-fA-F]{8,}$/.test(error) ? error : undefined;
+  }
+
+  if (typeof error !== 'object') return undefined;
+
+  const err = asProviderError(error);
+  for (const candidate of [err.data, err.info?.error, err.error, err.cause]) {
+    const data = findRevertData(candidate, depth + 1);
+    if (data) return data;
+  }
+
+  return undefined;
+}
+
+function decodeRevertData(data: string, iface?: Interface): string | undefined {
+  try {
+    const selector = data.slice(0, 10).toLowerCase();
+
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], '0x' + data.slice(10));
+      return reason;
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], '0x' + data.slice(10));
+      return `Panic(0x${code.toString(16)})`;
+    }
+
+    const parsed = iface?.parseError(data);
+    if (parsed) {
+      return `${parsed.name}(${parsed.args.map(String).join(', ')})`;
+    }
+  } catch (error) {
+    console.warn('Could not decode revert data:', data, error);
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps any error from the send path onto a TransactionError
+ */
+export function toTransactionError(
+  error: unknown,
+  context: { iface?: Interface; network?: NetworkConfig; txHash?: string } = {}
+): TransactionError {
+  if (error instanceof TransactionError) return error;
+
+  const err = asProviderError(error);
+  const message = [err.shortMessage, err.message].find((m): m is string => typeof m === 'string' && m !== '')
+    || 'Unknown error';
+
+  if (isError(error, 'ACTION_REJECTED') || err.code === 4001 || asProviderError(err.info?.error).code === 4001) {
+    return new TransactionError('USER_REJECTED', 'Transaction was rejected in wallet', { cause: error });
+  }
+
+  if (isError(error, 'INSUFFICIENT_FUNDS') || /insufficient funds/i.test(message)) {
+    const symbol = context.network?.nativeCurrency.symbol || 'native token';
+    return new TransactionError(
+      'INSUFFICIENT_FUNDS',
+      `Insufficient ${symbol} balance in your wallet to cover the transaction and gas`,
+      { txHash: context.txHash, cause: error }
+    );
+  }
+
+  const reason = decodeRevertReason(error, context.iface);
+  if (reason) {
+    return new TransactionError('REVERTED', `Transaction reverted: ${reason}`, {
+      reason,
+      txHash: context.txHash,
+      cause: error,
+    });
+  }
+
+  if (isError(error, 'CALL_EXCEPTION')) {
+    return new TransactionError('REVERTED', 'Transaction reverted without a reason', {
+      txHash: context.txHash,
+      cause: error,
+    });
+  }
+
+  if (isError(error, 'NETWORK_ERROR') || isError(error, 'SERVER_ERROR') || isError(error, 'TIMEOUT')) {
+    return new TransactionError('NETWORK_ERROR', `RPC error: ${message}`, { txHash: context.txHash, cause: error });
+  }
+
+  return new TransactionError('UNKNOWN', message, { txHash: context.txHash, cause: error });
+}
+
+/**
+ * Picks fee fields for a transaction. Networks with a legacy gas strategy always get a
+ * type-0 gas price; otherwise EIP-1559 fee data is used when the RPC supports it, falling
+ * back to eth_gasPrice for nodes without eth_maxPriorityFeePerGas
+ */
+export async function getFeeOverrides(provider: Provider, network?: NetworkConfig): Promise<FeeOverrides> {
+  if (network?.gasStrategy.type !== 'legacy') {
+    try {
+      const feeData = await provider.getFeeData();
+      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+        return {
+          type: 2,
+          maxFeePerGas: feeData.maxFeePerGas,
+          maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+        };
+      }
+      if (feeData.gasPrice) {
+        return { type: 0, gasPrice: feeData.gasPrice };
+      }
+    } catch (error) {
+      console.warn('Fee data unavailable, falling back to legacy gas price:', error);
+    }
+  }
+
+  return { type: 0, gasPrice: await getLegacyGasPrice(provider, network) };
+}
+
+async function getLegacyGasPrice(provider: Provider, network?: NetworkConfig): Promise<bigint> {
+  // The configured price is a floor: QIE nodes reject anything below it
+  const floor = network?.gasStrategy.type === 'legacy'
+    ? parseUnits(network.gasStrategy.gasPriceGwei, 'gwei')
+    : 0n;
+
+  try {
+    const quoted = 'send' in provider
+      ? BigInt(await (provider as JsonRpcApiProvider).send('eth_gasPrice', []))
+      : (await provider.getFeeData()).gasPrice ?? 0n;
+    return quoted > floor ? quoted : floor;
+  } catch (error) {
+    if (floor > 0n) {
+      console.warn('eth_gasPrice failed, using configured gas price:', error);
+      return floor;
+    }
+    throw new TransactionError('NETWORK_ERROR', 'Could not determine a gas price from the RPC', { cause: error });
+  }
+}
+
+async function estimateGasLimit(
+  signer: Signer,
+  request: TransactionRequest,
+  fallbackGasLimit: bigint,
+  iface?: Interface
+): Promise<bigint> {
+  try {
+    const estimate = await signer.estimateGas(request);
+    return (estimate * GAS_LIMIT_BUFFER_PERCENT) / 100n;
+  } catch (error) {
+    // A decoded reason means the call itself reverts; sending it would only burn gas
+    const reason = decodeRevertReason(error, iface);
+    if (reason) {
+      throw new TransactionError('REVERTED', `Transaction would revert: ${reason}`, { reason, cause: error });
+    }
+
+    console.warn(`Gas estimation failed, using fallback limit ${fallbackGasLimit}:`, error);
+    return fallbackGasLimit;
+  }
+}
+
+/**
+ * Polls for a receipt rather than relying on block subscriptions, which some RPCs rate-limit.
+ * Failed transactions are replayed at their block to recover the revert reason.
+ */
+export async function waitForReceipt(
+  provider: Provider,
+  txHash: string,
+  options: { timeoutMs?: number; request?: TransactionRequest; iface?: Interface } = {}
+): Promise<TransactionReceipt> {
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  while (Date.now() < deadline) {
+    let receipt: TransactionReceipt | null = null;
+    try {
+      receipt = await provider.getTransactionReceipt(txHash);
+    } catch (error) {
+      console.warn('Receipt lookup failed, retrying:', error);
+    }
+
+    if (receipt) {
+      if (receipt.status === 0) {
+        let reason: string | undefined;
+        if (options.request) {
+          try {
+            await provider.call({ ...options.request, blockTag: receipt.blockNumber });
+          } catch (replayError) {
+            reason = decodeRevertReason(replayError, options.iface);
+          }
+        }
+
+        throw new TransactionError(
+          'REVERTED',
+          reason ? `Transaction reverted: ${reason}` : 'Transaction reverted on-chain',
+          { reason, txHash }
+        );
+      }
+
+      return receipt;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+  }
+
+  throw new TransactionError(
+    'TIMEOUT',
+    `Transaction ${txHash} was not confirmed in time. It may still be pending; check the block explorer.`,
+    { txHash }
+  );
+}
+
+/**
+ * Sends a transaction from the signer and waits for it to be mined
+ * @param signer - Wallet signer that pays for and signs the transaction
+ * @param request - Target, calldata and value; gas and fee fields are filled in here
+ */
+export async function sendTransaction(
+  signer: Signer,
+  request: TransactionRequest,
+  options: SendOptions & { iface?: Interface } = {}
+): Promise<TransactionResult> {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new TransactionError('NETWORK_ERROR', 'Signer is not connected to a provider');
+  }
+
+  const { chainId } = await provider.getNetwork();
+  if (options.network && chainId !== BigInt(options.network.chainId)) {
+    throw new TransactionError(
+      'WRONG_NETWORK',
+      `Wrong network! Please switch to ${options.network.name} (Chain ID: ${options.network.chainId}) in your wallet. Currently on chain ${chainId}`
+    );
+  }
+  const network = options.network || getNetworkByChainId(chainId);
+
+  const populated: TransactionRequest = {
+    ...request,
+    from: await signer.getAddress(),
+    value: options.value ?? request.value,
+  };
+
+  const label = options.label || 'transaction';
+  let txHash: string | undefined;
+
+  try {
+    const gasLimit = options.gasLimit !== undefined
+      ? BigInt(options.gasLimit)
+      : await estimateGasLimit(
+          signer,
+          populated,
+          BigInt(options.fallbackGasLimit ?? DEFAULT_FALLBACK_GAS_LIMIT),
+          options.iface
+        );
+    const fees = await getFeeOverrides(provider, network);
+
+    console.log(`Sending ${label}:`, {
+      to: populated.to,
+      value: populated.value?.toString(),
+      gasLimit: gasLimit.toString(),
+      fees,
+    });
+
+    const tx = await signer.sendTransaction({ ...populated, gasLimit, ...fees });
+    txHash = tx.hash;
+    console.log(`${label} sent:`, tx.hash);
+
+    if (options.track) {
+      trackPendingTransaction({
+        ...options.track,
+        hash: tx.hash,
+        chainId: Number(chainId),
+        createdAt: Date.now(),
+      });
+    }
+
+    const receipt = await waitForReceipt(provider, tx.hash, {
+      timeoutMs: options.timeoutMs,
+      request: populated,
+      iface: options.iface,
+    });
+    console.log(`✅ ${label} confirmed in block`, receipt.blockNumber);
+
+    if (options.track) {
+      removePendingTransaction(tx.hash);
+    }
+
+    return { hash: tx.hash, receipt };
+  } catch (error) {
+    const txError = toTransactionError(error, { iface: options.iface, network, txHash });
+
+    if (options.track && txHash) {
+      if (txError.code === 'TIMEOUT') {
+        releasePendingTransaction(txHash);
+      } else {
+        removePendingTransaction(txHash);
+      }
+    }
+    console.error(`❌ ${label} failed:`, txError.message);
+    throw txError;
+  }
+}
+
+/**
+ * Calls a state-changing contract method through the transaction service
+ * @param contract - Contract connected to a signer
+ * @param method - Function name on the contract's ABI
+ * @param args - Function arguments
+ */
+export async function sendContractTransaction(
+  contract: Contract,
+  method: string,
+  args: unknown[] = [],
+  options: SendOptions = {}
+): Promise<TransactionResult> {
+  const signer = contract.runner as Signer | null;
+  if (!signer || typeof signer.sendTransaction !== 'function') {
+    throw new TransactionError('UNKNOWN', 'Contract is not connected to a signer');
+  }
+
+  return sendTransaction(
+    signer,
+    {
+      to: await contract.getAddress(),
+      data: contract.interface.encodeFunctionData(method, args),
+    },
+    { label: `${method}()`, ...options, iface: contract.interface }
+  );
+}
+
+/**
+ * Deploys a contract through the transaction service and returns its address
+ */
+export async function deployContract(
+  factory: ContractFactory,
+  args: unknown[],
+  options: SendOptions = {}
+): Promise<TransactionResult & { address: string }> {
+  const signer = factory.runner as Signer | null;
+  if (!signer || typeof signer.sendTransaction !== 'function') {
+    throw new TransactionError('UNKNOWN', 'Contract factory is not connected to a signer');
+  }
+
+  const request = await factory.getDeployTransaction(...args);
+  const result = await sendTransaction(signer, request, {
+    label: 'contract deployment',
+    ...options,
+    iface: factory.interface,
+  });
+
+  if (!result.receipt.contractAddress) {
+    throw new TransactionError('UNKNOWN', 'Deployment receipt has no contract address', { txHash: result.hash });
+  }
+
+  return { ...result, address: result.receipt.contractAddress };
+}
@@ -0,0 +1,39 @@
+// Wallet verification
+// profiles.wallet_address is whatever the user saved, so anything that grants access by wallet (the
+// arbiter's view of a project) uses profiles.verified_wallet_address instead. The
+// wallet-verification edge function writes it once the wallet has signed a one-time challenge.
+
+import { getFunctionHeaders } from './supabase';
+import { signMessage } from './wallet';
+
+async function callWalletVerification(body: Record<string, unknown>) {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/wallet-verification`,
+    {
+      method: 'POST',
+      headers: await getFunctionHeaders(),
+      body: JSON.stringify(body),
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Wallet verification failed');
+  }
+  return result;
+}
+
+/**
+ * Signs a challenge with the wallet and saves it as the user's verified wallet
+ * @returns The verified address, checksummed
+ */
+export async function verifyWalletOwnership(walletAddress: string): Promise<string> {
+  const { nonce, message } = await callWalletVerification({ action: 'challenge', walletAddress });
+  const signature = await signMessage(walletAddress, message);
+  const result = await callWalletVerification({ action: 'verify', walletAddress, nonce, signature });
+  return result.walletAddress;
+}
+
+export function isSameWallet(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
@@ -138,3 +138,35 @@ export function onAccountsChanged(callback: (accounts: string[]) => void): () =>
     }
   };
 }
+
+// Asks the wallet to sign a text message with personal_sign (EIP-191)
+export async function signMessage(address: string, message: string): Promise<string> {
+  if (!window.ethereum) {
+    throw new Error('No wallet found. Please install MetaMask or Core Wallet');
+  }
+
+  let provider = window.ethereum;
+
+  if (window.ethereum.providers && Array.isArray(window.ethereum.providers)) {
+    const walletProvider = window.ethereum.providers.find((p: { isMetaMask?: boolean; isCore?: boolean }) => p.isMetaMask || p.isCore);
+    if (walletProvider) {
+      provider = walletProvider;
+    }
+  }
+
+  const hexMessage = '0x' + Array.from(new TextEncoder().encode(message))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  try {
+    return await provider.request({
+      method: 'personal_sign',
+      params: [hexMessage, address],
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 4001) {
+      throw new Error('Signature request rejected');
+    }
+    throw error;
+  }
+}
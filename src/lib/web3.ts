@@ -1,6 +1,17 @@
-import { BrowserProvider, Contract, formatUnits, parseUnits, ContractFactory, getAddress } from 'ethers';
-import { ESCROW_ABI, ESCROW_BYTECODE } from '../contracts/escrow-abi';
+import { BrowserProvider, Contract, formatUnits, parseUnits, ContractFactory, getAddress, ZeroAddress } from 'ethers';
+import { ESCROW_ABI } from '../contracts/escrow-abi';
+import { ESCROW_FACTORY_ABI, ESCROW_FACTORY_BYTECODE } from '../contracts/escrow-factory-abi';
 import { TEST_ABI, TEST_BYTECODE } from '../contracts/test-abi';
+import {
+  NetworkConfig,
+  getDefaultNetwork,
+  getNetworkByChainId,
+  toChainIdHex,
+  toWalletChainConfig,
+} from './networks';
+import { TransactionError, deployContract, sendContractTransaction } from './transactions';
+import { MAX_PLATFORM_FEE_BPS } from './fees';
+import { FactoryTerms, getConfiguredFactoryTerms, getDeployedEscrowAddress, getEscrowFactoryAddress, getFactoryTerms } from './escrow-factory';
 
 declare global {
   interface Window {
@@ -8,18 +19,6 @@ declare global {
   }
 }
 
-export const QIE_CHAIN_CONFIG = {
-  chainId: '0x7BF',
-  chainName: 'QIE testnet',
-  nativeCurrency: {
-    name: 'QIE',
-    symbol: 'QIE',
-    decimals: 18,
-  },
-  rpcUrls: ['https://rpc1testnet.qie.digital'],
-  blockExplorerUrls: ['https://testnet.qie.digital'],
-};
-
 export async function connectWallet(): Promise<string> {
   if (!window.ethereum) {
     throw new Error('No wallet found. Please install MetaMask or Core Wallet');
@@ -56,7 +55,7 @@ export async function getCurrentWalletAddress(): Promise<string | null> {
   }
 }
 
-export async function switchToQIENetwork(): Promise<void> {
+export async function switchToNetwork(network: NetworkConfig = getDefaultNetwork()): Promise<void> {
   if (!window.ethereum) {
     throw new Error('No wallet found. Please install MetaMask or Core Wallet');
   }
@@ -64,14 +63,14 @@ export async function switchToQIENetwork(): Promise<void> {
   try {
     await window.ethereum.request({
       method: 'wallet_switchEthereumChain',
-      params: [{ chainId: QIE_CHAIN_CONFIG.chainId }],
+      params: [{ chainId: toChainIdHex(network.chainId) }],
     });
   } catch (switchError: any) {
     if (switchError.code === 4902) {
       try {
         await window.ethereum.request({
           method: 'wallet_addEthereumChain',
-          params: [QIE_CHAIN_CONFIG],
+          params: [toWalletChainConfig(network)],
         });
       } catch (addError) {
         throw addError;
@@ -124,6 +123,12 @@ export async function getSigner() {
   return provider.getSigner(accounts[0]);
 }
 
+export async function getConnectedNetwork(): Promise<NetworkConfig | undefined> {
+  const provider = await getProvider();
+  const { chainId } = await provider.getNetwork();
+  return getNetworkByChainId(chainId);
+}
+
 export async function checkContractDeployed(address: string): Promise<boolean> {
   try {
     const provider = await getProvider();
@@ -135,11 +140,27 @@ export async function checkContractDeployed(address: string): Promise<boolean> {
   }
 }
 
+// A team member's share of a milestone's payouts
+export interface EscrowPayee {
+  address: string;
+  shareBps: number;
+}
+
+/**
+ * Creates a project's escrow through the network's factory
+ * @param payees - Per milestone, the team members its payouts are split between; an empty list pays the freelancer
+ */
 export async function deployEscrowContract(
   clientAddress: string,
   freelancerAddress: string,
   tokenAddress: string,
-  milestoneAmounts: string[]
+  milestoneAmounts: string[],
+  reviewPeriods: number[],
+  stagedFunding: boolean,
+  payees: EscrowPayee[][],
+  tokenDecimals: number = 18,
+  targetNetwork: NetworkConfig = getDefaultNetwork(),
+  pending: { projectId?: string } = {}
 ): Promise<string> {
   try {
     console.log('=== Starting Contract Deployment ===');
@@ -153,15 +174,55 @@ export async function deployEscrowContract(
       throw new Error('At least one milestone is required');
     }
 
+    if (!reviewPeriods || reviewPeriods.length !== milestoneAmounts.length) {
+      throw new Error('A review period is required for every milestone');
+    }
+
+    const factoryAddress = getEscrowFactoryAddress(targetNetwork);
+    if (!factoryAddress) {
+      throw new Error(`No escrow factory is configured for ${targetNetwork.name}. Set VITE_ESCROW_FACTORY_${targetNetwork.chainId} to its address.`);
+    }
+
     const normalizedClientAddress = getAddress(clientAddress);
     const normalizedFreelancerAddress = getAddress(freelancerAddress);
     const normalizedTokenAddress = getAddress(tokenAddress);
 
+    // The factory gives the escrow its arbiter and oracle signer; read here for the neutrality checks
+    const factoryTerms = await getFactoryTerms(targetNetwork);
+    if (!factoryTerms) {
+      throw new Error(`No escrow factory is configured for ${targetNetwork.name}`);
+    }
+    const normalizedArbiterAddress = factoryTerms.arbiter;
+
+    if (normalizedArbiterAddress === normalizedClientAddress || normalizedArbiterAddress === normalizedFreelancerAddress) {
+      throw new Error('The platform arbiter cannot be the client or freelancer of a project');
+    }
+
+    if (payees.length !== milestoneAmounts.length) {
+      throw new Error('A payee list is required for every milestone');
+    }
+    const payeeAssignments = payees.flatMap((milestonePayees, milestoneIndex) => {
+      const totalShares = milestonePayees.reduce((sum, payee) => sum + payee.shareBps, 0);
+      if (milestonePayees.length > 0 && totalShares !== 10000) {
+        throw new Error(`Milestone ${milestoneIndex + 1}: payee shares add up to ${totalShares / 100}%, not 100%`);
+      }
+      return milestonePayees.map(payee => {
+        const account = getAddress(payee.address);
+        if (account === normalizedClientAddress || account === normalizedArbiterAddress) {
+          throw new Error(`Milestone ${milestoneIndex + 1}: the client and arbiter cannot be payees`);
+        }
+        return { milestoneIndex, account, shareBps: payee.shareBps };
+      });
+    });
+
     console.log('Deploying contract with params:', {
       clientAddress: normalizedClientAddress,
       freelancerAddress: normalizedFreelancerAddress,
+      arbiterAddress: normalizedArbiterAddress,
+      oracleSignerAddress: factoryTerms.oracleSigner || 'none',
       tokenAddress: normalizedTokenAddress,
       milestoneAmounts,
+      reviewPeriods,
       milestoneCount: milestoneAmounts.length
     });
 
@@ -170,254 +231,212 @@ export async function deployEscrowContract(
     const signerAddress = await signer.getAddress();
     console.log('Signer address:', signerAddress);
 
+    // The factory only lets the client open its own escrow
+    if (signerAddress.toLowerCase() !== normalizedClientAddress.toLowerCase()) {
+      throw new Error(`Wallet mismatch! The escrow must be created from the client wallet: ${normalizedClientAddress}, but connected wallet is: ${signerAddress}.`);
+    }
+
     const milestoneAmountsWei = milestoneAmounts.map(amount => {
-      const wei = parseUnits(amount, 18);
-      console.log(`Converting ${amount} QIE to ${wei} wei`);
+      const wei = parseUnits(amount, tokenDecimals);
+      console.log(`Converting ${amount} tokens to ${wei} base units (${tokenDecimals} decimals)`);
       return wei;
     });
 
     // Check network
-    try {
-      const network = await signer.provider.getNetwork();
-      console.log('Connected to network:', {
-        chainId: network.chainId.toString(),
-        name: network.name
-      });
-
-      if (network.chainId !== 1983n) {
-        throw new Error(`Wrong network! Please switch to QIE Testnet (Chain ID: 1983) in your wallet. Currently on chain ${network.chainId}`);
-      }
-    } catch (networkError: any) {
-      console.error('Network check failed:', networkError);
-      throw new Error(`Network error: ${networkError.message}`);
-    }
+    const network = await signer.provider.getNetwork();
+    console.log('Connected to network:', {
+      chainId: network.chainId.toString(),
+      name: network.name
+    });
 
     // Check balance
     try {
       const balance = await signer.provider.getBalance(signerAddress);
-      console.log('Wallet balance:', formatUnits(balance, 18), 'QIE');
+      const nativeSymbol = targetNetwork.nativeCurrency.symbol;
+      console.log('Wallet balance:', formatUnits(balance, 18), nativeSymbol);
 
       if (balance === 0n) {
-        throw new Error('Insufficient funds: Your wallet has 0 QIE. Please add QIE tokens to deploy the contract.');
-      }
-
-      // Estimate gas cost
-      const gasPrice = await signer.provider.getFeeData();
-      const estimatedCost = gasPrice.gasPrice ? (gasPrice.gasPrice * 5000000n) : 0n;
-      console.log('Estimated deployment cost:', formatUnits(estimatedCost, 18), 'QIE');
-
-      if (balance < estimatedCost) {
-        console.warn('Balance may be insufficient for deployment');
+        throw new Error(`Insufficient funds: Your wallet has 0 ${nativeSymbol}. Please add ${nativeSymbol} to deploy the contract.`);
       }
     } catch (balanceError: any) {
+      if (balanceError.message?.includes('Insufficient funds')) {
+        throw balanceError;
+      }
       console.warn('Could not check balance:', balanceError.message);
     }
 
-    console.log('Creating contract factory...');
-    console.log('Bytecode length:', ESCROW_BYTECODE.length);
-    const factory = new ContractFactory(ESCROW_ABI, ESCROW_BYTECODE, signer);
+    const factory = new Contract(factoryAddress, ESCROW_FACTORY_ABI, signer);
 
-    console.log('Deploying contract to blockchain...');
-    console.log('Constructor params:', {
+    console.log('Creating escrow through factory', factoryAddress);
+    console.log('Escrow params:', {
       client: normalizedClientAddress,
       freelancer: normalizedFreelancerAddress,
       token: normalizedTokenAddress,
-      milestones: milestoneAmountsWei.map(m => formatUnits(m, 18)),
-      milestonesWei: milestoneAmountsWei.map(m => m.toString())
+      milestones: milestoneAmountsWei.map(m => formatUnits(m, tokenDecimals)),
+      milestonesWei: milestoneAmountsWei.map(m => m.toString()),
+      reviewPeriods,
+      stagedFunding,
+      payees: payeeAssignments
     });
 
-    let contract;
-    try {
-      contract = await factory.deploy(
+    const { hash, receipt } = await sendContractTransaction(
+      factory,
+      'createEscrow',
+      [
         normalizedClientAddress,
         normalizedFreelancerAddress,
         normalizedTokenAddress,
         milestoneAmountsWei,
-        {
-          gasLimit: 5000000,
-          type: 0,  // Use legacy transaction (not EIP-1559)
-          // Add manual gas price to avoid eth_maxPriorityFeePerGas calls
-          gasPrice: parseUnits('0.000000007', 'gwei')
-        }
-      );
-    } catch (deployError: any) {
-      console.error('Error sending deployment transaction:', deployError);
-      
-      // Check if it's the RPC error we're seeing
-      if (deployError.message?.includes('eth_maxPriorityFeePerGas')) {
-        console.log('Retrying with manual gas configuration...');
-        // Retry with even more explicit gas settings
-        contract = await factory.deploy(
-          normalizedClientAddress,
-          normalizedFreelancerAddress,
-          normalizedTokenAddress,
-          milestoneAmountsWei,
-          {
-            gasLimit: 5000000,
-            type: 0,
-            gasPrice: 7000000000 // 7 Gwei in wei
-          }
-        );
-      } else {
-        throw deployError;
+        reviewPeriods,
+        stagedFunding,
+        payeeAssignments
+      ],
+      {
+        network: targetNetwork,
+        fallbackGasLimit: 3000000,
+        label: 'escrow deployment',
+        track: { kind: 'deploy', ...pending }
       }
-    }
+    );
 
-    console.log('Contract deployment transaction sent!');
-    const deployTx = contract.deploymentTransaction();
-    console.log('Transaction hash:', deployTx?.hash);
-
-    console.log('Waiting for deployment confirmation...');
-    
-    // Add timeout for deployment confirmation
-    const deploymentPromise = contract.waitForDeployment();
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Deployment confirmation timeout')), 60000); // 60 second timeout
-    });
-
-    try {
-      await Promise.race([deploymentPromise, timeoutPromise]);
-      const address = await contract.getAddress();
-      console.log('✅ Contract deployed successfully at:', address);
-      return address;
-    } catch (timeoutError) {
-      // If timeout, try to get the contract address from the transaction receipt
-      console.log('Deployment confirmation timed out, checking transaction receipt...');
-      
-      if (deployTx?.hash) {
-        // Try multiple times to get the receipt
-        for (let attempt = 1; attempt <= 5; attempt++) {
-          console.log(`Attempt ${attempt} to get transaction receipt...`);
-          
-          try {
-            const receipt = await signer.provider.getTransactionReceipt(deployTx.hash);
-            
-            if (receipt) {
-              if (receipt.contractAddress) {
-                console.log('✅ Contract deployed successfully at:', receipt.contractAddress);
-                return receipt.contractAddress;
-              } else if (receipt.status === 1) {
-                // Transaction succeeded, try to get address from contract object
-                try {
-                  const address = await contract.getAddress();
-                  if (address) {
-                    console.log('✅ Contract deployed successfully at:', address);
-                    return address;
-                  }
-                } catch (e) {
-                  console.log('Could not get address from contract object');
-                }
-              } else if (receipt.status === 0) {
-                throw new Error('Transaction failed - deployment reverted');
-              }
-            }
-          } catch (receiptError) {
-            console.log(`Attempt ${attempt} failed:`, receiptError);
-          }
-          
-          // Wait before next attempt
-          if (attempt < 5) {
-            await new Promise(resolve => setTimeout(resolve, 5000));
-          }
-        }
-        
-        // If we still don't have a receipt, provide manual recovery instructions
-        console.log('=== Manual Recovery Instructions ===');
-        console.log('Transaction hash:', deployTx.hash);
-        console.log('1. Check transaction status at: https://testnet.qie.digital/tx/' + deployTx.hash);
-        console.log('2. Once confirmed, get the contract address from the transaction');
-        console.log('3. Run in console: getContractAddressFromTxHash("' + deployTx.hash + '")');
-        
-        // Return a placeholder that indicates pending
-        throw new Error(`Deployment pending. Transaction: ${deployTx.hash}. Check blockchain explorer for status.`);
-      }
-      
-      throw new Error('Could not get deployment transaction hash');
+    const address = getDeployedEscrowAddress(receipt);
+    if (!address) {
+      throw new TransactionError('UNKNOWN', 'Escrow factory emitted no EscrowDeployed event', { txHash: hash });
     }
+
+    console.log('✅ Contract deployed successfully at:', address);
+    return address;
   } catch (error: any) {
+    // A TIMEOUT TransactionError carries the hash; the pending-transaction watcher finishes the deployment
     console.error('❌ Contract deployment error:', error);
-
-    // Provide more helpful error messages
-    if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error('Insufficient funds in wallet to deploy contract');
-    } else if (error.code === 'NETWORK_ERROR') {
-      throw new Error('Network connection error. Please check your internet connection and try again.');
-    } else if (error.code === 'UNPREDICTABLE_GAS_LIMIT') {
-      throw new Error('Contract deployment simulation failed. Please check your wallet balance and network connection.');
-    } else if (error.message?.includes('user rejected')) {
-      throw new Error('Transaction was rejected by user');
-    } else if (error.message?.includes('nonce')) {
-      throw new Error('Transaction nonce error. Please try again.');
-    }
-
     throw error;
   }
 }
 
+/**
+ * Deploys a network's EscrowFactory, which deploys the escrow implementation it clones.
+ * Done once per network; the address then goes in VITE_ESCROW_FACTORY_<chainId>. The deploying
+ * wallet owns the factory and can change its arbiter, oracle signer and platform fee.
+ */
+export async function deployEscrowFactory(
+  targetNetwork: NetworkConfig = getDefaultNetwork(),
+  terms: FactoryTerms = getConfiguredFactoryTerms()
+): Promise<string> {
+  if (!terms.arbiter) {
+    throw new Error('No platform arbiter is configured. Set VITE_ARBITER_ADDRESS.');
+  }
+  const { platformFee } = terms;
+  if (platformFee.bps > MAX_PLATFORM_FEE_BPS) {
+    throw new Error(`Platform fee of ${platformFee.bps} basis points is above the escrow's maximum of ${MAX_PLATFORM_FEE_BPS}`);
+  }
+  const arbiter = getAddress(terms.arbiter);
+  // Without an oracle signer escrows only pay out on the client's verification
+  const oracleSigner = terms.oracleSigner ? getAddress(terms.oracleSigner) : ZeroAddress;
+  const feeRecipient = platformFee.bps > 0 ? getAddress(platformFee.recipient) : ZeroAddress;
+
+  const signer = await getSigner();
+  const factory = new ContractFactory(ESCROW_FACTORY_ABI, ESCROW_FACTORY_BYTECODE, signer);
+
+  console.log('Deploying escrow factory to', targetNetwork.name, 'with terms', terms);
+  const { address } = await deployContract(factory, [arbiter, oracleSigner, feeRecipient, platformFee.bps], {
+    network: targetNetwork,
+    fallbackGasLimit: 8000000,
+    label: 'escrow factory deployment'
+  });
+
+  console.log(`✅ Escrow factory deployed at ${address}. Set VITE_ESCROW_FACTORY_${targetNetwork.chainId}=${address}`);
+  return address;
+}
+
 export async function getEscrowContract(address: string) {
   const signer = await getSigner();
   return new Contract(address, ESCROW_ABI, signer);
 }
 
-export async function depositToEscrow(escrowAddress: string, tokenAddress: string, amount: string) {
+export interface MilestoneRange {
+  start: number;
+  count: number;
+}
+
+/**
+ * Funds the escrow through depositFunds, or part of a staged escrow through fundMilestones
+ * @param amount - The total of the funded milestones
+ * @param milestones - For a staged escrow, the next milestones to fund; starts at the first unfunded one
+ */
+export async function depositToEscrow(
+  escrowAddress: string,
+  tokenAddress: string,
+  amount: string,
+  tokenDecimals: number = 18,
+  pending: { projectId?: string } = {},
+  milestones: MilestoneRange | null = null
+) {
   try {
     const signer = await getSigner();
-    const amountWei = parseUnits(amount, 18);
+    const amountWei = parseUnits(amount, tokenDecimals);
     const escrowContract = await getEscrowContract(escrowAddress);
-    
+
+    // The escrow funds milestones strictly in order, so a range must continue from the funded ones
+    if (milestones) {
+      const fundedCount = Number(await escrowContract.fundedMilestoneCount());
+      if (milestones.start !== fundedCount) {
+        throw new Error(`Milestones ${fundedCount + 1} onwards must be funded first; the escrow has ${fundedCount} funded`);
+      }
+    }
+    const method = milestones ? 'fundMilestones' : 'depositFunds';
+    const args = milestones ? [milestones.count] : [];
+
     console.log('Depositing to escrow:', {
       escrowAddress,
       tokenAddress,
       amount,
-      amountWei: amountWei.toString()
+      amountWei: amountWei.toString(),
+      milestones
     });
 
-    let depositTx;
+    let depositTxHash: string;
 
     if (tokenAddress === '0x0000000000000000000000000000000000000000') {
       // Native QIE token - send with value
-      console.log('Depositing native QIE tokens through depositFunds()...');
+      console.log(`Depositing native tokens through ${method}()...`);
       
-      // IMPORTANT: Must use depositFunds() to set isActive = true
+      // IMPORTANT: Must use depositFunds() or fundMilestones() to set isActive = true
       // Direct transfers won't activate the escrow!
-      depositTx = await escrowContract.depositFunds({
+      const { hash } = await sendContractTransaction(escrowContract, method, args, {
         value: amountWei,
-        gasLimit: 300000,
-        type: 0,  // Use legacy transaction
-        gasPrice: parseUnits('0.000000007', 'gwei')
+        track: { kind: 'deposit', ...pending }
       });
+      depositTxHash = hash;
     } else {
       // ERC20 token - approve first then deposit
       console.log('Depositing ERC20 tokens...');
       const ERC20_ABI = [
         'function approve(address spender, uint256 amount) public returns (bool)',
+        'function balanceOf(address account) public view returns (uint256)',
       ];
       const tokenContract = new Contract(tokenAddress, ERC20_ABI, signer);
 
+      const tokenBalance = await tokenContract.balanceOf(await signer.getAddress());
+      if (tokenBalance < amountWei) {
+        throw new Error(`Insufficient token balance: need ${amount}, wallet holds ${formatUnits(tokenBalance, tokenDecimals)}`);
+      }
+
       console.log('Approving token transfer...');
-      const approveTx = await tokenContract.approve(escrowAddress, amountWei);
-      await approveTx.wait();
+      await sendContractTransaction(tokenContract, 'approve', [escrowAddress, amountWei]);
       console.log('Token transfer approved');
 
-      console.log('Calling depositFunds...');
-      depositTx = await escrowContract.depositFunds({ gasLimit: 300000 });
+      console.log(`Calling ${method}...`);
+      const { hash } = await sendContractTransaction(escrowContract, method, args, {
+        track: { kind: 'deposit', ...pending }
+      });
+      depositTxHash = hash;
     }
 
-    console.log('Waiting for deposit confirmation...');
-    await depositTx.wait();
     console.log('✅ Deposit confirmed!');
     
-    return depositTx.hash;
+    return depositTxHash;
   } catch (error: any) {
     console.error('❌ Error depositing to escrow:', error);
-    
-    // Provide more specific error messages
-    if (error.message?.includes('insufficient funds')) {
-      throw new Error('Insufficient QIE balance in your wallet');
-    } else if (error.message?.includes('user rejected')) {
-      throw new Error('Transaction was rejected in wallet');
-    }
-    
     throw error;
   }
 }
@@ -425,7 +444,8 @@ export async function depositToEscrow(escrowAddress: string, tokenAddress: strin
 export async function verifyAndPayMilestone(
   escrowAddress: string,
   milestoneIndex: number,
-  verificationHash: string
+  verificationHash: string,
+  pending: { projectId?: string; milestoneId?: string } = {}
 ) {
   const signer = await getSigner();
   const connectedAddress = await signer.getAddress();
@@ -452,11 +472,10 @@ export async function verifyAndPayMilestone(
 
   console.log('✅ Wallet verification passed, proceeding with milestone verification...');
   
-  // Quick sanity check
+  // Quick sanity check (getRemainingBalance covers both native and ERC20 escrows)
   try {
-    const provider = await getProvider();
-    const balance = await provider.getBalance(escrowAddress);
-    console.log('Contract balance:', formatUnits(balance, 18), 'QIE');
+    const balance: bigint = await contract.getRemainingBalance();
+    console.log('Contract balance (base units):', balance.toString());
 
     if (balance === 0n) {
       throw new Error('Escrow contract has no funds. Please deposit funds first.');
@@ -468,27 +487,388 @@ export async function verifyAndPayMilestone(
     console.log('Could not check balance:', e.message);
   }
   
-  try {
+  // A verification that confirmed after an earlier timeout only needs the release step
+  const milestone = await contract.getMilestone(milestoneIndex);
+  if (milestone.isVerified) {
+    console.log('Milestone already verified on-chain, skipping verification');
+  } else {
     console.log('Calling verifyMilestone with index:', milestoneIndex, 'hash:', verificationHash);
-    const verifyTx = await contract.verifyMilestone(milestoneIndex, verificationHash);
-    await verifyTx.wait();
+    await sendContractTransaction(contract, 'verifyMilestone', [milestoneIndex, verificationHash], {
+      track: { kind: 'verify', ...pending }
+    });
     console.log('✅ Milestone verified successfully');
+  }
 
-    console.log('Releasing milestone payment...');
-    const payTx = await contract.releaseMilestonePayment(milestoneIndex);
-    await payTx.wait();
-    console.log('✅ Payment released successfully');
+  console.log('Releasing milestone payment...');
+  const { hash } = await sendContractTransaction(contract, 'releaseMilestonePayment', [milestoneIndex], {
+    track: { kind: 'release', ...pending }
+  });
+  console.log('✅ Payment released successfully');
 
-    return payTx.hash;
-  } catch (error: any) {
-    console.error('Contract call error:', error);
+  return hash;
+}
+
+// The lead freelancer or one of the milestone's payees may submit it and claim it
+async function requireMilestoneFreelancer(contract: Contract, milestoneIndex: number, connectedAddress: string) {
+  const freelancerAddress: string = await contract.freelancer();
+  if (connectedAddress.toLowerCase() === freelancerAddress.toLowerCase()) return;
+
+  // Escrows created before team projects have no payees
+  const isPayee: boolean = await contract.isMilestonePayee(milestoneIndex, connectedAddress).catch(() => false);
+  if (!isPayee) {
+    throw new Error(`Wallet mismatch! Contract requires freelancer wallet: ${freelancerAddress} or a wallet assigned to this milestone, but connected wallet is: ${connectedAddress}. Please switch to the correct wallet in your wallet extension.`);
+  }
+}
+
+export async function submitMilestoneOnChain(escrowAddress: string, milestoneIndex: number) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  await requireMilestoneFreelancer(contract, milestoneIndex, connectedAddress);
+
+  console.log('Submitting milestone on-chain:', milestoneIndex);
+  const { hash } = await sendContractTransaction(contract, 'submitMilestone', [milestoneIndex]);
+  console.log('✅ Milestone submitted, review window started');
 
-    if (error.message.includes('missing revert data') || error.code === 'CALL_EXCEPTION') {
-      throw new Error(`Contract error: The contract at ${escrowAddress} may not be properly initialized. Try deploying a fresh contract.`);
+  return hash;
+}
+
+export async function claimTimedOutPayment(escrowAddress: string, milestoneIndex: number) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  await requireMilestoneFreelancer(contract, milestoneIndex, connectedAddress);
+
+  console.log('Claiming timed-out milestone payment:', milestoneIndex);
+  const { hash } = await sendContractTransaction(contract, 'claimTimedOutPayment', [milestoneIndex]);
+  console.log('✅ Payment claimed after review timeout');
+
+  return hash;
+}
+
+export interface OracleAttestation {
+  escrowAddress: string;
+  chainId: number;
+  milestoneIndex: number;
+  evidenceHash: string;
+  expiry: number;
+  signature: string;
+  signer: string;
+}
+
+/**
+ * Verifies and pays a milestone with an attestation signed by the oracle service. The contract
+ * checks the signature itself, so any wallet may submit it and the payout still goes to the milestone's payees.
+ */
+export async function claimWithAttestation(
+  escrowAddress: string,
+  attestation: OracleAttestation,
+  pending: { projectId?: string; milestoneId?: string } = {}
+) {
+  if (getAddress(attestation.escrowAddress) !== getAddress(escrowAddress)) {
+    throw new Error('Attestation was signed for a different escrow contract');
+  }
+
+  if (attestation.expiry <= Math.floor(Date.now() / 1000)) {
+    throw new Error('Oracle attestation has expired. Please run verification again.');
+  }
+
+  const contract = await getEscrowContract(escrowAddress);
+
+  const oracleSigner = await contract.oracleSigner();
+  if (oracleSigner === ZeroAddress) {
+    throw new Error('This escrow was deployed without an oracle signer and cannot accept attestations');
+  }
+  if (oracleSigner.toLowerCase() !== attestation.signer.toLowerCase()) {
+    throw new Error(`Attestation signer ${attestation.signer} does not match the escrow's oracle ${oracleSigner}`);
+  }
+
+  console.log('Claiming milestone with oracle attestation:', attestation.milestoneIndex);
+  const { hash } = await sendContractTransaction(
+    contract,
+    'claimWithAttestation',
+    [attestation.milestoneIndex, attestation.evidenceHash, attestation.expiry, attestation.signature],
+    { track: { kind: 'release', ...pending } }
+  );
+  console.log('✅ Milestone paid with oracle attestation');
+
+  return hash;
+}
+
+export async function getMilestoneReviewWindow(escrowAddress: string, milestoneIndex: number) {
+  const provider = await getProvider();
+  const contract = new Contract(escrowAddress, ESCROW_ABI, provider);
+  const reviewWindow = await contract.getReviewWindow(milestoneIndex);
+
+  return {
+    reviewPeriod: Number(reviewWindow.reviewPeriod),
+    submittedAt: Number(reviewWindow.submittedAt),
+    reviewDeadline: Number(reviewWindow.reviewDeadline),
+  };
+}
+
+export async function getMilestoneVerificationHash(escrowAddress: string, milestoneIndex: number) {
+  const provider = await getProvider();
+  const contract = new Contract(escrowAddress, ESCROW_ABI, provider);
+  const milestone = await contract.getMilestone(milestoneIndex);
+
+  return {
+    isVerified: milestone.isVerified as boolean,
+    verificationHash: milestone.verificationHash as string,
+  };
+}
+
+export async function raiseMilestoneDispute(
+  escrowAddress: string,
+  milestoneIndex: number,
+  reason: string
+) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const [clientAddress, freelancerAddress] = await Promise.all([
+    contract.client(),
+    contract.freelancer(),
+  ]);
+
+  const isParty =
+    connectedAddress.toLowerCase() === clientAddress.toLowerCase() ||
+    connectedAddress.toLowerCase() === freelancerAddress.toLowerCase();
+
+  if (!isParty) {
+    throw new Error(`Wallet mismatch! Only the client (${clientAddress}) or freelancer (${freelancerAddress}) can raise a dispute. Connected wallet is: ${connectedAddress}.`);
+  }
+
+  console.log('Raising dispute on milestone:', milestoneIndex, 'reason:', reason);
+  const { hash } = await sendContractTransaction(contract, 'raiseDispute', [milestoneIndex, reason]);
+  console.log('✅ Dispute raised');
+
+  return hash;
+}
+
+export async function resolveMilestoneDispute(
+  escrowAddress: string,
+  milestoneIndex: number,
+  freelancerAmount: string,
+  tokenDecimals: number = 18
+) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const arbiterAddress = await contract.arbiter();
+  if (connectedAddress.toLowerCase() !== arbiterAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires arbiter wallet: ${arbiterAddress}, but connected wallet is: ${connectedAddress}.`);
+  }
+
+  const freelancerAmountWei = parseUnits(freelancerAmount, tokenDecimals);
+  console.log('Resolving dispute on milestone:', milestoneIndex, 'freelancer share:', freelancerAmount);
+  const { hash } = await sendContractTransaction(contract, 'resolveDispute', [milestoneIndex, freelancerAmountWei]);
+  console.log('✅ Dispute resolved');
+
+  return hash;
+}
+
+// Refunds the unpaid, undisputed milestones to the client and deactivates the escrow
+export async function cancelEscrowOnChain(escrowAddress: string, pending: { projectId?: string } = {}) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const clientAddress = await contract.client();
+  if (connectedAddress.toLowerCase() !== clientAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires client wallet: ${clientAddress}, but connected wallet is: ${connectedAddress}.`);
+  }
+
+  console.log('Cancelling escrow:', escrowAddress);
+  const { hash } = await sendContractTransaction(contract, 'cancelEscrow', [], {
+    track: { kind: 'cancel', ...pending }
+  });
+  console.log('✅ Escrow cancelled');
+
+  return hash;
+}
+
+/**
+ * Client: cancels one unpaid milestone. Submitted or verified work is only marked as requested
+ * until the freelancer approves it with approveMilestoneCancellationOnChain.
+ * @param killFeeBps - Share of a funded milestone paid to the freelancer, in basis points
+ */
+export async function cancelMilestoneOnChain(escrowAddress: string, milestoneIndex: number, killFeeBps: number) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const clientAddress = await contract.client();
+  if (connectedAddress.toLowerCase() !== clientAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires client wallet: ${clientAddress}, but connected wallet is: ${connectedAddress}.`);
+  }
+
+  console.log('Cancelling milestone:', milestoneIndex, 'kill fee (bps):', killFeeBps);
+  const { hash } = await sendContractTransaction(contract, 'cancelMilestone', [milestoneIndex, killFeeBps]);
+  console.log('✅ Milestone cancellation sent');
+
+  return hash;
+}
+
+// Freelancer: approves the client's cancellation of submitted work on the requested kill fee
+export async function approveMilestoneCancellationOnChain(
+  escrowAddress: string,
+  milestoneIndex: number,
+  killFeeBps: number
+) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const freelancerAddress = await contract.freelancer();
+  if (connectedAddress.toLowerCase() !== freelancerAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires freelancer wallet: ${freelancerAddress}, but connected wallet is: ${connectedAddress}. Please switch to the correct wallet in your wallet extension.`);
+  }
+
+  console.log('Approving cancellation of milestone:', milestoneIndex);
+  const { hash } = await sendContractTransaction(contract, 'approveMilestoneCancellation', [milestoneIndex, killFeeBps]);
+  console.log('✅ Milestone cancelled');
+
+  return hash;
+}
+
+// Order matches the escrow's ChangeKind enum
+const CHANGE_ORDER_KINDS = ['add', 'reprice', 'remove'] as const;
+export type ChangeOrderKind = typeof CHANGE_ORDER_KINDS[number];
+
+export interface ChangeOrderProposal {
+  kind: ChangeOrderKind;
+  // The amended milestone; ignored for 'add', which appends a milestone
+  milestoneIndex: number;
+  // Ignored for 'remove'
+  newAmount: string;
+  reviewPeriodSeconds: number;
+}
+
+/**
+ * Client: proposes a milestone change order on the escrow. A funded milestone that grows, or a
+ * milestone added to a fully funded escrow, needs its top-up deposited with the proposal.
+ * @returns The transaction hash and the change order's id in the escrow
+ */
+export async function proposeChangeOrderOnChain(
+  escrowAddress: string,
+  tokenAddress: string,
+  proposal: ChangeOrderProposal,
+  tokenDecimals: number = 18
+) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const clientAddress = await contract.client();
+  if (connectedAddress.toLowerCase() !== clientAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires client wallet: ${clientAddress}, but connected wallet is: ${connectedAddress}.`);
+  }
+
+  const kind = CHANGE_ORDER_KINDS.indexOf(proposal.kind);
+  const milestoneIndex = proposal.kind === 'add' ? 0 : proposal.milestoneIndex;
+  const newAmountWei = proposal.kind === 'remove' ? 0n : parseUnits(proposal.newAmount, tokenDecimals);
+  const args = [kind, milestoneIndex, newAmountWei, proposal.reviewPeriodSeconds];
+
+  const topUp: bigint = await contract.requiredTopUp(
+    kind,
+    proposal.kind === 'add' ? await contract.getMilestoneCount() : milestoneIndex,
+    newAmountWei
+  );
+  const isNative = tokenAddress === ZeroAddress;
+
+  if (topUp > 0n && !isNative) {
+    const tokenContract = new Contract(
+      tokenAddress,
+      ['function approve(address spender, uint256 amount) public returns (bool)'],
+      signer
+    );
+    console.log('Approving change order top-up:', formatUnits(topUp, tokenDecimals));
+    await sendContractTransaction(tokenContract, 'approve', [escrowAddress, topUp]);
+  }
+
+  console.log('Proposing change order:', proposal, 'top-up:', topUp.toString());
+  const { hash, receipt } = await sendContractTransaction(contract, 'proposeChangeOrder', args, {
+    value: isNative ? topUp : undefined,
+  });
+
+  let changeOrderId: number | null = null;
+  for (const log of receipt.logs) {
+    const event = contract.interface.parseLog(log);
+    if (event?.name === 'ChangeOrderProposed') {
+      changeOrderId = Number(event.args.changeOrderId);
     }
+  }
+  console.log('✅ Change order proposed:', changeOrderId);
+
+  return { hash, changeOrderId };
+}
+
+// Freelancer: accepts a change order; the escrow applies it and refunds anything no longer needed
+export async function acceptChangeOrderOnChain(escrowAddress: string, changeOrderId: number) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
 
-    throw new Error(`Transaction failed: ${error.reason || error.message}`);
+  const freelancerAddress = await contract.freelancer();
+  if (connectedAddress.toLowerCase() !== freelancerAddress.toLowerCase()) {
+    throw new Error(`Wallet mismatch! Contract requires freelancer wallet: ${freelancerAddress}, but connected wallet is: ${connectedAddress}. Please switch to the correct wallet in your wallet extension.`);
   }
+
+  console.log('Accepting change order:', changeOrderId);
+  const { hash } = await sendContractTransaction(contract, 'acceptChangeOrder', [changeOrderId]);
+  console.log('✅ Change order accepted');
+
+  return hash;
+}
+
+// Freelancer rejects or client withdraws a change order; any top-up returns to the client
+export async function closeChangeOrderOnChain(escrowAddress: string, changeOrderId: number) {
+  const signer = await getSigner();
+  const connectedAddress = await signer.getAddress();
+  const contract = await getEscrowContract(escrowAddress);
+
+  const [clientAddress, freelancerAddress] = await Promise.all([
+    contract.client(),
+    contract.freelancer(),
+  ]);
+
+  const isParty =
+    connectedAddress.toLowerCase() === clientAddress.toLowerCase() ||
+    connectedAddress.toLowerCase() === freelancerAddress.toLowerCase();
+
+  if (!isParty) {
+    throw new Error(`Wallet mismatch! Only the client (${clientAddress}) or freelancer (${freelancerAddress}) can close a change order. Connected wallet is: ${connectedAddress}.`);
+  }
+
+  console.log('Closing change order:', changeOrderId);
+  const { hash } = await sendContractTransaction(contract, 'closeChangeOrder', [changeOrderId]);
+  console.log('✅ Change order closed');
+
+  return hash;
+}
+
+export async function getMilestoneDispute(
+  escrowAddress: string,
+  milestoneIndex: number,
+  tokenDecimals: number = 18
+) {
+  const provider = await getProvider();
+  const contract = new Contract(escrowAddress, ESCROW_ABI, provider);
+  const dispute = await contract.getDispute(milestoneIndex);
+
+  return {
+    isDisputed: dispute.isDisputed as boolean,
+    raisedBy: dispute.raisedBy as string,
+    reason: dispute.reason as string,
+    isResolved: dispute.isResolved as boolean,
+    freelancerAmount: formatUnits(dispute.freelancerAmount, tokenDecimals),
+    clientAmount: formatUnits(dispute.clientAmount, tokenDecimals),
+  };
 }
 
 // Test function to deploy a simple contract
@@ -501,14 +881,11 @@ export async function deployTestContract() {
     console.log('Deploying simple test contract...');
     const factory = new ContractFactory(TEST_ABI, TEST_BYTECODE, signer);
 
-    const contract = await factory.deploy({
-      gasLimit: 1000000
+    const { address } = await deployContract(factory, [], {
+      fallbackGasLimit: 1000000,
+      label: 'test contract deployment'
     });
 
-    console.log('Waiting for deployment...');
-    await contract.waitForDeployment();
-
-    const address = await contract.getAddress();
     console.log('Test contract deployed at:', address);
 
     return address;
@@ -532,9 +909,10 @@ export async function getContractAddressFromTxHash(txHash: string): Promise<stri
     const provider = await getProvider();
     const receipt = await provider.getTransactionReceipt(txHash);
     
-    if (receipt && receipt.contractAddress) {
-      console.log('Found contract address from transaction:', receipt.contractAddress);
-      return receipt.contractAddress;
+    const address = receipt ? getDeployedEscrowAddress(receipt) : null;
+    if (address) {
+      console.log('Found contract address from transaction:', address);
+      return address;
     }
     
     return null;
@@ -561,9 +939,9 @@ export async function checkDeploymentStatus(txHash: string): Promise<{
     
     return {
       deployed: receipt.status === 1,
-      address: receipt.contractAddress || undefined,
+      address: getDeployedEscrowAddress(receipt) || undefined,
       blockNumber: receipt.blockNumber,
-      status: receipt.status
+      status: receipt.status ?? undefined
     };
   } catch (error) {
     console.error('Error checking deployment status:', error);
@@ -585,11 +963,13 @@ export async function debugContractDetails(escrowAddress: string) {
     
     const clientAddress = await contract.client();
     const freelancerAddress = await contract.freelancer();
+    const arbiterAddress = await contract.arbiter();
     const tokenAddress = await contract.paymentToken();
     
     console.log('Contract Details:');
     console.log('- Client address:', clientAddress);
     console.log('- Freelancer address:', freelancerAddress);
+    console.log('- Arbiter address:', arbiterAddress);
     console.log('- Token address:', tokenAddress);
     console.log('- Contract address:', escrowAddress);
     
@@ -597,12 +977,15 @@ export async function debugContractDetails(escrowAddress: string) {
     if (currentWallet) {
       const isClient = currentWallet.toLowerCase() === clientAddress.toLowerCase();
       const isFreelancer = currentWallet.toLowerCase() === freelancerAddress.toLowerCase();
+      const isArbiter = currentWallet.toLowerCase() === arbiterAddress.toLowerCase();
       
       console.log('\nYour Role:');
       if (isClient) {
         console.log('✅ You are the CLIENT');
       } else if (isFreelancer) {
         console.log('✅ You are the FREELANCER');
+      } else if (isArbiter) {
+        console.log('✅ You are the ARBITER');
       } else {
         console.log('❌ You are neither client nor freelancer');
         console.log('   Required client wallet:', clientAddress);
@@ -613,6 +996,7 @@ export async function debugContractDetails(escrowAddress: string) {
     return {
       client: clientAddress,
       freelancer: freelancerAddress,
+      arbiter: arbiterAddress,
       token: tokenAddress,
       currentWallet,
       isClient: currentWallet ? currentWallet.toLowerCase() === clientAddress.toLowerCase() : false,
@@ -4,7 +4,6 @@ import App from './App.tsx';
 import './index.css';
 import './lib/web3';
 import './lib/escrow-helper';
-import './lib/direct-transaction';
 import './lib/contract-fix';
 
 createRoot(document.getElementById('root')!).render(
@@ -0,0 +1,118 @@
+import { Wallet, keccak256, toUtf8Bytes } from "npm:ethers@6.15.0";
+import { OracleConfig, buildMilestoneEvidence, canonicalJson } from "./oracles/index.ts";
+import { createServiceClient } from "./supabase.ts";
+
+// Oracle attestations
+// The oracles sign an EIP-712 MilestoneAttestation with ORACLE_SIGNER_PRIVATE_KEY so the escrow's
+// claimWithAttestation can release a milestone without trusting the client's browser.
+// Evidence comes from the shared oracle registry, the same code the app uses to recompute hashes.
+
+export interface AttestationRequest {
+  milestoneId: string;
+}
+
+export interface AttestationTarget {
+  milestoneId: string;
+  projectId: string;
+  milestoneIndex: number;
+  escrowAddress: string;
+  chainId: number;
+  verificationType: string;
+  verificationConfig: OracleConfig;
+}
+
+export interface OracleAttestation {
+  escrowAddress: string;
+  chainId: number;
+  milestoneIndex: number;
+  evidenceHash: string;
+  expiry: number;
+  signature: string;
+  signer: string;
+}
+
+const DEFAULT_CHAIN_ID = 1983;
+const ATTESTATION_TTL_SECONDS = parseInt(Deno.env.get("ORACLE_ATTESTATION_TTL_SECONDS") || "3600");
+
+const ATTESTATION_TYPES = {
+  MilestoneAttestation: [
+    { name: "milestoneIndex", type: "uint256" },
+    { name: "evidenceHash", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+export function hashOracleEvidence(milestoneId: string, verificationType: string, oracleResponse: unknown): string {
+  return keccak256(toUtf8Bytes(canonicalJson(buildMilestoneEvidence(milestoneId, verificationType, oracleResponse))));
+}
+
+export function isAttestationEnabled(): boolean {
+  return !!Deno.env.get("ORACLE_SIGNER_PRIVATE_KEY");
+}
+
+/**
+ * Looks up the escrow, chain and milestone index from the database rather than the request,
+ * so a caller cannot obtain a signature for a milestone the checked work does not belong to
+ */
+export async function loadAttestationTarget(milestoneId: string): Promise<AttestationTarget> {
+  const supabase = createServiceClient();
+  const { data: milestone, error } = await supabase
+    .from("milestones")
+    .select("id, project_id, order_index, verification_type, verification_config, projects(escrow_contract_address, chain_id)")
+    .eq("id", milestoneId)
+    .single();
+
+  if (error || !milestone) {
+    throw new Error(`Milestone ${milestoneId} not found`);
+  }
+
+  const project: { escrow_contract_address: string | null; chain_id: number | null } | null = Array.isArray(milestone.projects) ? milestone.projects[0] : milestone.projects;
+  if (!project?.escrow_contract_address) {
+    throw new Error("Milestone's project has no escrow contract");
+  }
+
+  return {
+    milestoneId: milestone.id,
+    projectId: milestone.project_id,
+    milestoneIndex: milestone.order_index,
+    escrowAddress: project.escrow_contract_address,
+    chainId: project.chain_id ?? DEFAULT_CHAIN_ID,
+    verificationType: milestone.verification_type,
+    verificationConfig: milestone.verification_config || {},
+  };
+}
+
+/**
+ * Signs the oracle's verdict for one milestone. The domain's verifyingContract is the escrow,
+ * which binds the attestation to a single project on a single chain.
+ */
+export async function signAttestation(target: AttestationTarget, oracleResponse: unknown): Promise<OracleAttestation> {
+  const wallet = new Wallet(Deno.env.get("ORACLE_SIGNER_PRIVATE_KEY")!);
+  const evidenceHash = hashOracleEvidence(target.milestoneId, target.verificationType, oracleResponse);
+  const expiry = Math.floor(Date.now() / 1000) + ATTESTATION_TTL_SECONDS;
+
+  const signature = await wallet.signTypedData(
+    {
+      name: "FreelanceEscrow",
+      version: "1",
+      chainId: target.chainId,
+      verifyingContract: target.escrowAddress,
+    },
+    ATTESTATION_TYPES,
+    {
+      milestoneIndex: target.milestoneIndex,
+      evidenceHash,
+      expiry,
+    }
+  );
+
+  return {
+    escrowAddress: target.escrowAddress,
+    chainId: target.chainId,
+    milestoneIndex: target.milestoneIndex,
+    evidenceHash,
+    expiry,
+    signature,
+    signer: wallet.address,
+  };
+}
@@ -0,0 +1,53 @@
+import { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+
+// GitHub connections
+// OAuth tokens live only in github_connections, which has no RLS policies, so edge functions
+// running with the service role are the only readers. The browser never sees a token.
+
+export interface GitHubConnection {
+  userId: string;
+  login: string | null;
+  accessToken: string;
+}
+
+export async function getGitHubConnection(supabase: SupabaseClient, userId: string): Promise<GitHubConnection | null> {
+  const { data } = await supabase
+    .from("github_connections")
+    .select("user_id, github_login, access_token")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!data?.access_token) return null;
+  return {
+    userId: data.user_id,
+    login: data.github_login,
+    accessToken: data.access_token,
+  };
+}
+
+/**
+ * Picks the token used to check one of a project's repositories. The client attaches repositories
+ * to milestones, so a freelancer's token is only used for a repository that freelancer linked to the
+ * project themselves; the client's token covers the rest.
+ * @returns null when neither applies, and public repositories are read without a token
+ */
+export async function getProjectGitHubConnection(
+  supabase: SupabaseClient,
+  project: { id: string; client_id: string },
+  owner: string,
+  repo: string
+): Promise<GitHubConnection | null> {
+  const { data: links } = await supabase
+    .from("github_repo_links")
+    .select("linked_by")
+    .eq("project_id", project.id)
+    .eq("owner", owner.toLowerCase())
+    .eq("repo", repo.toLowerCase())
+    .order("created_at");
+
+  for (const link of links || []) {
+    const connection = await getGitHubConnection(supabase, link.linked_by);
+    if (connection) return connection;
+  }
+  return getGitHubConnection(supabase, project.client_id);
+}
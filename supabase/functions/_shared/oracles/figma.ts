@@ -0,0 +1,38 @@
+import { buildCriteriaEvidence, validateRequiredFields } from "./helpers.ts";
+import { OracleConfigField, OraclePlugin, OracleResponse } from "./types.ts";
+
+// Runs in the figma-oracle edge function
+
+interface FigmaResponse extends OracleResponse {
+  versionCount?: number;
+  versions?: { id: string | number; date?: string | null }[];
+}
+const configFields: OracleConfigField[] = [
+  { key: "fileKey", label: "Figma file key", type: "text", required: true, placeholder: "Figma file key" },
+  { key: "minVersions", label: "Minimum versions", type: "number", min: 0, placeholder: "Minimum versions (default: 1)" },
+  { key: "requiredPages", label: "Required pages", type: "list", placeholder: "Required pages, comma-separated" },
+  { key: "requiredFrames", label: "Required frames", type: "list", placeholder: "Required frames, comma-separated" },
+  { key: "versionLabel", label: "Version label", type: "text", placeholder: "Version label, e.g. Handoff" },
+  { key: "minComponents", label: "Minimum components", type: "number", min: 1, placeholder: "Minimum components (optional)" },
+  { key: "requireResolvedComments", label: "Require all comment threads resolved", type: "boolean" },
+];
+
+export const figmaOracle: OraclePlugin = {
+  type: "figma",
+  label: "Figma",
+  description: "Checked with the platform's Figma access token",
+  endpoint: "figma-oracle",
+  configFields,
+  validateConfig: (config) => validateRequiredFields(configFields, config),
+  buildEvidence: (response: FigmaResponse) => ({
+    artifacts: (response.versions || []).map((v) => ({
+      id: String(v.id),
+      date: v.date ?? null,
+    })),
+    source: {
+      versionCount: response.versionCount ?? 0,
+    },
+    criteria: buildCriteriaEvidence(response.criteria),
+    observedAt: response.timestamp ?? null,
+  }),
+};
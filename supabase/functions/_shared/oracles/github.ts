@@ -0,0 +1,43 @@
+import { buildCriteriaEvidence, validateRequiredFields } from "./helpers.ts";
+import { CommitSummary, OracleConfigField, OraclePlugin, OracleResponse } from "./types.ts";
+
+// Runs in the github-oracle edge function, which needs the project's GitHub connection
+
+interface GitHubResponse extends OracleResponse {
+  commitCount?: number;
+  latestCommit?: CommitSummary | null;
+  commits?: CommitSummary[];
+}
+const configFields: OracleConfigField[] = [
+  { key: "owner", label: "Repository owner", type: "text", required: true, placeholder: "Repository owner" },
+  { key: "repo", label: "Repository name", type: "text", required: true, placeholder: "Repository name" },
+  { key: "minCommits", label: "Required commits", type: "number", min: 0, placeholder: "Required commits (default: 1)" },
+  { key: "branch", label: "Branch", type: "text", placeholder: "Branch (default: main)" },
+  { key: "authorLogin", label: "Author login", type: "text", placeholder: "Freelancer GitHub login (optional)" },
+  { key: "pathGlob", label: "Changed files glob", type: "text", placeholder: "Changed files glob, e.g. src/**/*.ts" },
+  { key: "prLabel", label: "Merged PR label", type: "text", placeholder: "Merged PR label (optional)" },
+  { key: "tagPattern", label: "Tag pattern", type: "text", placeholder: "Tag name or glob, e.g. v1.*" },
+  { key: "requireChecks", label: "Require passing CI checks", type: "boolean" },
+  { key: "requireRelease", label: "Require a published release", type: "boolean" },
+];
+
+export const githubOracle: OraclePlugin = {
+  type: "github",
+  label: "GitHub",
+  description: "Checked with the GitHub account the freelancer connected, or the client's if they have not",
+  endpoint: "github-oracle",
+  configFields,
+  validateConfig: (config) => validateRequiredFields(configFields, config),
+  buildEvidence: (response: GitHubResponse) => ({
+    artifacts: (response.commits || []).map((c) => ({
+      id: c.fullSha || c.sha,
+      date: c.date ?? null,
+    })),
+    source: {
+      latestCommit: response.latestCommit?.fullSha ?? null,
+      commitCount: response.commitCount ?? 0,
+    },
+    criteria: buildCriteriaEvidence(response.criteria),
+    observedAt: response.timestamp ?? null,
+  }),
+};
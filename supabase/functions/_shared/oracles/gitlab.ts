@@ -0,0 +1,217 @@
+import { OracleRequestError, buildCriteriaEvidence, fetchPublicUrl, validateRequiredFields } from "./helpers.ts";
+import { CommitSummary, CriterionResult, OracleConfig, OracleConfigField, OracleContext, OraclePlugin, OracleResponse } from "./types.ts";
+
+// GitLab commits, merge requests and pipelines, read with GITLAB_TOKEN from the function's secrets.
+// Public projects on gitlab.com also work without a token.
+
+interface GitLabConfig extends OracleConfig {
+  projectPath: string;
+  host?: string;
+  minCommits?: number;
+  branch?: string;
+  since?: string;
+  authorEmail?: string;
+  mrLabel?: string;
+  requirePipeline?: boolean;
+}
+
+interface GitLabResponse extends OracleResponse {
+  commitCount?: number;
+  latestCommit?: CommitSummary | null;
+  commits?: CommitSummary[];
+}
+
+interface GitLabCommit {
+  id: string;
+  short_id: string;
+  title: string;
+  author_name: string;
+  author_email: string;
+  committed_date: string;
+  web_url: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  merged_at: string | null;
+  web_url: string;
+}
+
+interface GitLabPipeline {
+  id: number;
+  status: string;
+  sha: string;
+  web_url: string;
+}
+
+const DEFAULT_HOST = "https://gitlab.com";
+const PER_PAGE = 100;
+const MAX_PAGES = 10;
+
+const configFields: OracleConfigField[] = [
+  { key: "projectPath", label: "Project path", type: "text", required: true, placeholder: "Project path, e.g. group/project" },
+  { key: "host", label: "GitLab host", type: "text", placeholder: "GitLab host (default: https://gitlab.com)" },
+  { key: "minCommits", label: "Required commits", type: "number", min: 0, placeholder: "Required commits (default: 1)" },
+  { key: "branch", label: "Branch", type: "text", placeholder: "Branch (default: main)" },
+  { key: "authorEmail", label: "Author email", type: "text", placeholder: "Freelancer commit email (optional)" },
+  { key: "mrLabel", label: "Merged MR label", type: "text", placeholder: "Merged MR label (optional)" },
+  { key: "requirePipeline", label: "Require a passing pipeline on the latest commit", type: "boolean" },
+];
+
+async function fetchGitLab(url: string, headers: HeadersInit) {
+  const response = await fetchPublicUrl(url, { headers });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+    throw new OracleRequestError(`GitLab API error: ${response.status}`, errorData);
+  }
+  return response;
+}
+
+// GitLab reports the next page in x-next-page, which is empty on the last page
+async function fetchAllPages<T>(url: string, headers: HeadersInit): Promise<T[]> {
+  const items: T[] = [];
+  const separator = url.includes("?") ? "&" : "?";
+  let page: string | null = "1";
+  let pages = 0;
+
+  while (page && pages < MAX_PAGES) {
+    const response = await fetchGitLab(`${url}${separator}per_page=${PER_PAGE}&page=${page}`, headers);
+    items.push(...(await response.json()));
+    page = response.headers.get("x-next-page") || null;
+    pages++;
+  }
+
+  return items;
+}
+
+async function verify(config: GitLabConfig, context: OracleContext): Promise<GitLabResponse> {
+  const host = String(config.host || DEFAULT_HOST).replace(/\/+$/, "");
+  const branch = config.branch || "main";
+  const minCommits = config.minCommits ?? 1;
+  const token = context.env("GITLAB_TOKEN");
+  const headers: HeadersInit = token ? { "PRIVATE-TOKEN": token } : {};
+  const apiBase = `${host}/api/v4/projects/${encodeURIComponent(config.projectPath)}`;
+
+  try {
+    let commits = await fetchAllPages<GitLabCommit>(
+      `${apiBase}/repository/commits?ref_name=${encodeURIComponent(branch)}` +
+        (config.since ? `&since=${encodeURIComponent(config.since)}` : ""),
+      headers
+    );
+
+    if (config.authorEmail) {
+      const email = String(config.authorEmail).trim().toLowerCase();
+      commits = commits.filter((c) => c.author_email?.toLowerCase() === email);
+    }
+
+    const criteria: CriterionResult[] = [
+      {
+        name: "commits",
+        passed: commits.length >= minCommits,
+        detail: `${commits.length} of ${minCommits} required commit(s) on ${branch}` +
+          (config.authorEmail ? ` by ${config.authorEmail}` : ""),
+        matched: commits.slice(0, 20).map((c) => ({ id: c.id, name: c.title, url: c.web_url, date: c.committed_date })),
+      },
+    ];
+
+    if (config.mrLabel) {
+      const mergeRequests = await fetchAllPages<GitLabMergeRequest>(
+        `${apiBase}/merge_requests?state=merged&target_branch=${encodeURIComponent(branch)}` +
+          `&labels=${encodeURIComponent(config.mrLabel)}`,
+        headers
+      );
+      criteria.push({
+        name: "mergedMergeRequest",
+        passed: mergeRequests.length > 0,
+        detail: mergeRequests.length > 0
+          ? `!${mergeRequests[0].iid} merged with label "${config.mrLabel}"`
+          : `No merged merge request labelled "${config.mrLabel}" into ${branch}`,
+        matched: mergeRequests.slice(0, 5).map((mr) => ({
+          id: String(mr.iid),
+          name: mr.title,
+          url: mr.web_url,
+          date: mr.merged_at,
+        })),
+      });
+    }
+
+    if (config.requirePipeline) {
+      const latest = commits[0];
+      const pipelines: GitLabPipeline[] = latest
+        ? await (await fetchGitLab(`${apiBase}/pipelines?sha=${latest.id}&per_page=1`, headers)).json()
+        : [];
+      const pipeline = pipelines[0];
+      criteria.push({
+        name: "pipeline",
+        passed: pipeline?.status === "success",
+        detail: pipeline
+          ? `Pipeline #${pipeline.id} on ${latest.short_id} is ${pipeline.status}`
+          : "No pipeline ran on the latest commit",
+        matched: pipeline ? [{ id: String(pipeline.id), name: pipeline.status, url: pipeline.web_url }] : [],
+      });
+    }
+
+    const latestCommit = commits[0];
+
+    return {
+      verified: criteria.every((c) => c.passed),
+      commitCount: commits.length,
+      minCommits,
+      latestCommit: latestCommit
+        ? {
+            sha: latestCommit.short_id,
+            fullSha: latestCommit.id,
+            message: latestCommit.title,
+            author: latestCommit.author_name,
+            date: latestCommit.committed_date,
+          }
+        : null,
+      commits: commits.slice(0, 10).map((c) => ({
+        sha: c.short_id,
+        fullSha: c.id,
+        message: c.title,
+        author: c.author_name,
+        date: c.committed_date,
+      })),
+      criteria,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (!(error instanceof OracleRequestError)) throw error;
+    return {
+      verified: false,
+      error: error.message,
+      details: error.details,
+    };
+  }
+}
+
+export const gitlabOracle: OraclePlugin = {
+  type: "gitlab",
+  label: "GitLab",
+  description: "Checked with the platform's GitLab token; public gitlab.com projects need none",
+  endpoint: "verification-oracle",
+  configFields,
+  validateConfig: (config) => {
+    const missing = validateRequiredFields(configFields, config);
+    if (missing) return missing;
+    if (!String(config.projectPath).includes("/")) {
+      return "Project path must include the group, e.g. group/project";
+    }
+    return null;
+  },
+  buildEvidence: (response: GitLabResponse) => ({
+    artifacts: (response.commits || []).map((c) => ({
+      id: c.fullSha || c.sha,
+      date: c.date ?? null,
+    })),
+    source: {
+      latestCommit: response.latestCommit?.fullSha ?? null,
+      commitCount: response.commitCount ?? 0,
+    },
+    criteria: buildCriteriaEvidence(response.criteria),
+    observedAt: response.timestamp ?? null,
+  }),
+  verify,
+};
@@ -0,0 +1,147 @@
+import { CriterionResult, EvidenceCriterion, OracleConfig, OracleConfigField } from "./types.ts";
+
+// Plain-object helpers shared by the plugins; like the plugins they run in Deno and the browser
+
+// Returns the first required field left empty, or null
+export function validateRequiredFields(fields: OracleConfigField[], config: OracleConfig): string | null {
+  for (const field of fields) {
+    if (!field.required) continue;
+    const value = config[field.key];
+    const empty = value == null || value === "" || (Array.isArray(value) && value.length === 0);
+    if (empty) {
+      return `${field.label} is required`;
+    }
+  }
+  return null;
+}
+
+// Config values may be saved as comma-separated text from the project form
+export function toNameList(value: unknown): string[] | undefined {
+  const names = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string" ? value.split(",") : [];
+  const trimmed = names.map((n) => n.trim()).filter(Boolean);
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function buildCriteriaEvidence(criteria: CriterionResult[] | undefined): EvidenceCriterion[] | undefined {
+  if (!Array.isArray(criteria)) return undefined;
+
+  return criteria.map((c) => ({
+    name: c.name,
+    passed: !!c.passed,
+    matched: (c.matched || []).map((m) => String(m.id)),
+  }));
+}
+
+const PRIVATE_HOSTNAME = /^(localhost|.*\.localhost|.*\.local|.*\.internal|metadata\.google\.internal)$/i;
+
+function isPrivateIPv4(hostname: string): boolean {
+  const parts = hostname.split(".").map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) {
+    return false;
+  }
+
+  const [a, b] = parts;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIPv6(hostname: string): boolean {
+  const address = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!address.includes(":")) return false;
+  return (
+    address === "::" ||
+    address === "::1" ||
+    address.startsWith("fc") ||
+    address.startsWith("fd") ||
+    address.startsWith("fe80") ||
+    address.startsWith("::ffff:")
+  );
+}
+
+/**
+ * Parses a URL taken from a milestone config and rejects anything but public http(s) hosts,
+ * so a project cannot point the oracle at the platform's own network
+ */
+export function parsePublicUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid URL: ${value}`);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be checked: ${value}`);
+  }
+
+  if (url.username || url.password) {
+    throw new Error("URLs with credentials cannot be checked");
+  }
+
+  if (PRIVATE_HOSTNAME.test(url.hostname) || isPrivateIPv4(url.hostname) || isPrivateIPv6(url.hostname)) {
+    throw new Error(`Private or local hosts cannot be checked: ${url.hostname}`);
+  }
+
+  return url;
+}
+
+export class OracleRequestError extends Error {
+  constructor(message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+/**
+ * fetch with a deadline. Redirects are followed by hand so every hop is checked with parsePublicUrl.
+ */
+export async function fetchPublicUrl(
+  value: string,
+  init: RequestInit = {},
+  timeoutMs = 10000,
+  maxRedirects = 5
+): Promise<Response> {
+  let url = parsePublicUrl(value);
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+
+    try {
+      response = await fetch(url.toString(), { ...init, redirect: "manual", signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new OracleRequestError(`${url} did not respond within ${timeoutMs}ms`);
+      }
+      throw new OracleRequestError(`Could not reach ${url}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = parsePublicUrl(new URL(location, url).toString());
+      continue;
+    }
+
+    return response;
+  }
+
+  throw new OracleRequestError(`Too many redirects from ${value}`);
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,117 @@
+import { OracleRequestError, buildCriteriaEvidence, fetchPublicUrl, parsePublicUrl, sha256Hex, validateRequiredFields } from "./helpers.ts";
+import { CriterionResult, OracleConfig, OracleConfigField, OraclePlugin, OracleResponse } from "./types.ts";
+
+// Calls one endpoint and checks its status, body and response time, e.g. an API health route
+
+interface HttpCheckConfig extends OracleConfig {
+  url: string;
+  method?: string;
+  expectedStatus?: number;
+  maxResponseMs?: number;
+  bodyContains?: string;
+}
+
+interface HttpCheckResponse extends OracleResponse {
+  url?: string;
+  status?: number;
+  bodySha256?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const configFields: OracleConfigField[] = [
+  { key: "url", label: "URL", type: "text", required: true, placeholder: "https://api.example.com/health" },
+  { key: "method", label: "Method", type: "select", options: ["GET", "HEAD"] },
+  { key: "expectedStatus", label: "Expected status", type: "number", min: 100, placeholder: "Expected status (default: 200)" },
+  { key: "maxResponseMs", label: "Maximum response time", type: "number", min: 1, placeholder: "Max response time in ms (optional)" },
+  { key: "bodyContains", label: "Body contains", type: "text", placeholder: "Text the response body must contain (optional)" },
+];
+
+async function verify(config: HttpCheckConfig): Promise<HttpCheckResponse> {
+  const method = config.method === "HEAD" ? "HEAD" : "GET";
+  const expectedStatus = config.expectedStatus ?? 200;
+  const maxResponseMs = config.maxResponseMs ?? undefined;
+
+  try {
+    const started = Date.now();
+    const response = await fetchPublicUrl(config.url, { method }, DEFAULT_TIMEOUT_MS);
+    const body = method === "HEAD" ? "" : await response.text();
+    const responseTimeMs = Date.now() - started;
+    const bodySha256 = await sha256Hex(body);
+
+    const criteria: CriterionResult[] = [
+      {
+        name: "status",
+        passed: response.status === expectedStatus,
+        detail: `Responded ${response.status}, expected ${expectedStatus}`,
+        matched: [{ id: String(response.status), url: response.url || config.url }],
+      },
+    ];
+
+    if (config.bodyContains && method === "GET") {
+      const found = body.includes(config.bodyContains);
+      criteria.push({
+        name: "bodyContains",
+        passed: found,
+        detail: found ? `Body contains "${config.bodyContains}"` : `Body does not contain "${config.bodyContains}"`,
+        matched: found ? [{ id: bodySha256 }] : [],
+      });
+    }
+
+    if (maxResponseMs) {
+      criteria.push({
+        name: "responseTime",
+        passed: responseTimeMs <= maxResponseMs,
+        detail: `Responded in ${responseTimeMs}ms, limit ${maxResponseMs}ms`,
+        matched: [],
+      });
+    }
+
+    return {
+      verified: criteria.every((c) => c.passed),
+      url: config.url,
+      method,
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+      responseTimeMs,
+      bodySha256,
+      criteria,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (!(error instanceof OracleRequestError)) throw error;
+    return {
+      verified: false,
+      url: config.url,
+      error: error.message,
+    };
+  }
+}
+
+export const httpCheckOracle: OraclePlugin = {
+  type: "http_check",
+  label: "HTTP Check",
+  description: "Calls an endpoint and checks its status code, body and response time",
+  endpoint: "verification-oracle",
+  configFields,
+  validateConfig: (config) => {
+    const missing = validateRequiredFields(configFields, config);
+    if (missing) return missing;
+    try {
+      parsePublicUrl(String(config.url));
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return null;
+  },
+  buildEvidence: (response: HttpCheckResponse) => ({
+    artifacts: response.bodySha256 ? [{ id: response.bodySha256, date: response.timestamp ?? null }] : [],
+    source: {
+      url: response.url ?? null,
+      status: response.status ?? null,
+    },
+    criteria: buildCriteriaEvidence(response.criteria),
+    observedAt: response.timestamp ?? null,
+  }),
+  verify,
+};
@@ -0,0 +1,89 @@
+import { figmaOracle } from "./figma.ts";
+import { githubOracle } from "./github.ts";
+import { gitlabOracle } from "./gitlab.ts";
+import { httpCheckOracle } from "./http-check.ts";
+import { manualOracle } from "./manual.ts";
+import { smokeCheckOracle } from "./smoke-check.ts";
+import { MilestoneEvidence, OracleConfig, OraclePlugin, OracleResponse } from "./types.ts";
+
+// Oracle registry
+// One list of verification types for the edge functions and the app. Adding a type means adding a
+// plugin here and a row in the verification_types table.
+
+export * from "./types.ts";
+export { toNameList } from "./helpers.ts";
+
+// Hashed into every evidence commitment, so a bump changes the hash of all evidence, old logs
+// included: evidence is always rebuilt at the current version. Attestations already signed stay
+// claimable, since the escrow only checks the oracle's signature over the hash, but hashes committed
+// before the bump no longer match their logs in checkMilestoneEvidence. Bump only with the layout.
+export const EVIDENCE_VERSION = 1;
+
+export const ORACLE_PLUGINS: OraclePlugin[] = [
+  manualOracle,
+  githubOracle,
+  figmaOracle,
+  gitlabOracle,
+  httpCheckOracle,
+  smokeCheckOracle,
+];
+
+export function getOraclePlugin(type: string): OraclePlugin | null {
+  return ORACLE_PLUGINS.find((p) => p.type === type) || null;
+}
+
+/**
+ * The body every oracle endpoint accepts: the milestone's saved config plus its id and project.
+ * With attest set the oracle also signs an attestation for claimWithAttestation.
+ */
+export function buildOracleRequest(
+  milestone: { id: string; verification_type: string; verification_config: OracleConfig | null },
+  projectId: string,
+  attest = false
+): Record<string, unknown> {
+  return {
+    ...milestone.verification_config,
+    verificationType: milestone.verification_type,
+    projectId,
+    milestoneId: milestone.id,
+    ...(attest ? { attest: { milestoneId: milestone.id } } : {}),
+  };
+}
+
+// JSON with sorted keys and no whitespace, so jsonb round-trips hash identically
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+/**
+ * Reduces an oracle response to the fields that prove the work happened
+ * @param milestoneId - Binds the evidence to one milestone so it cannot be replayed on another
+ * @param verificationType - A registered plugin type; unknown types fall back to manual approval
+ * @param oracleResponse - The response exactly as stored in verification_logs.oracle_response
+ */
+export function buildMilestoneEvidence(
+  milestoneId: string,
+  verificationType: string,
+  oracleResponse: unknown
+): MilestoneEvidence {
+  const plugin = getOraclePlugin(verificationType) || manualOracle;
+
+  return {
+    version: EVIDENCE_VERSION,
+    milestoneId,
+    verificationType,
+    ...plugin.buildEvidence((oracleResponse || {}) as OracleResponse),
+  };
+}
@@ -0,0 +1,24 @@
+import { OraclePlugin, OracleResponse } from "./types.ts";
+
+// Written by the app when the client approves, not by an edge function
+interface ManualApproval extends OracleResponse {
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+// The client approves the milestone by hand; the evidence records who approved it and when
+export const manualOracle: OraclePlugin = {
+  type: "manual",
+  label: "Manual",
+  description: "The client reviews the work and approves the milestone",
+  endpoint: null,
+  configFields: [],
+  validateConfig: () => null,
+  buildEvidence: (response: ManualApproval) => ({
+    artifacts: [],
+    source: {
+      approvedBy: response.approvedBy ?? null,
+    },
+    observedAt: response.approvedAt ?? null,
+  }),
+};
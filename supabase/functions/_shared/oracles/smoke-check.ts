@@ -0,0 +1,201 @@
+import { OracleRequestError, buildCriteriaEvidence, fetchPublicUrl, parsePublicUrl, sha256Hex, toNameList, validateRequiredFields } from "./helpers.ts";
+import { CriterionResult, MatchedArtifact, OracleConfig, OracleConfigField, OraclePlugin, OracleResponse } from "./types.ts";
+
+// Loads a deployed site's pages and the scripts and stylesheets they reference, without a browser.
+// Catches a dead deployment, an error page served with 200 or a broken build; it does not render anything.
+
+interface SmokeCheckConfig extends OracleConfig {
+  url: string;
+  paths?: string[] | string;
+  requiredText?: string;
+  maxResponseMs?: number;
+  checkAssets?: boolean;
+}
+
+interface PageResult {
+  path: string;
+  status: number;
+  title: string | null;
+  responseTimeMs: number;
+  bodySha256: string;
+  html: boolean;
+}
+
+interface SmokeCheckResponse extends OracleResponse {
+  url?: string;
+  pages?: PageResult[];
+}
+
+const DEFAULT_MAX_RESPONSE_MS = 3000;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_PATHS = 10;
+const MAX_ASSETS = 10;
+
+const configFields: OracleConfigField[] = [
+  { key: "url", label: "Site URL", type: "text", required: true, placeholder: "https://app.example.com" },
+  { key: "paths", label: "Paths", type: "list", placeholder: "Paths to load, comma-separated (default: /)" },
+  { key: "requiredText", label: "Required text", type: "text", placeholder: "Text every page must contain (optional)" },
+  { key: "maxResponseMs", label: "Maximum response time", type: "number", min: 1, placeholder: `Max response time in ms (default: ${DEFAULT_MAX_RESPONSE_MS})` },
+  { key: "checkAssets", label: "Check that scripts and stylesheets load", type: "boolean" },
+];
+
+function extractTitle(html: string): string | null {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match?.[1].replace(/\s+/g, " ").trim();
+  return title || null;
+}
+
+// Same-origin script and stylesheet URLs, the parts of a build most likely to be missing after a bad deploy
+function extractAssets(html: string, pageUrl: URL): string[] {
+  const assets = new Set<string>();
+  const patterns = [
+    /<script[^>]+src=["']([^"']+)["']/gi,
+    /<link[^>]+rel=["']stylesheet["'][^>]*href=["']([^"']+)["']/gi,
+    /<link[^>]+href=["']([^"']+)["'][^>]*rel=["']stylesheet["']/gi,
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of html.matchAll(pattern)) {
+      const assetUrl = new URL(match[1], pageUrl);
+      if (assetUrl.origin === pageUrl.origin) {
+        assets.add(assetUrl.toString());
+      }
+    }
+  }
+
+  return [...assets].slice(0, MAX_ASSETS);
+}
+
+async function verify(config: SmokeCheckConfig): Promise<SmokeCheckResponse> {
+  const baseUrl = parsePublicUrl(config.url);
+  const paths = (toNameList(config.paths) || ["/"]).slice(0, MAX_PATHS);
+  const maxResponseMs = config.maxResponseMs ?? DEFAULT_MAX_RESPONSE_MS;
+  const pages: PageResult[] = [];
+  const assets = new Set<string>();
+  const missingText: string[] = [];
+
+  try {
+    for (const path of paths) {
+      const pageUrl = new URL(path, baseUrl);
+      const started = Date.now();
+      const response = await fetchPublicUrl(pageUrl.toString(), { headers: { Accept: "text/html" } }, REQUEST_TIMEOUT_MS);
+      const body = await response.text();
+
+      pages.push({
+        path,
+        status: response.status,
+        title: extractTitle(body),
+        responseTimeMs: Date.now() - started,
+        bodySha256: await sha256Hex(body),
+        html: (response.headers.get("content-type") || "").includes("text/html"),
+      });
+
+      if (config.requiredText && !body.includes(config.requiredText)) {
+        missingText.push(path);
+      }
+
+      if (config.checkAssets) {
+        extractAssets(body, pageUrl).forEach((asset) => assets.add(asset));
+      }
+    }
+
+    const pageArtifact = (p: PageResult): MatchedArtifact => ({ id: `${p.path}#${p.bodySha256}`, name: p.title || undefined });
+    const brokenPages = pages.filter((p) => p.status < 200 || p.status >= 300 || !p.html || !p.title);
+    const slowPages = pages.filter((p) => p.responseTimeMs > maxResponseMs);
+
+    const criteria: CriterionResult[] = [
+      {
+        name: "pages",
+        passed: brokenPages.length === 0,
+        detail: brokenPages.length === 0
+          ? `All ${pages.length} page(s) returned HTML with a title`
+          : `Broken page(s): ${brokenPages.map((p) => `${p.path} (${p.status}${p.html ? "" : ", not HTML"}${p.title ? "" : ", no title"})`).join(", ")}`,
+        matched: pages.map(pageArtifact),
+      },
+      {
+        name: "responseTime",
+        passed: slowPages.length === 0,
+        detail: slowPages.length === 0
+          ? `All page(s) loaded within ${maxResponseMs}ms`
+          : `Slow page(s): ${slowPages.map((p) => `${p.path} (${p.responseTimeMs}ms)`).join(", ")}`,
+        matched: [],
+      },
+    ];
+
+    if (config.requiredText) {
+      criteria.push({
+        name: "requiredText",
+        passed: missingText.length === 0,
+        detail: missingText.length === 0
+          ? `Every page contains "${config.requiredText}"`
+          : `"${config.requiredText}" missing on ${missingText.join(", ")}`,
+        matched: pages.filter((p) => !missingText.includes(p.path)).map(pageArtifact),
+      });
+    }
+
+    if (config.checkAssets) {
+      const failedAssets: string[] = [];
+      for (const asset of assets) {
+        const response = await fetchPublicUrl(asset, {}, REQUEST_TIMEOUT_MS).catch(() => null);
+        await response?.body?.cancel();
+        if (!response?.ok) failedAssets.push(asset);
+      }
+
+      criteria.push({
+        name: "assets",
+        passed: failedAssets.length === 0,
+        detail: failedAssets.length === 0
+          ? `All ${assets.size} script(s) and stylesheet(s) loaded`
+          : `Failed to load: ${failedAssets.join(", ")}`,
+        matched: [...assets].filter((a) => !failedAssets.includes(a)).map((a) => ({ id: a, url: a })),
+      });
+    }
+
+    return {
+      verified: criteria.every((c) => c.passed),
+      url: baseUrl.toString(),
+      pages,
+      criteria,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (!(error instanceof OracleRequestError)) throw error;
+    return {
+      verified: false,
+      url: baseUrl.toString(),
+      pages,
+      error: error.message,
+    };
+  }
+}
+
+export const smokeCheckOracle: OraclePlugin = {
+  type: "smoke_check",
+  label: "Smoke Check",
+  description: "Loads the deployed site's pages and checks they return HTML with a title, in time",
+  endpoint: "verification-oracle",
+  configFields,
+  validateConfig: (config) => {
+    const missing = validateRequiredFields(configFields, config);
+    if (missing) return missing;
+    try {
+      parsePublicUrl(String(config.url));
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return null;
+  },
+  buildEvidence: (response: SmokeCheckResponse) => ({
+    artifacts: (response.pages || []).map((p) => ({
+      id: `${p.path}#${p.bodySha256}`,
+      date: null,
+    })),
+    source: {
+      url: response.url ?? null,
+      pageCount: (response.pages || []).length,
+    },
+    criteria: buildCriteriaEvidence(response.criteria),
+    observedAt: response.timestamp ?? null,
+  }),
+  verify,
+};
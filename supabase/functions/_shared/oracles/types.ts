@@ -0,0 +1,100 @@
+// Oracle plugin types
+// Shared by the edge functions and the app, so nothing here may touch Deno or browser globals.
+
+// A milestone's verification_config as saved on the project form
+export type OracleConfig = Record<string, unknown>;
+
+export interface OracleConfigField {
+  key: string;
+  label: string;
+  // list values are saved as string arrays and entered as comma-separated text
+  type: "text" | "number" | "boolean" | "list" | "select";
+  required?: boolean;
+  placeholder?: string;
+  options?: string[];
+  min?: number;
+  // Shown under the field on the project form
+  hint?: string;
+}
+
+export interface MatchedArtifact {
+  id: string;
+  name?: string;
+  url?: string;
+  date?: string | null;
+}
+
+export interface CriterionResult {
+  name: string;
+  passed: boolean;
+  detail: string;
+  matched: MatchedArtifact[];
+}
+
+// Every oracle answers with at least these fields; plugins add their own
+export interface OracleResponse {
+  verified: boolean;
+  criteria?: CriterionResult[];
+  timestamp?: string;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// A commit as the GitHub and GitLab oracles report it
+export interface CommitSummary {
+  sha: string;
+  fullSha?: string;
+  message?: string;
+  author?: string;
+  date?: string | null;
+}
+
+export interface EvidenceArtifact {
+  id: string;
+  date: string | null;
+}
+
+export interface EvidenceCriterion {
+  name: string;
+  passed: boolean;
+  matched: string[];
+}
+
+export interface MilestoneEvidence {
+  version: number;
+  milestoneId: string;
+  verificationType: string;
+  // Commit SHAs for GitHub and GitLab, version ids for Figma, response hashes for URL checks, empty for manual approval
+  artifacts: EvidenceArtifact[];
+  source: Record<string, string | number | null>;
+  // Oracle criteria results; absent for logs written before criteria existed, so their hashes are unchanged
+  criteria?: EvidenceCriterion[];
+  observedAt: string | null;
+}
+
+// The part of the evidence a plugin decides; the registry adds the version, milestone and type
+export type EvidenceBody = Omit<MilestoneEvidence, "version" | "milestoneId" | "verificationType">;
+
+export interface OracleContext {
+  // Server-side secrets such as GITLAB_TOKEN; edge functions pass Deno.env.get
+  env: (name: string) => string | undefined;
+}
+
+export interface OraclePlugin {
+  // Stored in milestones.verification_type and the verification_types table
+  type: string;
+  label: string;
+  description: string;
+  // Edge function that runs the check, or null when the client approves by hand
+  endpoint: string | null;
+  configFields: OracleConfigField[];
+  /**
+   * Checks a milestone's config before the project is created
+   * @returns An error message, or null when the config is usable
+   */
+  validateConfig(config: OracleConfig): string | null;
+  // Reduces an oracle response to the fields that prove the work happened
+  buildEvidence(response: OracleResponse): EvidenceBody;
+  // Runs the check inside verification-oracle; plugins with their own edge function leave this out
+  verify?(config: OracleConfig, context: OracleContext): Promise<OracleResponse>;
+}
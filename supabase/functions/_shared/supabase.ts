@@ -0,0 +1,33 @@
+import { SupabaseClient, createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+// Service-role access and caller identification shared by the edge functions
+
+export type Caller =
+  | { kind: "service" }
+  | { kind: "user"; userId: string };
+
+export function createServiceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  }
+  return createClient(supabaseUrl, serviceRoleKey);
+}
+
+/**
+ * Identifies who is calling from the Authorization header: the service role (scheduled jobs)
+ * or a signed-in user. The anon key alone identifies nobody.
+ */
+export async function getCaller(supabase: SupabaseClient, req: Request): Promise<Caller | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return { kind: "service" };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { kind: "user", userId: data.user.id };
+}
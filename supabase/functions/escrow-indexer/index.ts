@@ -0,0 +1,891 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { Contract, Interface, JsonRpcProvider, ZeroAddress, formatUnits } from "npm:ethers@6.15.0";
+import { Caller, createServiceClient, getCaller } from "../_shared/supabase.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface IndexerRequest {
+  projectId?: string;
+}
+
+interface ProjectRow {
+  id: string;
+  client_id: string;
+  freelancer_id: string | null;
+  arbiter_address: string | null;
+  escrow_contract_address: string;
+  status: string;
+  staged_funding: boolean;
+  token_decimals: number | null;
+  chain_id: number | null;
+  last_indexed_block: number | null;
+}
+
+interface MilestoneRow {
+  id: string;
+  order_index: number;
+  status: string;
+  amount: number;
+  kill_fee_amount: number | null;
+  verified_at: string | null;
+  paid_at: string | null;
+  funded_at: string | null;
+}
+
+// One payee's share of a payment, dispute ruling or kill fee
+interface Payout {
+  payee: string;
+  amount: bigint;
+}
+
+interface ProjectSummary {
+  projectId: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  transactionsInserted: number;
+  transactionsUpdated: number;
+  milestonesCorrected: number;
+  projectStatus: string;
+  // Set when the escrow's fee differs from the one the platform's escrow factory applies
+  feeMismatch?: string;
+  error?: string;
+}
+
+const ESCROW_EVENTS = new Interface([
+  "event FundsDeposited(address indexed from, uint256 amount)",
+  "event MilestonesFunded(uint256 fromIndex, uint256 count, uint256 amount)",
+  "event MilestoneVerified(uint256 indexed milestoneIndex, string verificationHash)",
+  "event MilestonePaid(uint256 indexed milestoneIndex, address indexed freelancer, uint256 amount, uint256 fee)",
+  "event PayeePaid(uint256 indexed milestoneIndex, address indexed payee, uint256 amount)",
+  "event EscrowCancelled(address indexed by)",
+  "event DisputeResolved(uint256 indexed milestoneIndex, uint256 freelancerAmount, uint256 clientAmount)",
+  "event ChangeOrderProposed(uint256 indexed changeOrderId, uint8 kind, uint256 milestoneIndex, uint256 newAmount)",
+  "event ChangeOrderAccepted(uint256 indexed changeOrderId, uint256 milestoneIndex)",
+  "event ChangeOrderClosed(uint256 indexed changeOrderId, address indexed by)",
+  "event MilestoneCancellationRequested(uint256 indexed milestoneIndex, uint256 killFeeBps)",
+  "event MilestoneCancelled(uint256 indexed milestoneIndex, uint256 freelancerAmount, uint256 clientAmount)",
+  "event FundsRefunded(address indexed to, uint256 amount)",
+]);
+
+// Escrows deployed before the platform fee emit MilestonePaid without it
+const LEGACY_ESCROW_EVENTS = new Interface([
+  "event MilestonePaid(uint256 indexed milestoneIndex, address indexed freelancer, uint256 amount)",
+]);
+
+// Order matches the escrow's ChangeKind enum
+const CHANGE_ORDER_KINDS = ["add", "reprice", "remove"];
+
+const ESCROW_VIEWS = [
+  "function getMilestone(uint256 _index) view returns (uint256 amount, bool isPaid, bool isVerified, string verificationHash)",
+  "function client() view returns (address)",
+  "function freelancer() view returns (address)",
+  "function feeRecipient() view returns (address)",
+  "function feeBps() view returns (uint256)",
+];
+
+const FACTORY_VIEWS = [
+  "function feeRecipient() view returns (address)",
+  "function feeBps() view returns (uint256)",
+];
+
+const MILESTONE_COLUMNS = "id, order_index, status, amount, kill_fee_amount, verified_at, paid_at, funded_at";
+
+const TRACKED_TOPICS = [
+  "FundsDeposited",
+  "MilestonesFunded",
+  "MilestoneVerified",
+  "MilestonePaid",
+  "PayeePaid",
+  "EscrowCancelled",
+  "DisputeResolved",
+  "ChangeOrderProposed",
+  "ChangeOrderAccepted",
+  "ChangeOrderClosed",
+  "MilestoneCancellationRequested",
+  "MilestoneCancelled",
+  "FundsRefunded",
+].map((name) => ESCROW_EVENTS.getEvent(name)!.topicHash)
+  .concat(LEGACY_ESCROW_EVENTS.getEvent("MilestonePaid")!.topicHash);
+
+// Public RPCs for the networks in src/lib/networks.ts. Override per chain with RPC_URL_<chainId>;
+// QIE_RPC_URL still applies to testnet projects for existing deployments.
+const DEFAULT_CHAIN_ID = 1983;
+const DEFAULT_RPC_URLS: Record<number, string> = {
+  1983: Deno.env.get("QIE_RPC_URL") || "https://rpc1testnet.qie.digital",
+  1990: "https://rpc1mainnet.qie.digital",
+};
+const BLOCK_RANGE = parseInt(Deno.env.get("INDEXER_BLOCK_RANGE") || "5000");
+const CONFIRMATIONS = parseInt(Deno.env.get("INDEXER_CONFIRMATIONS") || "2");
+const LOOKBACK_BLOCKS = parseInt(Deno.env.get("INDEXER_LOOKBACK_BLOCKS") || "200000");
+
+// Binary-searches for the block the escrow was deployed in. Needs an archive RPC;
+// falls back to a fixed lookback window when historical state is unavailable.
+async function findDeploymentBlock(provider: JsonRpcProvider, address: string, latest: number): Promise<number> {
+  try {
+    let low = 0;
+    let high = latest;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const code = await provider.getCode(address, mid);
+      if (code && code !== "0x") {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  } catch (error) {
+    console.warn(`Could not locate deployment block for ${address}:`, error);
+    return Math.max(0, latest - LOOKBACK_BLOCKS);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// The client, the lead freelancer, a team member or the arbiter; the service role may index any project.
+// The arbiter is matched on the wallet they proved they hold, never on the wallet they typed in.
+async function canIndexProject(supabase: SupabaseClient, caller: Caller, project: ProjectRow): Promise<boolean> {
+  if (caller.kind === "service") return true;
+  if (caller.userId === project.client_id || caller.userId === project.freelancer_id) return true;
+
+  const { data: member } = await supabase
+    .from("project_members")
+    .select("id")
+    .eq("project_id", project.id)
+    .eq("freelancer_id", caller.userId)
+    .maybeSingle();
+  if (member) return true;
+
+  if (!project.arbiter_address) return false;
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("verified_wallet_address")
+    .eq("id", caller.userId)
+    .maybeSingle();
+  return !!profile?.verified_wallet_address &&
+    profile.verified_wallet_address.toLowerCase() === project.arbiter_address.toLowerCase();
+}
+
+function getRpcUrl(chainId: number): string | undefined {
+  return Deno.env.get(`RPC_URL_${chainId}`) || DEFAULT_RPC_URLS[chainId];
+}
+
+// The fee the chain's escrow factory, configured with ESCROW_FACTORY_<chainId>, applies to new escrows
+async function getPlatformFee(
+  provider: JsonRpcProvider,
+  chainId: number
+): Promise<{ bps: bigint; recipient: string } | null> {
+  const factoryAddress = Deno.env.get(`ESCROW_FACTORY_${chainId}`);
+  if (!factoryAddress) return null;
+
+  const factory = new Contract(factoryAddress, FACTORY_VIEWS, provider);
+  const [recipient, bps] = await Promise.all([factory.feeRecipient(), factory.feeBps()]);
+  return { bps, recipient };
+}
+
+async function indexProject(
+  supabase: SupabaseClient,
+  provider: JsonRpcProvider,
+  project: ProjectRow,
+  latestBlock: number
+): Promise<ProjectSummary> {
+  const address = project.escrow_contract_address;
+  const decimals = project.token_decimals ?? 18;
+
+  const fromBlock = project.last_indexed_block !== null
+    ? project.last_indexed_block + 1
+    : await findDeploymentBlock(provider, address, latestBlock);
+
+  const summary: ProjectSummary = {
+    projectId: project.id,
+    chainId: project.chain_id ?? DEFAULT_CHAIN_ID,
+    fromBlock,
+    toBlock: latestBlock,
+    events: 0,
+    transactionsInserted: 0,
+    transactionsUpdated: 0,
+    milestonesCorrected: 0,
+    projectStatus: project.status,
+  };
+
+  const { data: milestones } = await supabase
+    .from("milestones")
+    .select(MILESTONE_COLUMNS)
+    .eq("project_id", project.id);
+
+  const milestoneByIndex = new Map<number, MilestoneRow>();
+  ((milestones || []) as MilestoneRow[]).forEach((m) => milestoneByIndex.set(m.order_index, m));
+
+  // Backfill receipts for rows the UI wrote before the chain confirmed them
+  const { data: unindexed } = await supabase
+    .from("transactions")
+    .select("id, transaction_hash, status")
+    .eq("project_id", project.id)
+    .is("block_number", null);
+
+  for (const row of unindexed || []) {
+    const receipt = await provider.getTransactionReceipt(row.transaction_hash).catch(() => null);
+    if (!receipt || receipt.blockNumber > latestBlock) continue;
+
+    await supabase
+      .from("transactions")
+      .update({
+        block_number: receipt.blockNumber,
+        status: receipt.status === 1 ? "confirmed" : "failed",
+      })
+      .eq("id", row.id);
+    summary.transactionsUpdated++;
+  }
+
+  let projectStatus = project.status;
+  let fundingChanged = false;
+  let milestonesAmended = false;
+  let milestonesSettled = false;
+  const escrow = new Contract(address, ESCROW_VIEWS, provider);
+
+  // An escrow that skips or redirects the platform's fee is still indexed, but flagged
+  const platformFee = await getPlatformFee(provider, summary.chainId).catch(() => null);
+  if (platformFee) {
+    // Escrows deployed before the platform fee take none
+    const [feeBps, feeRecipient]: [bigint, string] = await Promise.all([
+      escrow.feeBps().catch(() => 0n),
+      escrow.feeRecipient().catch(() => ZeroAddress),
+    ]);
+    const recipientDiffers = platformFee.bps > 0n && feeRecipient.toLowerCase() !== platformFee.recipient.toLowerCase();
+    if (feeBps !== platformFee.bps || recipientDiffers) {
+      summary.feeMismatch =
+        `Escrow takes ${feeBps} bps to ${feeRecipient}; the platform fee is ${platformFee.bps} bps to ${platformFee.recipient}`;
+      console.warn(`Project ${project.id}: ${summary.feeMismatch}`);
+    }
+  }
+
+  // PayeePaid events come before the payment, ruling or cancellation that paid them out in the same
+  // transaction, keyed by transaction hash and milestone index
+  const payeePayouts = new Map<string, Payout[]>();
+
+  // Escrows deployed before team payees emit no PayeePaid; their payouts all went to the lead freelancer
+  const takePayouts = async (transactionHash: string, milestoneIndex: number, amount: bigint): Promise<Payout[]> => {
+    const key = `${transactionHash.toLowerCase()}:${milestoneIndex}`;
+    const payouts = payeePayouts.get(key);
+    payeePayouts.delete(key);
+    return payouts ?? [{ payee: await escrow.freelancer(), amount }];
+  };
+
+  const markFunded = async (milestone: MilestoneRow | undefined, timestamp: string) => {
+    if (!milestone || milestone.funded_at) return;
+    await supabase
+      .from("milestones")
+      .update({ funded_at: timestamp })
+      .eq("id", milestone.id);
+    milestone.funded_at = timestamp;
+    summary.milestonesCorrected++;
+    fundingChanged = true;
+  };
+
+  for (let start = fromBlock; start <= latestBlock; start += BLOCK_RANGE) {
+    const end = Math.min(start + BLOCK_RANGE - 1, latestBlock);
+    const logs = await provider.getLogs({
+      address,
+      fromBlock: start,
+      toBlock: end,
+      topics: [TRACKED_TOPICS],
+    });
+
+    for (const log of logs) {
+      const event = ESCROW_EVENTS.parseLog({ topics: [...log.topics], data: log.data }) ??
+        LEGACY_ESCROW_EVENTS.parseLog({ topics: [...log.topics], data: log.data });
+      if (!event) continue;
+      summary.events++;
+
+      const block = await provider.getBlock(log.blockNumber);
+      const timestamp = new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000).toISOString();
+
+      if (event.name === "PayeePaid") {
+        const key = `${log.transactionHash.toLowerCase()}:${Number(event.args.milestoneIndex)}`;
+        const payouts = payeePayouts.get(key) ?? [];
+        payouts.push({ payee: event.args.payee, amount: event.args.amount });
+        payeePayouts.set(key, payouts);
+      } else if (event.name === "FundsDeposited") {
+        const amount = formatUnits(event.args.amount, decimals);
+        const inserted = await upsertTransaction(supabase, {
+          project_id: project.id,
+          milestone_id: null,
+          transaction_hash: log.transactionHash,
+          transaction_type: "escrow_deposit",
+          amount: parseFloat(amount),
+          from_address: event.args.from,
+          to_address: address,
+          block_number: log.blockNumber,
+        });
+        if (inserted) summary.transactionsInserted++;
+
+        if (projectStatus === "draft") {
+          projectStatus = "active";
+        }
+
+        // Escrows deployed before staged funding fund every milestone with one deposit
+        if (!project.staged_funding) {
+          for (const milestone of milestoneByIndex.values()) {
+            await markFunded(milestone, timestamp);
+          }
+        }
+      } else if (event.name === "MilestonesFunded") {
+        const fromIndex = Number(event.args.fromIndex);
+        for (let index = fromIndex; index < fromIndex + Number(event.args.count); index++) {
+          await markFunded(milestoneByIndex.get(index), timestamp);
+        }
+      } else if (event.name === "MilestoneVerified") {
+        const milestone = milestoneByIndex.get(Number(event.args.milestoneIndex));
+        if (milestone && ["pending", "in_progress", "submitted"].includes(milestone.status)) {
+          await supabase
+            .from("milestones")
+            .update({ status: "verified", verified_at: milestone.verified_at || timestamp })
+            .eq("id", milestone.id);
+          milestone.status = "verified";
+          summary.milestonesCorrected++;
+        }
+      } else if (event.name === "MilestonePaid") {
+        const index = Number(event.args.milestoneIndex);
+        const milestone = milestoneByIndex.get(index);
+        const fee: bigint = event.fragment.inputs.length > 3 ? event.args.fee : 0n;
+        summary.transactionsInserted += await upsertPayoutTransactions(
+          supabase,
+          {
+            project_id: project.id,
+            milestone_id: milestone?.id ?? null,
+            transaction_hash: log.transactionHash,
+            fee_amount: parseFloat(formatUnits(fee, decimals)),
+            fee_recipient: fee > 0n ? await escrow.feeRecipient() : null,
+            from_address: address,
+            block_number: log.blockNumber,
+          },
+          await takePayouts(log.transactionHash, index, event.args.amount),
+          decimals
+        );
+
+        if (milestone && milestone.status !== "paid") {
+          await supabase
+            .from("milestones")
+            .update({ status: "paid", paid_at: milestone.paid_at || timestamp })
+            .eq("id", milestone.id);
+          milestone.status = "paid";
+          summary.milestonesCorrected++;
+          milestonesSettled = true;
+        }
+      } else if (event.name === "DisputeResolved") {
+        // The arbiter's split settles the milestone. There is no MilestonePaid: the freelancers' share
+        // is recorded from its PayeePaid events and the client's share as a refund.
+        const index = Number(event.args.milestoneIndex);
+        const milestone = milestoneByIndex.get(index);
+
+        if (event.args.freelancerAmount > 0n) {
+          summary.transactionsInserted += await upsertPayoutTransactions(
+            supabase,
+            {
+              project_id: project.id,
+              milestone_id: milestone?.id ?? null,
+              transaction_hash: log.transactionHash,
+              from_address: address,
+              block_number: log.blockNumber,
+            },
+            await takePayouts(log.transactionHash, index, event.args.freelancerAmount),
+            decimals
+          );
+        }
+
+        if (event.args.clientAmount > 0n) {
+          // Escrows deployed before FundsRefunded existed only report the refund here
+          const inserted = await upsertTransaction(supabase, {
+            project_id: project.id,
+            milestone_id: milestone?.id ?? null,
+            transaction_hash: log.transactionHash,
+            transaction_type: "refund",
+            amount: parseFloat(formatUnits(event.args.clientAmount, decimals)),
+            from_address: address,
+            to_address: await escrow.client(),
+            block_number: log.blockNumber,
+          });
+          if (inserted) summary.transactionsInserted++;
+
+          // The FundsRefunded before it could not name its milestone
+          if (milestone) {
+            await supabase
+              .from("transactions")
+              .update({ milestone_id: milestone.id })
+              .eq("project_id", project.id)
+              .eq("transaction_type", "refund")
+              .ilike("transaction_hash", log.transactionHash);
+          }
+        }
+
+        if (milestone && milestone.status !== "paid") {
+          await supabase
+            .from("milestones")
+            .update({
+              status: "paid",
+              paid_at: milestone.paid_at || timestamp,
+              dispute_resolved_at: timestamp,
+            })
+            .eq("id", milestone.id);
+          milestone.status = "paid";
+          summary.milestonesCorrected++;
+          milestonesSettled = true;
+        }
+      } else if (event.name === "EscrowCancelled") {
+        projectStatus = "cancelled";
+      } else if (event.name === "ChangeOrderProposed") {
+        await recordProposedChangeOrder(supabase, project.id, log.transactionHash, {
+          changeOrderId: Number(event.args.changeOrderId),
+          kind: CHANGE_ORDER_KINDS[Number(event.args.kind)],
+          milestone: milestoneByIndex.get(Number(event.args.milestoneIndex)),
+          newAmount: parseFloat(formatUnits(event.args.newAmount, decimals)),
+        });
+      } else if (event.name === "ChangeOrderAccepted") {
+        const { data: changeOrder } = await supabase
+          .from("milestone_change_orders")
+          .select("*")
+          .eq("project_id", project.id)
+          .eq("chain_change_order_id", Number(event.args.changeOrderId))
+          .maybeSingle();
+        if (!changeOrder || changeOrder.status === "accepted") continue;
+
+        const index = Number(event.args.milestoneIndex);
+        let milestone = milestoneByIndex.get(index);
+
+        if (changeOrder.kind === "add" && !milestone) {
+          // The service role may insert milestones in any status; an added one waits its turn
+          const { data: inserted } = await supabase
+            .from("milestones")
+            .insert({
+              project_id: project.id,
+              title: changeOrder.title || `Milestone ${index + 1}`,
+              description: changeOrder.description || "",
+              amount: changeOrder.new_amount,
+              verification_type: changeOrder.verification_type || "manual",
+              verification_config: changeOrder.verification_config || {},
+              review_period_seconds: changeOrder.review_period_seconds ?? 604800,
+              order_index: index,
+              status: "pending",
+            })
+            .select(MILESTONE_COLUMNS)
+            .single();
+          milestone = inserted;
+          if (milestone) milestoneByIndex.set(index, milestone);
+        } else if (changeOrder.kind === "reprice" && milestone) {
+          await supabase
+            .from("milestones")
+            .update({ amount: changeOrder.new_amount })
+            .eq("id", milestone.id);
+          milestone.amount = changeOrder.new_amount;
+        } else if (changeOrder.kind === "remove" && milestone) {
+          await supabase
+            .from("milestones")
+            .update({ status: "cancelled" })
+            .eq("id", milestone.id);
+          milestone.status = "cancelled";
+        }
+
+        await supabase
+          .from("milestone_change_orders")
+          .update({
+            status: "accepted",
+            milestone_id: milestone?.id ?? changeOrder.milestone_id,
+            order_index: index,
+            response_tx_hash: log.transactionHash,
+            responded_at: timestamp,
+          })
+          .eq("id", changeOrder.id);
+        summary.milestonesCorrected++;
+        milestonesAmended = true;
+      } else if (event.name === "ChangeOrderClosed") {
+        const clientWallet: string = await escrow.client();
+        await supabase
+          .from("milestone_change_orders")
+          .update({
+            status: event.args.by.toLowerCase() === clientWallet.toLowerCase() ? "withdrawn" : "rejected",
+            response_tx_hash: log.transactionHash,
+            responded_at: timestamp,
+          })
+          .eq("project_id", project.id)
+          .eq("chain_change_order_id", Number(event.args.changeOrderId))
+          .eq("status", "proposed");
+      } else if (event.name === "FundsRefunded") {
+        const amount = formatUnits(event.args.amount, decimals);
+        const inserted = await upsertTransaction(supabase, {
+          project_id: project.id,
+          milestone_id: null,
+          transaction_hash: log.transactionHash,
+          transaction_type: "refund",
+          amount: parseFloat(amount),
+          from_address: address,
+          to_address: event.args.to,
+          block_number: log.blockNumber,
+        });
+        if (inserted) summary.transactionsInserted++;
+      } else if (event.name === "MilestoneCancellationRequested") {
+        const milestone = milestoneByIndex.get(Number(event.args.milestoneIndex));
+        if (milestone) {
+          await supabase
+            .from("milestones")
+            .update({
+              cancellation_requested_at: timestamp,
+              cancellation_kill_fee_bps: Number(event.args.killFeeBps),
+            })
+            .eq("id", milestone.id);
+          summary.milestonesCorrected++;
+        }
+      } else if (event.name === "MilestoneCancelled") {
+        const milestone = milestoneByIndex.get(Number(event.args.milestoneIndex));
+        if (!milestone) continue;
+
+        // The refund in the same transaction came first and could not name its milestone
+        await supabase
+          .from("transactions")
+          .update({ milestone_id: milestone.id })
+          .eq("project_id", project.id)
+          .eq("transaction_type", "refund")
+          .ilike("transaction_hash", log.transactionHash);
+
+        const killFee = formatUnits(event.args.freelancerAmount, decimals);
+        if (event.args.freelancerAmount > 0n) {
+          summary.transactionsInserted += await upsertPayoutTransactions(
+            supabase,
+            {
+              project_id: project.id,
+              milestone_id: milestone.id,
+              transaction_hash: log.transactionHash,
+              from_address: address,
+              block_number: log.blockNumber,
+            },
+            await takePayouts(log.transactionHash, Number(event.args.milestoneIndex), event.args.freelancerAmount),
+            decimals
+          );
+        }
+
+        if (milestone.status !== "cancelled") {
+          await supabase
+            .from("milestones")
+            .update({
+              status: "cancelled",
+              cancelled_at: timestamp,
+              kill_fee_amount: parseFloat(killFee),
+            })
+            .eq("id", milestone.id);
+          milestone.status = "cancelled";
+          milestone.kill_fee_amount = parseFloat(killFee);
+          summary.milestonesCorrected++;
+          milestonesAmended = true;
+        }
+      }
+    }
+  }
+
+  // Events only move statuses forward; the contract's milestone state also catches
+  // rows the UI marked paid for payments that never landed. Verification itself is
+  // recorded off-chain first, so a reverted payment falls back to `verified`.
+  for (const milestone of milestoneByIndex.values()) {
+    if (milestone.status !== "paid") continue;
+
+    const onChain = await escrow.getMilestone(milestone.order_index, { blockTag: latestBlock }).catch(() => null);
+    if (!onChain || onChain.isPaid) continue;
+
+    await supabase
+      .from("milestones")
+      .update({ status: "verified", paid_at: null })
+      .eq("id", milestone.id);
+    milestone.status = "verified";
+    summary.milestonesCorrected++;
+  }
+
+  // A cancelled milestone still costs the client any kill fee paid for it
+  if (milestonesAmended) {
+    const totalAmount = Array.from(milestoneByIndex.values()).reduce(
+      (sum, m) => sum + Number(m.status === "cancelled" ? m.kill_fee_amount ?? 0 : m.amount),
+      0
+    );
+    await supabase
+      .from("projects")
+      .update({ total_amount: totalAmount })
+      .eq("id", project.id);
+  }
+
+  // Work on a staged project waits for funding, change orders and cancellations can add or remove
+  // the next milestone, and a payment or ruling the app did not record (a timed-out claim, an oracle
+  // attestation or a dispute settlement) finishes the current one, so any of them may leave a
+  // milestone ready to start
+  const mayAdvance = (fundingChanged && project.staged_funding) || milestonesAmended || milestonesSettled;
+  if (mayAdvance && projectStatus !== "cancelled" && projectStatus !== "draft") {
+    const { error: advanceError } = await supabase.rpc("advance_project_milestones", { p_project_id: project.id });
+    if (advanceError) console.warn(`Could not advance milestones of project ${project.id}:`, advanceError);
+  }
+
+  // Milestones removed by a change order or cancelled no longer need paying
+  const allPaid = milestoneByIndex.size > 0 &&
+    Array.from(milestoneByIndex.values()).every((m) => m.status === "paid" || m.status === "cancelled");
+  if (allPaid && projectStatus !== "cancelled") {
+    projectStatus = "completed";
+  } else if (!allPaid && projectStatus === "completed") {
+    projectStatus = "active";
+  }
+
+  await supabase
+    .from("projects")
+    .update({
+      status: projectStatus,
+      last_indexed_block: latestBlock,
+    })
+    .eq("id", project.id);
+
+  summary.projectStatus = projectStatus;
+  return summary;
+}
+
+// Links a proposal to the row the client recorded for it, or records one proposed outside the app
+async function recordProposedChangeOrder(
+  supabase: SupabaseClient,
+  projectId: string,
+  transactionHash: string,
+  proposal: { changeOrderId: number; kind: string; milestone: MilestoneRow | undefined; newAmount: number }
+) {
+  const { data: existing } = await supabase
+    .from("milestone_change_orders")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("chain_change_order_id", proposal.changeOrderId)
+    .maybeSingle();
+  if (existing) return;
+
+  // Recorded while the proposal was still confirming, so only the hash is known
+  const { data: recorded } = await supabase
+    .from("milestone_change_orders")
+    .select("id")
+    .eq("project_id", projectId)
+    .is("chain_change_order_id", null)
+    .ilike("proposal_tx_hash", transactionHash)
+    .maybeSingle();
+
+  if (recorded) {
+    await supabase
+      .from("milestone_change_orders")
+      .update({ chain_change_order_id: proposal.changeOrderId })
+      .eq("id", recorded.id);
+    return;
+  }
+
+  await supabase.from("milestone_change_orders").insert({
+    project_id: projectId,
+    kind: proposal.kind,
+    milestone_id: proposal.kind === "add" ? null : proposal.milestone?.id ?? null,
+    order_index: proposal.kind === "add" ? null : proposal.milestone?.order_index ?? null,
+    previous_amount: proposal.kind === "add" ? null : proposal.milestone?.amount ?? null,
+    new_amount: proposal.newAmount,
+    chain_change_order_id: proposal.changeOrderId,
+    proposal_tx_hash: transactionHash,
+  });
+}
+
+// Inserts the chain event as a confirmed transaction, or confirms the row the UI already wrote.
+// Returns true when a new row was created.
+async function upsertTransaction(
+  supabase: SupabaseClient,
+  row: {
+    project_id: string;
+    milestone_id: string | null;
+    transaction_hash: string;
+    transaction_type: string;
+    amount: number;
+    fee_amount?: number;
+    fee_recipient?: string | null;
+    from_address: string;
+    to_address: string;
+    block_number: number;
+  }
+): Promise<boolean> {
+  const { data: existing } = await supabase
+    .from("transactions")
+    .select("id")
+    .eq("project_id", row.project_id)
+    .eq("transaction_type", row.transaction_type)
+    .ilike("transaction_hash", row.transaction_hash)
+    .maybeSingle();
+
+  // The chain's amounts win over the UI's; a payment's amount is what the freelancer received after the fee
+  if (existing) {
+    await supabase
+      .from("transactions")
+      .update({
+        status: "confirmed",
+        block_number: row.block_number,
+        amount: row.amount,
+        fee_amount: row.fee_amount ?? 0,
+        fee_recipient: row.fee_recipient ?? null,
+      })
+      .eq("id", existing.id);
+    return false;
+  }
+
+  await supabase.from("transactions").insert({ ...row, status: "confirmed" });
+  return true;
+}
+
+// Records a payout as one milestone_payment row per payee, confirming the rows already written for
+// it. The row the UI wrote while the payment confirmed names one recipient, so the first payee not
+// matched to a row of its own takes it over. The platform fee is recorded once, on the first row.
+// Returns the number of rows created.
+async function upsertPayoutTransactions(
+  supabase: SupabaseClient,
+  row: {
+    project_id: string;
+    milestone_id: string | null;
+    transaction_hash: string;
+    fee_amount?: number;
+    fee_recipient?: string | null;
+    from_address: string;
+    block_number: number;
+  },
+  payouts: Payout[],
+  decimals: number
+): Promise<number> {
+  const { data: existing } = await supabase
+    .from("transactions")
+    .select("id, to_address")
+    .eq("project_id", row.project_id)
+    .eq("transaction_type", "milestone_payment")
+    .ilike("transaction_hash", row.transaction_hash);
+
+  const rows = (existing || []) as { id: string; to_address: string | null }[];
+  const isPayee = (address: string | null, payee: string) => address?.toLowerCase() === payee.toLowerCase();
+  const unclaimed = rows.filter((r) => !payouts.some((p) => isPayee(r.to_address, p.payee)));
+
+  let inserted = 0;
+  for (const [i, payout] of payouts.filter((p) => p.amount > 0n).entries()) {
+    const values = {
+      status: "confirmed",
+      block_number: row.block_number,
+      amount: parseFloat(formatUnits(payout.amount, decimals)),
+      fee_amount: i === 0 ? row.fee_amount ?? 0 : 0,
+      fee_recipient: i === 0 ? row.fee_recipient ?? null : null,
+      to_address: payout.payee,
+    };
+
+    const match = rows.find((r) => isPayee(r.to_address, payout.payee)) ?? unclaimed.shift();
+    if (match) {
+      await supabase.from("transactions").update(values).eq("id", match.id);
+    } else {
+      await supabase.from("transactions").insert({
+        project_id: row.project_id,
+        milestone_id: row.milestone_id,
+        transaction_hash: row.transaction_hash,
+        transaction_type: "milestone_payment",
+        from_address: row.from_address,
+        ...values,
+      });
+      inserted++;
+    }
+  }
+  return inserted;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { projectId }: IndexerRequest = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+    if (!caller) {
+      return jsonResponse({ error: "Sign in to sync a project" }, 401);
+    }
+
+    // Sweeping every project is for the scheduled job; users sync one project at a time
+    if (!projectId && caller.kind !== "service") {
+      return jsonResponse({ error: "Only the service role can index every project" }, 403);
+    }
+
+    let query = supabase
+      .from("projects")
+      .select("id, client_id, freelancer_id, arbiter_address, escrow_contract_address, status, staged_funding, token_decimals, chain_id, last_indexed_block")
+      .not("escrow_contract_address", "is", null);
+
+    if (projectId) {
+      query = query.eq("id", projectId);
+    }
+
+    const { data: projects, error } = await query;
+    if (error) throw error;
+
+    if (projectId && projects?.length && !(await canIndexProject(supabase, caller, projects[0] as ProjectRow))) {
+      return jsonResponse({ error: "Only the project's parties and arbiter can sync it" }, 403);
+    }
+
+    // One provider and head block per chain, shared by every project on it
+    const chains = new Map<number, { provider: JsonRpcProvider; latestBlock: number }>();
+
+    const results: ProjectSummary[] = [];
+    for (const project of (projects || []) as ProjectRow[]) {
+      const chainId = project.chain_id ?? DEFAULT_CHAIN_ID;
+      let latestBlock = 0;
+      try {
+        let chain = chains.get(chainId);
+        if (!chain) {
+          const rpcUrl = getRpcUrl(chainId);
+          if (!rpcUrl) {
+            throw new Error(`No RPC configured for chain ${chainId}; set RPC_URL_${chainId}`);
+          }
+          const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+          chain = { provider, latestBlock: (await provider.getBlockNumber()) - CONFIRMATIONS };
+          chains.set(chainId, chain);
+        }
+        latestBlock = chain.latestBlock;
+        results.push(await indexProject(supabase, chain.provider, project, latestBlock));
+      } catch (projectError) {
+        console.error(`Error indexing project ${project.id}:`, projectError);
+        results.push({
+          projectId: project.id,
+          chainId,
+          fromBlock: project.last_indexed_block ?? 0,
+          toBlock: latestBlock,
+          events: 0,
+          transactionsInserted: 0,
+          transactionsUpdated: 0,
+          milestonesCorrected: 0,
+          projectStatus: project.status,
+          error: projectError instanceof Error ? projectError.message : "Unknown error",
+        });
+      }
+    }
+
+    return jsonResponse({
+      projects: results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error occurred" },
+      500
+    );
+  }
+});
@@ -1,4 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { AttestationRequest, AttestationTarget, OracleAttestation, isAttestationEnabled, loadAttestationTarget, signAttestation } from "../_shared/attestation.ts";
+import { CriterionResult, MatchedArtifact } from "../_shared/oracles/index.ts";
+import { toNameList } from "../_shared/oracles/helpers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,11 +9,26 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface FigmaVerificationRequest {
-  fileKey: string;
-  figmaToken: string;
+// Every criterion is optional; a milestone passes when all configured criteria pass
+interface FigmaCriteria {
   minVersions?: number;
   since?: string;
+  // Page names that must exist in the file
+  requiredPages?: string[];
+  // Top-level frame names that must exist on any page
+  requiredFrames?: string[];
+  // A saved version with this label must exist, e.g. "Handoff"
+  versionLabel?: string;
+  // Every comment thread must be resolved
+  requireResolvedComments?: boolean;
+  // Minimum number of components and component sets in the file
+  minComponents?: number;
+}
+
+interface FigmaVerificationRequest extends FigmaCriteria {
+  fileKey: string;
+  figmaToken?: string;
+  attest?: AttestationRequest;
 }
 
 interface FigmaVersion {
@@ -23,6 +41,123 @@ interface FigmaVersion {
   };
 }
 
+interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  children?: FigmaNode[];
+}
+
+interface FigmaFile {
+  name?: string;
+  lastModified?: string;
+  thumbnailUrl?: string;
+  document?: FigmaNode;
+}
+
+interface FigmaComment {
+  id: string;
+  parent_id: string;
+  message: string;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+type FigmaCriteriaSource = { [K in keyof FigmaCriteria]?: FigmaCriteria[K] | string | null };
+
+const MAX_VERSION_PAGES = parseInt(Deno.env.get("FIGMA_MAX_VERSION_PAGES") || "10");
+const COMPONENT_TYPES = ["COMPONENT", "COMPONENT_SET"];
+
+class FigmaApiError extends Error {
+  constructor(public status: number, public details: unknown) {
+    super(`Figma API error: ${status}`);
+  }
+}
+
+async function fetchFigma(url: string, figmaToken: string) {
+  const response = await fetch(url, {
+    headers: {
+      "X-Figma-Token": figmaToken,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+    throw new FigmaApiError(response.status, errorData);
+  }
+
+  return response.json();
+}
+
+function pickCriteria(source: FigmaCriteriaSource): FigmaCriteria {
+  return {
+    minVersions: source.minVersions != null ? Number(source.minVersions) : undefined,
+    since: typeof source.since === "string" && source.since ? source.since : undefined,
+    requiredPages: toNameList(source.requiredPages),
+    requiredFrames: toNameList(source.requiredFrames),
+    versionLabel: typeof source.versionLabel === "string" && source.versionLabel ? source.versionLabel : undefined,
+    requireResolvedComments: !!source.requireResolvedComments,
+    minComponents: source.minComponents != null ? Number(source.minComponents) : undefined,
+  };
+}
+
+function nodeUrl(fileKey: string, nodeId: string) {
+  return `https://www.figma.com/file/${fileKey}?node-id=${encodeURIComponent(nodeId)}`;
+}
+
+function countComponents(node: FigmaNode): FigmaNode[] {
+  const found = COMPONENT_TYPES.includes(node.type) ? [node] : [];
+  for (const child of node.children || []) {
+    found.push(...countComponents(child));
+  }
+  return found;
+}
+
+// Versions are returned newest first; older pages are followed until MAX_VERSION_PAGES
+async function fetchVersions(fileKey: string, figmaToken: string): Promise<FigmaVersion[]> {
+  const versions: FigmaVersion[] = [];
+  let next: string | null = `https://api.figma.com/v1/files/${fileKey}/versions`;
+  let pages = 0;
+
+  while (next && pages < MAX_VERSION_PAGES) {
+    const data = await fetchFigma(next, figmaToken);
+    versions.push(...(data.versions || []));
+    next = data.pagination?.next_page || null;
+    pages++;
+  }
+
+  return versions;
+}
+
+function checkNamedNodes(
+  name: string,
+  label: string,
+  required: string[],
+  nodes: FigmaNode[],
+  fileKey: string
+): CriterionResult {
+  const matched: MatchedArtifact[] = [];
+  const missing: string[] = [];
+
+  for (const requiredName of required) {
+    const node = nodes.find((n) => n.name.trim().toLowerCase() === requiredName.toLowerCase());
+    if (node) {
+      matched.push({ id: node.id, name: node.name, url: nodeUrl(fileKey, node.id) });
+    } else {
+      missing.push(requiredName);
+    }
+  }
+
+  return {
+    name,
+    passed: missing.length === 0,
+    detail: missing.length === 0
+      ? `All ${required.length} required ${label} exist`
+      : `Missing ${label}: ${missing.join(", ")}`,
+    matched,
+  };
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -32,7 +167,10 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { fileKey, figmaToken, minVersions = 1, since }: FigmaVerificationRequest = await req.json();
+    const body: FigmaVerificationRequest = await req.json();
+    const { fileKey, attest } = body;
+    // A server-side token lets milestones be checked without either party pasting one
+    const figmaToken = body.figmaToken || Deno.env.get("FIGMA_ACCESS_TOKEN");
 
     if (!fileKey || !figmaToken) {
       return new Response(
@@ -47,20 +185,53 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const versionsUrl = `https://api.figma.com/v1/files/${fileKey}/versions`;
-    const versionsResponse = await fetch(versionsUrl, {
-      headers: {
-        "X-Figma-Token": figmaToken,
-      },
-    });
+    // Attested checks use the criteria saved on the milestone, not whatever the caller sent
+    let attestationTarget: AttestationTarget | null = null;
+    let attestationError: string | null = null;
+
+    if (attest?.milestoneId) {
+      try {
+        attestationTarget = await loadAttestationTarget(attest.milestoneId);
+
+        if (attestationTarget.verificationType !== "figma") {
+          attestationError = "Milestone is not verified through Figma";
+        } else if (attestationTarget.verificationConfig.fileKey !== fileKey) {
+          attestationError = "File key does not match the milestone's verification config";
+        }
+      } catch (attestError) {
+        attestationError = attestError instanceof Error ? attestError.message : "Could not load milestone";
+      }
+
+      if (attestationError) {
+        attestationTarget = null;
+      }
+    }
+
+    const criteria = pickCriteria(attestationTarget ? attestationTarget.verificationConfig : body);
+    const minVersions = criteria.minVersions ?? 1;
+    const needsNodes = !!(criteria.requiredPages || criteria.requiredFrames || criteria.minComponents);
+
+    let versions: FigmaVersion[];
+    let file: FigmaFile;
+    let comments: FigmaComment[] = [];
 
-    if (!versionsResponse.ok) {
-      const errorData = await versionsResponse.json().catch(() => ({ message: "Unknown error" }));
+    try {
+      // Pages and top-level frames only need depth 2; counting components needs the whole tree
+      const fileUrl = `https://api.figma.com/v1/files/${fileKey}${criteria.minComponents ? "" : "?depth=2"}`;
+      [versions, file, comments] = await Promise.all([
+        fetchVersions(fileKey, figmaToken),
+        fetchFigma(fileUrl, figmaToken),
+        criteria.requireResolvedComments
+          ? fetchFigma(`https://api.figma.com/v1/files/${fileKey}/comments`, figmaToken).then((data) => data.comments || [])
+          : Promise.resolve([]),
+      ]);
+    } catch (apiError) {
+      if (!(apiError instanceof FigmaApiError)) throw apiError;
       return new Response(
         JSON.stringify({
           verified: false,
-          error: `Figma API error: ${versionsResponse.status}`,
-          details: errorData,
+          error: apiError.message,
+          details: apiError.details,
         }),
         {
           status: 200,
@@ -72,30 +243,110 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const data = await versionsResponse.json();
-    let versions: FigmaVersion[] = data.versions || [];
-
-    if (since) {
-      const sinceDate = new Date(since);
+    if (criteria.since) {
+      const sinceDate = new Date(criteria.since);
       versions = versions.filter(v => new Date(v.created_at) >= sinceDate);
     }
 
-    const verified = versions.length >= minVersions;
+    const criteriaResults: CriterionResult[] = [
+      {
+        name: "versions",
+        passed: versions.length >= minVersions,
+        detail: `${versions.length} of ${minVersions} required version(s)`,
+        matched: versions.slice(0, 5).map((v) => ({ id: String(v.id), name: v.label || undefined, date: v.created_at })),
+      },
+    ];
+
+    const pages: FigmaNode[] = needsNodes ? file.document?.children || [] : [];
+
+    if (criteria.requiredPages) {
+      criteriaResults.push(checkNamedNodes("pages", "pages", criteria.requiredPages, pages, fileKey));
+    }
+
+    if (criteria.requiredFrames) {
+      const frames = pages.flatMap((page) => page.children || []);
+      criteriaResults.push(checkNamedNodes("frames", "frames", criteria.requiredFrames, frames, fileKey));
+    }
+
+    if (criteria.versionLabel) {
+      const label = criteria.versionLabel.trim().toLowerCase();
+      const labelled = versions.filter((v) => v.label?.trim().toLowerCase() === label);
+      criteriaResults.push({
+        name: "versionLabel",
+        passed: labelled.length > 0,
+        detail: labelled.length > 0
+          ? `Version "${labelled[0].label}" saved ${labelled[0].created_at}`
+          : `No version labelled "${criteria.versionLabel}"`,
+        matched: labelled.slice(0, 5).map((v) => ({ id: String(v.id), name: v.label, date: v.created_at })),
+      });
+    }
+
+    if (criteria.requireResolvedComments) {
+      const threads = comments.filter((c) => !c.parent_id);
+      const open = threads.filter((c) => !c.resolved_at);
+      criteriaResults.push({
+        name: "resolvedComments",
+        passed: open.length === 0,
+        detail: open.length === 0
+          ? `All ${threads.length} comment thread(s) resolved`
+          : `${open.length} of ${threads.length} comment thread(s) still open`,
+        matched: threads.slice(0, 20).map((c) => ({ id: c.id, date: c.resolved_at })),
+      });
+    }
+
+    if (criteria.minComponents) {
+      const components = pages.flatMap((page) => countComponents(page));
+      criteriaResults.push({
+        name: "components",
+        passed: components.length >= criteria.minComponents,
+        detail: `${components.length} of ${criteria.minComponents} required component(s)`,
+        matched: components.slice(0, 20).map((c) => ({ id: c.id, name: c.name, url: nodeUrl(fileKey, c.id) })),
+      });
+    }
+
+    const verified = criteriaResults.every((c) => c.passed);
+
+    const result: Record<string, unknown> = {
+      verified,
+      versionCount: versions.length,
+      minVersions,
+      versions: versions.slice(0, 5).map(v => ({
+        id: v.id,
+        label: v.label || "Untitled",
+        description: v.description || "",
+        author: v.user?.handle || "Unknown",
+        date: v.created_at,
+      })),
+      criteria: criteriaResults,
+      fileName: file.name ?? null,
+      lastModified: file.lastModified ?? null,
+      thumbnailUrl: file.thumbnailUrl ?? null,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (attest?.milestoneId && verified) {
+      let attestation: OracleAttestation | null = null;
+
+      if (!attestationError && !isAttestationEnabled()) {
+        attestationError = "Oracle signing key is not configured";
+      }
+
+      if (attestationTarget && !attestationError) {
+        try {
+          attestation = await signAttestation(attestationTarget, result);
+        } catch (attestError) {
+          attestationError = attestError instanceof Error ? attestError.message : "Could not sign attestation";
+        }
+      }
+
+      result.attestation = attestation;
+      if (attestationError) {
+        result.attestationError = attestationError;
+      }
+    }
 
     return new Response(
-      JSON.stringify({
-        verified,
-        versionCount: versions.length,
-        minVersions,
-        versions: versions.slice(0, 5).map(v => ({
-          id: v.id,
-          label: v.label || "Untitled",
-          description: v.description || "",
-          author: v.user?.handle || "Unknown",
-          date: v.created_at,
-        })),
-        timestamp: new Date().toISOString(),
-      }),
+      JSON.stringify(result),
       {
         status: 200,
         headers: {
@@ -119,4 +370,4 @@ Deno.serve(async (req: Request) => {
       }
     );
   }
-});
\ No newline at end of file
+});
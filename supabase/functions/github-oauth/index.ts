@@ -0,0 +1,173 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createServiceClient, getCaller } from "../_shared/supabase.ts";
+
+// GitHub connect flow. GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET belong to a GitHub App with read-only
+// repository permissions, so the user token it issues can read code but never write it. GitHub Apps
+// take their permissions from the app's settings rather than OAuth scopes.
+// Deploy with --no-verify-jwt: GitHub's redirect back to this function carries no Supabase session,
+// so the start and disconnect actions check the caller here.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface GitHubOAuthRequest {
+  action: "start" | "disconnect";
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function redirectToApp(result: "connected" | "error", message?: string) {
+  const appUrl = new URL(Deno.env.get("APP_URL") || "http://localhost:5173");
+  appUrl.searchParams.set("github", result);
+  if (message) {
+    appUrl.searchParams.set("github_error", message);
+  }
+  return Response.redirect(appUrl.toString(), 302);
+}
+
+function getCallbackUrl() {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/github-oauth`;
+}
+
+async function handleCallback(url: URL) {
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  if (!code || !state) {
+    return redirectToApp("error", url.searchParams.get("error_description") || "Missing code or state");
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: stateRow } = await supabase
+    .from("github_oauth_states")
+    .delete()
+    .eq("state", state)
+    .select("user_id, expires_at")
+    .maybeSingle();
+
+  if (!stateRow || new Date(stateRow.expires_at) < new Date()) {
+    return redirectToApp("error", "GitHub sign-in expired. Please try again.");
+  }
+
+  const tokenResponse = await fetch("https://github.com/login/oauth/access_token", {
+    method: "POST",
+    headers: {
+      "Accept": "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      client_id: Deno.env.get("GITHUB_CLIENT_ID"),
+      client_secret: Deno.env.get("GITHUB_CLIENT_SECRET"),
+      code,
+      redirect_uri: getCallbackUrl(),
+    }),
+  });
+  const tokenData = await tokenResponse.json();
+
+  if (!tokenResponse.ok || !tokenData.access_token) {
+    return redirectToApp("error", tokenData.error_description || "GitHub did not return an access token");
+  }
+
+  const userResponse = await fetch("https://api.github.com/user", {
+    headers: {
+      "Accept": "application/vnd.github.v3+json",
+      "User-Agent": "QIE-Freelance-Oracle",
+      "Authorization": `token ${tokenData.access_token}`,
+    },
+  });
+  const githubUser = await userResponse.json();
+
+  if (!userResponse.ok || !githubUser.login) {
+    return redirectToApp("error", "Could not read the GitHub account");
+  }
+
+  const { error: upsertError } = await supabase
+    .from("github_connections")
+    .upsert({
+      user_id: stateRow.user_id,
+      github_login: githubUser.login,
+      access_token: tokenData.access_token,
+      scope: tokenData.scope ?? null,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (upsertError) {
+    console.error("Error saving GitHub connection:", upsertError);
+    return redirectToApp("error", "Could not save the GitHub connection");
+  }
+
+  await supabase
+    .from("profiles")
+    .update({ github_login: githubUser.login })
+    .eq("id", stateRow.user_id);
+
+  return redirectToApp("connected");
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (req.method === "GET") {
+      return await handleCallback(new URL(req.url));
+    }
+
+    const clientId = Deno.env.get("GITHUB_CLIENT_ID");
+    if (!clientId || !Deno.env.get("GITHUB_CLIENT_SECRET")) {
+      return jsonResponse({ error: "GitHub OAuth is not configured" }, 500);
+    }
+
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+    if (caller?.kind !== "user") {
+      return jsonResponse({ error: "Sign in to connect GitHub" }, 401);
+    }
+
+    const { action }: GitHubOAuthRequest = await req.json();
+
+    if (action === "start") {
+      const state = crypto.randomUUID();
+      const { error } = await supabase
+        .from("github_oauth_states")
+        .insert({ state, user_id: caller.userId });
+
+      if (error) throw error;
+
+      const authorizeUrl = new URL("https://github.com/login/oauth/authorize");
+      authorizeUrl.searchParams.set("client_id", clientId);
+      authorizeUrl.searchParams.set("redirect_uri", getCallbackUrl());
+      authorizeUrl.searchParams.set("state", state);
+
+      return jsonResponse({ url: authorizeUrl.toString() });
+    }
+
+    if (action === "disconnect") {
+      await supabase.from("github_connections").delete().eq("user_id", caller.userId);
+      await supabase.from("profiles").update({ github_login: null }).eq("id", caller.userId);
+      return jsonResponse({ disconnected: true });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error occurred" },
+      500
+    );
+  }
+});
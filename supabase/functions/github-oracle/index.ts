@@ -1,5 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { AttestationRequest, AttestationTarget, OracleAttestation, isAttestationEnabled, loadAttestationTarget, signAttestation } from "../_shared/attestation.ts";
+import { getProjectGitHubConnection } from "../_shared/github.ts";
+import { CriterionResult } from "../_shared/oracles/index.ts";
+import { createServiceClient, getCaller } from "../_shared/supabase.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,14 +10,31 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface GitHubVerificationRequest {
-  repo: string;
-  owner: string;
+// Every criterion is optional; a milestone passes when all configured criteria pass
+interface GitHubCriteria {
   branch?: string;
   minCommits?: number;
   since?: string;
-  githubToken: string;
+  // Only count commits authored by this GitHub login (the freelancer's account)
+  authorLogin?: string;
+  // Only count commits that change at least one file matching this glob, e.g. "src/**/*.ts"
+  pathGlob?: string;
+  // Require a pull request merged into the branch carrying this label
+  prLabel?: string;
+  // Require every check run and commit status on the latest counted commit to pass
+  requireChecks?: boolean;
+  // Require a tag matching this name or glob, e.g. "v1.*"
+  tagPattern?: string;
+  // Require a published (non-draft) release, matching tagPattern when set
+  requireRelease?: boolean;
+}
+
+// The GitHub token is looked up server-side from the project's connected accounts
+interface GitHubVerificationRequest extends GitHubCriteria {
+  repo: string;
+  owner: string;
   projectId?: string;
+  attest?: AttestationRequest;
 }
 
 interface GitHubCommit {
@@ -27,7 +47,276 @@ interface GitHubCommit {
     };
     message: string;
   };
+  author: {
+    login: string;
+  } | null;
+  html_url: string;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  merged_at: string | null;
+  user: { login: string } | null;
+  labels: { name: string }[];
+}
+
+interface GitHubCheckRun {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string;
+  completed_at: string | null;
+}
+
+interface GitHubStatus {
+  context: string;
+  state: string;
+  target_url: string | null;
+  updated_at: string;
+}
+
+interface GitHubTag {
+  name: string;
+  commit: { sha: string };
+}
+
+interface GitHubRelease {
+  name: string | null;
+  tag_name: string;
+  draft: boolean;
   html_url: string;
+  published_at: string | null;
+}
+
+type GitHubCriteriaSource = { [K in keyof GitHubCriteria]?: GitHubCriteria[K] | null };
+
+const PER_PAGE = 100;
+const MAX_PAGES = parseInt(Deno.env.get("GITHUB_MAX_PAGES") || "10");
+// Each path check fetches one commit's file list, so cap how many commits are inspected
+const MAX_COMMIT_DETAILS = parseInt(Deno.env.get("GITHUB_MAX_COMMIT_DETAILS") || "50");
+const PASSING_CONCLUSIONS = ["success", "neutral", "skipped"];
+
+class GitHubApiError extends Error {
+  constructor(public status: number, public details: unknown) {
+    super(`GitHub API error: ${status}`);
+  }
+}
+
+async function fetchGitHub(url: string, headers: HeadersInit): Promise<Response> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+    throw new GitHubApiError(response.status, errorData);
+  }
+  return response;
+}
+
+function getNextPageUrl(linkHeader: string | null): string | null {
+  const match = linkHeader?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : null;
+}
+
+// Follows the Link header until the last page or MAX_PAGES
+async function fetchAllPages<T>(url: string, headers: HeadersInit, pick: (body: unknown) => T[] = (body) => body as T[]): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = `${url}${url.includes("?") ? "&" : "?"}per_page=${PER_PAGE}`;
+  let pages = 0;
+
+  while (next && pages < MAX_PAGES) {
+    const response = await fetchGitHub(next, headers);
+    items.push(...pick(await response.json()));
+    next = getNextPageUrl(response.headers.get("Link"));
+    pages++;
+  }
+
+  return items;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches any number of directories, including none
+      if (glob[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function parseRepoUrl(url: string | null | undefined): { owner: string; repo: string } | null {
+  const match = url?.match(/github\.com[/:]([^/]+)\/([^/#?]+?)(?:\.git)?\/?(?:[#?].*)?$/i);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+function sameRepo(a: { owner?: unknown; repo?: unknown } | null, owner: string, repo: string): boolean {
+  return !!a &&
+    String(a.owner || "").toLowerCase() === owner.toLowerCase() &&
+    String(a.repo || "").toLowerCase() === repo.toLowerCase();
+}
+
+function pickCriteria(source: GitHubCriteriaSource): GitHubCriteria {
+  return {
+    branch: source.branch || undefined,
+    minCommits: source.minCommits ?? undefined,
+    since: source.since || undefined,
+    authorLogin: source.authorLogin || undefined,
+    pathGlob: source.pathGlob || undefined,
+    prLabel: source.prLabel || undefined,
+    requireChecks: !!source.requireChecks,
+    tagPattern: source.tagPattern || undefined,
+    requireRelease: !!source.requireRelease,
+  };
+}
+
+async function filterCommitsByPath(
+  apiBase: string,
+  headers: HeadersInit,
+  commits: GitHubCommit[],
+  pathGlob: string
+): Promise<{ commits: GitHubCommit[]; files: Record<string, string[]> }> {
+  const matcher = globToRegExp(pathGlob);
+  const matching: GitHubCommit[] = [];
+  const files: Record<string, string[]> = {};
+
+  for (const commit of commits.slice(0, MAX_COMMIT_DETAILS)) {
+    const response = await fetchGitHub(`${apiBase}/commits/${commit.sha}`, headers);
+    const detail: { files?: { filename: string }[] } = await response.json();
+    const matchedFiles = (detail.files || [])
+      .map((f) => f.filename)
+      .filter((name) => matcher.test(name));
+
+    if (matchedFiles.length > 0) {
+      matching.push(commit);
+      files[commit.sha] = matchedFiles;
+    }
+  }
+
+  return { commits: matching, files };
+}
+
+async function checkMergedPullRequest(
+  apiBase: string,
+  headers: HeadersInit,
+  branch: string,
+  label: string,
+  criteria: GitHubCriteria
+): Promise<CriterionResult> {
+  const pulls = await fetchAllPages<GitHubPullRequest>(
+    `${apiBase}/pulls?state=closed&base=${encodeURIComponent(branch)}&sort=updated&direction=desc`,
+    headers
+  );
+  const sinceDate = criteria.since ? new Date(criteria.since) : null;
+
+  const matched = pulls.filter((pr) =>
+    pr.merged_at &&
+    (!sinceDate || new Date(pr.merged_at) >= sinceDate) &&
+    (!criteria.authorLogin || pr.user?.login?.toLowerCase() === criteria.authorLogin.toLowerCase()) &&
+    (pr.labels || []).some((l) => l.name?.toLowerCase() === label.toLowerCase())
+  );
+
+  return {
+    name: "mergedPullRequest",
+    passed: matched.length > 0,
+    detail: matched.length > 0
+      ? `${matched.length} merged pull request(s) labelled "${label}"`
+      : `No merged pull request labelled "${label}" into ${branch}`,
+    matched: matched.slice(0, 5).map((pr) => ({
+      id: `#${pr.number}`,
+      url: pr.html_url,
+      date: pr.merged_at,
+    })),
+  };
+}
+
+async function checkCommitChecks(apiBase: string, headers: HeadersInit, ref: string): Promise<CriterionResult> {
+  const [checkRuns, statusResponse] = await Promise.all([
+    fetchAllPages<GitHubCheckRun>(
+      `${apiBase}/commits/${ref}/check-runs`,
+      headers,
+      (body) => (body as { check_runs?: GitHubCheckRun[] }).check_runs || []
+    ),
+    fetchGitHub(`${apiBase}/commits/${ref}/status`, headers),
+  ]);
+  const combinedStatus: { state: string; statuses?: GitHubStatus[] } = await statusResponse.json();
+  const statuses = combinedStatus.statuses || [];
+
+  const failingRuns = checkRuns.filter(
+    (run) => run.status !== "completed" || !PASSING_CONCLUSIONS.includes(run.conclusion ?? "")
+  );
+  const statusesPass = statuses.length === 0 || combinedStatus.state === "success";
+  const reported = checkRuns.length + statuses.length;
+  const passed = reported > 0 && failingRuns.length === 0 && statusesPass;
+
+  let detail = `${checkRuns.length} check run(s) and ${statuses.length} status(es) passed on ${ref.substring(0, 7)}`;
+  if (reported === 0) {
+    detail = `No checks reported on ${ref.substring(0, 7)}`;
+  } else if (!passed) {
+    detail = `${failingRuns.length} check run(s) not passing, combined status ${combinedStatus.state} on ${ref.substring(0, 7)}`;
+  }
+
+  return {
+    name: "checks",
+    passed,
+    detail,
+    matched: [
+      ...checkRuns.map((run) => ({
+        id: `${run.name}:${run.conclusion ?? run.status}`,
+        url: run.html_url,
+        date: run.completed_at,
+      })),
+      ...statuses.map((status) => ({
+        id: `${status.context}:${status.state}`,
+        url: status.target_url ?? undefined,
+        date: status.updated_at,
+      })),
+    ],
+  };
+}
+
+async function checkTag(apiBase: string, headers: HeadersInit, tagPattern: string): Promise<CriterionResult> {
+  const matcher = globToRegExp(tagPattern);
+  const tags = await fetchAllPages<GitHubTag>(`${apiBase}/tags`, headers);
+  const matched = tags.filter((tag) => matcher.test(tag.name));
+
+  return {
+    name: "tag",
+    passed: matched.length > 0,
+    detail: matched.length > 0 ? `Tag ${matched[0].name} exists` : `No tag matching "${tagPattern}"`,
+    matched: matched.slice(0, 5).map((tag) => ({ id: `${tag.name}@${tag.commit?.sha}` })),
+  };
+}
+
+async function checkRelease(apiBase: string, headers: HeadersInit, tagPattern?: string): Promise<CriterionResult> {
+  const matcher = tagPattern ? globToRegExp(tagPattern) : null;
+  const releases = await fetchAllPages<GitHubRelease>(`${apiBase}/releases`, headers);
+  const matched = releases.filter((release) => !release.draft && (!matcher || matcher.test(release.tag_name)));
+
+  return {
+    name: "release",
+    passed: matched.length > 0,
+    detail: matched.length > 0
+      ? `Release ${matched[0].name || matched[0].tag_name} is published`
+      : `No published release${tagPattern ? ` matching "${tagPattern}"` : ""}`,
+    matched: matched.slice(0, 5).map((release) => ({
+      id: release.tag_name,
+      url: release.html_url,
+      date: release.published_at,
+    })),
+  };
 }
 
 Deno.serve(async (req: Request) => {
@@ -39,7 +328,9 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { repo, owner, branch = "main", minCommits = 1, since, githubToken, projectId }: GitHubVerificationRequest = await req.json();
+    const body: GitHubVerificationRequest = await req.json();
+    const { repo, owner, attest } = body;
+    let { projectId } = body;
 
     if (!repo || !owner) {
       return new Response(
@@ -57,11 +348,36 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    if (!githubToken) {
+    // Attested checks use the criteria saved on the milestone, not whatever the caller sent
+    let attestationTarget: AttestationTarget | null = null;
+    let attestationError: string | null = null;
+
+    if (attest?.milestoneId) {
+      try {
+        attestationTarget = await loadAttestationTarget(attest.milestoneId);
+        const config = attestationTarget.verificationConfig;
+
+        if (attestationTarget.verificationType !== "github") {
+          attestationError = "Milestone is not verified through GitHub";
+        } else if (!sameRepo(config, owner, repo)) {
+          attestationError = "Repository does not match the milestone's verification config";
+        }
+      } catch (attestError) {
+        attestationError = attestError instanceof Error ? attestError.message : "Could not load milestone";
+      }
+
+      if (attestationError) {
+        attestationTarget = null;
+      } else {
+        projectId = attestationTarget!.projectId;
+      }
+    }
+
+    if (!projectId) {
       return new Response(
         JSON.stringify({
           verified: false,
-          error: "GitHub Personal Access Token is required"
+          error: "Missing required parameter: projectId"
         }),
         {
           status: 400,
@@ -73,26 +389,90 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const headers: HeadersInit = {
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+
+    const { data: project } = await supabase
+      .from("projects")
+      .select("id, client_id, freelancer_id, github_repo_url")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    const { data: githubMilestones } = await supabase
+      .from("milestones")
+      .select("verification_config")
+      .eq("project_id", projectId)
+      .eq("verification_type", "github");
+
+    // A project's token may only read repositories attached to that project, for its parties
+    let accessError: string | null = null;
+    let accessStatus = 403;
+    if (!caller) {
+      accessError = "Sign in to run GitHub verification";
+      accessStatus = 401;
+    } else if (!project) {
+      accessError = "Project not found";
+      accessStatus = 404;
+    } else if (caller.kind === "user" && caller.userId !== project.client_id && caller.userId !== project.freelancer_id) {
+      accessError = "Only the project's client or freelancer can run GitHub verification";
+    } else if (
+      !sameRepo(parseRepoUrl(project.github_repo_url), owner, repo) &&
+      !(githubMilestones || []).some((m) => sameRepo(m.verification_config, owner, repo))
+    ) {
+      accessError = "Repository is not attached to this project";
+    }
+
+    if (accessError) {
+      return new Response(
+        JSON.stringify({ verified: false, error: accessError }),
+        {
+          status: accessStatus,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const connection = await getProjectGitHubConnection(supabase, project!, owner, repo);
+
+    const criteria = pickCriteria(attestationTarget ? attestationTarget.verificationConfig : body);
+    const branch = criteria.branch || "main";
+    const minCommits = criteria.minCommits ?? 1;
+
+    const headers: Record<string, string> = {
       "Accept": "application/vnd.github.v3+json",
       "User-Agent": "QIE-Freelance-Oracle",
-      "Authorization": `token ${githubToken}`,
     };
-
-    let url = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${branch}`;
-    if (since) {
-      url += `&since=${since}`;
+    if (connection) {
+      headers["Authorization"] = `token ${connection.accessToken}`;
     }
+    const apiBase = `https://api.github.com/repos/${owner}/${repo}`;
 
-    const response = await fetch(url, { headers });
+    let commitsUrl = `${apiBase}/commits?sha=${encodeURIComponent(branch)}`;
+    if (criteria.since) {
+      commitsUrl += `&since=${criteria.since}`;
+    }
+    if (criteria.authorLogin) {
+      commitsUrl += `&author=${encodeURIComponent(criteria.authorLogin)}`;
+    }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+    let commits: GitHubCommit[];
+    try {
+      commits = await fetchAllPages<GitHubCommit>(commitsUrl, headers);
+    } catch (apiError) {
+      if (!(apiError instanceof GitHubApiError)) throw apiError;
+      // GitHub answers 404 for private repositories it is not allowed to show
+      const needsGitHubConnection = !connection && apiError.status === 404;
       return new Response(
         JSON.stringify({
           verified: false,
-          error: `GitHub API error: ${response.status}`,
-          details: errorData,
+          error: needsGitHubConnection
+            ? "Repository not found. If it is private, the freelancer must connect GitHub and link it on the project page."
+            : apiError.message,
+          details: apiError.details,
+          ...(needsGitHubConnection ? { needsGitHubConnection } : {}),
         }),
         {
           status: 200,
@@ -104,20 +484,77 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const commits: GitHubCommit[] = await response.json();
+    // The author query also matches commit emails, so confirm the linked account
+    if (criteria.authorLogin) {
+      const login = criteria.authorLogin.toLowerCase();
+      commits = commits.filter((c) => c.author?.login?.toLowerCase() === login);
+    }
+
+    const criteriaResults: CriterionResult[] = [];
+    let matchedFiles: Record<string, string[]> = {};
+
+    try {
+      if (criteria.pathGlob) {
+        const filtered = await filterCommitsByPath(apiBase, headers, commits, criteria.pathGlob);
+        commits = filtered.commits;
+        matchedFiles = filtered.files;
+      }
 
-    const verified = commits.length >= minCommits;
+      criteriaResults.push({
+        name: "commits",
+        passed: commits.length >= minCommits,
+        detail: `${commits.length} of ${minCommits} required commit(s) on ${branch}` +
+          (criteria.authorLogin ? ` by ${criteria.authorLogin}` : "") +
+          (criteria.pathGlob ? ` touching ${criteria.pathGlob}` : ""),
+        matched: commits.slice(0, 5).map((c) => ({
+          id: c.sha,
+          url: c.html_url,
+          date: c.commit.author.date,
+        })),
+      });
+
+      if (criteria.prLabel) {
+        criteriaResults.push(await checkMergedPullRequest(apiBase, headers, branch, criteria.prLabel, criteria));
+      }
+
+      if (criteria.requireChecks) {
+        const ref = commits[0]?.sha || branch;
+        criteriaResults.push(await checkCommitChecks(apiBase, headers, ref));
+      }
+
+      if (criteria.tagPattern) {
+        criteriaResults.push(await checkTag(apiBase, headers, criteria.tagPattern));
+      }
+
+      if (criteria.requireRelease) {
+        criteriaResults.push(await checkRelease(apiBase, headers, criteria.tagPattern));
+      }
+    } catch (apiError) {
+      if (!(apiError instanceof GitHubApiError)) throw apiError;
+      return new Response(
+        JSON.stringify({
+          verified: false,
+          error: apiError.message,
+          details: apiError.details,
+          criteria: criteriaResults,
+        }),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const verified = criteriaResults.every((c) => c.passed);
 
     const latestCommit = commits[0];
     const commitCount = commits.length;
 
-    if (projectId && latestCommit && Deno.env.get('SUPABASE_URL') && Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    if (latestCommit) {
       try {
-        const supabase = createClient(
-          Deno.env.get('SUPABASE_URL')!,
-          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-        );
-
         const updateData: any = {
           commit_count: commitCount,
           latest_commit_sha: latestCommit.sha,
@@ -137,27 +574,54 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    const result: Record<string, unknown> = {
+      verified,
+      commitCount: commits.length,
+      minCommits,
+      latestCommit: latestCommit ? {
+        sha: latestCommit.sha.substring(0, 7),
+        fullSha: latestCommit.sha,
+        url: latestCommit.html_url,
+        message: latestCommit.commit.message.split('\n')[0],
+        author: latestCommit.commit.author.name,
+        date: latestCommit.commit.author.date,
+      } : null,
+      commits: commits.slice(0, 5).map(c => ({
+        sha: c.sha.substring(0, 7),
+        fullSha: c.sha,
+        message: c.commit.message.split('\n')[0],
+        author: c.commit.author.name,
+        login: c.author?.login ?? null,
+        date: c.commit.author.date,
+        files: matchedFiles[c.sha],
+      })),
+      criteria: criteriaResults,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (attest?.milestoneId && verified) {
+      let attestation: OracleAttestation | null = null;
+
+      if (!attestationError && !isAttestationEnabled()) {
+        attestationError = "Oracle signing key is not configured";
+      }
+
+      if (attestationTarget && !attestationError) {
+        try {
+          attestation = await signAttestation(attestationTarget, result);
+        } catch (attestError) {
+          attestationError = attestError instanceof Error ? attestError.message : "Could not sign attestation";
+        }
+      }
+
+      result.attestation = attestation;
+      if (attestationError) {
+        result.attestationError = attestationError;
+      }
+    }
+
     return new Response(
-      JSON.stringify({
-        verified,
-        commitCount: commits.length,
-        minCommits,
-        latestCommit: latestCommit ? {
-          sha: latestCommit.sha.substring(0, 7),
-          fullSha: latestCommit.sha,
-          url: latestCommit.html_url,
-          message: latestCommit.commit.message.split('\n')[0],
-          author: latestCommit.commit.author.name,
-          date: latestCommit.commit.author.date,
-        } : null,
-        commits: commits.slice(0, 5).map(c => ({
-          sha: c.sha.substring(0, 7),
-          message: c.commit.message.split('\n')[0],
-          author: c.commit.author.name,
-          date: c.commit.author.date,
-        })),
-        timestamp: new Date().toISOString(),
-      }),
+      JSON.stringify(result),
       {
         status: 200,
         headers: {
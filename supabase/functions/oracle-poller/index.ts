@@ -0,0 +1,205 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { hashOracleEvidence } from "../_shared/attestation.ts";
+import { ORACLE_PLUGINS, OracleResponse, buildOracleRequest, getOraclePlugin } from "../_shared/oracles/index.ts";
+import { createServiceClient, getCaller } from "../_shared/supabase.ts";
+
+// Scheduled oracle polling. Runs every oracle-checked milestone the freelancer has submitted,
+// records the result in verification_logs, marks passing milestones verified and starts the next
+// pending milestone of the project. Only the service role (Supabase cron) may call it.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface PollerRequest {
+  projectId?: string;
+}
+
+interface MilestoneRow {
+  id: string;
+  project_id: string;
+  order_index: number;
+  status: string;
+  verification_type: string;
+  verification_config: Record<string, unknown> | null;
+}
+
+interface MilestoneSummary {
+  milestoneId: string;
+  projectId: string;
+  verificationType: string;
+  verified: boolean;
+  advancedMilestoneId: string | null;
+  error?: string;
+}
+
+const POLL_BATCH_SIZE = parseInt(Deno.env.get("ORACLE_POLL_BATCH_SIZE") || "25");
+const POLL_INTERVAL_MINUTES = parseInt(Deno.env.get("ORACLE_POLL_INTERVAL_MINUTES") || "60");
+// Only submitted work is verified, as verify_milestone requires of the client
+const POLLED_STATUSES = ["submitted"];
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// Calls the oracle the same way the app does, but as the service role
+async function runOracle(endpoint: string, milestone: MilestoneRow): Promise<OracleResponse> {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${endpoint}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(buildOracleRequest(milestone, milestone.project_id)),
+  });
+
+  const result = await response.json().catch(() => ({ verified: false, error: `${endpoint} returned ${response.status}` }));
+  return { ...result, verified: response.ok && !!result.verified };
+}
+
+// Starts the project's next pending milestone unless one is already in progress (see the state machine migration)
+async function advanceProject(supabase: SupabaseClient, milestone: MilestoneRow): Promise<string | null> {
+  const { data, error } = await supabase.rpc("advance_project_milestones", { p_project_id: milestone.project_id });
+  if (error) throw error;
+  return data ?? null;
+}
+
+async function pollMilestone(supabase: SupabaseClient, milestone: MilestoneRow): Promise<MilestoneSummary> {
+  const summary: MilestoneSummary = {
+    milestoneId: milestone.id,
+    projectId: milestone.project_id,
+    verificationType: milestone.verification_type,
+    verified: false,
+    advancedMilestoneId: null,
+  };
+
+  const checkedAt = new Date().toISOString();
+  await supabase
+    .from("milestones")
+    .update({ last_oracle_check_at: checkedAt })
+    .eq("id", milestone.id);
+
+  const plugin = getOraclePlugin(milestone.verification_type);
+  const result = await runOracle(plugin!.endpoint!, milestone);
+  const evidenceHash = result.verified
+    ? hashOracleEvidence(milestone.id, milestone.verification_type, result)
+    : null;
+
+  const { error: logError } = await supabase.from("verification_logs").insert({
+    milestone_id: milestone.id,
+    verification_type: milestone.verification_type,
+    oracle_response: result,
+    status: result.verified ? "success" : "failed",
+    error_message: result.verified ? null : result.error ?? null,
+    evidence_hash: evidenceHash,
+  });
+  if (logError) throw logError;
+
+  if (!result.verified) {
+    summary.error = result.error;
+    return summary;
+  }
+
+  // The status guard skips milestones a party disputed, verified or paid while the oracle ran
+  const { data: updated } = await supabase
+    .from("milestones")
+    .update({
+      status: "verified",
+      verified_at: checkedAt,
+      verification_hash: evidenceHash,
+    })
+    .eq("id", milestone.id)
+    .in("status", POLLED_STATUSES)
+    .select("id")
+    .maybeSingle();
+
+  summary.verified = !!updated;
+  if (updated) {
+    summary.advancedMilestoneId = await advanceProject(supabase, milestone);
+  }
+
+  return summary;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { projectId }: PollerRequest = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+    if (caller?.kind !== "service") {
+      return jsonResponse({ error: "The oracle poller only runs as the service role" }, 403);
+    }
+
+    const polledTypes = ORACLE_PLUGINS.filter((p) => p.endpoint).map((p) => p.type);
+    const cutoff = new Date(Date.now() - POLL_INTERVAL_MINUTES * 60 * 1000).toISOString();
+
+    // Least recently checked first, so a large backlog is worked through over several runs
+    let query = supabase
+      .from("milestones")
+      .select("id, project_id, order_index, status, verification_type, verification_config, projects!inner(status, escrow_contract_address)")
+      .in("status", POLLED_STATUSES)
+      .in("verification_type", polledTypes)
+      .eq("projects.status", "active")
+      .not("projects.escrow_contract_address", "is", null)
+      .or(`last_oracle_check_at.is.null,last_oracle_check_at.lt.${cutoff}`)
+      .order("last_oracle_check_at", { ascending: true, nullsFirst: true })
+      .limit(POLL_BATCH_SIZE);
+
+    if (projectId) {
+      query = query.eq("project_id", projectId);
+    }
+
+    const { data: milestones, error } = await query;
+    if (error) throw error;
+
+    const results: MilestoneSummary[] = [];
+    for (const milestone of (milestones || []) as MilestoneRow[]) {
+      try {
+        results.push(await pollMilestone(supabase, milestone));
+      } catch (milestoneError) {
+        console.error(`Error polling milestone ${milestone.id}:`, milestoneError);
+        results.push({
+          milestoneId: milestone.id,
+          projectId: milestone.project_id,
+          verificationType: milestone.verification_type,
+          verified: false,
+          advancedMilestoneId: null,
+          error: milestoneError instanceof Error ? milestoneError.message : String(milestoneError),
+        });
+      }
+    }
+
+    return jsonResponse({
+      checked: results.length,
+      verified: results.filter((r) => r.verified).length,
+      advanced: results.filter((r) => r.advancedMilestoneId).length,
+      milestones: results,
+    });
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error occurred" },
+      500
+    );
+  }
+});
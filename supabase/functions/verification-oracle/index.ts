@@ -0,0 +1,110 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { AttestationRequest, OracleAttestation, isAttestationEnabled, loadAttestationTarget, signAttestation } from "../_shared/attestation.ts";
+import { OracleResponse, getOraclePlugin } from "../_shared/oracles/index.ts";
+import { createServiceClient, getCaller } from "../_shared/supabase.ts";
+
+// Runs the oracle plugins that carry their own verify function (GitLab, HTTP check, smoke check).
+// The config always comes from the milestone row, so callers cannot check something other than what was agreed.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface VerificationRequest {
+  milestoneId: string;
+  attest?: AttestationRequest;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { milestoneId, attest }: VerificationRequest = await req.json();
+
+    if (!milestoneId) {
+      return jsonResponse({ verified: false, error: "Missing required parameter: milestoneId" }, 400);
+    }
+
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+    if (!caller) {
+      return jsonResponse({ verified: false, error: "Sign in to run verification" }, 401);
+    }
+
+    const { data: milestone } = await supabase
+      .from("milestones")
+      .select("id, verification_type, verification_config, projects(client_id, freelancer_id)")
+      .eq("id", milestoneId)
+      .maybeSingle();
+
+    const project: { client_id: string; freelancer_id: string | null } | null | undefined = Array.isArray(milestone?.projects) ? milestone.projects[0] : milestone?.projects;
+    if (!milestone || !project) {
+      return jsonResponse({ verified: false, error: "Milestone not found" }, 404);
+    }
+
+    if (caller.kind === "user" && caller.userId !== project.client_id && caller.userId !== project.freelancer_id) {
+      return jsonResponse({ verified: false, error: "Only the project's client or freelancer can run verification" }, 403);
+    }
+
+    const plugin = getOraclePlugin(milestone.verification_type);
+    if (!plugin?.verify) {
+      return jsonResponse(
+        { verified: false, error: `${milestone.verification_type} milestones are not checked by this oracle` },
+        400
+      );
+    }
+
+    const result: OracleResponse = await plugin.verify(milestone.verification_config || {}, {
+      env: (name) => Deno.env.get(name),
+    });
+
+    if (attest?.milestoneId && result.verified) {
+      let attestation: OracleAttestation | null = null;
+      let attestationError: string | null = null;
+
+      if (attest.milestoneId !== milestoneId) {
+        attestationError = "Attestation must be for the milestone that was checked";
+      } else if (!isAttestationEnabled()) {
+        attestationError = "Oracle signing key is not configured";
+      } else {
+        try {
+          attestation = await signAttestation(await loadAttestationTarget(milestoneId), result);
+        } catch (attestError) {
+          attestationError = attestError instanceof Error ? attestError.message : "Could not sign attestation";
+        }
+      }
+
+      result.attestation = attestation;
+      if (attestationError) {
+        result.attestationError = attestationError;
+      }
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    return jsonResponse(
+      {
+        verified: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      500
+    );
+  }
+});
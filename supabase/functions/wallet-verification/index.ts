@@ -0,0 +1,120 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getAddress, isAddress, verifyMessage } from "npm:ethers@6.15.0";
+import { createServiceClient, getCaller } from "../_shared/supabase.ts";
+
+// Wallet ownership proof. The user signs a one-time challenge with their wallet and this function
+// writes the recovered address to profiles.verified_wallet_address, which is what grants arbiter
+// access. profiles.wallet_address is set by the user and proves nothing.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+type WalletVerificationRequest =
+  | { action: "challenge"; walletAddress: string }
+  | { action: "verify"; walletAddress: string; nonce: string; signature: string };
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// The text the wallet signs; rebuilt from the stored challenge when checking the signature
+function challengeMessage(walletAddress: string, nonce: string) {
+  return [
+    "Link this wallet to your Freelance Pay account.",
+    "",
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+  ].join("\n");
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const caller = await getCaller(supabase, req);
+    if (caller?.kind !== "user") {
+      return jsonResponse({ error: "Sign in to verify a wallet" }, 401);
+    }
+
+    const request: WalletVerificationRequest = await req.json();
+    if (!isAddress(request.walletAddress)) {
+      return jsonResponse({ error: "Invalid wallet address" }, 400);
+    }
+    const walletAddress = getAddress(request.walletAddress);
+
+    if (request.action === "challenge") {
+      const nonce = crypto.randomUUID();
+      const { error } = await supabase
+        .from("wallet_challenges")
+        .insert({ nonce, user_id: caller.userId, wallet_address: walletAddress });
+
+      if (error) throw error;
+      return jsonResponse({ nonce, message: challengeMessage(walletAddress, nonce) });
+    }
+
+    if (request.action === "verify") {
+      // Deleting the challenge as it is read makes each nonce single-use
+      const { data: challenge } = await supabase
+        .from("wallet_challenges")
+        .delete()
+        .eq("nonce", request.nonce)
+        .eq("user_id", caller.userId)
+        .select("wallet_address, expires_at")
+        .maybeSingle();
+
+      if (!challenge || new Date(challenge.expires_at) < new Date()) {
+        return jsonResponse({ error: "Wallet verification expired. Please try again." }, 400);
+      }
+      if (getAddress(challenge.wallet_address) !== walletAddress) {
+        return jsonResponse({ error: "The challenge was issued for another wallet" }, 400);
+      }
+
+      let signer: string;
+      try {
+        signer = verifyMessage(challengeMessage(walletAddress, request.nonce), request.signature);
+      } catch {
+        return jsonResponse({ error: "Invalid signature" }, 400);
+      }
+      if (signer !== walletAddress) {
+        return jsonResponse({ error: "The signature is not from this wallet" }, 403);
+      }
+
+      // A wallet belongs to one account; proving it elsewhere moves it
+      await supabase
+        .from("profiles")
+        .update({ verified_wallet_address: null })
+        .ilike("verified_wallet_address", walletAddress)
+        .neq("id", caller.userId);
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ wallet_address: walletAddress, verified_wallet_address: walletAddress })
+        .eq("id", caller.userId);
+
+      if (error) throw error;
+      return jsonResponse({ walletAddress });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error occurred" },
+      500
+    );
+  }
+});
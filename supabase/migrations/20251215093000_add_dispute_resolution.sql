@@ -0,0 +1,23 @@
+/*
+  # Add Dispute Resolution
+
+  1. Changes
+    - Add `arbiter_address` to projects: the neutral wallet set on the escrow at deploy time
+    - Allow `disputed` as a milestone status
+    - Add `dispute_reason`, `disputed_by`, `disputed_at` and `dispute_resolved_at` to milestones
+
+  2. Notes
+    - A disputed milestone is locked on-chain until the arbiter calls resolveDispute
+    - Once the ruling is read back from the contract the milestone moves to `paid`
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS arbiter_address text;
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS dispute_reason text;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS disputed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS disputed_at timestamptz;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS dispute_resolved_at timestamptz;
+
+ALTER TABLE milestones DROP CONSTRAINT IF EXISTS milestones_status_check;
+ALTER TABLE milestones ADD CONSTRAINT milestones_status_check
+  CHECK (status IN ('pending', 'in_progress', 'submitted', 'verified', 'disputed', 'paid'));
@@ -0,0 +1,16 @@
+/*
+  # Add Milestone Review Window
+
+  1. Changes
+    - Add `review_period_seconds` to milestones: how long the client has to review a submission
+    - Add `review_deadline` to milestones: on-chain submission time plus the review period
+    - Add `submission_tx_hash` to milestones: the submitMilestone transaction that started the window
+
+  2. Notes
+    - The values mirror the escrow contract; a review period of 0 disables auto-release
+    - Existing milestones default to 7 days, matching the CreateProject default
+*/
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS review_period_seconds integer NOT NULL DEFAULT 604800;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS review_deadline timestamptz;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS submission_tx_hash text;
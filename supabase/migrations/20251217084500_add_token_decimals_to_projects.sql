@@ -0,0 +1,12 @@
+/*
+  # Add Payment Token Decimals to Projects
+
+  1. Changes
+    - Add `token_decimals` to projects so amounts can be scaled for ERC20 payment tokens
+
+  2. Notes
+    - `token_address` and `token_symbol` already exist; the zero address means native QIE
+    - Existing projects are native QIE escrows, so the default is 18
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS token_decimals integer NOT NULL DEFAULT 18;
@@ -0,0 +1,13 @@
+/*
+  # Add Deployment Details to Project Tokens
+
+  1. Changes
+    - Add `transaction_hash` to project_tokens: the ProjectToken deployment transaction
+    - Add `owner_address` to project_tokens: the wallet that deployed the token and holds the initial supply
+
+  2. Notes
+    - Rows written by the old stub have no transaction hash and never existed on-chain
+*/
+
+ALTER TABLE project_tokens ADD COLUMN IF NOT EXISTS transaction_hash text;
+ALTER TABLE project_tokens ADD COLUMN IF NOT EXISTS owner_address text;
@@ -0,0 +1,15 @@
+/*
+  # Add Escrow Indexer State
+
+  1. Changes
+    - Add `last_indexed_block` to projects: the highest block the escrow-indexer function has processed
+    - Add an index on transactions.transaction_hash for matching chain events to existing rows
+
+  2. Notes
+    - NULL means the project has never been indexed; the indexer then starts from the escrow's deployment block
+    - The indexer runs with the service role key, so no new RLS policies are needed
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_indexed_block bigint;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transaction_hash ON transactions(transaction_hash);
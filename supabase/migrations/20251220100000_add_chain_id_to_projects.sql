@@ -0,0 +1,14 @@
+/*
+  # Add Network to Projects
+
+  1. Changes
+    - Add `chain_id` to `projects` so each escrow records the chain it was deployed on
+
+  2. Notes
+    - Existing projects were all deployed on QIE testnet, so the column defaults to 1983
+    - The escrow-indexer picks its RPC endpoint from this value
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS chain_id integer NOT NULL DEFAULT 1983;
+
+CREATE INDEX IF NOT EXISTS idx_projects_chain_id ON projects(chain_id);
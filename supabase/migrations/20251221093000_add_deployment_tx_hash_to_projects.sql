@@ -0,0 +1,13 @@
+/*
+  # Track Pending Escrow Deployments
+
+  1. Changes
+    - Add `deployment_tx_hash` to `projects`
+
+  2. Notes
+    - A project whose deployment has not confirmed yet is saved as `draft` with this hash and no
+      `escrow_contract_address`; the client's pending-transaction watcher fills the address in
+      from the receipt once it is mined
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deployment_tx_hash text;
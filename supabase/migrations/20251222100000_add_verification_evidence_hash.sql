@@ -0,0 +1,15 @@
+/*
+  # Verification Evidence Hashes
+
+  1. Changes
+    - Add `evidence_hash` to `verification_logs`: keccak256 over the canonical evidence built from `oracle_response`
+    - Add `verification_hash` to `milestones`: the evidence hash committed on-chain through verifyMilestone
+
+  2. Notes
+    - The hash is always recomputable from `oracle_response` (see src/lib/evidence.ts); the stored
+      copy only makes lookups and audits cheaper
+*/
+
+ALTER TABLE verification_logs ADD COLUMN IF NOT EXISTS evidence_hash text;
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS verification_hash text;
@@ -0,0 +1,66 @@
+/*
+  # Server-Side GitHub Connections
+
+  1. New Tables
+    - `github_connections`: one OAuth token per user, written by the github-oauth edge function
+      - `user_id` (uuid, primary key, references profiles)
+      - `github_login` (text): the connected GitHub account; NULL for migrated personal access tokens
+      - `access_token` (text)
+      - `scope` (text)
+    - `github_oauth_states`: short-lived `state` values for the OAuth redirect
+
+  2. Changes
+    - Add `github_login` to profiles so the UI can show which account is connected
+    - Move pasted tokens from `profiles.github_token` and `milestones.verification_config.githubToken`
+      into `github_connections`, then remove them from both places
+    - Drop `profiles.github_token`
+
+  3. Security
+    - RLS is enabled on both new tables with no policies, so only the service role (edge functions)
+      can read tokens. Profiles are readable by every authenticated user, which is why tokens
+      no longer live there.
+*/
+
+CREATE TABLE IF NOT EXISTS github_connections (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  github_login text,
+  access_token text NOT NULL,
+  scope text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE github_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS github_oauth_states (
+  state text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '10 minutes'),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE github_oauth_states ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS github_login text;
+
+-- Profile tokens first, then tokens pasted into milestones (attributed to the project's client, who entered them)
+INSERT INTO github_connections (user_id, access_token, scope)
+SELECT id, github_token, 'legacy_pat'
+FROM profiles
+WHERE github_token IS NOT NULL AND github_token <> ''
+ON CONFLICT (user_id) DO NOTHING;
+
+INSERT INTO github_connections (user_id, access_token, scope)
+SELECT DISTINCT ON (p.client_id) p.client_id, m.verification_config->>'githubToken', 'legacy_pat'
+FROM milestones m
+JOIN projects p ON p.id = m.project_id
+WHERE m.verification_config ? 'githubToken'
+  AND coalesce(m.verification_config->>'githubToken', '') <> ''
+ORDER BY p.client_id, m.created_at DESC
+ON CONFLICT (user_id) DO NOTHING;
+
+UPDATE milestones
+SET verification_config = verification_config - 'githubToken'
+WHERE verification_config ? 'githubToken';
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS github_token;
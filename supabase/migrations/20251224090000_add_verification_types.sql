@@ -0,0 +1,55 @@
+/*
+  # Pluggable Verification Types
+
+  1. New Tables
+    - `verification_types`: the oracle plugins a milestone can use
+      - `type` (text, primary key): matches the plugin's type in supabase/functions/_shared/oracles
+      - `label` (text)
+      - `endpoint` (text): edge function that runs the check; NULL for manual approval
+      - `enabled` (boolean): disabled types stay valid for existing milestones but cannot be picked for new ones
+
+  2. Changes
+    - Replace the CHECK constraint on `milestones.verification_type` with a foreign key to
+      `verification_types`, so new oracle types are added with a row instead of a schema change
+    - Seed manual, github, figma, gitlab, http_check and smoke_check
+
+  3. Security
+    - RLS enabled; authenticated users can read the list, only migrations change it
+*/
+
+CREATE TABLE IF NOT EXISTS verification_types (
+  type text PRIMARY KEY,
+  label text NOT NULL,
+  endpoint text,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO verification_types (type, label, endpoint) VALUES
+  ('manual', 'Manual', NULL),
+  ('github', 'GitHub', 'github-oracle'),
+  ('figma', 'Figma', 'figma-oracle'),
+  ('gitlab', 'GitLab', 'verification-oracle'),
+  ('http_check', 'HTTP Check', 'verification-oracle'),
+  ('smoke_check', 'Smoke Check', 'verification-oracle')
+ON CONFLICT (type) DO NOTHING;
+
+ALTER TABLE verification_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view verification types"
+  ON verification_types FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE milestones DROP CONSTRAINT IF EXISTS milestones_verification_type_check;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'milestones_verification_type_fkey'
+  ) THEN
+    ALTER TABLE milestones
+      ADD CONSTRAINT milestones_verification_type_fkey
+      FOREIGN KEY (verification_type) REFERENCES verification_types(type);
+  END IF;
+END $$;
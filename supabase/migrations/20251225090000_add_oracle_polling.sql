@@ -0,0 +1,15 @@
+/*
+  # Scheduled Oracle Polling
+
+  1. Changes
+    - Add `last_oracle_check_at` (timestamptz) to milestones: when the oracle-poller edge function
+      last evaluated the milestone. The poller works through milestones least recently checked first
+      and skips any checked within `ORACLE_POLL_INTERVAL_MINUTES`.
+
+  2. Notes
+    - Schedule oracle-poller with Supabase cron (see README, Scheduled Oracle Polling)
+*/
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS last_oracle_check_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_milestones_last_oracle_check_at ON milestones(last_oracle_check_at);
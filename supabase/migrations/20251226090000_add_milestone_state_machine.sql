@@ -0,0 +1,261 @@
+/*
+  # Milestone State Machine
+
+  1. Changes
+    - Signed-in users can no longer change `milestones.status` with a plain UPDATE. A trigger rejects it
+      unless the change comes from one of the functions below, each of which checks the caller's role
+      and the milestone's current status:
+      - `start_milestone(p_milestone_id)`: client, pending → in_progress
+      - `submit_milestone(p_milestone_id, p_submitted_at, p_review_deadline, p_submission_tx_hash)`:
+        freelancer, in_progress → submitted
+      - `verify_milestone(p_milestone_id)`: client, in_progress or submitted → verified; starts the
+        project's next pending milestone
+      - `raise_milestone_dispute(p_milestone_id, p_reason)`: client or freelancer,
+        in_progress, submitted or verified → disputed
+    - `advance_project_milestones(p_project_id)`: moves the lowest pending milestone to in_progress when
+      none is in progress; used by verify_milestone and the oracle-poller edge function
+    - New milestones must start as `pending`
+
+  2. Notes
+    - Nothing a user calls can mark a milestone `paid`. The escrow-indexer edge function does that from
+      the escrow's MilestonePaid and DisputeResolved events, so only confirmed chain payments count.
+    - The service role (escrow-indexer, oracle-poller) is not restricted: it reconciles statuses with
+      the chain, which can mean moving them in any direction.
+*/
+
+-- Transitions a signed-in user may cause, always through the functions below
+CREATE OR REPLACE FUNCTION milestone_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'in_progress'),
+    ('in_progress', 'submitted'),
+    ('in_progress', 'verified'),
+    ('submitted', 'verified'),
+    ('in_progress', 'disputed'),
+    ('submitted', 'disputed'),
+    ('verified', 'disputed')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_milestone_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Only requests made with a user's or the anon key are restricted
+  IF coalesce(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending' THEN
+      RAISE EXCEPTION 'New milestones must start as pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.milestone_transition', true) IS DISTINCT FROM NEW.id::text THEN
+    RAISE EXCEPTION 'Milestone status can only be changed through the milestone functions';
+  END IF;
+
+  IF NOT milestone_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Milestone cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_milestone_status ON milestones;
+CREATE TRIGGER enforce_milestone_status
+  BEFORE INSERT OR UPDATE OF status ON milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_milestone_status();
+
+/*
+  Locks the milestone, checks the caller and current status, and allows the trigger to accept one
+  status change for it in this transaction. p_actor is 'client', 'freelancer' or 'party'.
+*/
+CREATE OR REPLACE FUNCTION begin_milestone_transition(p_milestone_id uuid, p_actor text, p_from text[])
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+  v_project projects;
+BEGIN
+  SELECT * INTO v_milestone FROM milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  SELECT * INTO v_project FROM projects WHERE id = v_milestone.project_id;
+
+  IF p_actor = 'client' AND v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  ELSIF p_actor = 'freelancer' AND v_project.freelancer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s freelancer can do this';
+  ELSIF p_actor = 'party' AND auth.uid() IS DISTINCT FROM v_project.client_id
+    AND auth.uid() IS DISTINCT FROM v_project.freelancer_id THEN
+    RAISE EXCEPTION 'Only the project''s client or freelancer can do this';
+  END IF;
+
+  IF NOT (v_milestone.status = ANY (p_from)) THEN
+    RAISE EXCEPTION 'Milestone is %, expected %', v_milestone.status, array_to_string(p_from, ' or ');
+  END IF;
+
+  PERFORM set_config('app.milestone_transition', p_milestone_id::text, true);
+  RETURN v_milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION advance_project_milestones(p_project_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM milestones WHERE project_id = p_project_id AND status = 'in_progress') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_next_id
+  FROM milestones
+  WHERE project_id = p_project_id AND status = 'pending'
+  ORDER BY order_index
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_next_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.milestone_transition', v_next_id::text, true);
+  UPDATE milestones SET status = 'in_progress', updated_at = now() WHERE id = v_next_id;
+  RETURN v_next_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_milestone(p_milestone_id uuid)
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+BEGIN
+  PERFORM begin_milestone_transition(p_milestone_id, 'client', ARRAY['pending']);
+
+  UPDATE milestones
+  SET status = 'in_progress', updated_at = now()
+  WHERE id = p_milestone_id
+  RETURNING * INTO v_milestone;
+
+  RETURN v_milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_milestone(
+  p_milestone_id uuid,
+  p_submitted_at timestamptz,
+  p_review_deadline timestamptz,
+  p_submission_tx_hash text
+)
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+BEGIN
+  PERFORM begin_milestone_transition(p_milestone_id, 'freelancer', ARRAY['in_progress']);
+
+  UPDATE milestones
+  SET status = 'submitted',
+      submitted_at = coalesce(p_submitted_at, now()),
+      review_deadline = p_review_deadline,
+      submission_tx_hash = p_submission_tx_hash,
+      updated_at = now()
+  WHERE id = p_milestone_id
+  RETURNING * INTO v_milestone;
+
+  RETURN v_milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_milestone(p_milestone_id uuid)
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+BEGIN
+  PERFORM begin_milestone_transition(p_milestone_id, 'client', ARRAY['in_progress', 'submitted']);
+
+  UPDATE milestones
+  SET status = 'verified', verified_at = now(), updated_at = now()
+  WHERE id = p_milestone_id
+  RETURNING * INTO v_milestone;
+
+  PERFORM advance_project_milestones(v_milestone.project_id);
+  RETURN v_milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION raise_milestone_dispute(p_milestone_id uuid, p_reason text)
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A dispute needs a reason';
+  END IF;
+
+  PERFORM begin_milestone_transition(p_milestone_id, 'party', ARRAY['in_progress', 'submitted', 'verified']);
+
+  UPDATE milestones
+  SET status = 'disputed',
+      dispute_reason = trim(p_reason),
+      disputed_by = auth.uid(),
+      disputed_at = now(),
+      updated_at = now()
+  WHERE id = p_milestone_id
+  RETURNING * INTO v_milestone;
+
+  RETURN v_milestone;
+END;
+$$;
+
+-- The helpers run only inside the functions above (and the service role for advancing)
+REVOKE EXECUTE ON FUNCTION begin_milestone_transition(uuid, text, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_project_milestones(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION advance_project_milestones(uuid) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION start_milestone(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION submit_milestone(uuid, timestamptz, timestamptz, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION verify_milestone(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION raise_milestone_dispute(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_milestone(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_milestone(uuid, timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_milestone(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION raise_milestone_dispute(uuid, text) TO authenticated;
@@ -0,0 +1,191 @@
+/*
+  # Atomic Project Creation
+
+  1. Changes
+    - `create_project(p_project, p_milestones)`: inserts a draft project and all of its milestones in
+      one transaction, so a failure leaves neither behind. The caller becomes the client, the total
+      is the sum of the milestone amounts and every milestone starts as `pending`.
+    - `attach_project_escrow(p_project_id, p_escrow_address, p_deployment_tx_hash)`: client only.
+      Records the deployment transaction and, once known, the escrow address of a draft project, then
+      starts its first milestone. Calling it again with the same address does nothing.
+    - `discard_draft_project(p_project_id)`: client only. Deletes a draft whose escrow was never
+      deployed, together with its milestones.
+
+  2. Notes
+    - The app writes the draft before deploying, so a deployed escrow always has a project to link
+      to. The project stays a draft until the escrow-indexer sees the escrow's FundsDeposited event.
+*/
+
+CREATE OR REPLACE FUNCTION create_project(p_project jsonb, p_milestones jsonb)
+RETURNS projects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone jsonb;
+  v_index integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a project';
+  END IF;
+
+  IF jsonb_typeof(p_milestones) IS DISTINCT FROM 'array' OR jsonb_array_length(p_milestones) = 0 THEN
+    RAISE EXCEPTION 'A project needs at least one milestone';
+  END IF;
+
+  IF coalesce(trim(p_project->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'A project needs a title';
+  END IF;
+
+  IF (p_project->>'freelancer_id')::uuid = auth.uid() THEN
+    RAISE EXCEPTION 'The freelancer must be someone other than the client';
+  END IF;
+
+  INSERT INTO projects (
+    title,
+    description,
+    client_id,
+    freelancer_id,
+    total_amount,
+    token_address,
+    token_symbol,
+    token_decimals,
+    chain_id,
+    github_repo_url,
+    arbiter_address,
+    status
+  )
+  VALUES (
+    trim(p_project->>'title'),
+    coalesce(p_project->>'description', ''),
+    auth.uid(),
+    (p_project->>'freelancer_id')::uuid,
+    (SELECT sum((m->>'amount')::numeric) FROM jsonb_array_elements(p_milestones) AS m),
+    p_project->>'token_address',
+    coalesce(p_project->>'token_symbol', 'QIE'),
+    coalesce((p_project->>'token_decimals')::integer, 18),
+    coalesce((p_project->>'chain_id')::integer, 1983),
+    p_project->>'github_repo_url',
+    p_project->>'arbiter_address',
+    'draft'
+  )
+  RETURNING * INTO v_project;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(p_milestones) LOOP
+    IF coalesce((v_milestone->>'amount')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Milestone % needs an amount above zero', v_index + 1;
+    END IF;
+
+    INSERT INTO milestones (
+      project_id,
+      title,
+      description,
+      amount,
+      verification_type,
+      verification_config,
+      review_period_seconds,
+      order_index,
+      status
+    )
+    VALUES (
+      v_project.id,
+      v_milestone->>'title',
+      coalesce(v_milestone->>'description', ''),
+      (v_milestone->>'amount')::numeric,
+      coalesce(v_milestone->>'verification_type', 'manual'),
+      coalesce(v_milestone->'verification_config', '{}'::jsonb),
+      coalesce((v_milestone->>'review_period_seconds')::integer, 604800),
+      v_index,
+      'pending'
+    );
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_project;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION attach_project_escrow(
+  p_project_id uuid,
+  p_escrow_address text,
+  p_deployment_tx_hash text
+)
+RETURNS projects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  END IF;
+
+  IF v_project.escrow_contract_address IS NOT NULL THEN
+    IF p_escrow_address IS NOT NULL AND lower(v_project.escrow_contract_address) = lower(p_escrow_address) THEN
+      RETURN v_project;
+    END IF;
+    RAISE EXCEPTION 'Project is already linked to escrow %', v_project.escrow_contract_address;
+  END IF;
+
+  IF v_project.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only a draft project can be linked to an escrow';
+  END IF;
+
+  UPDATE projects
+  SET escrow_contract_address = p_escrow_address,
+      deployment_tx_hash = coalesce(p_deployment_tx_hash, deployment_tx_hash),
+      updated_at = now()
+  WHERE id = p_project_id
+  RETURNING * INTO v_project;
+
+  -- Work starts once there is an escrow to pay it out
+  IF p_escrow_address IS NOT NULL THEN
+    PERFORM advance_project_milestones(p_project_id);
+  END IF;
+
+  RETURN v_project;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION discard_draft_project(p_project_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  END IF;
+
+  IF v_project.status <> 'draft' OR v_project.escrow_contract_address IS NOT NULL THEN
+    RAISE EXCEPTION 'Only a draft without an escrow can be discarded';
+  END IF;
+
+  DELETE FROM projects WHERE id = p_project_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_project(jsonb, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION attach_project_escrow(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION discard_draft_project(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_project(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION attach_project_escrow(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION discard_draft_project(uuid) TO authenticated;
@@ -0,0 +1,157 @@
+/*
+  # Staged Escrow Funding
+
+  1. Changes
+    - Add `staged_funding` (boolean, default false) to projects. A staged escrow is funded a few
+      milestones at a time through the contract's `fundMilestones(count)` instead of all at once.
+    - Add `funded_at` (timestamptz) to milestones. The escrow-indexer fills it from the escrow's
+      `MilestonesFunded` events, or for every milestone on `FundsDeposited` of a project that is not
+      staged.
+    - `create_project` accepts `staged_funding` in `p_project`
+    - `advance_project_milestones` no longer starts an unfunded milestone of a staged project; the
+      indexer advances the project once the milestone is funded
+
+  2. Notes
+    - Existing active and completed projects were funded in full, so their milestones are backfilled
+      as funded
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS staged_funding boolean NOT NULL DEFAULT false;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS funded_at timestamptz;
+
+UPDATE milestones
+SET funded_at = projects.updated_at
+FROM projects
+WHERE milestones.project_id = projects.id
+  AND projects.status IN ('active', 'completed')
+  AND milestones.funded_at IS NULL;
+
+CREATE OR REPLACE FUNCTION create_project(p_project jsonb, p_milestones jsonb)
+RETURNS projects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone jsonb;
+  v_index integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a project';
+  END IF;
+
+  IF jsonb_typeof(p_milestones) IS DISTINCT FROM 'array' OR jsonb_array_length(p_milestones) = 0 THEN
+    RAISE EXCEPTION 'A project needs at least one milestone';
+  END IF;
+
+  IF coalesce(trim(p_project->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'A project needs a title';
+  END IF;
+
+  IF (p_project->>'freelancer_id')::uuid = auth.uid() THEN
+    RAISE EXCEPTION 'The freelancer must be someone other than the client';
+  END IF;
+
+  INSERT INTO projects (
+    title,
+    description,
+    client_id,
+    freelancer_id,
+    total_amount,
+    token_address,
+    token_symbol,
+    token_decimals,
+    chain_id,
+    github_repo_url,
+    arbiter_address,
+    staged_funding,
+    status
+  )
+  VALUES (
+    trim(p_project->>'title'),
+    coalesce(p_project->>'description', ''),
+    auth.uid(),
+    (p_project->>'freelancer_id')::uuid,
+    (SELECT sum((m->>'amount')::numeric) FROM jsonb_array_elements(p_milestones) AS m),
+    p_project->>'token_address',
+    coalesce(p_project->>'token_symbol', 'QIE'),
+    coalesce((p_project->>'token_decimals')::integer, 18),
+    coalesce((p_project->>'chain_id')::integer, 1983),
+    p_project->>'github_repo_url',
+    p_project->>'arbiter_address',
+    coalesce((p_project->>'staged_funding')::boolean, false),
+    'draft'
+  )
+  RETURNING * INTO v_project;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(p_milestones) LOOP
+    IF coalesce((v_milestone->>'amount')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Milestone % needs an amount above zero', v_index + 1;
+    END IF;
+
+    INSERT INTO milestones (
+      project_id,
+      title,
+      description,
+      amount,
+      verification_type,
+      verification_config,
+      review_period_seconds,
+      order_index,
+      status
+    )
+    VALUES (
+      v_project.id,
+      v_milestone->>'title',
+      coalesce(v_milestone->>'description', ''),
+      (v_milestone->>'amount')::numeric,
+      coalesce(v_milestone->>'verification_type', 'manual'),
+      coalesce(v_milestone->'verification_config', '{}'::jsonb),
+      coalesce((v_milestone->>'review_period_seconds')::integer, 604800),
+      v_index,
+      'pending'
+    );
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_project;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION advance_project_milestones(p_project_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_id uuid;
+  v_funded boolean;
+BEGIN
+  IF EXISTS (SELECT 1 FROM milestones WHERE project_id = p_project_id AND status = 'in_progress') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, funded_at IS NOT NULL INTO v_next_id, v_funded
+  FROM milestones
+  WHERE project_id = p_project_id AND status = 'pending'
+  ORDER BY order_index
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_next_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Work on a staged project only starts once the escrow holds the milestone's funds
+  IF NOT v_funded AND (SELECT staged_funding FROM projects WHERE id = p_project_id) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.milestone_transition', v_next_id::text, true);
+  UPDATE milestones SET status = 'in_progress', updated_at = now() WHERE id = v_next_id;
+  RETURN v_next_id;
+END;
+$$;
@@ -0,0 +1,180 @@
+/*
+  # Milestone Change Orders
+
+  1. New Tables
+    - `milestone_change_orders`: amendments to a project's milestones after its escrow is deployed
+      - `kind` (text): `add`, `reprice` or `remove`
+      - `milestone_id` (uuid): the amended milestone; for `add`, filled in once the milestone exists
+      - `order_index` (integer): the milestone's index in the escrow; for `add`, set on acceptance
+      - `previous_amount`, `new_amount` (numeric)
+      - `title`, `description`, `verification_type`, `verification_config`, `review_period_seconds`:
+        the terms of an added milestone
+      - `reason` (text): the client's explanation for the freelancer
+      - `status` (text): `proposed`, `accepted`, `rejected` (by the freelancer) or `withdrawn` (by
+        the client)
+      - `chain_change_order_id` (integer): the change order's id in the escrow
+      - `proposal_tx_hash`, `response_tx_hash` (text)
+
+  2. Changes
+    - `propose_change_order(p_project_id, p_change)`: client only. Records a change order the client
+      has proposed on the escrow.
+    - Milestones gain a `cancelled` status for milestones removed by a change order
+
+  3. Security
+    - Both parties can read a project's change orders. Rows are only written by
+      `propose_change_order` and by the escrow-indexer (service role).
+
+  4. Notes
+    - The escrow is the source of truth: the escrow-indexer marks change orders accepted, rejected or
+      withdrawn from the escrow's events and applies accepted ones to the milestones
+*/
+
+CREATE TABLE IF NOT EXISTS milestone_change_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('add', 'reprice', 'remove')),
+  milestone_id uuid REFERENCES milestones(id) ON DELETE SET NULL,
+  order_index integer,
+  previous_amount numeric,
+  new_amount numeric NOT NULL DEFAULT 0,
+  title text,
+  description text,
+  verification_type text,
+  verification_config jsonb,
+  review_period_seconds integer,
+  reason text,
+  status text NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'accepted', 'rejected', 'withdrawn')),
+  chain_change_order_id integer,
+  proposed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  proposal_tx_hash text,
+  response_tx_hash text,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, chain_change_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_milestone_change_orders_project_id ON milestone_change_orders(project_id);
+
+ALTER TABLE milestone_change_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project parties can view change orders"
+  ON milestone_change_orders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = milestone_change_orders.project_id
+        AND (projects.client_id = auth.uid() OR projects.freelancer_id = auth.uid())
+    )
+  );
+
+ALTER TABLE milestones DROP CONSTRAINT IF EXISTS milestones_status_check;
+ALTER TABLE milestones ADD CONSTRAINT milestones_status_check
+  CHECK (status IN ('pending', 'in_progress', 'submitted', 'verified', 'disputed', 'paid', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION propose_change_order(p_project_id uuid, p_change jsonb)
+RETURNS milestone_change_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone milestones;
+  v_kind text := p_change->>'kind';
+  v_new_amount numeric := coalesce((p_change->>'new_amount')::numeric, 0);
+  v_change_order milestone_change_orders;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  END IF;
+
+  IF v_project.escrow_contract_address IS NULL OR v_project.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Change orders need a deployed escrow on an open project';
+  END IF;
+
+  IF v_kind IS NULL OR v_kind NOT IN ('add', 'reprice', 'remove') THEN
+    RAISE EXCEPTION 'Unknown change order kind %', v_kind;
+  END IF;
+
+  IF v_kind = 'add' THEN
+    IF coalesce(trim(p_change->>'title'), '') = '' THEN
+      RAISE EXCEPTION 'A new milestone needs a title';
+    END IF;
+  ELSE
+    SELECT * INTO v_milestone
+    FROM milestones
+    WHERE id = (p_change->>'milestone_id')::uuid AND project_id = p_project_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Milestone not found on this project';
+    END IF;
+
+    IF v_milestone.status NOT IN ('pending', 'in_progress') THEN
+      RAISE EXCEPTION 'Only milestones nothing has been submitted for can be changed';
+    END IF;
+  END IF;
+
+  IF v_kind = 'remove' THEN
+    v_new_amount := 0;
+  ELSIF v_new_amount <= 0 THEN
+    RAISE EXCEPTION 'The milestone needs an amount above zero';
+  END IF;
+
+  INSERT INTO milestone_change_orders (
+    project_id,
+    kind,
+    milestone_id,
+    order_index,
+    previous_amount,
+    new_amount,
+    title,
+    description,
+    verification_type,
+    verification_config,
+    review_period_seconds,
+    reason,
+    chain_change_order_id,
+    proposed_by,
+    proposal_tx_hash
+  )
+  VALUES (
+    p_project_id,
+    v_kind,
+    v_milestone.id,
+    v_milestone.order_index,
+    v_milestone.amount,
+    v_new_amount,
+    CASE WHEN v_kind = 'add' THEN trim(p_change->>'title') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->>'description', '') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->>'verification_type', 'manual') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->'verification_config', '{}'::jsonb) END,
+    CASE WHEN v_kind = 'add' THEN coalesce((p_change->>'review_period_seconds')::integer, 604800) END,
+    p_change->>'reason',
+    (p_change->>'chain_change_order_id')::integer,
+    auth.uid(),
+    p_change->>'proposal_tx_hash'
+  )
+  -- The indexer may have seen the proposal first; the client's copy adds the off-chain details
+  ON CONFLICT (project_id, chain_change_order_id) DO UPDATE
+  SET title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      verification_type = EXCLUDED.verification_type,
+      verification_config = EXCLUDED.verification_config,
+      review_period_seconds = EXCLUDED.review_period_seconds,
+      reason = EXCLUDED.reason,
+      proposed_by = EXCLUDED.proposed_by,
+      previous_amount = coalesce(milestone_change_orders.previous_amount, EXCLUDED.previous_amount),
+      proposal_tx_hash = coalesce(milestone_change_orders.proposal_tx_hash, EXCLUDED.proposal_tx_hash)
+  RETURNING * INTO v_change_order;
+
+  RETURN v_change_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION propose_change_order(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION propose_change_order(uuid, jsonb) TO authenticated;
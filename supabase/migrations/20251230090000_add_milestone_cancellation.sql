@@ -0,0 +1,23 @@
+/*
+  # Per-Milestone Cancellation
+
+  1. Changes
+    - Add to milestones:
+      - `cancellation_requested_at` (timestamptz): the client asked to cancel submitted or verified
+        work, which waits for the freelancer's approval
+      - `cancellation_kill_fee_bps` (integer): the kill fee of that request, in basis points of the
+        milestone amount
+      - `cancelled_at` (timestamptz)
+      - `kill_fee_amount` (numeric): what the freelancer was paid for a cancelled milestone
+
+  2. Notes
+    - All four columns are written by the escrow-indexer from the escrow's
+      `MilestoneCancellationRequested` and `MilestoneCancelled` events; the milestone becomes
+      `cancelled`. Refunds to the client are recorded as `refund` transactions from `FundsRefunded`,
+      and a kill fee as a `milestone_payment`.
+*/
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS cancellation_requested_at timestamptz;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS cancellation_kill_fee_bps integer;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS kill_fee_amount numeric;
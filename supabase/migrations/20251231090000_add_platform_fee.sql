@@ -0,0 +1,122 @@
+/*
+  # Platform Fee
+
+  1. Changes
+    - Add to projects:
+      - `platform_fee_bps` (integer, default 0): the share of each milestone payment the escrow sends
+        to the platform, in basis points
+      - `platform_fee_recipient` (text): the wallet receiving it
+    - Add to transactions:
+      - `fee_amount` (numeric, default 0): the platform fee taken from a milestone payment
+      - `fee_recipient` (text)
+    - `create_project` accepts `platform_fee_bps` and `platform_fee_recipient` in `p_project`
+
+  2. Notes
+    - The fee is fixed when the escrow is deployed. The escrow-indexer fills in the fee columns of
+      `milestone_payment` transactions from the fee in the escrow's `MilestonePaid` event; the
+      transaction's `amount` is what the freelancer received.
+    - Existing escrows take no fee
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS platform_fee_bps integer NOT NULL DEFAULT 0;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS platform_fee_recipient text;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_amount numeric NOT NULL DEFAULT 0;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_recipient text;
+
+CREATE OR REPLACE FUNCTION create_project(p_project jsonb, p_milestones jsonb)
+RETURNS projects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone jsonb;
+  v_index integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a project';
+  END IF;
+
+  IF jsonb_typeof(p_milestones) IS DISTINCT FROM 'array' OR jsonb_array_length(p_milestones) = 0 THEN
+    RAISE EXCEPTION 'A project needs at least one milestone';
+  END IF;
+
+  IF coalesce(trim(p_project->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'A project needs a title';
+  END IF;
+
+  IF (p_project->>'freelancer_id')::uuid = auth.uid() THEN
+    RAISE EXCEPTION 'The freelancer must be someone other than the client';
+  END IF;
+
+  INSERT INTO projects (
+    title,
+    description,
+    client_id,
+    freelancer_id,
+    total_amount,
+    token_address,
+    token_symbol,
+    token_decimals,
+    chain_id,
+    github_repo_url,
+    arbiter_address,
+    staged_funding,
+    platform_fee_bps,
+    platform_fee_recipient,
+    status
+  )
+  VALUES (
+    trim(p_project->>'title'),
+    coalesce(p_project->>'description', ''),
+    auth.uid(),
+    (p_project->>'freelancer_id')::uuid,
+    (SELECT sum((m->>'amount')::numeric) FROM jsonb_array_elements(p_milestones) AS m),
+    p_project->>'token_address',
+    coalesce(p_project->>'token_symbol', 'QIE'),
+    coalesce((p_project->>'token_decimals')::integer, 18),
+    coalesce((p_project->>'chain_id')::integer, 1983),
+    p_project->>'github_repo_url',
+    p_project->>'arbiter_address',
+    coalesce((p_project->>'staged_funding')::boolean, false),
+    coalesce((p_project->>'platform_fee_bps')::integer, 0),
+    p_project->>'platform_fee_recipient',
+    'draft'
+  )
+  RETURNING * INTO v_project;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(p_milestones) LOOP
+    IF coalesce((v_milestone->>'amount')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Milestone % needs an amount above zero', v_index + 1;
+    END IF;
+
+    INSERT INTO milestones (
+      project_id,
+      title,
+      description,
+      amount,
+      verification_type,
+      verification_config,
+      review_period_seconds,
+      order_index,
+      status
+    )
+    VALUES (
+      v_project.id,
+      v_milestone->>'title',
+      coalesce(v_milestone->>'description', ''),
+      (v_milestone->>'amount')::numeric,
+      coalesce(v_milestone->>'verification_type', 'manual'),
+      coalesce(v_milestone->'verification_config', '{}'::jsonb),
+      coalesce((v_milestone->>'review_period_seconds')::integer, 604800),
+      v_index,
+      'pending'
+    );
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_project;
+END;
+$$;
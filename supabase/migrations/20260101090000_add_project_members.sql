@@ -0,0 +1,305 @@
+/*
+  # Project Members and Milestone Payees
+
+  1. New Tables
+    - `project_members`: the freelancers working on a project
+      - `freelancer_id` (uuid): the member's profile
+      - `wallet_address` (text): the wallet the escrow pays, as it was when the project was created
+      - `role` (text): `lead` for the project's `freelancer_id`, otherwise `member`
+
+  2. Changes
+    - Add `payees` (jsonb, default `[]`) to milestones: `[{ freelancer_id, wallet_address, share_bps }]`,
+      the team members a milestone's payouts are split between. An empty list pays the lead freelancer.
+    - `create_project` accepts `members` in `p_project` (`[{ freelancer_id }]`) and `payees` on each
+      milestone (`[{ freelancer_id, share_bps }]`), and records the lead and members in `project_members`
+    - `begin_milestone_transition` lets a milestone's payees act as its freelancer, so an assigned team
+      member can submit their milestone
+    - Existing projects get their freelancer as lead member
+
+  3. Security
+    - Team members can view the project, its milestones, verification logs, transactions, change orders
+      and members. `is_project_member` checks membership outside the policies of `project_members`, so
+      the policies do not recurse. Only `create_project` writes to `project_members`.
+
+  4. Notes
+    - The escrow holds each milestone's payee wallets and shares; `payees` mirrors what it was created
+      with. The lead freelancer still accepts change orders, approves cancellations and raises
+      disputes for the team, and milestones added by a change order pay the lead.
+*/
+
+CREATE TABLE IF NOT EXISTS project_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  freelancer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  wallet_address text,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('lead', 'member')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, freelancer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_members_freelancer_id ON project_members(freelancer_id);
+
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS payees jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+INSERT INTO project_members (project_id, freelancer_id, wallet_address, role)
+SELECT projects.id, projects.freelancer_id, profiles.wallet_address, 'lead'
+FROM projects
+JOIN profiles ON profiles.id = projects.freelancer_id
+ON CONFLICT (project_id, freelancer_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION is_project_member(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_id = p_project_id AND freelancer_id = auth.uid()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_project_member(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_project_member(uuid) TO authenticated;
+
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project parties can view members"
+  ON project_members FOR SELECT
+  TO authenticated
+  USING (
+    is_project_member(project_id) OR
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_members.project_id
+        AND (projects.client_id = auth.uid() OR projects.freelancer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Project members can view team projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (is_project_member(id));
+
+CREATE POLICY "Project members can view team milestones"
+  ON milestones FOR SELECT
+  TO authenticated
+  USING (is_project_member(project_id));
+
+CREATE POLICY "Project members can view team verification logs"
+  ON verification_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM milestones
+      WHERE milestones.id = verification_logs.milestone_id
+        AND is_project_member(milestones.project_id)
+    )
+  );
+
+CREATE POLICY "Project members can view team transactions"
+  ON transactions FOR SELECT
+  TO authenticated
+  USING (is_project_member(project_id));
+
+CREATE POLICY "Project members can view team change orders"
+  ON milestone_change_orders FOR SELECT
+  TO authenticated
+  USING (is_project_member(project_id));
+
+CREATE OR REPLACE FUNCTION begin_milestone_transition(p_milestone_id uuid, p_actor text, p_from text[])
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+  v_project projects;
+BEGIN
+  SELECT * INTO v_milestone FROM milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  SELECT * INTO v_project FROM projects WHERE id = v_milestone.project_id;
+
+  IF p_actor = 'client' AND v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  ELSIF p_actor = 'freelancer' AND v_project.freelancer_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_milestone.payees) AS payee
+      WHERE (payee->>'freelancer_id')::uuid = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'Only the project''s freelancer or the milestone''s assignees can do this';
+  ELSIF p_actor = 'party' AND auth.uid() IS DISTINCT FROM v_project.client_id
+    AND auth.uid() IS DISTINCT FROM v_project.freelancer_id THEN
+    RAISE EXCEPTION 'Only the project''s client or freelancer can do this';
+  END IF;
+
+  IF NOT (v_milestone.status = ANY (p_from)) THEN
+    RAISE EXCEPTION 'Milestone is %, expected %', v_milestone.status, array_to_string(p_from, ' or ');
+  END IF;
+
+  PERFORM set_config('app.milestone_transition', p_milestone_id::text, true);
+  RETURN v_milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_project(p_project jsonb, p_milestones jsonb)
+RETURNS projects
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone jsonb;
+  v_member jsonb;
+  v_payee jsonb;
+  v_payees jsonb;
+  v_wallet text;
+  v_shares integer;
+  v_index integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a project';
+  END IF;
+
+  IF jsonb_typeof(p_milestones) IS DISTINCT FROM 'array' OR jsonb_array_length(p_milestones) = 0 THEN
+    RAISE EXCEPTION 'A project needs at least one milestone';
+  END IF;
+
+  IF coalesce(trim(p_project->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'A project needs a title';
+  END IF;
+
+  IF (p_project->>'freelancer_id')::uuid = auth.uid() THEN
+    RAISE EXCEPTION 'The freelancer must be someone other than the client';
+  END IF;
+
+  INSERT INTO projects (
+    title,
+    description,
+    client_id,
+    freelancer_id,
+    total_amount,
+    token_address,
+    token_symbol,
+    token_decimals,
+    chain_id,
+    github_repo_url,
+    arbiter_address,
+    staged_funding,
+    platform_fee_bps,
+    platform_fee_recipient,
+    status
+  )
+  VALUES (
+    trim(p_project->>'title'),
+    coalesce(p_project->>'description', ''),
+    auth.uid(),
+    (p_project->>'freelancer_id')::uuid,
+    (SELECT sum((m->>'amount')::numeric) FROM jsonb_array_elements(p_milestones) AS m),
+    p_project->>'token_address',
+    coalesce(p_project->>'token_symbol', 'QIE'),
+    coalesce((p_project->>'token_decimals')::integer, 18),
+    coalesce((p_project->>'chain_id')::integer, 1983),
+    p_project->>'github_repo_url',
+    p_project->>'arbiter_address',
+    coalesce((p_project->>'staged_funding')::boolean, false),
+    coalesce((p_project->>'platform_fee_bps')::integer, 0),
+    p_project->>'platform_fee_recipient',
+    'draft'
+  )
+  RETURNING * INTO v_project;
+
+  INSERT INTO project_members (project_id, freelancer_id, wallet_address, role)
+  SELECT v_project.id, profiles.id, profiles.wallet_address, 'lead'
+  FROM profiles
+  WHERE profiles.id = v_project.freelancer_id;
+
+  FOR v_member IN SELECT * FROM jsonb_array_elements(coalesce(p_project->'members', '[]'::jsonb)) LOOP
+    IF (v_member->>'freelancer_id')::uuid = auth.uid() THEN
+      RAISE EXCEPTION 'Team members must be someone other than the client';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (v_member->>'freelancer_id')::uuid) THEN
+      RAISE EXCEPTION 'Team member % not found', v_member->>'freelancer_id';
+    END IF;
+
+    INSERT INTO project_members (project_id, freelancer_id, wallet_address, role)
+    SELECT v_project.id, profiles.id, profiles.wallet_address, 'member'
+    FROM profiles
+    WHERE profiles.id = (v_member->>'freelancer_id')::uuid
+    ON CONFLICT (project_id, freelancer_id) DO NOTHING;
+  END LOOP;
+
+  FOR v_milestone IN SELECT * FROM jsonb_array_elements(p_milestones) LOOP
+    IF coalesce((v_milestone->>'amount')::numeric, 0) <= 0 THEN
+      RAISE EXCEPTION 'Milestone % needs an amount above zero', v_index + 1;
+    END IF;
+
+    -- Assignees are taken with the wallets recorded for the team, which the escrow pays
+    v_payees := '[]'::jsonb;
+    v_shares := 0;
+    FOR v_payee IN SELECT * FROM jsonb_array_elements(coalesce(v_milestone->'payees', '[]'::jsonb)) LOOP
+      SELECT wallet_address INTO v_wallet
+      FROM project_members
+      WHERE project_id = v_project.id AND freelancer_id = (v_payee->>'freelancer_id')::uuid;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Milestone % is assigned to someone outside the team', v_index + 1;
+      END IF;
+
+      IF v_wallet IS NULL THEN
+        RAISE EXCEPTION 'Every assignee of milestone % needs a connected wallet', v_index + 1;
+      END IF;
+
+      IF coalesce((v_payee->>'share_bps')::integer, 0) <= 0 THEN
+        RAISE EXCEPTION 'Every assignee of milestone % needs a share above zero', v_index + 1;
+      END IF;
+
+      v_shares := v_shares + (v_payee->>'share_bps')::integer;
+      v_payees := v_payees || jsonb_build_array(jsonb_build_object(
+        'freelancer_id', v_payee->>'freelancer_id',
+        'wallet_address', v_wallet,
+        'share_bps', (v_payee->>'share_bps')::integer
+      ));
+    END LOOP;
+
+    IF jsonb_array_length(v_payees) > 0 AND v_shares <> 10000 THEN
+      RAISE EXCEPTION 'The shares of milestone % must add up to 100%%', v_index + 1;
+    END IF;
+
+    INSERT INTO milestones (
+      project_id,
+      title,
+      description,
+      amount,
+      verification_type,
+      verification_config,
+      review_period_seconds,
+      payees,
+      order_index,
+      status
+    )
+    VALUES (
+      v_project.id,
+      v_milestone->>'title',
+      coalesce(v_milestone->>'description', ''),
+      (v_milestone->>'amount')::numeric,
+      coalesce(v_milestone->>'verification_type', 'manual'),
+      coalesce(v_milestone->'verification_config', '{}'::jsonb),
+      coalesce((v_milestone->>'review_period_seconds')::integer, 604800),
+      v_payees,
+      v_index,
+      'pending'
+    );
+
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_project;
+END;
+$$;
@@ -0,0 +1,50 @@
+/*
+  # Arbiter Access
+
+  1. Changes
+    - Add `is_project_arbiter(p_project_id)`: true when the caller's profile wallet is the project's
+      `arbiter_address`
+
+  2. Security
+    - The arbiter can view the project, its milestones and its transactions, so they can read the
+      dispute and rule on it from the project page. They cannot change any of them: the ruling is made
+      on the escrow and the escrow-indexer records it.
+
+  3. Notes
+    - The arbiter is a wallet set on the escrow at deploy time, so it is matched on the profile's
+      `wallet_address` rather than a user id
+*/
+
+CREATE OR REPLACE FUNCTION is_project_arbiter(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    JOIN profiles ON profiles.id = auth.uid()
+    WHERE projects.id = p_project_id
+      AND profiles.wallet_address IS NOT NULL
+      AND lower(projects.arbiter_address) = lower(profiles.wallet_address)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_project_arbiter(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_project_arbiter(uuid) TO authenticated;
+
+CREATE POLICY "Arbiters can view their projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (is_project_arbiter(id));
+
+CREATE POLICY "Arbiters can view their project milestones"
+  ON milestones FOR SELECT
+  TO authenticated
+  USING (is_project_arbiter(project_id));
+
+CREATE POLICY "Arbiters can view their project transactions"
+  ON transactions FOR SELECT
+  TO authenticated
+  USING (is_project_arbiter(project_id));
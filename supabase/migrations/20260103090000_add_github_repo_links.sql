@@ -0,0 +1,65 @@
+/*
+  # GitHub Repository Links
+
+  1. New Tables
+    - `github_repo_links`: repositories a freelancer allowed the GitHub oracle to read with their
+      connected account, per project
+      - `linked_by` (uuid): the freelancer whose GitHub connection reads the repository
+      - `owner`, `repo` (text): stored lower-case, as GitHub names are case-insensitive
+
+  2. Security
+    - The project's client, lead freelancer and team members can view the links
+    - Only the lead or a team member can link, and only under their own id; they can remove their links
+    - The client attaches repositories to milestones, so github-oracle only reads a repository with a
+      freelancer's token once that freelancer linked it. Otherwise it uses the client's connection,
+      or no token for public repositories.
+
+  3. Notes
+    - GitHub connections now come from a GitHub App with read-only repository permissions instead of
+      an OAuth App with the `repo` scope. Existing connections keep working until reconnected.
+*/
+
+CREATE TABLE IF NOT EXISTS github_repo_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  linked_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  owner text NOT NULL CHECK (owner = lower(owner)),
+  repo text NOT NULL CHECK (repo = lower(repo)),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, linked_by, owner, repo)
+);
+
+CREATE INDEX IF NOT EXISTS idx_github_repo_links_project_id ON github_repo_links(project_id);
+
+ALTER TABLE github_repo_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project parties can view repository links"
+  ON github_repo_links FOR SELECT
+  TO authenticated
+  USING (
+    is_project_member(project_id) OR
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = github_repo_links.project_id
+        AND (projects.client_id = auth.uid() OR projects.freelancer_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Freelancers can link repositories to their projects"
+  ON github_repo_links FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    linked_by = auth.uid() AND (
+      is_project_member(project_id) OR
+      EXISTS (
+        SELECT 1 FROM projects
+        WHERE projects.id = github_repo_links.project_id
+          AND projects.freelancer_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Freelancers can remove their repository links"
+  ON github_repo_links FOR DELETE
+  TO authenticated
+  USING (linked_by = auth.uid());
@@ -0,0 +1,82 @@
+/*
+  # Verified Wallets
+
+  1. Changes
+    - Add `profiles.verified_wallet_address`: the wallet the user proved they hold by signing a
+      one-time challenge, written only by the wallet-verification edge function
+    - Only one profile can hold a verified wallet at a time
+    - `is_project_arbiter` matches the project's `arbiter_address` on the verified wallet instead
+      of the self-asserted `wallet_address`
+
+  2. New Tables
+    - `wallet_challenges`: short-lived nonces the wallet-verification edge function issues and
+      checks the signature against, one use each
+
+  3. Security
+    - Users still write `wallet_address` themselves, so it grants nothing. A trigger stops them
+      writing `verified_wallet_address`, and clears it when they change `wallet_address` to
+      another wallet.
+    - RLS is enabled on `wallet_challenges` with no policies, so only the service role reads nonces
+
+  4. Notes
+    - Existing wallets start unverified: an arbiter reconnects their wallet once to see their projects
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS verified_wallet_address text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_verified_wallet_address
+  ON profiles (lower(verified_wallet_address))
+  WHERE verified_wallet_address IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION guard_verified_wallet_address()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- The edge function writes with the service role; migrations and the dashboard have no JWT
+  IF coalesce(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_wallet_address := NULL;
+  ELSIF NEW.wallet_address IS NOT NULL AND lower(NEW.wallet_address) = lower(OLD.verified_wallet_address) THEN
+    NEW.verified_wallet_address := OLD.verified_wallet_address;
+  ELSE
+    NEW.verified_wallet_address := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_verified_wallet_address ON profiles;
+CREATE TRIGGER guard_verified_wallet_address
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_verified_wallet_address();
+
+CREATE TABLE IF NOT EXISTS wallet_challenges (
+  nonce text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '10 minutes'),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE wallet_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_project_arbiter(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    JOIN profiles ON profiles.id = auth.uid()
+    WHERE projects.id = p_project_id
+      AND profiles.verified_wallet_address IS NOT NULL
+      AND lower(projects.arbiter_address) = lower(profiles.verified_wallet_address)
+  );
+$$;
@@ -0,0 +1,49 @@
+/*
+  # Require Submission Before Verification
+
+  1. Changes
+    - `milestone_transition_allowed` no longer allows `in_progress → verified`: a client can only
+      verify a milestone the freelancer has submitted
+    - `verify_milestone(p_milestone_id)` accepts only `submitted` milestones
+
+  2. Notes
+    - The oracle-poller edge function likewise only verifies submitted milestones
+    - The escrow-indexer still records a `MilestoneVerified` event on a milestone that was never
+      submitted, since the service role is not restricted and the chain is the record
+*/
+
+CREATE OR REPLACE FUNCTION milestone_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'in_progress'),
+    ('in_progress', 'submitted'),
+    ('submitted', 'verified'),
+    ('in_progress', 'disputed'),
+    ('submitted', 'disputed'),
+    ('verified', 'disputed')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION verify_milestone(p_milestone_id uuid)
+RETURNS milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone milestones;
+BEGIN
+  PERFORM begin_milestone_transition(p_milestone_id, 'client', ARRAY['submitted']);
+
+  UPDATE milestones
+  SET status = 'verified', verified_at = now(), updated_at = now()
+  WHERE id = p_milestone_id
+  RETURNING * INTO v_milestone;
+
+  PERFORM advance_project_milestones(v_milestone.project_id);
+  RETURN v_milestone;
+END;
+$$;
@@ -0,0 +1,126 @@
+/*
+  # Guard Recorded Change Orders
+
+  1. Changes
+    - `propose_change_order(p_project_id, p_change)` no longer overwrites a change order already
+      recorded under the same `chain_change_order_id` once it has been accepted, rejected or withdrawn,
+      or when its kind, milestone or amount differ. It raises an error instead.
+
+  2. Notes
+    - An open proposal the escrow-indexer recorded first still gains the client's off-chain details
+      (title, description, verification, reason), as before
+*/
+
+CREATE OR REPLACE FUNCTION propose_change_order(p_project_id uuid, p_change jsonb)
+RETURNS milestone_change_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects;
+  v_milestone milestones;
+  v_kind text := p_change->>'kind';
+  v_new_amount numeric := coalesce((p_change->>'new_amount')::numeric, 0);
+  v_change_order milestone_change_orders;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF v_project.client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the project''s client can do this';
+  END IF;
+
+  IF v_project.escrow_contract_address IS NULL OR v_project.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Change orders need a deployed escrow on an open project';
+  END IF;
+
+  IF v_kind IS NULL OR v_kind NOT IN ('add', 'reprice', 'remove') THEN
+    RAISE EXCEPTION 'Unknown change order kind %', v_kind;
+  END IF;
+
+  IF v_kind = 'add' THEN
+    IF coalesce(trim(p_change->>'title'), '') = '' THEN
+      RAISE EXCEPTION 'A new milestone needs a title';
+    END IF;
+  ELSE
+    SELECT * INTO v_milestone
+    FROM milestones
+    WHERE id = (p_change->>'milestone_id')::uuid AND project_id = p_project_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Milestone not found on this project';
+    END IF;
+
+    IF v_milestone.status NOT IN ('pending', 'in_progress') THEN
+      RAISE EXCEPTION 'Only milestones nothing has been submitted for can be changed';
+    END IF;
+  END IF;
+
+  IF v_kind = 'remove' THEN
+    v_new_amount := 0;
+  ELSIF v_new_amount <= 0 THEN
+    RAISE EXCEPTION 'The milestone needs an amount above zero';
+  END IF;
+
+  INSERT INTO milestone_change_orders (
+    project_id,
+    kind,
+    milestone_id,
+    order_index,
+    previous_amount,
+    new_amount,
+    title,
+    description,
+    verification_type,
+    verification_config,
+    review_period_seconds,
+    reason,
+    chain_change_order_id,
+    proposed_by,
+    proposal_tx_hash
+  )
+  VALUES (
+    p_project_id,
+    v_kind,
+    v_milestone.id,
+    v_milestone.order_index,
+    v_milestone.amount,
+    v_new_amount,
+    CASE WHEN v_kind = 'add' THEN trim(p_change->>'title') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->>'description', '') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->>'verification_type', 'manual') END,
+    CASE WHEN v_kind = 'add' THEN coalesce(p_change->'verification_config', '{}'::jsonb) END,
+    CASE WHEN v_kind = 'add' THEN coalesce((p_change->>'review_period_seconds')::integer, 604800) END,
+    p_change->>'reason',
+    (p_change->>'chain_change_order_id')::integer,
+    auth.uid(),
+    p_change->>'proposal_tx_hash'
+  )
+  -- The indexer may have seen the proposal first; the client's copy adds the off-chain details, but
+  -- only to an open proposal with the same terms
+  ON CONFLICT (project_id, chain_change_order_id) DO UPDATE
+  SET title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      verification_type = EXCLUDED.verification_type,
+      verification_config = EXCLUDED.verification_config,
+      review_period_seconds = EXCLUDED.review_period_seconds,
+      reason = EXCLUDED.reason,
+      proposed_by = EXCLUDED.proposed_by,
+      previous_amount = coalesce(milestone_change_orders.previous_amount, EXCLUDED.previous_amount),
+      proposal_tx_hash = coalesce(milestone_change_orders.proposal_tx_hash, EXCLUDED.proposal_tx_hash)
+  WHERE milestone_change_orders.status = 'proposed'
+    AND milestone_change_orders.kind = EXCLUDED.kind
+    AND milestone_change_orders.milestone_id IS NOT DISTINCT FROM EXCLUDED.milestone_id
+    AND milestone_change_orders.new_amount = EXCLUDED.new_amount
+  RETURNING * INTO v_change_order;
+
+  IF v_change_order.id IS NULL THEN
+    RAISE EXCEPTION 'Change order % is already recorded with other terms or has been answered',
+      p_change->>'chain_change_order_id';
+  END IF;
+
+  RETURN v_change_order;
+END;
+$$;